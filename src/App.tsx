@@ -8,6 +8,10 @@ import { IssueList, IssueDetail } from './components/IssueViews';
 import { TimelineView } from './components/TimelineView';
 import { RulesDashboard, LegalDocDetail, AgreementDetail } from './components/RulesViews';
 import { AssistantView } from './components/AssistantView';
+import { SearchView } from './components/SearchView';
+import { ScheduleView } from './components/ScheduleView';
+import { LedgerView } from './components/LedgerView';
+import { FlagReviewView } from './components/FlagReviewView';
 import { Login } from './components/Login';
 import { supabase } from './lib/supabase';
 
@@ -56,6 +60,14 @@ export default function App() {
           <Route path="rules/agreements/:id" element={<AgreementDetail />} />
           
           <Route path="timeline" element={<TimelineView />} />
+
+          <Route path="schedule" element={<ScheduleView />} />
+
+          <Route path="ledger" element={<LedgerView />} />
+
+          <Route path="search" element={<SearchView />} />
+
+          <Route path="flags" element={<FlagReviewView />} />
           
           <Route path="*" element={<Navigate to="/" replace />} />
         </Route>
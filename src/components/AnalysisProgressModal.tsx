@@ -1,10 +1,12 @@
 import { X } from 'lucide-react';
-import { AnalysisProgress } from '../utils/sseAnalysisClient';
+import { AnalysisProgress } from '../types/analysisTypes';
 
 interface AnalysisProgressModalProps {
   isOpen: boolean;
   progress: AnalysisProgress | null;
   onCancel: () => void;
+  // Closes the modal while the server-side run keeps going
+  onRunInBackground?: () => void;
 }
 
 const STAGE_DESCRIPTIONS: Record<string, string> = {
@@ -21,12 +23,17 @@ const STAGE_DESCRIPTIONS: Record<string, string> = {
 export function AnalysisProgressModal({ 
   isOpen, 
   progress, 
-  onCancel 
+  onCancel,
+  onRunInBackground
 }: AnalysisProgressModalProps) {
   if (!isOpen) return null;
 
+  // Chunked stages advance through their share of the bar window by window
+  const stageFraction = progress?.totalChunks
+    ? (progress.stageNumber - 1 + (progress.chunkNumber || 0) / progress.totalChunks)
+    : progress?.stageNumber || 0;
   const percentComplete = progress 
-    ? Math.round((progress.stageNumber / progress.totalStages) * 100)
+    ? Math.round((stageFraction / progress.totalStages) * 100)
     : 0;
 
   return (
@@ -62,6 +69,11 @@ export function AnalysisProgressModal({
 
             <div className="text-center">
               <p className="font-medium text-foreground">{progress.stageName}</p>
+              {progress.totalChunks && progress.chunkNumber ? (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Section {progress.chunkNumber} of {progress.totalChunks}
+                </p>
+              ) : null}
               <p className="text-sm text-muted-foreground mt-1">
                 {STAGE_DESCRIPTIONS[progress.stage] || 'Processing...'}
               </p>
@@ -79,6 +91,20 @@ export function AnalysisProgressModal({
         <p className="text-xs text-muted-foreground text-center mt-4">
           This may take 1-2 minutes for longer conversations
         </p>
+
+        {onRunInBackground && (
+          <div className="text-center mt-3">
+            <button
+              onClick={onRunInBackground}
+              className="text-sm font-medium text-primary hover:underline"
+            >
+              Continue in background
+            </button>
+            <p className="text-xs text-muted-foreground mt-1">
+              The analysis keeps running if you close this page and is applied the next time the conversation is opened.
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { api } from '../services/api';
+import { AnalysisVersion, ConversationAnalysis, Person } from '../types';
+import { diffAnalysisVersions, isEmptyDiff, DiffFlag, ItemDiff } from '../utils/analysisDiff';
+import { History, ChevronDown, ChevronUp, Plus, Minus } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface AnalysisVersionHistoryProps {
+  conversationId: string;
+  // Reloads the history whenever the current analysis changes
+  analysis: ConversationAnalysis;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  analysis: 'Analysis',
+  amendment: 'Amended summary',
+  backfill: 'Earlier analysis'
+};
+
+const versionLabel = (version: AnalysisVersion, number: number): string =>
+  `v${number} · ${SOURCE_LABELS[version.source] || version.source} · ${format(new Date(version.createdAt), 'MMM d, yyyy h:mm a')}`;
+
+const DiffList = <T,>({ title, diff, render }: {
+  title: string;
+  diff: ItemDiff<T>;
+  render: (item: T) => React.ReactNode;
+}) => {
+  if (diff.added.length === 0 && diff.dropped.length === 0) return null;
+  return (
+    <div>
+      <h5 className="text-xs font-medium text-foreground mb-1">{title}</h5>
+      <ul className="space-y-1">
+        {diff.added.map((item, i) => (
+          <li key={`added-${i}`} className="flex items-start gap-1.5 text-sm text-emerald-700">
+            <Plus className="w-3 h-3 mt-1 flex-shrink-0" />
+            <span>{render(item)}</span>
+          </li>
+        ))}
+        {diff.dropped.map((item, i) => (
+          <li key={`dropped-${i}`} className="flex items-start gap-1.5 text-sm text-red-700 line-through decoration-red-300">
+            <Minus className="w-3 h-3 mt-1 flex-shrink-0" />
+            <span>{render(item)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export const AnalysisVersionHistory: React.FC<AnalysisVersionHistoryProps> = ({ conversationId, analysis }) => {
+  const [versions, setVersions] = useState<AnalysisVersion[]>([]);
+  const [people, setPeople] = useState<Person[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [olderId, setOlderId] = useState('');
+  const [newerId, setNewerId] = useState('');
+
+  useEffect(() => {
+    api.getAnalysisVersions(conversationId).then(loaded => {
+      setVersions(loaded);
+      // Default to the two most recent versions
+      setNewerId(loaded[0]?.id || '');
+      setOlderId(loaded[1]?.id || '');
+    });
+  }, [conversationId, analysis]);
+
+  useEffect(() => {
+    if (isOpen && people.length === 0) api.getPeople().then(setPeople);
+  }, [isOpen]);
+
+  const older = versions.find(v => v.id === olderId);
+  const newer = versions.find(v => v.id === newerId);
+  const diff = useMemo(() => older && newer ? diffAnalysisVersions(older, newer) : null, [older, newer]);
+
+  if (versions.length < 2) return null;
+
+  // Versions are listed newest first; number them oldest first
+  const numberOf = (version: AnalysisVersion) => versions.length - versions.indexOf(version);
+  const personName = (id: string) => people.find(p => p.id === id)?.fullName || 'Unknown';
+
+  const renderMeta = (version: AnalysisVersion) => (
+    <div className="text-xs text-muted-foreground space-y-0.5">
+      <p>
+        {version.model || 'Unknown model'}
+        {version.promptVersion && <> · prompts {version.promptVersion}</>}
+        {version.faithfulness && version.faithfulness.quotesChecked > 0 && (
+          <> · {version.faithfulness.quotesVerified}/{version.faithfulness.quotesChecked} quotes verified</>
+        )}
+      </p>
+      {version.userGuidance && <p className="italic">Guidance: “{version.userGuidance}”</p>}
+    </div>
+  );
+
+  return (
+    <div>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between text-xs font-semibold text-muted-foreground uppercase tracking-wide"
+      >
+        <span className="flex items-center gap-1">
+          <History className="w-3 h-3" />
+          History ({versions.length} versions)
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {[
+              { label: 'From', value: olderId, onChange: setOlderId, version: older },
+              { label: 'To', value: newerId, onChange: setNewerId, version: newer }
+            ].map(picker => (
+              <div key={picker.label} className="space-y-1">
+                <label className="block text-xs text-muted-foreground">{picker.label}</label>
+                <select
+                  value={picker.value}
+                  onChange={(e) => picker.onChange(e.target.value)}
+                  className="w-full px-2 py-1.5 border border-border rounded-lg bg-background text-foreground text-sm focus:ring-2 focus:ring-primary focus:border-primary"
+                >
+                  {versions.map(v => (
+                    <option key={v.id} value={v.id}>{versionLabel(v, numberOf(v))}</option>
+                  ))}
+                </select>
+                {picker.version && renderMeta(picker.version)}
+              </div>
+            ))}
+          </div>
+
+          {diff && (isEmptyDiff(diff) ? (
+            <p className="text-sm text-muted-foreground">No differences between these versions.</p>
+          ) : (
+            <div className="space-y-3 bg-muted/30 border border-border rounded-lg p-3">
+              {diff.toneChange && (
+                <p className="text-sm text-foreground">
+                  Tone changed from <span className="font-medium">{diff.toneChange.from}</span> to{' '}
+                  <span className="font-medium">{diff.toneChange.to}</span>
+                </p>
+              )}
+              <DiffList title="Summary sentences" diff={diff.summarySentences} render={s => s} />
+              <DiffList
+                title="Message flags"
+                diff={diff.flags}
+                render={(f: DiffFlag) => (
+                  <>
+                    <span className="font-medium">{f.type.replace(/_/g, ' ')}</span> ({personName(f.attributedToPersonId)}): {f.description}
+                  </>
+                )}
+              />
+              <DiffList
+                title="Issue actions"
+                diff={diff.issueActions}
+                render={(a: any) => (
+                  <>
+                    <span className="font-medium">{a.action === 'update' ? 'Update' : 'Create'}:</span> {a.title}
+                  </>
+                )}
+              />
+              <DiffList
+                title="Agreement violations"
+                diff={diff.violations}
+                render={(v: any) => (
+                  <>
+                    <span className="font-medium">{v.violationType}:</span> {v.description}
+                  </>
+                )}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
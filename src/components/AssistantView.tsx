@@ -1,26 +1,174 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { api } from '../services/api';
-import { chatWithAssistant, processStream } from '../services/ai';
-import { AssistantSession, AssistantMessage, AssistantSenderType } from '../types';
-import { Plus, Send, Paperclip, Bot, User, FileText, ArrowRight, Loader2, Trash2, Database } from 'lucide-react';
+import { chatWithAssistant, processStream, saveAssistantAnswer } from '../services/ai';
+import {
+  AssistantSession, AssistantMessage, AssistantSenderType, AssistantCitation, CitationTargetType,
+  AssistantAction, AssistantWriteToolName, Person
+} from '../types';
+import { applyAssistantAction, summarizeAction } from '../services/assistantTools';
+import { citationHref, citationKey, extractCitationRefs, isUnsupportedAnswer, splitCitations } from '../utils/citations';
+import {
+  Plus, Send, Paperclip, Bot, User, FileText, ArrowRight, Loader2, Trash2, Database, AlertTriangle,
+  MessageSquare, Handshake, Scale, Calendar, AlertCircle, StickyNote, Check, X
+} from 'lucide-react';
 import { format } from 'date-fns';
 import { Link } from 'react-router-dom';
 
-const FormattedText: React.FC<{ text: string }> = ({ text }) => {
+const CITATION_ICONS: Record<CitationTargetType, React.ElementType> = {
+  message: MessageSquare,
+  agreement_item: Handshake,
+  legal_clause: Scale
+};
+
+const CitationChip: React.FC<{ number: number; citation?: AssistantCitation }> = ({ number, citation }) => {
+  // Still streaming; citations are resolved once the answer is saved
+  if (!citation) {
+    return <span className="inline-block align-baseline mx-0.5 px-1.5 rounded bg-muted text-muted-foreground text-[10px] font-medium">{number}</span>;
+  }
+
+  const href = citationHref(citation);
+  if (!href) {
+    return (
+      <span
+        className="inline-flex items-center gap-1 align-baseline mx-0.5 px-1.5 rounded bg-destructive/10 text-destructive text-[10px] font-medium"
+        title="This citation does not match any record in the case file"
+      >
+        <AlertTriangle className="w-2.5 h-2.5" /> {number} {citation.label}
+      </span>
+    );
+  }
+
+  const Icon = CITATION_ICONS[citation.targetType];
+  return (
+    <Link
+      to={href}
+      title={citation.detail}
+      className="inline-flex items-center gap-1 align-baseline mx-0.5 px-1.5 rounded bg-primary/10 text-primary text-[10px] font-medium hover:bg-primary/20 transition-colors"
+    >
+      <Icon className="w-2.5 h-2.5" /> {number} {citation.label}
+    </Link>
+  );
+};
+
+const FormattedText: React.FC<{ text: string; citations?: AssistantCitation[] }> = ({ text, citations }) => {
   if (!text) return null;
-  const parts = text.split(/(\*\*.*?\*\*)/g);
+  const order = extractCitationRefs(text).map(citationKey);
   return (
     <span>
-      {parts.map((part, i) => {
-        if (part.startsWith('**') && part.endsWith('**')) {
-          return <strong key={i} className="font-bold text-foreground">{part.slice(2, -2)}</strong>;
+      {splitCitations(text).map((segment, i) => {
+        if (typeof segment !== 'string') {
+          const key = citationKey(segment);
+          return <CitationChip key={i} number={order.indexOf(key) + 1} citation={citations?.find(c => citationKey(c) === key)} />;
         }
-        return <span key={i} className="whitespace-pre-wrap">{part}</span>;
+        return segment.split(/(\*\*.*?\*\*)/g).map((part, j) => {
+          if (part.startsWith('**') && part.endsWith('**')) {
+            return <strong key={`${i}-${j}`} className="font-bold text-foreground">{part.slice(2, -2)}</strong>;
+          }
+          return <span key={`${i}-${j}`} className="whitespace-pre-wrap">{part}</span>;
+        });
       })}
     </span>
   );
 };
 
+const ACTION_ICONS: Record<AssistantWriteToolName, React.ElementType> = {
+  create_event: Calendar,
+  open_issue: AlertCircle,
+  add_profile_note: StickyNote,
+  record_agreement_item: Handshake
+};
+
+const actionFields = (action: AssistantAction, personName: (id: string) => string): [string, string][] => {
+  const { args } = action;
+  const fields: [string, string | undefined][] = (() => {
+    switch (action.tool) {
+      case 'create_event': return [['Date', args.date], ['Description', args.description]];
+      case 'open_issue': return [
+        ['Description', args.description],
+        ['People', Array.isArray(args.personIds) ? args.personIds.map(personName).join(', ') : undefined]
+      ];
+      case 'add_profile_note': return [['Person', personName(args.personId)], ['Note', args.content]];
+      case 'record_agreement_item': return [['Terms', args.fullText], ['Summary', args.summary]];
+    }
+  })();
+  return fields.filter((f): f is [string, string] => !!f[1]);
+};
+
+const ActionCard: React.FC<{
+  action: AssistantAction;
+  people: Person[];
+  onResolve: (approve: boolean) => Promise<void>;
+}> = ({ action, people, onResolve }) => {
+  const [working, setWorking] = useState(false);
+  const Icon = ACTION_ICONS[action.tool];
+  const personName = (id: string) => people.find(p => p.id === id)?.fullName || 'Unknown person';
+
+  const resolve = async (approve: boolean) => {
+    setWorking(true);
+    try {
+      await onResolve(approve);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="w-full bg-background border border-border rounded-xl shadow-sm p-4 text-sm">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-center gap-2 font-medium text-foreground">
+          <Icon className="w-4 h-4 text-primary shrink-0" />
+          {summarizeAction(action)}
+        </div>
+        {action.status !== 'pending' && (
+          <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded ${
+            action.status === 'approved' ? 'bg-emerald-50 text-emerald-700' :
+            action.status === 'failed' ? 'bg-destructive/10 text-destructive' :
+            'bg-muted text-muted-foreground'
+          }`}>
+            {action.status}
+          </span>
+        )}
+      </div>
+
+      <dl className="mt-3 space-y-1.5">
+        {actionFields(action, personName).map(([label, value]) => (
+          <div key={label} className="flex gap-2">
+            <dt className="w-20 shrink-0 text-xs text-muted-foreground">{label}</dt>
+            <dd className="text-foreground whitespace-pre-wrap">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {action.error && <p className="mt-2 text-xs text-destructive">{action.error}</p>}
+
+      {action.status === 'pending' && (
+        <div className="mt-4 flex gap-2">
+          <button
+            onClick={() => resolve(true)}
+            disabled={working}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-primary text-primary-foreground rounded-lg text-xs font-medium hover:bg-primary/90 disabled:opacity-50"
+          >
+            {working ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />} Approve
+          </button>
+          <button
+            onClick={() => resolve(false)}
+            disabled={working}
+            className="flex items-center gap-1.5 px-3 py-1.5 border border-border text-muted-foreground rounded-lg text-xs font-medium hover:bg-muted disabled:opacity-50"
+          >
+            <X className="w-3 h-3" /> Reject
+          </button>
+        </div>
+      )}
+
+      {action.status === 'approved' && action.resultPath && (
+        <Link to={action.resultPath} className="mt-3 inline-flex items-center gap-1 text-xs font-medium text-primary hover:underline">
+          View <ArrowRight className="w-3 h-3" />
+        </Link>
+      )}
+    </div>
+  );
+};
+
 export const AssistantView: React.FC = () => {
   const [sessions, setSessions] = useState<AssistantSession[]>([]);
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
@@ -31,13 +179,17 @@ export const AssistantView: React.FC = () => {
   const [uploadingFile, setUploadingFile] = useState<File | null>(null);
   const [streamingContent, setStreamingContent] = useState('');
   const [loadingContext, setLoadingContext] = useState(false);
+  const [people, setPeople] = useState<Person[]>([]);
   
+  const messagesRef = useRef<AssistantMessage[]>([]);
+  messagesRef.current = messages;
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   useEffect(() => {
     loadSessions();
+    api.getPeople().then(setPeople);
   }, []);
 
   useEffect(() => {
@@ -129,12 +281,15 @@ export const AssistantView: React.FC = () => {
 
       if (result.stream) {
         // Process the streaming response
-        const fullText = await processStream(result.stream, (chunk) => {
-          setStreamingContent(prev => prev + chunk);
-        });
+        let proposedActions: AssistantAction[] = [];
+        const fullText = await processStream(
+          result.stream,
+          (chunk) => setStreamingContent(prev => prev + chunk),
+          (actions) => { proposedActions = actions; }
+        );
 
         // Save the assistant's response
-        await api.saveAssistantMessage(targetSessionId, AssistantSenderType.Assistant, fullText);
+        await saveAssistantAnswer(targetSessionId, fullText, proposedActions);
       }
 
       // Refresh messages from DB
@@ -160,6 +315,16 @@ export const AssistantView: React.FC = () => {
     }
   };
 
+  // Nothing proposed by the assistant is written until approved here
+  const handleResolveAction = async (messageId: string, action: AssistantAction, approve: boolean) => {
+    const resolved: AssistantAction = approve ? await applyAssistantAction(action) : { ...action, status: 'rejected' };
+    // Read the latest actions so resolving cards one after another doesn't lose earlier results
+    const current = messagesRef.current.find(m => m.id === messageId);
+    const actions = (current?.actions || []).map(a => a.id === action.id ? resolved : a);
+    await api.updateAssistantMessageActions(messageId, actions);
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, actions } : m));
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -247,9 +412,29 @@ export const AssistantView: React.FC = () => {
                         isSystem ? 'bg-destructive/10 border border-destructive/20 text-destructive rounded-tl-none' :
                         'bg-background border border-border text-foreground rounded-tl-none shadow-sm'
                       }`}>
-                        <FormattedText text={msg.content} />
+                        <FormattedText text={msg.content} citations={msg.citations} />
                       </div>
-                      
+
+                      {isUnsupportedAnswer(msg) && (
+                        <div className="mt-2 inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg bg-amber-50 border border-amber-200 text-amber-800 text-xs">
+                          <AlertTriangle className="w-3 h-3" />
+                          Unsupported: this answer cites no case records. Verify before relying on it.
+                        </div>
+                      )}
+
+                      {msg.actions && msg.actions.length > 0 && (
+                        <div className="mt-2 w-full space-y-2">
+                          {msg.actions.map(action => (
+                            <ActionCard
+                              key={action.id}
+                              action={action}
+                              people={people}
+                              onResolve={(approve) => handleResolveAction(msg.id, action, approve)}
+                            />
+                          ))}
+                        </div>
+                      )}
+
                       {msg.linkedTargetType && msg.linkedTargetId && (
                         <div className="mt-2">
                           <Link 
@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { api } from '../services/api';
+import { Conversation, Message } from '../types';
+import { computeCommunicationMetrics, formatMinutes, LATENCY_BUCKETS } from '../utils/communicationMetrics';
+import { format, parseISO } from 'date-fns';
+import { Loader2, Clock, HelpCircle, MessageSquare, Moon } from 'lucide-react';
+
+interface CommunicationMetricsPanelProps {
+  personId: string;
+  conversations: Conversation[];
+}
+
+const percent = (share: number | null) => share === null ? '–' : `${Math.round(share * 100)}%`;
+
+const hourLabel = (hour: number) => format(new Date(2000, 0, 1, hour), 'ha');
+
+export const CommunicationMetricsPanel: React.FC<CommunicationMetricsPanelProps> = ({ personId, conversations }) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    api.getMessagesForConversations(conversations.map(c => c.id))
+      .then(setMessages)
+      .catch(err => console.error('Failed to load messages for metrics:', err))
+      .finally(() => setLoading(false));
+  }, [conversations]);
+
+  const metrics = useMemo(() => computeCommunicationMetrics(messages)[personId], [messages, personId]);
+
+  if (loading) return <div className="flex p-8 justify-center"><Loader2 className="animate-spin text-indigo-600" /></div>;
+
+  if (!metrics) {
+    return (
+      <div className="bg-white p-8 rounded-xl border border-slate-200 text-center text-slate-500">
+        No messages from this person yet.
+      </div>
+    );
+  }
+
+  const latency = metrics.responseLatency;
+  const maxBucket = Math.max(1, ...LATENCY_BUCKETS.map(b => latency.buckets[b.bucket]));
+  const maxWeek = Math.max(1, ...metrics.weekly.map(w => w.messages));
+  const maxHour = Math.max(1, ...metrics.hourOfDay);
+  const conversationTitle = (id?: string) => conversations.find(c => c.id === id)?.title || 'Conversation';
+
+  return (
+    <div className="space-y-6">
+      <p className="text-xs text-slate-500">
+        Computed from message timestamps and text only — no AI involved. Messages from the last 72 hours are not yet counted as unanswered.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+          <div className="flex items-center gap-2 text-xs text-slate-500 mb-1"><Clock className="w-3.5 h-3.5" /> Median reply</div>
+          <p className="text-2xl font-bold text-slate-900">{formatMinutes(latency.medianMinutes)}</p>
+          <p className="text-xs text-slate-400">90th percentile {formatMinutes(latency.p90Minutes)} · {latency.replies} replies</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+          <div className="flex items-center gap-2 text-xs text-slate-500 mb-1"><HelpCircle className="w-3.5 h-3.5" /> Unanswered questions</div>
+          <p className="text-2xl font-bold text-slate-900">{metrics.unansweredQuestions.length}</p>
+          <p className="text-xs text-slate-400">of {metrics.questionsReceived} asked of them</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+          <div className="flex items-center gap-2 text-xs text-slate-500 mb-1"><MessageSquare className="w-3.5 h-3.5" /> Threads left unanswered</div>
+          <p className="text-2xl font-bold text-slate-900">{percent(metrics.abandonmentRate)}</p>
+          <p className="text-xs text-slate-400">{metrics.threadsAbandoned} of {metrics.threadsParticipated} threads</p>
+        </div>
+        <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+          <div className="flex items-center gap-2 text-xs text-slate-500 mb-1"><Moon className="w-3.5 h-3.5" /> Late night (10pm–6am)</div>
+          <p className="text-2xl font-bold text-slate-900">{percent(metrics.lateNightShare)}</p>
+          <p className="text-xs text-slate-400">{metrics.messagesSent} messages · avg {metrics.averageLength} chars</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Reply time distribution */}
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <h4 className="text-sm font-semibold text-slate-700 mb-4">Reply Time</h4>
+          <div className="space-y-2">
+            {LATENCY_BUCKETS.map(b => (
+              <div key={b.bucket} className="flex items-center gap-3 text-xs">
+                <span className="w-12 text-slate-500">{b.label}</span>
+                <div className="flex-1 h-3 bg-slate-100 rounded">
+                  <div className="h-3 bg-indigo-500 rounded" style={{ width: `${(latency.buckets[b.bucket] / maxBucket) * 100}%` }} />
+                </div>
+                <span className="w-8 text-right text-slate-600">{latency.buckets[b.bucket]}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Time of day */}
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <h4 className="text-sm font-semibold text-slate-700 mb-4">Time of Day</h4>
+          <div className="flex items-end gap-0.5 h-28">
+            {metrics.hourOfDay.map((count, hour) => (
+              <div key={hour} className="flex-1 h-full flex flex-col justify-end" title={`${hourLabel(hour)}: ${count} messages`}>
+                <div
+                  className={`w-full rounded-t ${hour >= 22 || hour < 6 ? 'bg-slate-700' : 'bg-indigo-400'}`}
+                  style={{ height: `${(count / maxHour) * 100}%` }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+            {[0, 6, 12, 18, 23].map(h => <span key={h}>{hourLabel(h)}</span>)}
+          </div>
+        </div>
+      </div>
+
+      {/* Weekly volume */}
+      {metrics.weekly.length > 0 && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <h4 className="text-sm font-semibold text-slate-700 mb-4">Messages per Week</h4>
+          <div className="flex items-end gap-1 h-32 overflow-x-auto">
+            {metrics.weekly.map(w => (
+              <div key={w.week} className="flex-1 min-w-[12px] h-full flex flex-col justify-end">
+                <div
+                  className="w-full bg-indigo-500 rounded-t"
+                  style={{ height: `${(w.messages / maxWeek) * 100}%` }}
+                  title={`Week of ${format(parseISO(w.week), 'MMM d, yyyy')}: ${w.messages} messages, avg ${w.averageLength} chars`}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+            <span>{format(parseISO(metrics.weekly[0].week), 'MMM d, yyyy')}</span>
+            <span>{format(parseISO(metrics.weekly[metrics.weekly.length - 1].week), 'MMM d, yyyy')}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Unanswered questions */}
+      {metrics.unansweredQuestions.length > 0 && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <h4 className="text-sm font-semibold text-slate-700 mb-4">Questions Never Answered</h4>
+          <ul className="divide-y divide-slate-100">
+            {metrics.unansweredQuestions.map(q => (
+              <li key={q.messageId} className="py-2">
+                <Link
+                  to={`/conversations/${q.conversationId}?message=${q.messageId}`}
+                  className="block hover:bg-slate-50 rounded -mx-2 px-2 py-1"
+                >
+                  <p className="text-sm text-slate-800 line-clamp-2">{q.text}</p>
+                  <p className="text-xs text-slate-400 mt-0.5">
+                    {conversationTitle(q.conversationId)} · {format(parseISO(q.sentAt), 'MMM d, yyyy h:mm a')}
+                  </p>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { api } from '../services/api';
+import { AnalysisVersionHistory } from './AnalysisVersionHistory';
 import { 
   ConversationAnalysis, 
   TopicCategory, 
   Issue, 
   RelatedConversationDiscovery,
-  Conversation
+  Conversation,
+  FlagReview
 } from '../types';
+import { reviewFlags } from '../utils/flagReviews';
 import { 
   ChevronDown, 
   ChevronUp, 
@@ -24,7 +27,8 @@ import {
   Sparkles,
   Plus,
   X,
-  Search
+  Search,
+  Flag
 } from 'lucide-react';
 import { format, formatDistanceToNow } from 'date-fns';
 
@@ -70,6 +74,7 @@ export const ConversationAnalysisPanel: React.FC<ConversationAnalysisPanelProps>
   // Guided analysis state
   const [showGuidanceForm, setShowGuidanceForm] = useState(false);
   const [guidanceInput, setGuidanceInput] = useState('');
+  const [flagReviews, setFlagReviews] = useState<FlagReview[]>([]);
 
   useEffect(() => {
     api.getTopicCategories().then(setTopicCategories);
@@ -84,6 +89,14 @@ export const ConversationAnalysisPanel: React.FC<ConversationAnalysisPanelProps>
     }
   }, [conversationId, analysis?.id]);
 
+  useEffect(() => {
+    api.getFlagReviews([conversationId]).then(setFlagReviews);
+  }, [conversationId]);
+
+  const pendingFlagCount = analysis
+    ? reviewFlags([analysis], flagReviews).filter(f => f.state === 'pending').length
+    : 0;
+
   const getCategoryDisplayName = (slug: string): string => {
     const category = topicCategories.find(c => c.slug === slug);
     return category?.displayName || slug.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
@@ -102,6 +115,7 @@ export const ConversationAnalysisPanel: React.FC<ConversationAnalysisPanelProps>
     new Date(analysis.createdAt) < new Date(conversation.updatedAt);
 
   const toneStyle = analysis ? TONE_COLORS[analysis.overallTone] || TONE_COLORS.neutral : TONE_COLORS.neutral;
+  const faithfulness = analysis?.faithfulness;
 
   const handleLinkIssue = async () => {
     if (!selectedIssueId || !linkReason.trim()) return;
@@ -189,6 +203,17 @@ export const ConversationAnalysisPanel: React.FC<ConversationAnalysisPanelProps>
           <div>
             <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Summary</h4>
             <p className="text-sm text-foreground leading-relaxed">{analysis.summary}</p>
+            {faithfulness && faithfulness.quotesChecked > 0 && (
+              <p className={`text-xs mt-2 flex items-center gap-1 ${faithfulness.quotesVerified < faithfulness.quotesChecked ? 'text-amber-600' : 'text-muted-foreground'}`}>
+                {faithfulness.quotesVerified < faithfulness.quotesChecked ? (
+                  <AlertTriangle className="w-3 h-3" />
+                ) : (
+                  <CheckCircle2 className="w-3 h-3" />
+                )}
+                Evidence check: {faithfulness.quotesVerified} of {faithfulness.quotesChecked} quoted passages found in the messages
+                {faithfulness.rejectedMessageIds > 0 && `; ${faithfulness.rejectedMessageIds} references to messages outside this conversation removed`}
+              </p>
+            )}
           </div>
 
           {/* Topic Categories */}
@@ -271,6 +296,17 @@ export const ConversationAnalysisPanel: React.FC<ConversationAnalysisPanelProps>
             )}
           </div>
 
+          {/* Flags awaiting review */}
+          {pendingFlagCount > 0 && (
+            <Link
+              to={`/flags?conversation=${conversationId}`}
+              className="flex items-center gap-2 text-sm p-2 bg-primary/5 border border-primary/20 rounded-lg text-primary hover:bg-primary/10 transition-colors"
+            >
+              <Flag className="w-4 h-4" />
+              {pendingFlagCount} message flag{pendingFlagCount !== 1 ? 's' : ''} awaiting review
+            </Link>
+          )}
+
           {/* Agreement Violations */}
           {analysis.agreementViolations.length > 0 && (
             <div>
@@ -283,6 +319,12 @@ export const ConversationAnalysisPanel: React.FC<ConversationAnalysisPanelProps>
                   <div key={i} className="text-sm p-2 bg-amber-500/10 border border-amber-500/20 rounded-lg">
                     <span className="font-medium text-amber-700">{v.violationType}</span>
                     <p className="text-amber-900/80 mt-0.5">{v.description}</p>
+                    {v.exchangeLogIds?.length > 0 && (
+                      <Link to="/schedule" className="inline-flex items-center gap-1 mt-1 text-xs text-amber-700 hover:underline">
+                        <Clock className="w-3 h-3" />
+                        Cites {v.exchangeLogIds.length} logged exchange{v.exchangeLogIds.length !== 1 ? 's' : ''}
+                      </Link>
+                    )}
                   </div>
                 ))}
               </div>
@@ -336,6 +378,9 @@ export const ConversationAnalysisPanel: React.FC<ConversationAnalysisPanelProps>
             </div>
           )}
 
+          {/* Version History */}
+          <AnalysisVersionHistory conversationId={conversationId} analysis={analysis} />
+
           {/* Actions */}
           <div className="pt-2 border-t border-border space-y-3">
             {/* Guidance input form */}
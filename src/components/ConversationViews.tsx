@@ -1,15 +1,15 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Link, useParams } from 'react-router-dom';
+import { Link, useParams, useSearchParams, useNavigate } from 'react-router-dom';
 import { api } from '../services/api';
 import { processAnalysisResults, updateConversationState, buildAnalysisSummary } from '../services/analysisProcessor';
 import { buildAnalysisRequest } from '../services/analysisRequestBuilder';
-import { ConversationAnalysisResult } from '../types/analysisTypes';
+import { AnalysisProgress, AnalysisRun } from '../types/analysisTypes';
 import { Conversation, Message, Person, MessageDirection, Issue, ConversationStatus, ConversationAnalysis, Role } from '../types';
 import { format, isSameDay, isSameMonth, isSameYear, differenceInDays } from 'date-fns';
-import { Search, Filter, Loader2, Tag, AlertCircle, Clock, CheckCircle2, User } from 'lucide-react';
+import { Search, Filter, Loader2, Tag, AlertCircle, Clock, CheckCircle2, User, Wallet, Sparkles } from 'lucide-react';
 import { ConversationAnalysisPanel } from './ConversationAnalysisPanel';
 import { AnalysisProgressModal } from './AnalysisProgressModal';
-import { runPipelineAnalysis, AnalysisProgress } from '../utils/sseAnalysisClient';
+import { queueAnalysis, queueConversationAnalyses, waitForAnalysisRun, applyAnalysisRun, applyPendingAnalysisRuns, wakeAnalysisWorker } from '../services/analysisJobs';
 import { validateAndSanitizeAnalysisResult } from '../utils/analysisValidator';
 import { FEATURES } from '../config/features';
 
@@ -35,11 +35,18 @@ const formatDateRange = (startedAt?: string, endedAt?: string): string => {
 
 type StatusFilter = 'all' | 'open' | 'resolved';
 
+// How often the list refreshes queued analysis runs while any are active
+const QUEUE_POLL_INTERVAL_MS = 5000;
+
 export const ConversationList: React.FC = () => {
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [people, setPeople] = useState<Person[]>([]);
   const [loading, setLoading] = useState(true);
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [activeRuns, setActiveRuns] = useState<AnalysisRun[]>([]);
+  const [queueing, setQueueing] = useState(false);
+  const navigate = useNavigate();
 
   useEffect(() => {
     Promise.all([api.getConversations(), api.getPeople()])
@@ -48,8 +55,47 @@ export const ConversationList: React.FC = () => {
         setPeople(p);
       })
       .finally(() => setLoading(false));
+
+    if (FEATURES.USE_ANALYSIS_PIPELINE) {
+      refreshAnalysisQueue().then(runs => {
+        // Queued runs with no worker (e.g. the tab closed before it started)
+        if (runs.some(r => r.status === 'pending')) wakeAnalysisWorker();
+      });
+    }
   }, []);
 
+  // Follow the queue while it has work, applying results as runs finish
+  const hasActiveRuns = activeRuns.length > 0;
+  useEffect(() => {
+    if (!hasActiveRuns) return;
+    const interval = setInterval(refreshAnalysisQueue, QUEUE_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveRuns]);
+
+  const refreshAnalysisQueue = async (): Promise<AnalysisRun[]> => {
+    const applied = await applyPendingAnalysisRuns();
+    const runs = await api.getActiveAnalysisRuns();
+    setActiveRuns(runs);
+    if (applied > 0) {
+      setConversations(await api.getConversations());
+    }
+    return runs;
+  };
+
+  const handleQueueAnalysis = async (conversationIds: string[]) => {
+    if (conversationIds.length === 0) return;
+    if (!confirm(`Queue analysis for ${conversationIds.length} conversation${conversationIds.length === 1 ? '' : 's'}? They are analyzed one after another in the background.`)) return;
+    setQueueing(true);
+    try {
+      await queueConversationAnalyses(conversationIds);
+      await refreshAnalysisQueue();
+    } catch (e) {
+      console.error('Failed to queue analyses:', e);
+    } finally {
+      setQueueing(false);
+    }
+  };
+
   if (loading) return <div className="flex p-8 justify-center"><Loader2 className="animate-spin text-indigo-600" /></div>;
 
   const openCount = conversations.filter(c => c.status === ConversationStatus.Open).length;
@@ -67,6 +113,8 @@ export const ConversationList: React.FC = () => {
     return differenceInDays(new Date(), lastDate);
   };
 
+  const runningRun = activeRuns.find(r => r.status === 'running');
+
   const getPendingResponderName = (conv: Conversation): string | null => {
     if (!conv.pendingResponderId) return null;
     const person = people.find(p => p.id === conv.pendingResponderId);
@@ -78,20 +126,51 @@ export const ConversationList: React.FC = () => {
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold text-slate-900">Conversations</h2>
         <div className="flex gap-2">
-          <div className="relative">
+          <form
+            className="relative"
+            onSubmit={e => {
+              e.preventDefault();
+              if (!searchQuery.trim()) return;
+              navigate(`/search?q=${encodeURIComponent(searchQuery.trim())}&types=message,analysis`);
+            }}
+          >
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-slate-400" />
             <input 
               type="text" 
-              placeholder="Search..." 
+              placeholder="Search messages..." 
+              value={searchQuery}
+              onChange={e => setSearchQuery(e.target.value)}
               className="pl-9 pr-4 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 outline-none w-64"
             />
-          </div>
+          </form>
           <button className="p-2 border border-slate-300 rounded-lg hover:bg-slate-50">
             <Filter className="w-4 h-4 text-slate-600" />
           </button>
+          {FEATURES.USE_ANALYSIS_PIPELINE && (
+            <button
+              onClick={() => handleQueueAnalysis(filteredConversations.map(c => c.id))}
+              disabled={queueing || filteredConversations.length === 0}
+              className="px-3 py-2 border border-slate-300 rounded-lg hover:bg-slate-50 text-sm font-medium text-slate-700 flex items-center gap-1.5 disabled:opacity-50"
+              title="Re-run analysis for every conversation in this list"
+            >
+              {queueing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4 text-indigo-600" />}
+              Analyze all
+            </button>
+          )}
         </div>
       </div>
 
+      {runningRun && (
+        <div className="mb-4 p-3 bg-indigo-50 border border-indigo-100 rounded-lg flex items-center gap-2 text-sm text-indigo-800">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>
+            {activeRuns.length} analysis run{activeRuns.length === 1 ? '' : 's'} in progress — now analyzing{' '}
+            <span className="font-medium">{conversations.find(c => c.id === runningRun.conversationId)?.title || 'a conversation'}</span>
+            {runningRun.progress && ` (stage ${runningRun.progress.stageNumber} of ${runningRun.progress.totalStages})`}
+          </span>
+        </div>
+      )}
+
       {/* Status Filter Tabs */}
       <div className="flex gap-2 mb-4">
         <button
@@ -134,6 +213,7 @@ export const ConversationList: React.FC = () => {
            const daysSince = getDaysSinceLastMessage(conv);
            const isStale = conv.status === ConversationStatus.Open && daysSince > 14;
            const pendingName = getPendingResponderName(conv);
+           const activeRun = activeRuns.find(r => r.conversationId === conv.id);
            
            return (
             <Link 
@@ -153,6 +233,11 @@ export const ConversationList: React.FC = () => {
                       Resolved
                     </span>
                   )}
+                  {activeRun && (
+                    <span className="text-xs font-medium px-2 py-0.5 bg-indigo-100 text-indigo-700 rounded-full">
+                      {activeRun.status === 'running' ? 'Analyzing' : 'Queued'}
+                    </span>
+                  )}
                 </div>
                 <span className="text-xs text-slate-500">{formatDateRange(conv.startedAt, conv.endedAt)}</span>
               </div>
@@ -203,6 +288,9 @@ export const ConversationList: React.FC = () => {
 
 export const ConversationDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  // Deep link from search results: ?message=<id>
+  const highlightedMessageId = searchParams.get('message');
   const [conversation, setConversation] = useState<Conversation | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [people, setPeople] = useState<Person[]>([]);
@@ -213,10 +301,11 @@ export const ConversationDetail: React.FC = () => {
   const [updatingStatus, setUpdatingStatus] = useState(false);
   const [refreshingAnalysis, setRefreshingAnalysis] = useState(false);
   
-  // SSE Pipeline State
+  // Server-side pipeline run being followed
   const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
   const isMountedRef = useRef(true);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const followedRunIdRef = useRef<string | null>(null);
   
   // Resume UI State
   const [incompleteRun, setIncompleteRun] = useState<{
@@ -232,16 +321,81 @@ export const ConversationDetail: React.FC = () => {
     isMountedRef.current = true;
     if (!id) return;
     loadData();
+    if (FEATURES.USE_ANALYSIS_PIPELINE) {
+      resumeServerAnalysis(id);
+    }
     return () => {
       isMountedRef.current = false;
       abortControllerRef.current?.abort();
     };
   }, [id]);
 
-  const handleCancelAnalysis = () => {
+  useEffect(() => {
+    if (!highlightedMessageId || messages.length === 0) return;
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightedMessageId, messages]);
+
+  const handleCancelAnalysis = async () => {
     abortControllerRef.current?.abort();
     setRefreshingAnalysis(false);
     setAnalysisProgress(null);
+    if (followedRunIdRef.current) {
+      await api.cancelAnalysisRun(followedRunIdRef.current);
+    }
+  };
+
+  // Stops following; the run carries on server-side and is applied on a later visit
+  const handleRunInBackground = () => {
+    abortControllerRef.current?.abort();
+    setRefreshingAnalysis(false);
+    setAnalysisProgress(null);
+  };
+
+  /**
+   * Applies results of runs that finished while this conversation was closed,
+   * then re-attaches to a run still in progress (possibly started elsewhere).
+   */
+  const resumeServerAnalysis = async (conversationId: string) => {
+    const applied = await applyPendingAnalysisRuns(conversationId);
+    if (applied > 0 && isMountedRef.current) loadData();
+
+    const activeRun = (await api.getActiveAnalysisRuns()).find(r => r.conversationId === conversationId);
+    if (activeRun && isMountedRef.current && !followedRunIdRef.current) {
+      await followAnalysisRun(activeRun.id);
+    }
+  };
+
+  const followAnalysisRun = async (runId: string) => {
+    followedRunIdRef.current = runId;
+    abortControllerRef.current = new AbortController();
+    setRefreshingAnalysis(true);
+
+    try {
+      const run = await waitForAnalysisRun(runId, {
+        onUpdate: (update) => {
+          if (isMountedRef.current) setAnalysisProgress(update.progress ?? null);
+        },
+        signal: abortControllerRef.current.signal
+      });
+      if (!run || !isMountedRef.current) return;
+
+      if (run.status === 'completed') {
+        const result = await applyAnalysisRun(run);
+        if (result) console.log('Refresh analysis complete:', buildAnalysisSummary(result));
+      } else if (run.status === 'failed') {
+        console.error(`Refresh analysis failed at ${run.errorStage || 'unknown'}:`, run.errorMessage);
+      }
+
+      setAnalysisProgress(null);
+      loadData(); // Reload to show results or the resume banner
+    } catch (error) {
+      // The result stays unapplied and is retried the next time the conversation opens
+      console.error('Failed to apply analysis result:', error);
+      setAnalysisProgress(null);
+    } finally {
+      followedRunIdRef.current = null;
+      if (isMountedRef.current) setRefreshingAnalysis(false);
+    }
   };
 
   const loadData = async () => {
@@ -300,11 +454,15 @@ export const ConversationDetail: React.FC = () => {
         
         if (error) throw error;
         
-        if (data) {
-          // Update only the summary in database
-          await api.updateAnalysisSummary(id, data);
+        if (data?.summary) {
+          // Update only the summary in database, recording the amendment as a new version
+          await api.updateAnalysisSummary(id, data.summary, {
+            model: data.model,
+            promptVersion: data.promptVersion,
+            userGuidance: userGuidance.trim()
+          });
           // Refresh local state
-          setAnalysis(prev => prev ? { ...prev, summary: data } : null);
+          setAnalysis(prev => prev ? { ...prev, summary: data.summary } : null);
         }
       } else {
         // Full analysis refresh - use shared builder for consistent request format
@@ -327,78 +485,14 @@ export const ConversationDetail: React.FC = () => {
         );
         
         if (FEATURES.USE_ANALYSIS_PIPELINE) {
-          // SSE Pipeline path with analysis run tracking
-          abortControllerRef.current = new AbortController();
-          
-          // Create or resume analysis run
-          const runInfo = await api.createAnalysisRun(id);
-          console.log(`Analysis run ${runInfo.id}, isResume: ${runInfo.isResume}`);
+          // Server-side job: queue (or resume) the run, then follow it
+          const { run, isResume } = await queueAnalysis(id, requestBody);
+          console.log(`Analysis run ${run.id}, isResume: ${isResume}`);
           
           // Clear incomplete run UI since we're starting
           setIncompleteRun(null);
           
-          // Add resume info to request if applicable
-          const pipelineRequest = {
-            ...requestBody,
-            runId: runInfo.id,
-            resumeFromStage: runInfo.resumeFromStage,
-            priorOutputs: runInfo.priorOutputs
-          };
-          
-          await new Promise<void>((resolve) => {
-            runPipelineAnalysis(pipelineRequest, {
-              onProgress: async (progress) => {
-                if (isMountedRef.current) {
-                  setAnalysisProgress(progress);
-                  await api.setAnalysisRunCurrentStage(runInfo.id, progress.stage);
-                }
-              },
-              onStageComplete: async (stage, _stageNumber, output) => {
-                await api.updateAnalysisRunStage(runInfo.id, stage, output);
-              },
-              onComplete: async (rawResult) => {
-                if (!isMountedRef.current) return resolve();
-                
-                await api.completeAnalysisRun(runInfo.id);
-                
-                const { sanitized, warnings } = validateAndSanitizeAnalysisResult(rawResult);
-                if (warnings.length > 0) {
-                  console.warn('Analysis validation warnings:', warnings);
-                }
-                
-                await processAnalysisResults(id, sanitized, messagesForAnalysis);
-                
-                if (sanitized.conversationState) {
-                  await updateConversationState(id, sanitized.conversationState);
-                }
-                
-                const stats = buildAnalysisSummary(sanitized);
-                console.log('Refresh analysis complete:', stats);
-                
-                setAnalysisProgress(null);
-                loadData();
-                resolve();
-              },
-              onError: async (error, stage, partialOutputs) => {
-                console.error(`Refresh analysis failed at ${stage || 'unknown'}:`, error);
-                
-                await api.failAnalysisRun(runInfo.id, error, stage);
-                
-                // Save partial outputs for recovery
-                if (partialOutputs && Object.keys(partialOutputs).length > 0) {
-                  for (const [stageName, output] of Object.entries(partialOutputs)) {
-                    await api.updateAnalysisRunStage(runInfo.id, stageName, output);
-                  }
-                }
-                
-                setAnalysisProgress(null);
-                loadData(); // Reload to show resume banner
-                resolve();
-              },
-              signal: abortControllerRef.current!.signal,
-              isMountedRef
-            });
-          });
+          await followAnalysisRun(run.id);
         } else {
           // Legacy single-call path
           const { data, error } = await (await import('../lib/supabase')).supabase.functions.invoke('analyze-conversation-import', {
@@ -408,7 +502,11 @@ export const ConversationDetail: React.FC = () => {
           if (error) throw error;
           
           if (data) {
-            const analysisResult = data as ConversationAnalysisResult;
+            // Same validation and evidence check as queued runs
+            const { sanitized: analysisResult, warnings } = validateAndSanitizeAnalysisResult(data, messagesForAnalysis);
+            if (warnings.length > 0) {
+              console.warn('Analysis validation warnings:', warnings);
+            }
             
             // Use shared processor for full processing (issues, contributions, profile notes)
             await processAnalysisResults(id, analysisResult, messagesForAnalysis);
@@ -594,11 +692,12 @@ export const ConversationDetail: React.FC = () => {
             const isInternal = msg.direction === MessageDirection.Internal;
             const sender = people.find(p => p.id === msg.senderId);
             const linkedIssues = issues.filter(i => msg.issueIds?.includes(i.id));
+            const isHighlighted = msg.id === highlightedMessageId;
 
             if (isInternal) {
               return (
-                <div key={msg.id} className="flex justify-center">
-                  <div className="bg-amber-50 border border-amber-200 text-amber-900 text-sm px-4 py-2 rounded-lg max-w-lg text-center shadow-sm">
+                <div key={msg.id} id={`message-${msg.id}`} className="flex justify-center">
+                  <div className={`bg-amber-50 border border-amber-200 text-amber-900 text-sm px-4 py-2 rounded-lg max-w-lg text-center shadow-sm ${isHighlighted ? 'ring-2 ring-yellow-400 ring-offset-2' : ''}`}>
                     <span className="font-bold block text-xs uppercase tracking-wide text-amber-700/70 mb-1">Internal Note</span>
                     {msg.rawText}
                   </div>
@@ -607,7 +706,7 @@ export const ConversationDetail: React.FC = () => {
             }
 
             return (
-              <div key={msg.id} className={`flex ${isMe ? 'justify-end' : 'justify-start'}`}>
+              <div key={msg.id} id={`message-${msg.id}`} className={`flex ${isMe ? 'justify-end' : 'justify-start'}`}>
                  <div className={`flex flex-col max-w-[70%] ${isMe ? 'items-end' : 'items-start'}`}>
                     <div className="flex items-center gap-2 mb-1">
                       {!isMe && sender && (
@@ -620,7 +719,7 @@ export const ConversationDetail: React.FC = () => {
                       isMe 
                         ? 'bg-indigo-600 text-white rounded-br-none' 
                         : 'bg-white text-slate-800 border border-slate-200 rounded-bl-none'
-                    }`}>
+                    } ${isHighlighted ? 'ring-2 ring-yellow-400 ring-offset-2' : ''}`}>
                       {msg.rawText}
                       
                       {/* Hover Action to Tag */}
@@ -631,6 +730,13 @@ export const ConversationDetail: React.FC = () => {
                       >
                         <Tag className="w-4 h-4" />
                       </button>
+                      <Link
+                        to={`/ledger?message=${msg.id}`}
+                        className={`absolute -right-8 top-9 opacity-0 group-hover:opacity-100 p-1 rounded hover:bg-slate-100 transition-opacity ${isMe ? 'text-white/50 hover:text-white' : 'text-slate-400 hover:text-indigo-600'}`}
+                        title="Log Expense"
+                      >
+                        <Wallet className="w-4 h-4" />
+                      </Link>
                     </div>
 
                     {/* Display Linked Issues */}
@@ -674,11 +780,12 @@ export const ConversationDetail: React.FC = () => {
         </div>
       )}
       
-      {/* Analysis Progress Modal for SSE Pipeline */}
+      {/* Analysis Progress Modal for the server-side pipeline */}
       <AnalysisProgressModal
         isOpen={refreshingAnalysis && FEATURES.USE_ANALYSIS_PIPELINE}
         progress={analysisProgress}
         onCancel={handleCancelAnalysis}
+        onRunInBackground={handleRunInBackground}
       />
     </div>
   );
@@ -1,9 +1,12 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { api } from '../services/api';
-import { IssueStatus, Conversation, Issue, Event } from '../types';
-import { ArrowRight, Clock, AlertTriangle, MessageSquareText, Calendar, Loader2, Plus, X, Save, User } from 'lucide-react';
+import { IssueStatus, Conversation, Issue, Event, Reimbursement, Obligation, DerivedDeadline, Person, Message } from '../types';
+import { formatCurrency, getOutstanding, isOverdue } from '../utils/ledger';
+import { deriveNoticeDeadlines, isObligationOverdue, isObligationUpcoming } from '../utils/obligations';
+import { computeCommunicationMetrics, formatMinutes } from '../utils/communicationMetrics';
+import { ArrowRight, Clock, AlertTriangle, MessageSquareText, Calendar, Loader2, Plus, X, Save, User, Wallet, ListChecks, Activity } from 'lucide-react';
 import { Link } from 'react-router-dom';
-import { format, differenceInDays } from 'date-fns';
+import { format, differenceInDays, addDays } from 'date-fns';
 
 interface StaleConversation extends Conversation {
   daysSinceLastMessage: number;
@@ -15,6 +18,11 @@ export const Dashboard: React.FC = () => {
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [events, setEvents] = useState<Event[]>([]);
   const [staleConversations, setStaleConversations] = useState<StaleConversation[]>([]);
+  const [overdueReimbursements, setOverdueReimbursements] = useState<Reimbursement[]>([]);
+  const [obligations, setObligations] = useState<Obligation[]>([]);
+  const [noticeDeadlines, setNoticeDeadlines] = useState<DerivedDeadline[]>([]);
+  const [people, setPeople] = useState<Person[]>([]);
+  const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(true);
   const [isEventModalOpen, setIsEventModalOpen] = useState(false);
 
@@ -28,19 +36,44 @@ export const Dashboard: React.FC = () => {
     loadData();
   }, []);
 
+  // Messages are only needed for communication metrics, so load them after the rest
+  useEffect(() => {
+    api.getMessagesForConversations(conversations.map(c => c.id))
+      .then(setMessages)
+      .catch(err => console.error('Failed to load messages for metrics:', err));
+  }, [conversations]);
+
+  const communicationRows = useMemo(() => {
+    const metrics = computeCommunicationMetrics(messages);
+    return people
+      .filter(p => metrics[p.id])
+      .map(p => ({ person: p, metrics: metrics[p.id] }))
+      .sort((a, b) => b.metrics.messagesSent - a.metrics.messagesSent);
+  }, [messages, people]);
+
   const loadData = async () => {
     setLoading(true);
     try {
-      const [issuesData, convData, eventsData, staleData] = await Promise.all([
+      const [issuesData, convData, eventsData, staleData, reimbursementsData, obligationsData, agreementItems, peopleData] = await Promise.all([
         api.getIssues(),
         api.getConversations(),
         api.getEvents(),
-        api.getStaleConversations(14)
+        api.getStaleConversations(14),
+        api.getReimbursements(),
+        api.getObligations(),
+        api.getAllActiveAgreementItems(),
+        api.getPeople()
       ]);
       setIssues(issuesData);
       setConversations(convData);
       setEvents(eventsData);
       setStaleConversations(staleData);
+      setOverdueReimbursements(reimbursementsData.filter(r => isOverdue(r)));
+      setObligations(obligationsData.filter(o => isObligationOverdue(o) || isObligationUpcoming(o)));
+      // Notice deadlines that have passed or fall within the next two weeks
+      const horizon = format(addDays(new Date(), 14), 'yyyy-MM-dd');
+      setNoticeDeadlines(deriveNoticeDeadlines(agreementItems, eventsData, obligationsData).filter(d => d.dueDate <= horizon));
+      setPeople(peopleData);
     } catch (error) {
       console.error("Failed to load dashboard data", error);
     } finally {
@@ -76,6 +109,18 @@ export const Dashboard: React.FC = () => {
   const recentConversations = [...conversations].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()).slice(0, 3);
   const recentEvents = [...events].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()).slice(0, 3);
 
+  const today = new Date().toISOString().slice(0, 10);
+  const deadlineRows = [
+    ...obligations.map(o => ({
+      key: o.id,
+      title: o.title,
+      dueDate: o.dueDate!,
+      ownerName: people.find(p => p.id === o.ownerPersonId)?.fullName,
+      overdue: isObligationOverdue(o)
+    })),
+    ...noticeDeadlines.map(d => ({ key: d.key, title: d.title, dueDate: d.dueDate, ownerName: undefined, overdue: d.dueDate < today }))
+  ].sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
   return (
     <div className="space-y-8">
       {/* Hero Stats */}
@@ -114,29 +159,96 @@ export const Dashboard: React.FC = () => {
         </div>
       </div>
 
-      {/* Stale Conversations Widget */}
-      {staleConversations.length > 0 && (
+      {(staleConversations.length > 0 || deadlineRows.length > 0) && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Stale Conversations Widget */}
+          {staleConversations.length > 0 && (
+            <section className="bg-red-50 rounded-xl shadow-sm border border-red-200 overflow-hidden">
+              <div className="p-6 border-b border-red-100 flex justify-between items-center">
+                <div className="flex items-center gap-2">
+                  <AlertTriangle className="w-5 h-5 text-red-600" />
+                  <h2 className="font-semibold text-red-800">Stale Conversations ({staleConversations.length})</h2>
+                </div>
+                <Link to="/conversations" className="text-red-600 text-sm hover:underline flex items-center gap-1">
+                  View all <ArrowRight className="w-3 h-3" />
+                </Link>
+              </div>
+              <div className="divide-y divide-red-100">
+                {staleConversations.slice(0, 5).map(conv => (
+                  <Link to={`/conversations/${conv.id}`} key={conv.id} className="block p-4 hover:bg-red-100/50 transition-colors">
+                    <div className="flex justify-between items-start">
+                      <h4 className="font-medium text-slate-900">{conv.title}</h4>
+                      <span className="text-xs font-bold text-red-600">{conv.daysSinceLastMessage} days</span>
+                    </div>
+                    {conv.pendingResponderName && (
+                      <div className="flex items-center gap-1 mt-1 text-xs text-red-600">
+                        <User className="w-3 h-3" />
+                        Awaiting {conv.pendingResponderName}
+                      </div>
+                    )}
+                  </Link>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {/* Deadlines Widget */}
+          {deadlineRows.length > 0 && (
+            <section className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+              <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+                <div className="flex items-center gap-2">
+                  <ListChecks className="w-5 h-5 text-indigo-600" />
+                  <h2 className="font-semibold text-slate-800">Deadlines ({deadlineRows.length})</h2>
+                </div>
+                <Link to="/rules?tab=deadlines" className="text-indigo-600 text-sm hover:underline flex items-center gap-1">
+                  View all <ArrowRight className="w-3 h-3" />
+                </Link>
+              </div>
+              <div className="divide-y divide-slate-100">
+                {deadlineRows.slice(0, 6).map(row => (
+                  <Link to="/rules?tab=deadlines" key={row.key} className="block p-4 hover:bg-slate-50 transition-colors">
+                    <div className="flex justify-between items-start gap-3">
+                      <h4 className="font-medium text-slate-900">{row.title}</h4>
+                      <span className={`text-xs font-bold whitespace-nowrap ${row.overdue ? 'text-red-600' : 'text-slate-500'}`}>
+                        {row.overdue ? 'Overdue · ' : ''}{format(new Date(row.dueDate + 'T00:00:00'), 'MMM d')}
+                      </span>
+                    </div>
+                    {row.ownerName && (
+                      <div className="flex items-center gap-1 mt-1 text-xs text-slate-500">
+                        <User className="w-3 h-3" />
+                        {row.ownerName}
+                      </div>
+                    )}
+                  </Link>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      )}
+
+      {/* Overdue Reimbursements Widget */}
+      {overdueReimbursements.length > 0 && (
         <section className="bg-red-50 rounded-xl shadow-sm border border-red-200 overflow-hidden">
           <div className="p-6 border-b border-red-100 flex justify-between items-center">
             <div className="flex items-center gap-2">
-              <AlertTriangle className="w-5 h-5 text-red-600" />
-              <h2 className="font-semibold text-red-800">Stale Conversations ({staleConversations.length})</h2>
+              <Wallet className="w-5 h-5 text-red-600" />
+              <h2 className="font-semibold text-red-800">Overdue Reimbursements ({overdueReimbursements.length})</h2>
             </div>
-            <Link to="/conversations" className="text-red-600 text-sm hover:underline flex items-center gap-1">
-              View all <ArrowRight className="w-3 h-3" />
+            <Link to="/ledger" className="text-red-600 text-sm hover:underline flex items-center gap-1">
+              View ledger <ArrowRight className="w-3 h-3" />
             </Link>
           </div>
           <div className="divide-y divide-red-100">
-            {staleConversations.slice(0, 5).map(conv => (
-              <Link to={`/conversations/${conv.id}`} key={conv.id} className="block p-4 hover:bg-red-100/50 transition-colors">
+            {overdueReimbursements.slice(0, 5).map(r => (
+              <Link to="/ledger" key={r.id} className="block p-4 hover:bg-red-100/50 transition-colors">
                 <div className="flex justify-between items-start">
-                  <h4 className="font-medium text-slate-900">{conv.title}</h4>
-                  <span className="text-xs font-bold text-red-600">{conv.daysSinceLastMessage} days</span>
+                  <h4 className="font-medium text-slate-900">{r.title}</h4>
+                  <span className="text-xs font-bold text-red-600">{formatCurrency(getOutstanding(r))}</span>
                 </div>
-                {conv.pendingResponderName && (
-                  <div className="flex items-center gap-1 mt-1 text-xs text-red-600">
-                    <User className="w-3 h-3" />
-                    Awaiting {conv.pendingResponderName}
+                {r.dueDate && (
+                  <div className="mt-1 text-xs text-red-600">
+                    Due {format(new Date(r.dueDate + 'T00:00:00'), 'MMM d, yyyy')} ({differenceInDays(new Date(), new Date(r.dueDate + 'T00:00:00'))} days overdue)
                   </div>
                 )}
               </Link>
@@ -215,6 +327,51 @@ export const Dashboard: React.FC = () => {
         </section>
       </div>
 
+      {/* Communication Patterns */}
+      {communicationRows.length > 0 && (
+        <section className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="p-6 border-b border-slate-100">
+            <div className="flex items-center gap-2">
+              <Activity className="w-5 h-5 text-indigo-600" />
+              <h2 className="font-semibold text-slate-800">Communication Patterns</h2>
+            </div>
+            <p className="text-xs text-slate-500 mt-1">Computed from message timestamps and text across all conversations.</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-xs text-slate-500 uppercase tracking-wide">
+                <tr>
+                  <th className="text-left font-medium px-6 py-3">Person</th>
+                  <th className="text-right font-medium px-4 py-3">Messages</th>
+                  <th className="text-right font-medium px-4 py-3">Median reply</th>
+                  <th className="text-right font-medium px-4 py-3">Unanswered questions</th>
+                  <th className="text-right font-medium px-4 py-3">Threads left unanswered</th>
+                  <th className="text-right font-medium px-6 py-3">Late night</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {communicationRows.map(({ person, metrics }) => (
+                  <tr key={person.id} className="hover:bg-slate-50">
+                    <td className="px-6 py-3">
+                      <Link to={`/people/${person.id}`} className="font-medium text-slate-900 hover:text-indigo-600">{person.fullName}</Link>
+                    </td>
+                    <td className="text-right px-4 py-3 text-slate-600">{metrics.messagesSent}</td>
+                    <td className="text-right px-4 py-3 text-slate-600">{formatMinutes(metrics.responseLatency.medianMinutes)}</td>
+                    <td className={`text-right px-4 py-3 ${metrics.unansweredQuestions.length > 0 ? 'text-amber-600 font-medium' : 'text-slate-600'}`}>
+                      {metrics.unansweredQuestions.length} / {metrics.questionsReceived}
+                    </td>
+                    <td className="text-right px-4 py-3 text-slate-600">
+                      {metrics.abandonmentRate === null ? '–' : `${Math.round(metrics.abandonmentRate * 100)}%`}
+                    </td>
+                    <td className="text-right px-6 py-3 text-slate-600">{Math.round(metrics.lateNightShare * 100)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
       {/* Log Event Modal */}
       {isEventModalOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
@@ -8,9 +8,11 @@ import {
   AgreementCategory,
   PDFProcessingInfo,
   Person,
+  PersonAlias,
   PersonExtractionAction,
   ExtractedPersonWithAction
 } from '../types';
+import { api } from '../services/api';
 import { findBestMatch, findAllMatches, NameMatchResult } from '../utils/nameMatching';
 
 interface DocumentProcessingModalProps {
@@ -76,6 +78,11 @@ export function DocumentProcessingModal({
   const [agreements, setAgreements] = useState<ExtractedAgreement[]>([]);
   const [additionalQuery, setAdditionalQuery] = useState('');
   const [isSearchingMore, setIsSearchingMore] = useState(false);
+  const [personAliases, setPersonAliases] = useState<PersonAlias[]>([]);
+
+  useEffect(() => {
+    if (isOpen) api.getPersonAliases().then(setPersonAliases);
+  }, [isOpen]);
 
   // Count statistics - must be before early return to maintain hook order
   const peopleToCreate = people.filter(p => p.action === 'create').length;
@@ -112,7 +119,7 @@ export function DocumentProcessingModal({
         }
         
         // Try fuzzy matching
-        const match = findBestMatch(person.name, existingPeople, 0.7);
+        const match = findBestMatch(person.name, existingPeople, 0.7, personAliases);
         if (match && match.matchScore >= 0.8) {
           // High confidence match - auto-link
           return {
@@ -143,7 +150,7 @@ export function DocumentProcessingModal({
       setAgreements(extractionResult.operationalAgreements);
       setCurrentStep('people');
     }
-  }, [extractionResult, existingPeople]);
+  }, [extractionResult, existingPeople, personAliases]);
 
   // Reset when modal opens
   useEffect(() => {
@@ -0,0 +1,324 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { api } from '../services/api';
+import { CustodyResolution, ExchangeLog, ExchangeOutcome, Issue, IssueStatus, Message, Person } from '../types';
+import { computeExchangeCompliance, describeExchangeLog, EXCHANGE_OUTCOME_LABELS } from '../utils/exchangeCompliance';
+import { differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+import { ClipboardCheck, Loader2, Trash2, MessageSquare, AlertCircle, X } from 'lucide-react';
+
+interface ExchangeLogPanelProps {
+  people: Person[];
+  parents: Person[];
+  // Day selected on the calendar, used to pre-fill a new log entry
+  selectedDay: CustodyResolution | null;
+}
+
+const OUTCOME_STYLES: Record<ExchangeOutcome, string> = {
+  [ExchangeOutcome.OnTime]: 'bg-green-100 text-green-700',
+  [ExchangeOutcome.Late]: 'bg-amber-100 text-amber-700',
+  [ExchangeOutcome.Missed]: 'bg-red-100 text-red-700',
+  [ExchangeOutcome.Swapped]: 'bg-blue-100 text-blue-700'
+};
+
+interface LogForm {
+  date: string;
+  time: string;
+  outcome: ExchangeOutcome;
+  minutesLate: string;
+  responsiblePersonId: string;
+  location: string;
+  notes: string;
+  messageIds: string[];
+  issueIds: string[];
+}
+
+export const ExchangeLogPanel: React.FC<ExchangeLogPanelProps> = ({ people, parents, selectedDay }) => {
+  const [logs, setLogs] = useState<ExchangeLog[]>([]);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [issues, setIssues] = useState<Issue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<LogForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [range, setRange] = useState({
+    startDate: format(subDays(new Date(), 90), 'yyyy-MM-dd'),
+    endDate: format(new Date(), 'yyyy-MM-dd')
+  });
+
+  const loadLogs = async () => setLogs(await api.getExchangeLogs());
+
+  useEffect(() => {
+    Promise.all([api.getExchangeLogs(), api.getMessages(), api.getIssues()])
+      .then(([l, m, i]) => {
+        setLogs(l);
+        setMessages(m);
+        setIssues(i);
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const stats = useMemo(() => computeExchangeCompliance(logs, range), [logs, range]);
+  const logsInRange = logs.filter(l => {
+    const day = l.scheduledAt.slice(0, 10);
+    return day >= range.startDate && day <= range.endDate;
+  });
+
+  const personName = (id?: string) => people.find(p => p.id === id)?.fullName || 'Unknown';
+
+  const openForm = () => {
+    const exchange = selectedDay?.exchange;
+    setForm({
+      date: selectedDay?.date || format(new Date(), 'yyyy-MM-dd'),
+      time: exchange?.time || '18:00',
+      outcome: ExchangeOutcome.OnTime,
+      minutesLate: '',
+      responsiblePersonId: exchange?.fromPersonId || '',
+      location: exchange?.location || '',
+      notes: '',
+      messageIds: [],
+      issueIds: []
+    });
+  };
+
+  // Messages sent within a day of the exchange are the likely evidence
+  const nearbyMessages = form
+    ? messages.filter(m => Math.abs(differenceInCalendarDays(new Date(m.sentAt), parseISO(form.date))) <= 1)
+    : [];
+
+  const toggle = (key: 'messageIds' | 'issueIds', id: string) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      [key]: form[key].includes(id) ? form[key].filter(x => x !== id) : [...form[key], id]
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    setSaving(true);
+    try {
+      const exchange = selectedDay?.date === form.date ? selectedDay.exchange : undefined;
+      await api.createExchangeLog({
+        scheduledAt: new Date(`${form.date}T${form.time || '00:00'}`).toISOString(),
+        outcome: form.outcome,
+        minutesLate: form.outcome === ExchangeOutcome.Late ? parseInt(form.minutesLate, 10) || 0 : undefined,
+        responsiblePersonId: form.responsiblePersonId || undefined,
+        fromPersonId: exchange?.fromPersonId,
+        toPersonId: exchange?.toPersonId,
+        agreementItemId: selectedDay?.date === form.date ? selectedDay.agreementItemId : undefined,
+        scheduleId: selectedDay?.date === form.date && selectedDay.source === 'rotation' ? selectedDay.scheduleId : undefined,
+        location: form.location || undefined,
+        notes: form.notes || undefined,
+        messageIds: form.messageIds,
+        issueIds: form.issueIds
+      });
+      setForm(null);
+      await loadLogs();
+    } catch (e) {
+      console.error(e);
+      alert('Failed to save exchange log.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this exchange log?')) return;
+    await api.deleteExchangeLog(id);
+    await loadLogs();
+  };
+
+  if (loading) return <div className="flex p-8 justify-center"><Loader2 className="animate-spin text-indigo-600" /></div>;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-5 space-y-5">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <ClipboardCheck className="w-4 h-4 text-indigo-600" /> Exchange Log & Compliance
+        </h3>
+        {!form && (
+          <button
+            onClick={openForm}
+            className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700"
+          >
+            Log Exchange{selectedDay ? ` for ${format(parseISO(selectedDay.date), 'MMM d')}` : ''}
+          </button>
+        )}
+      </div>
+
+      {/* New Log Form */}
+      {form && (
+        <div className="border border-indigo-200 rounded-lg p-4 space-y-3 text-sm">
+          <div className="flex justify-between items-center">
+            <span className="font-medium text-slate-800">New exchange log</span>
+            <button onClick={() => setForm(null)} className="p-1 text-slate-400 hover:text-slate-600"><X className="w-4 h-4" /></button>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <label className="space-y-1">
+              <span className="text-xs text-slate-500">Scheduled date</span>
+              <input type="date" value={form.date} onChange={e => setForm({ ...form, date: e.target.value })} className="w-full border border-slate-300 rounded px-2 py-1" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-slate-500">Scheduled time</span>
+              <input type="time" value={form.time} onChange={e => setForm({ ...form, time: e.target.value })} className="w-full border border-slate-300 rounded px-2 py-1" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-slate-500">What happened</span>
+              <select
+                value={form.outcome}
+                onChange={e => setForm({ ...form, outcome: e.target.value as ExchangeOutcome })}
+                className="w-full border border-slate-300 rounded px-2 py-1 bg-white"
+              >
+                {Object.values(ExchangeOutcome).map(o => <option key={o} value={o}>{EXCHANGE_OUTCOME_LABELS[o]}</option>)}
+              </select>
+            </label>
+            {form.outcome === ExchangeOutcome.Late ? (
+              <label className="space-y-1">
+                <span className="text-xs text-slate-500">Minutes late</span>
+                <input type="number" min={0} value={form.minutesLate} onChange={e => setForm({ ...form, minutesLate: e.target.value })} className="w-full border border-slate-300 rounded px-2 py-1" />
+              </label>
+            ) : <div />}
+            <label className="space-y-1 col-span-2">
+              <span className="text-xs text-slate-500">Counted against</span>
+              <select
+                value={form.responsiblePersonId}
+                onChange={e => setForm({ ...form, responsiblePersonId: e.target.value })}
+                className="w-full border border-slate-300 rounded px-2 py-1 bg-white"
+              >
+                <option value="">Select parent...</option>
+                {parents.map(p => <option key={p.id} value={p.id}>{p.fullName}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1 col-span-2">
+              <span className="text-xs text-slate-500">Location</span>
+              <input value={form.location} onChange={e => setForm({ ...form, location: e.target.value })} className="w-full border border-slate-300 rounded px-2 py-1" />
+            </label>
+          </div>
+          <textarea
+            value={form.notes}
+            onChange={e => setForm({ ...form, notes: e.target.value })}
+            placeholder="What happened? (optional)"
+            rows={2}
+            className="w-full border border-slate-300 rounded px-2 py-1"
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <div className="text-xs text-slate-500 mb-1">Link messages (within a day)</div>
+              <div className="max-h-32 overflow-y-auto border border-slate-200 rounded p-1 space-y-0.5">
+                {nearbyMessages.length === 0 ? (
+                  <div className="text-xs text-slate-400 p-1">No messages near this date.</div>
+                ) : nearbyMessages.map(m => (
+                  <label key={m.id} className="flex items-start gap-1.5 text-xs p-1 hover:bg-slate-50 rounded cursor-pointer">
+                    <input type="checkbox" checked={form.messageIds.includes(m.id)} onChange={() => toggle('messageIds', m.id)} className="mt-0.5" />
+                    <span className="line-clamp-2"><span className="text-slate-400">{format(new Date(m.sentAt), 'MMM d h:mm a')} {personName(m.senderId)}:</span> {m.rawText}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-slate-500 mb-1">Link issues</div>
+              <div className="max-h-32 overflow-y-auto border border-slate-200 rounded p-1 space-y-0.5">
+                {issues.filter(i => i.status !== IssueStatus.Archived).map(i => (
+                  <label key={i.id} className="flex items-center gap-1.5 text-xs p-1 hover:bg-slate-50 rounded cursor-pointer">
+                    <input type="checkbox" checked={form.issueIds.includes(i.id)} onChange={() => toggle('issueIds', i.id)} />
+                    <span className="truncate">{i.title}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.date}
+              className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-1.5"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />} Save Log
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Compliance Statistics */}
+      <div>
+        <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+          <span className="text-slate-500">Compliance from</span>
+          <input type="date" value={range.startDate} onChange={e => setRange({ ...range, startDate: e.target.value })} className="border border-slate-300 rounded px-2 py-1" />
+          <span className="text-slate-500">to</span>
+          <input type="date" value={range.endDate} onChange={e => setRange({ ...range, endDate: e.target.value })} className="border border-slate-300 rounded px-2 py-1" />
+        </div>
+        {stats.length === 0 ? (
+          <p className="text-sm text-slate-500">No exchanges logged in this period.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 border-b border-slate-200">
+                <th className="py-1.5 font-medium">Parent</th>
+                <th className="py-1.5 font-medium text-right">Logged</th>
+                <th className="py-1.5 font-medium text-right">On time</th>
+                <th className="py-1.5 font-medium text-right">Late (avg)</th>
+                <th className="py-1.5 font-medium text-right">Missed</th>
+                <th className="py-1.5 font-medium text-right">Swapped</th>
+                <th className="py-1.5 font-medium text-right">Compliance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map(s => (
+                <tr key={s.personId} className="border-b border-slate-100">
+                  <td className="py-1.5 text-slate-800">{personName(s.personId)}</td>
+                  <td className="py-1.5 text-right">{s.total}</td>
+                  <td className="py-1.5 text-right">{s.onTime}</td>
+                  <td className="py-1.5 text-right">{s.late}{s.late > 0 && ` (${s.averageMinutesLate} min)`}</td>
+                  <td className="py-1.5 text-right">{s.missed}</td>
+                  <td className="py-1.5 text-right">{s.swapped}</td>
+                  <td className={`py-1.5 text-right font-semibold ${s.complianceRate >= 0.9 ? 'text-green-600' : s.complianceRate >= 0.7 ? 'text-amber-600' : 'text-red-600'}`}>
+                    {Math.round(s.complianceRate * 100)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Logged Exchanges */}
+      {logsInRange.length > 0 && (
+        <div className="space-y-2">
+          {logsInRange.map(log => (
+            <div key={log.id} className="flex items-start justify-between gap-2 p-2 border border-slate-200 rounded-lg text-sm">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-slate-800 font-medium">{format(new Date(log.scheduledAt), 'EEE, MMM d yyyy h:mm a')}</span>
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${OUTCOME_STYLES[log.outcome]}`}>{describeExchangeLog(log)}</span>
+                  {log.responsiblePersonId && <span className="text-xs text-slate-500">{personName(log.responsiblePersonId)}</span>}
+                </div>
+                {log.notes && <p className="text-xs text-slate-600">{log.notes}</p>}
+                {(log.messageIds.length > 0 || log.issueIds.length > 0) && (
+                  <div className="flex flex-wrap gap-1">
+                    {log.messageIds.map(id => {
+                      const message = messages.find(m => m.id === id);
+                      return message ? (
+                        <Link key={id} to={`/conversations/${message.conversationId}?message=${id}`} className="text-[10px] px-1.5 py-0.5 bg-indigo-50 text-indigo-700 border border-indigo-100 rounded-full flex items-center gap-1">
+                          <MessageSquare className="w-2.5 h-2.5" /> {format(new Date(message.sentAt), 'MMM d h:mm a')}
+                        </Link>
+                      ) : null;
+                    })}
+                    {log.issueIds.map(id => (
+                      <Link key={id} to={`/issues/${id}`} className="text-[10px] px-1.5 py-0.5 bg-amber-50 text-amber-700 border border-amber-100 rounded-full flex items-center gap-1">
+                        <AlertCircle className="w-2.5 h-2.5" /> {issues.find(i => i.id === id)?.title || 'Issue'}
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <button onClick={() => handleDelete(log.id)} className="p-1 text-slate-400 hover:text-red-600" title="Delete">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,356 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { api } from '../services/api';
+import { Conversation, ConversationAnalysis, FlagReview, Message, Person } from '../types';
+import { formatFlagType, getFlagTier, MESSAGE_FLAG_TYPES } from '../utils/behaviorTrends';
+import { flagReviewKey, FlagReviewState, ReviewedFlag, reviewFlags } from '../utils/flagReviews';
+import { Flag, Loader2, Check, Pencil, X, RotateCcw, MessageSquare, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+
+const STATE_TABS: Array<{ state: FlagReviewState; label: string }> = [
+  { state: 'pending', label: 'To review' },
+  { state: 'confirmed', label: 'Confirmed' },
+  { state: 'corrected', label: 'Corrected' },
+  { state: 'dismissed', label: 'Dismissed' }
+];
+
+const SEVERITY_STYLES: Record<string, string> = {
+  high: 'bg-red-100 text-red-700',
+  medium: 'bg-amber-100 text-amber-700',
+  low: 'bg-slate-100 text-slate-600'
+};
+
+type Severity = 'low' | 'medium' | 'high';
+
+interface Draft {
+  mode: 'correct' | 'dismiss';
+  type: string;
+  severity: Severity;
+  personId: string;
+  evidence: string;
+  reason: string;
+}
+
+export const FlagReviewView: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const conversationFilter = searchParams.get('conversation') || '';
+  const stateFilter = (searchParams.get('state') as FlagReviewState) || 'pending';
+
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [analyses, setAnalyses] = useState<ConversationAnalysis[]>([]);
+  const [reviews, setReviews] = useState<FlagReview[]>([]);
+  const [people, setPeople] = useState<Person[]>([]);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([api.getConversations(), api.getConversationAnalyses(), api.getFlagReviews(), api.getPeople()])
+      .then(async ([c, a, r, p]) => {
+        setConversations(c);
+        setAnalyses(a);
+        setReviews(r);
+        setPeople(p);
+        // Only the flagged messages are needed for context
+        const flaggedIds = Array.from(new Set(reviewFlags(a, r).map(f => f.messageId)));
+        setMessages(await api.getMessagesByIds(flaggedIds));
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const allFlags = useMemo(() => reviewFlags(analyses, reviews), [analyses, reviews]);
+  const scopedFlags = conversationFilter ? allFlags.filter(f => f.conversationId === conversationFilter) : allFlags;
+  const visibleFlags = scopedFlags.filter(f => f.state === stateFilter);
+  const countByState = (state: FlagReviewState) => scopedFlags.filter(f => f.state === state).length;
+
+  const messagesById = useMemo(() => new Map(messages.map(m => [m.id, m])), [messages]);
+  const personName = (id?: string) => people.find(p => p.id === id)?.fullName || 'Unknown';
+  const conversationTitle = (id: string) => conversations.find(c => c.id === id)?.title || 'Untitled conversation';
+
+  const updateParam = (key: string, value?: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next);
+  };
+
+  const startDraft = (item: ReviewedFlag, mode: Draft['mode']) => {
+    setDrafts(prev => ({
+      ...prev,
+      [item.key]: {
+        mode,
+        type: item.flag.type,
+        severity: item.flag.severity,
+        personId: item.flag.attributedToPersonId,
+        evidence: item.flag.evidence || '',
+        reason: item.review?.reason || ''
+      }
+    }));
+  };
+
+  const closeDraft = (key: string) => {
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  };
+
+  const saveReview = async (item: ReviewedFlag, status: FlagReview['status'], draft?: Draft) => {
+    setSavingKey(item.key);
+    setError(null);
+    try {
+      const corrected = status === 'corrected' && draft;
+      const saved = await api.saveFlagReview({
+        conversationId: item.conversationId,
+        messageId: item.messageId,
+        flagType: item.original.type,
+        attributedToPersonId: item.original.attributedToPersonId,
+        status,
+        correctedType: corrected && draft.type !== item.original.type ? draft.type : undefined,
+        correctedSeverity: corrected && draft.severity !== item.original.severity ? draft.severity : undefined,
+        correctedPersonId: corrected && draft.personId !== item.original.attributedToPersonId ? draft.personId : undefined,
+        correctedEvidence: corrected && draft.evidence.trim() !== (item.original.evidence || '') ? draft.evidence.trim() : undefined,
+        reason: draft?.reason.trim() || undefined
+      });
+      setReviews(prev => [
+        ...prev.filter(r => flagReviewKey(r.messageId, r.flagType, r.attributedToPersonId) !== item.key),
+        saved
+      ]);
+      closeDraft(item.key);
+    } catch (e) {
+      console.error('Failed to save flag review:', e);
+      setError('Failed to save review. Please try again.');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const undoReview = async (item: ReviewedFlag) => {
+    if (!item.review) return;
+    setSavingKey(item.key);
+    try {
+      await api.deleteFlagReview(item.review.id);
+      setReviews(prev => prev.filter(r => r.id !== item.review!.id));
+    } catch (e) {
+      console.error('Failed to undo flag review:', e);
+      setError('Failed to undo review. Please try again.');
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  if (loading) return <div className="flex p-8 justify-center"><Loader2 className="animate-spin text-indigo-600" /></div>;
+
+  const analyzedConversations = conversations.filter(c => analyses.some(a => a.conversationId === c.id));
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+          <Flag className="w-6 h-6 text-indigo-600" /> Flag Review
+        </h2>
+        <p className="text-sm text-slate-500 mt-1">
+          AI flags only count towards trends and reports once confirmed. Dismissed flags stay dismissed when a conversation is re-analyzed.
+        </p>
+      </div>
+
+      <div className="bg-white p-4 rounded-xl border border-slate-200 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-1 bg-slate-100 p-1 rounded-lg">
+          {STATE_TABS.map(tab => (
+            <button
+              key={tab.state}
+              onClick={() => updateParam('state', tab.state === 'pending' ? undefined : tab.state)}
+              className={`px-3 py-1 text-sm rounded-md ${stateFilter === tab.state ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500'}`}
+            >
+              {tab.label} ({countByState(tab.state)})
+            </button>
+          ))}
+        </div>
+        <select
+          value={conversationFilter}
+          onChange={e => updateParam('conversation', e.target.value || undefined)}
+          className="px-3 py-1.5 border border-slate-300 rounded-lg text-sm bg-white max-w-xs"
+        >
+          <option value="">All conversations</option>
+          {analyzedConversations.map(c => (
+            <option key={c.id} value={c.id}>{c.title}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4" /> {error}
+        </div>
+      )}
+
+      {visibleFlags.length === 0 ? (
+        <div className="bg-white p-8 rounded-xl border border-slate-200 text-center text-slate-500">
+          {stateFilter === 'pending' ? 'No flags waiting for review.' : 'No flags here yet.'}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visibleFlags.map(item => {
+            const message = messagesById.get(item.messageId);
+            const draft = drafts[item.key];
+            const saving = savingKey === item.key;
+            const tier = getFlagTier(item.flag.type);
+
+            return (
+              <div key={item.key} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold text-slate-800">{formatFlagType(item.flag.type)}</span>
+                      <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${SEVERITY_STYLES[item.flag.severity] || SEVERITY_STYLES.low}`}>
+                        {item.flag.severity}
+                      </span>
+                      <span className="text-xs text-slate-400">{tier.replace(/_/g, ' ')}</span>
+                      {item.original.evidenceVerified === false && (
+                        <span className="text-xs text-amber-700 flex items-center gap-1">
+                          <AlertTriangle className="w-3 h-3" /> Quote not found in message
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-slate-500">
+                      Attributed to <span className="font-medium text-slate-700">{personName(item.flag.attributedToPersonId)}</span>
+                      {' · '}
+                      <Link to={`/conversations/${item.conversationId}?message=${item.messageId}`} className="text-indigo-600 hover:underline">
+                        {conversationTitle(item.conversationId)}
+                      </Link>
+                    </p>
+                  </div>
+                  {item.state !== 'pending' && (
+                    <button
+                      onClick={() => undoReview(item)}
+                      disabled={saving}
+                      className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-800 disabled:opacity-50 flex-shrink-0"
+                    >
+                      <RotateCcw className="w-3 h-3" /> Back to review
+                    </button>
+                  )}
+                </div>
+
+                <p className="text-sm text-slate-700">{item.flag.description}</p>
+                {item.flag.evidence && (
+                  <p className="text-sm text-slate-600 italic border-l-2 border-slate-200 pl-3">{item.flag.evidence}</p>
+                )}
+                {message && (
+                  <div className="text-xs text-slate-500 bg-slate-50 rounded-lg p-2 flex gap-2">
+                    <MessageSquare className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    <span>
+                      <span className="font-medium">{personName(message.senderId)}</span>
+                      {message.sentAt && <>, {format(new Date(message.sentAt), 'MMM d, yyyy h:mm a')}</>}: {message.rawText}
+                    </span>
+                  </div>
+                )}
+                {item.review?.reason && (
+                  <p className="text-xs text-slate-500">
+                    <span className="font-medium">Reviewer note:</span> {item.review.reason}
+                  </p>
+                )}
+
+                {draft ? (
+                  <div className="bg-slate-50 rounded-lg p-3 space-y-3">
+                    {draft.mode === 'correct' && (
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                        <select
+                          value={draft.type}
+                          onChange={e => setDrafts(prev => ({ ...prev, [item.key]: { ...draft, type: e.target.value } }))}
+                          className="px-2 py-1.5 border border-slate-300 rounded-lg text-sm bg-white"
+                        >
+                          {!MESSAGE_FLAG_TYPES.includes(draft.type as any) && <option value={draft.type}>{formatFlagType(draft.type)}</option>}
+                          {MESSAGE_FLAG_TYPES.map(t => <option key={t} value={t}>{formatFlagType(t)}</option>)}
+                        </select>
+                        <select
+                          value={draft.severity}
+                          onChange={e => setDrafts(prev => ({ ...prev, [item.key]: { ...draft, severity: e.target.value as Severity } }))}
+                          className="px-2 py-1.5 border border-slate-300 rounded-lg text-sm bg-white"
+                        >
+                          <option value="low">Low</option>
+                          <option value="medium">Medium</option>
+                          <option value="high">High</option>
+                        </select>
+                        <select
+                          value={draft.personId}
+                          onChange={e => setDrafts(prev => ({ ...prev, [item.key]: { ...draft, personId: e.target.value } }))}
+                          className="px-2 py-1.5 border border-slate-300 rounded-lg text-sm bg-white"
+                        >
+                          {!people.some(p => p.id === draft.personId) && <option value={draft.personId}>Unknown</option>}
+                          {people.map(p => <option key={p.id} value={p.id}>{p.fullName}</option>)}
+                        </select>
+                        <textarea
+                          value={draft.evidence}
+                          onChange={e => setDrafts(prev => ({ ...prev, [item.key]: { ...draft, evidence: e.target.value } }))}
+                          placeholder="Evidence quote"
+                          rows={2}
+                          className="sm:col-span-3 px-3 py-2 border border-slate-300 rounded-lg text-sm bg-white resize-none"
+                        />
+                      </div>
+                    )}
+                    <input
+                      type="text"
+                      value={draft.reason}
+                      onChange={e => setDrafts(prev => ({ ...prev, [item.key]: { ...draft, reason: e.target.value } }))}
+                      placeholder={draft.mode === 'dismiss' ? 'Why is this flag wrong? (required)' : 'Note on the correction (optional)'}
+                      className="w-full px-3 py-1.5 border border-slate-300 rounded-lg text-sm bg-white"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => closeDraft(item.key)} className="px-3 py-1.5 text-sm text-slate-500 hover:text-slate-800">
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => saveReview(item, draft.mode === 'dismiss' ? 'dismissed' : 'corrected', draft)}
+                        disabled={saving || (draft.mode === 'dismiss' && !draft.reason.trim())}
+                        className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
+                      >
+                        {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                        {draft.mode === 'dismiss' ? 'Dismiss flag' : 'Save correction'}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex justify-end gap-2 pt-1">
+                    {item.state !== 'confirmed' && (
+                      <button
+                        onClick={() => saveReview(item, 'confirmed')}
+                        disabled={saving}
+                        className="flex items-center gap-1.5 px-3 py-1.5 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 disabled:opacity-50"
+                      >
+                        {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                        Confirm
+                      </button>
+                    )}
+                    <button
+                      onClick={() => startDraft(item, 'correct')}
+                      disabled={saving}
+                      className="flex items-center gap-1.5 px-3 py-1.5 border border-slate-300 rounded-lg text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+                    >
+                      <Pencil className="w-4 h-4" /> Correct
+                    </button>
+                    {item.state !== 'dismissed' && (
+                      <button
+                        onClick={() => startDraft(item, 'dismiss')}
+                        disabled={saving}
+                        className="flex items-center gap-1.5 px-3 py-1.5 border border-slate-300 rounded-lg text-sm font-medium text-red-600 hover:bg-red-50 disabled:opacity-50"
+                      >
+                        <X className="w-4 h-4" /> Dismiss
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
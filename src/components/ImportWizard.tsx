@@ -3,16 +3,23 @@ import { api } from '../services/api';
 import { parseFileWithAI } from '../services/ai';
 import { processAnalysisResults, updateConversationState, extractKeyFindings, buildAnalysisSummary } from '../services/analysisProcessor';
 import { buildAnalysisRequest, AnalysisMessage } from '../services/analysisRequestBuilder';
-import { Person, SourceType, MessageDirection, Role } from '../types';
-import { ConversationAnalysisResult, AnalysisSummary, DetectedAgreement } from '../types/analysisTypes';
+import { Person, PersonAlias, SourceType, MessageDirection, Role, ReimbursementStatus } from '../types';
+import { AnalysisSummary, DetectedAgreement, AnalysisProgress } from '../types/analysisTypes';
 import { FirstSentenceMatch } from '../types/continuity';
-import { parseOFWExport, parseGenericText, parseGmailExport, ParsedConversation } from '../utils/parsers';
+import { 
+  parseOFWExport, parseGenericText, parseGmailExport, parseOFWCalendarReport, parseOFWExpenseReport,
+  parseOFWJournalReport, ParsedConversation, ParsedCalendarEntry, ParsedExpense, OFWReportType
+} from '../utils/parsers';
+import { parseSMSExport, SELF_SENDER_NAME } from '../utils/smsParsers';
+import { parseEmailArchive, isRawEmailContent } from '../utils/emailParsers';
+import { extractTextFromPDF } from '../utils/pdfExtractor';
 import { extractFirstSentence, normalizeTextForMatching } from '../utils/textMatching';
+import { findAliasMatch, findBestMatch, inferAliasType } from '../utils/nameMatching';
 import { supabase } from '../lib/supabase';
 import { DetectedAgreementsReview } from './DetectedAgreementsReview';
 import { ContinuityModal } from './ContinuityModal';
 import { AnalysisProgressModal } from './AnalysisProgressModal';
-import { runPipelineAnalysis, AnalysisProgress } from '../utils/sseAnalysisClient';
+import { queueAnalysis, queueConversationAnalyses, waitForAnalysisRun, applyAnalysisRun } from '../services/analysisJobs';
 import { validateAndSanitizeAnalysisResult } from '../utils/analysisValidator';
 import { FEATURES } from '../config/features';
 import { 
@@ -25,16 +32,35 @@ interface ImportWizardProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: (conversationId: string) => void;
+  onRecordsImported?: (kind: 'events' | 'reimbursements' | 'conversations', count: number) => void;
 }
 
-export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onSuccess }) => {
+const OFW_REPORT_TYPES: Array<{ value: OFWReportType; label: string }> = [
+  { value: 'messages', label: 'Message Report' },
+  { value: 'calendar', label: 'Calendar Report' },
+  { value: 'expenses', label: 'Expense Log' },
+  { value: 'journal', label: 'Journal Report' }
+];
+
+const toReimbursementStatus = (status: string): ReimbursementStatus => {
+  const s = status.toLowerCase();
+  if (s.includes('partial')) return ReimbursementStatus.PartiallyPaid;
+  if (s.includes('paid') || s.includes('reimbursed') || s.includes('settled')) return ReimbursementStatus.Paid;
+  if (s.includes('declin') || s.includes('reject') || s.includes('denied')) return ReimbursementStatus.Declined;
+  if (s.includes('disput')) return ReimbursementStatus.Disputed;
+  return ReimbursementStatus.Pending;
+};
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onSuccess, onRecordsImported }) => {
   const [step, setStep] = useState(1);
   const [loading, setLoading] = useState(false);
   const [analysisLoading, setAnalysisLoading] = useState(false);
   const [existingPeople, setExistingPeople] = useState<Person[]>([]);
+  const [personAliases, setPersonAliases] = useState<PersonAlias[]>([]);
 
   // Form State
   const [sourceType, setSourceType] = useState<SourceType>(SourceType.OFW);
+  const [ofwReportType, setOfwReportType] = useState<OFWReportType>('messages');
   const [importMode, setImportMode] = useState<'text' | 'file'>('file');
   const [rawContent, setRawContent] = useState('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -44,6 +70,15 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
   const [conversationTitle, setConversationTitle] = useState('');
   const [nameMapping, setNameMapping] = useState<Record<string, string>>({});
   
+  // OFW Calendar / Expense Log records (not conversations)
+  const [parsedCalendar, setParsedCalendar] = useState<ParsedCalendarEntry[] | null>(null);
+  const [parsedExpenses, setParsedExpenses] = useState<ParsedExpense[] | null>(null);
+  
+  // Threads found in an .eml/.mbox archive or phone backup; the selected ones are imported together
+  const [importThreads, setImportThreads] = useState<ParsedConversation[]>([]);
+  const [selectedThreads, setSelectedThreads] = useState<Set<number>>(new Set());
+  const [importWarning, setImportWarning] = useState<string | null>(null);
+  
   // Analysis State
   const [analysisSummary, setAnalysisSummary] = useState<AnalysisSummary | null>(null);
   const [showAnalysisSummary, setShowAnalysisSummary] = useState(false);
@@ -59,10 +94,11 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
   const [showContinuityModal, setShowContinuityModal] = useState(false);
   const [appendLoading, setAppendLoading] = useState(false);
   
-  // SSE Pipeline State
+  // Server-side pipeline run being followed
   const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
   const isMountedRef = useRef(true);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const followedRunIdRef = useRef<string | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -70,6 +106,7 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
     isMountedRef.current = true;
     if (isOpen) {
       api.getPeople().then(setExistingPeople);
+      api.getPersonAliases().then(setPersonAliases);
     }
     return () => {
       isMountedRef.current = false;
@@ -77,27 +114,174 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
     };
   }, [isOpen]);
 
-  const handleCancelAnalysis = () => {
+  const handleCancelAnalysis = async () => {
     abortControllerRef.current?.abort();
     setAnalysisLoading(false);
     setAnalysisProgress(null);
+    if (followedRunIdRef.current) {
+      await api.cancelAnalysisRun(followedRunIdRef.current);
+    }
+  };
+
+  // Stops following; the result is applied when the conversation is next opened
+  const handleRunInBackground = () => {
+    abortControllerRef.current?.abort();
+    setAnalysisLoading(false);
+    setAnalysisProgress(null);
+  };
+
+  const buildNameMapping = (names: Iterable<string>, emails?: Record<string, string>): Record<string, string> => {
+    const newMapping: Record<string, string> = {};
+    for (const name of names) {
+        // A known email address (on the person or saved as an alias) is a definitive match
+        const email = emails?.[name];
+        const emailMatch = email && findAliasMatch(email, existingPeople, personAliases);
+        if (emailMatch) {
+            newMapping[name] = emailMatch.personId;
+            continue;
+        }
+        if (name === SELF_SENDER_NAME) {
+            const me = existingPeople.find(p => p.role === Role.Me);
+            newMapping[name] = me ? me.id : 'new';
+            continue;
+        }
+        const match = findBestMatch(name, existingPeople, 0.7, personAliases)?.personId ||
+            existingPeople.find(p => p.fullName.toLowerCase().includes(name.toLowerCase()))?.id;
+        newMapping[name] = match || 'new';
+    }
+    return newMapping;
+  };
+
+  const threadParticipants = (threads: ParsedConversation[]): string[] =>
+    Array.from(new Set(threads.flatMap(t => Array.from(t.participants))));
+
+  const threadParticipantEmails = (threads: ParsedConversation[]): Record<string, string> =>
+    Object.assign({}, ...threads.map(t => t.participantEmails || {}));
+
+  // Names and addresses mapped to an existing person are saved as their aliases, so the next import recognises them
+  const rememberAliases = (nameToIdMap: Record<string, string>, emails?: Record<string, string>) => {
+    const fallbackType = sourceType === SourceType.OFW ? 'ofw_name' : 'name';
+    const learned: Omit<PersonAlias, 'id'>[] = [];
+    for (const [name, personId] of Object.entries(nameToIdMap)) {
+        const person = existingPeople.find(p => p.id === personId);
+        if (!person || name === SELF_SENDER_NAME) continue;
+        if (name.trim().toLowerCase() !== person.fullName.trim().toLowerCase()) {
+            learned.push({ personId, aliasType: inferAliasType(name, fallbackType), alias: name });
+        }
+        const email = emails?.[name];
+        if (email && email.trim().toLowerCase() !== person.email?.trim().toLowerCase()) {
+            learned.push({ personId, aliasType: 'email', alias: email });
+        }
+    }
+    return api.addPersonAliases(learned);
+  };
+
+  // OFW report text is parsed locally; PDFs are reduced to their text layer first
+  const readReportText = async (): Promise<string> => {
+    if (importMode === 'text' || !selectedFile) return rawContent;
+    if (selectedFile.type === 'application/pdf') {
+      const pdfInfo = await extractTextFromPDF(selectedFile);
+      if (pdfInfo.isLikelyScanned) {
+        throw new Error('This report appears to be scanned. Please export it from OFW as a text-based PDF.');
+      }
+      return pdfInfo.totalText;
+    }
+    return selectedFile.text();
+  };
+
+  const expenseParticipantNames = (expenses: ParsedExpense[]): string[] => {
+    const names = new Set<string>();
+    expenses.forEach(e => {
+      if (e.paidByName) names.add(e.paidByName);
+      if (e.requestedFromName) names.add(e.requestedFromName);
+    });
+    return Array.from(names);
+  };
+
+  const reportUnsent = (unsent: number) => {
+    if (unsent > 0) {
+      setImportWarning(`${unsent} draft or unsent message(s) in the backup were left out`);
+    }
   };
 
   const handleParse = async () => {
     setLoading(true);
     setParsedData(null);
+    setParsedCalendar(null);
+    setParsedExpenses(null);
+    setImportThreads([]);
+    setImportWarning(null);
     setFirstSentenceMatch(null);
 
     try {
         let result: ParsedConversation;
+        let threads: ParsedConversation[] = [];
+        const reportType = sourceType === SourceType.OFW ? ofwReportType : 'messages';
+
+        if (reportType === 'calendar') {
+            const entries = parseOFWCalendarReport(await readReportText());
+            if (entries.length === 0) throw new Error('No calendar entries found in this report');
+            setParsedCalendar(entries);
+            setStep(2);
+            return;
+        }
+
+        if (reportType === 'expenses') {
+            const expenses = parseOFWExpenseReport(await readReportText());
+            if (expenses.length === 0) throw new Error('No expense entries found in this report');
+            setParsedExpenses(expenses);
+            setNameMapping(buildNameMapping(expenseParticipantNames(expenses)));
+            setStep(2);
+            return;
+        }
 
-        if (importMode === 'file' && selectedFile) {
-            result = await parseFileWithAI(selectedFile);
+        if (reportType === 'journal') {
+            result = parseOFWJournalReport(await readReportText());
+            if (result.messages.length === 0) throw new Error('No journal entries found in this report');
+        } else if (sourceType === SourceType.Email && (
+            importMode === 'file'
+                ? !!selectedFile && (/\.(eml|mbox)$/i.test(selectedFile.name) ||
+                    (selectedFile.type.startsWith('text/') && isRawEmailContent(await selectedFile.text())))
+                : isRawEmailContent(rawContent)
+        )) {
+            const archive = parseEmailArchive(importMode === 'file' && selectedFile ? await selectedFile.text() : rawContent);
+            if (archive.threads.length === 0) throw new Error('No email messages found');
+            if (archive.undated.length > 0) {
+                setImportWarning(
+                    `${archive.undated.length} email(s) had no readable date and were left out: ` +
+                    archive.undated.map(e => `"${e.subject}"`).join(', ')
+                );
+            }
+            threads = archive.threads;
+            result = threads[0];
+        } else if (importMode === 'file' && selectedFile) {
+            // Structured phone exports (.txt/.csv/.xml) parse locally without the AI call
+            const isTextFile = !selectedFile.type.startsWith('image/') && selectedFile.type !== 'application/pdf';
+            const smsExport = sourceType === SourceType.SMS && isTextFile
+                ? parseSMSExport(await selectedFile.text())
+                : null;
+            if (smsExport) {
+                if (smsExport.threads.length === 0) throw new Error('No text messages found');
+                reportUnsent(smsExport.unsent);
+                threads = smsExport.threads;
+                result = threads[0];
+            } else {
+                result = await parseFileWithAI(selectedFile);
+            }
         } else {
             if (sourceType === SourceType.OFW) {
                 result = parseOFWExport(rawContent);
             } else if (sourceType === SourceType.Email) {
                 result = parseGmailExport(rawContent);
+            } else if (sourceType === SourceType.SMS) {
+                const smsExport = parseSMSExport(rawContent);
+                if (smsExport && smsExport.threads.length > 0) {
+                    reportUnsent(smsExport.unsent);
+                    threads = smsExport.threads;
+                    result = threads[0];
+                } else {
+                    result = parseGenericText(rawContent);
+                }
             } else {
                 result = parseGenericText(rawContent);
             }
@@ -105,20 +289,13 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
         
         setParsedData(result);
         setConversationTitle(result.title);
-        
-        const newMapping: Record<string, string> = {};
-        result.participants.forEach(name => {
-            const match = existingPeople.find(p => 
-                p.fullName.toLowerCase() === name.toLowerCase() || 
-                p.fullName.toLowerCase().includes(name.toLowerCase())
-            );
-            if (match) {
-                newMapping[name] = match.id;
-            } else {
-                newMapping[name] = 'new';
-            }
-        });
-        setNameMapping(newMapping);
+        setImportThreads(threads);
+        // Only the previewed thread; importing more is an explicit choice since
+        // every thread adds its contacts as people and queues its own analysis
+        setSelectedThreads(new Set(threads.length > 0 ? [0] : []));
+        // Map everyone across all threads up front so switching the selection keeps the user's choices
+        const mappedThreads = threads.length > 0 ? threads : [result];
+        setNameMapping(buildNameMapping(threadParticipants(mappedThreads), threadParticipantEmails(mappedThreads)));
         
         // First-sentence continuity detection
         if (result.messages.length > 0) {
@@ -199,12 +376,17 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
       for (const name of participants) {
         const action = nameMapping[name];
         if (action === 'new') {
-          const newPerson = await api.createPerson({ fullName: name, role: Role.Parent });
+          const newPerson = await api.createPerson({ 
+            fullName: name, 
+            role: Role.Parent, 
+            email: parsedData.participantEmails?.[name] 
+          });
           nameToIdMap[name] = newPerson.id;
         } else if (action && action !== 'ignore') {
           nameToIdMap[name] = action;
         }
       }
+      await rememberAliases(nameToIdMap, parsedData.participantEmails);
       
       // Prepare all messages
       const allMessages = parsedData.messages
@@ -213,7 +395,9 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
           const senderId = nameToIdMap[msg.senderName];
           const receiverId = nameToIdMap[msg.receiverName];
           const senderPerson = existingPeople.find(p => p.id === senderId);
-          const direction = senderPerson?.role === Role.Me ? MessageDirection.Outbound : MessageDirection.Inbound;
+          const direction = msg.direction === MessageDirection.Internal
+            ? MessageDirection.Internal
+            : senderPerson?.role === Role.Me ? MessageDirection.Outbound : MessageDirection.Inbound;
           
           return {
             rawText: msg.body,
@@ -330,92 +514,50 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
       );
 
       if (FEATURES.USE_ANALYSIS_PIPELINE) {
-        // SSE Pipeline path with analysis run tracking
+        // Server-side job: queue (or resume) the run, then follow it
         abortControllerRef.current = new AbortController();
         
-        // Create or resume analysis run
-        const runInfo = await api.createAnalysisRun(conversationId);
-        console.log(`Analysis run ${runInfo.id}, isResume: ${runInfo.isResume}`);
+        const { run: queuedRun, isResume } = await queueAnalysis(conversationId, requestBody);
+        console.log(`Analysis run ${queuedRun.id}, isResume: ${isResume}`);
+        followedRunIdRef.current = queuedRun.id;
+        
+        const run = await waitForAnalysisRun(queuedRun.id, {
+          onUpdate: (update) => {
+            if (isMountedRef.current) setAnalysisProgress(update.progress ?? null);
+          },
+          signal: abortControllerRef.current.signal
+        });
+        followedRunIdRef.current = null;
+        
+        // Closed or sent to the background: the run finishes server-side
+        if (!run || !isMountedRef.current) return null;
+        
+        setAnalysisProgress(null);
         
-        // Add resume info to request if applicable
-        const pipelineRequest = {
-          ...requestBody,
-          runId: runInfo.id,
-          resumeFromStage: runInfo.resumeFromStage,
-          priorOutputs: runInfo.priorOutputs
+        if (run.status !== 'completed') {
+          console.error(`Analysis failed at ${run.errorStage || 'unknown'}:`, run.errorMessage);
+          return null;
+        }
+        
+        const sanitized = await applyAnalysisRun(run);
+        if (!sanitized) return null;
+        
+        // Build summary for user
+        const stats = buildAnalysisSummary(sanitized);
+        const summary: AnalysisSummary = {
+          conversationTone: sanitized.conversationAnalysis?.overallTone || 'neutral',
+          issuesCreated: stats.issuesCreated,
+          issuesUpdated: stats.issuesUpdated,
+          violationsDetected: stats.violationsDetected,
+          peopleAnalyzed: stats.peopleAnalyzed,
+          keyFindings: extractKeyFindings(sanitized),
+          agreementsDetected: stats.agreementsDetected
         };
         
-        return new Promise((resolve) => {
-          runPipelineAnalysis(pipelineRequest, {
-            onProgress: async (progress) => {
-              if (isMountedRef.current) {
-                setAnalysisProgress(progress);
-                // Track current stage in database
-                await api.setAnalysisRunCurrentStage(runInfo.id, progress.stage);
-              }
-            },
-            onStageComplete: async (stage, _stageNumber, output) => {
-              // Save completed stage output for resume capability
-              await api.updateAnalysisRunStage(runInfo.id, stage, output);
-            },
-            onComplete: async (rawResult) => {
-              if (!isMountedRef.current) return resolve(null);
-              
-              // Mark run as complete
-              await api.completeAnalysisRun(runInfo.id);
-              
-              // Validate and sanitize
-              const { sanitized, warnings } = validateAndSanitizeAnalysisResult(rawResult);
-              if (warnings.length > 0) {
-                console.warn('Analysis validation warnings:', warnings);
-              }
-              
-              // Process results
-              await processAnalysisResults(conversationId, sanitized, savedMessages);
-              
-              if (sanitized.conversationState) {
-                await updateConversationState(conversationId, sanitized.conversationState);
-              }
-              
-              setAnalysisProgress(null);
-              
-              // Build summary for user
-              const stats = buildAnalysisSummary(sanitized);
-              const summary: AnalysisSummary = {
-                conversationTone: sanitized.conversationAnalysis?.overallTone || 'neutral',
-                issuesCreated: stats.issuesCreated,
-                issuesUpdated: stats.issuesUpdated,
-                violationsDetected: stats.violationsDetected,
-                peopleAnalyzed: stats.peopleAnalyzed,
-                keyFindings: extractKeyFindings(sanitized),
-                agreementsDetected: stats.agreementsDetected
-              };
-              
-              resolve({
-                summary,
-                detectedAgreements: sanitized.detectedAgreements || []
-              });
-            },
-            onError: async (error, stage, partialOutputs) => {
-              console.error(`Analysis failed at ${stage || 'unknown'}:`, error);
-              
-              // Mark run as failed
-              await api.failAnalysisRun(runInfo.id, error, stage);
-              
-              // If we have partial outputs, save them for recovery
-              if (partialOutputs && Object.keys(partialOutputs).length > 0) {
-                for (const [stageName, output] of Object.entries(partialOutputs)) {
-                  await api.updateAnalysisRunStage(runInfo.id, stageName, output);
-                }
-              }
-              
-              setAnalysisProgress(null);
-              resolve(null);
-            },
-            signal: abortControllerRef.current.signal,
-            isMountedRef
-          });
-        });
+        return {
+          summary,
+          detectedAgreements: sanitized.detectedAgreements || []
+        };
       } else {
         // Legacy single-call path
         const { data, error } = await supabase.functions.invoke('analyze-conversation-import', {
@@ -427,7 +569,11 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
           return null;
         }
 
-        const analysisResult = data as ConversationAnalysisResult;
+        // Same validation and evidence check as queued runs
+        const { sanitized: analysisResult, warnings } = validateAndSanitizeAnalysisResult(data, savedMessages);
+        if (warnings.length > 0) {
+          console.warn('Analysis validation warnings:', warnings);
+        }
 
         // Process the analysis results (issues, profile notes, etc.)
         await processAnalysisResults(conversationId, analysisResult, savedMessages);
@@ -464,86 +610,146 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
     }
   };
 
+  // Resolves every mapped participant name to a person id, creating new people as needed
+  const resolveParticipants = async (names: string[], emails: Record<string, string>): Promise<Record<string, string>> => {
+    const nameToIdMap: Record<string, string> = {};
+    for (const name of names) {
+        const action = nameMapping[name];
+        if (action === 'new') {
+            const newPerson = await api.createPerson({ 
+                fullName: name, 
+                role: Role.Parent, 
+                email: emails[name] 
+            });
+            nameToIdMap[name] = newPerson.id;
+        } else if (action && action !== 'ignore') {
+            nameToIdMap[name] = action;
+        }
+    }
+    await rememberAliases(nameToIdMap, emails);
+    return nameToIdMap;
+  };
+
+  // Saves one parsed thread as a conversation and returns its messages ready for analysis
+  const saveParsedConversation = async (
+    conversation: ParsedConversation,
+    title: string,
+    nameToIdMap: Record<string, string>
+  ): Promise<{ conversationId: string; personIds: string[]; messages: AnalysisMessage[] }> => {
+    const personIds = Array.from(new Set(
+        Array.from(conversation.participants).map(name => nameToIdMap[name]).filter(Boolean)
+    ));
+
+    // Prepare Messages (no content hash needed - using first-sentence matching)
+    const messagesToSave = conversation.messages.map((msg) => {
+        const senderId = nameToIdMap[msg.senderName];
+        const receiverId = nameToIdMap[msg.receiverName];
+        const senderPerson = existingPeople.find(p => p.id === senderId);
+        const direction = msg.direction === MessageDirection.Internal
+            ? MessageDirection.Internal
+            : senderPerson?.role === Role.Me ? MessageDirection.Outbound : MessageDirection.Inbound;
+
+        return {
+            rawText: msg.body,
+            sentAt: msg.sentAt.toISOString(),
+            senderId: senderId,
+            receiverId: receiverId || undefined,
+            direction: direction
+        };
+    }).filter(m => m.senderId);
+
+    // Calculate date range
+    const sortedMessages = [...conversation.messages].sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime());
+    const firstDate = sortedMessages[0]?.sentAt.toISOString();
+    const lastDate = sortedMessages[sortedMessages.length - 1]?.sentAt.toISOString();
+
+    const preview = conversation.messages[0]?.body.substring(0, 100) + '...' || '';
+    
+    const newConversation = await api.importConversation(
+        {
+            title,
+            sourceType: sourceType,
+            startedAt: firstDate || new Date().toISOString(),
+            endedAt: lastDate || new Date().toISOString(),
+            previewText: preview
+        },
+        personIds,
+        messagesToSave
+    );
+
+    // Get the saved messages with their IDs
+    const savedMessages = await api.getMessages(newConversation.id);
+    return {
+        conversationId: newConversation.id,
+        personIds,
+        messages: savedMessages.map(m => ({
+          id: m.id,
+          senderId: m.senderId,
+          receiverId: m.receiverId,
+          rawText: m.rawText,
+          sentAt: m.sentAt
+        }))
+    };
+  };
+
   const handleSave = async () => {
     if (!parsedData) return;
+    const threadsToSave = importThreads.length > 1
+        ? importThreads.filter((_, idx) => selectedThreads.has(idx))
+        : [parsedData];
+    if (threadsToSave.length === 0) return;
+    // The title field edits the thread being previewed
+    const titleFor = (thread: ParsedConversation) => thread === parsedData ? conversationTitle : thread.title;
     setLoading(true);
     
     try {
         // 1. Resolve People IDs
-        const finalPersonIds: string[] = [];
-        const nameToIdMap: Record<string, string> = {};
+        const nameToIdMap = await resolveParticipants(
+            threadParticipants(threadsToSave),
+            threadParticipantEmails(threadsToSave)
+        );
 
-        const participants = Array.from(parsedData.participants) as string[];
-        for (const name of participants) {
-            const action = nameMapping[name];
-            if (action === 'new') {
-                const newPerson = await api.createPerson({ fullName: name, role: Role.Parent });
-                finalPersonIds.push(newPerson.id);
-                nameToIdMap[name] = newPerson.id;
-            } else if (action && action !== 'ignore') {
-                finalPersonIds.push(action);
-                nameToIdMap[name] = action;
+        // 2. Several threads: save them all and analyse each in the background
+        if (threadsToSave.length > 1) {
+            const saved = [];
+            for (const thread of threadsToSave) {
+                saved.push(await saveParsedConversation(thread, titleFor(thread), nameToIdMap));
             }
-        }
 
-        // 2. Prepare Messages (no content hash needed - using first-sentence matching)
-        const messagesToSave = parsedData.messages.map((msg) => {
-            const senderId = nameToIdMap[msg.senderName];
-            const receiverId = nameToIdMap[msg.receiverName];
-            const senderPerson = existingPeople.find(p => p.id === senderId);
-            const direction = senderPerson?.role === Role.Me ? MessageDirection.Outbound : MessageDirection.Inbound;
-
-            return {
-                rawText: msg.body,
-                sentAt: msg.sentAt.toISOString(),
-                senderId: senderId,
-                receiverId: receiverId || undefined,
-                direction: direction
-            };
-        }).filter(m => m.senderId);
+            setLoading(false);
+            if (FEATURES.USE_ANALYSIS_PIPELINE) {
+                // Results are applied when each conversation is next opened
+                await queueConversationAnalyses(saved.map(c => c.conversationId), { isReanalysis: false });
+            } else {
+                setAnalysisLoading(true);
+                for (const conversation of saved) {
+                    await runConversationAnalysis(conversation.conversationId, conversation.messages, conversation.personIds);
+                }
+                setAnalysisLoading(false);
+            }
 
-        // 3. Calculate date range
-        const sortedMessages = [...parsedData.messages].sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime());
-        const firstDate = sortedMessages[0]?.sentAt.toISOString();
-        const lastDate = sortedMessages[sortedMessages.length - 1]?.sentAt.toISOString();
+            onRecordsImported?.('conversations', saved.length);
+            onClose();
+            handleReset();
+            return;
+        }
 
-        // 4. Create Conversation
-        const preview = parsedData.messages[0]?.body.substring(0, 100) + '...' || '';
-        
-        const newConversation = await api.importConversation(
-            {
-                title: conversationTitle,
-                sourceType: sourceType,
-                startedAt: firstDate || new Date().toISOString(),
-                endedAt: lastDate || new Date().toISOString(),
-                previewText: preview
-            },
-            finalPersonIds,
-            messagesToSave
-        );
-
-        // 5. Get the saved messages with their IDs
-        const savedMessages = await api.getMessages(newConversation.id);
-        const messagesForAnalysis = savedMessages.map(m => ({
-          id: m.id,
-          senderId: m.senderId,
-          receiverId: m.receiverId,
-          rawText: m.rawText,
-          sentAt: m.sentAt
-        }));
+        // 3. Save the single conversation
+        const { conversationId, personIds, messages: messagesForAnalysis } =
+            await saveParsedConversation(threadsToSave[0], titleFor(threadsToSave[0]), nameToIdMap);
 
         setLoading(false);
         setAnalysisLoading(true);
 
-        // 6. Run AI analysis
+        // 4. Run AI analysis
         const result = await runConversationAnalysis(
-          newConversation.id,
+          conversationId,
           messagesForAnalysis,
-          finalPersonIds
+          personIds
         );
 
         setAnalysisLoading(false);
-        setSavedConversationId(newConversation.id);
+        setSavedConversationId(conversationId);
 
         if (result) {
           setAnalysisSummary(result.summary);
@@ -556,7 +762,7 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
           }
         } else {
           // If analysis failed, just proceed
-          onSuccess(newConversation.id);
+          onSuccess(conversationId);
           handleReset();
         }
         
@@ -568,11 +774,112 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
     }
   };
 
+  const handleSaveCalendar = async () => {
+    if (!parsedCalendar) return;
+    setLoading(true);
+
+    try {
+        // Skip entries already imported from an earlier copy of the same report
+        const existingEvents = await api.getEvents();
+        const isDuplicate = (title: string, date: Date) => existingEvents.some(e =>
+            e.title === title && new Date(e.date).getTime() === date.getTime()
+        );
+
+        let created = 0;
+        for (const entry of parsedCalendar) {
+            const title = entry.kind === 'trade'
+                ? `Trade request: ${entry.title}${entry.status ? ` (${entry.status})` : ''}`
+                : entry.title;
+            if (isDuplicate(title, entry.start)) continue;
+
+            const description = [
+                entry.kind === 'trade' && entry.parentName ? `Requested by ${entry.parentName}` : entry.parentName && `Parent: ${entry.parentName}`,
+                entry.end && `Until ${format(entry.end, 'MMM d, yyyy h:mm a')}`,
+                entry.location && `Location: ${entry.location}`,
+                entry.kind === 'event' && entry.status && `Status: ${entry.status}`,
+                entry.notes
+            ].filter(Boolean).join('\n');
+
+            await api.createEvent({ title, description, date: entry.start.toISOString() });
+            created++;
+        }
+
+        onRecordsImported?.('events', created);
+        onClose();
+        handleReset();
+    } catch (error) {
+        console.error(error);
+        alert('Failed to import calendar entries.');
+    } finally {
+        setLoading(false);
+    }
+  };
+
+  const handleSaveExpenses = async () => {
+    if (!parsedExpenses) return;
+    setLoading(true);
+
+    try {
+        // Skip entries already imported from an earlier copy of the same report.
+        // Read first: if it fails the import stops before anything is written.
+        const existingReimbursements = await api.getReimbursementsChecked();
+
+        const nameToIdMap: Record<string, string> = {};
+        for (const name of expenseParticipantNames(parsedExpenses)) {
+            const action = nameMapping[name];
+            if (action === 'new') {
+                const newPerson = await api.createPerson({ fullName: name, role: Role.Parent });
+                nameToIdMap[name] = newPerson.id;
+            } else if (action && action !== 'ignore') {
+                nameToIdMap[name] = action;
+            }
+        }
+        await rememberAliases(nameToIdMap);
+
+        const isDuplicate = (title: string, date: string, amount: number) => existingReimbursements.some(r =>
+            r.title === title && r.expenseDate === date && r.amount === amount
+        );
+        const newExpenses = parsedExpenses.filter(e =>
+            !isDuplicate(e.title, format(e.expenseDate, 'yyyy-MM-dd'), e.amount)
+        );
+
+        const saved = await api.createReimbursementsBulk(newExpenses.map(e => ({
+            entryType: 'expense' as const,
+            title: e.title,
+            category: e.category,
+            expenseDate: format(e.expenseDate, 'yyyy-MM-dd'),
+            amount: e.amount,
+            amountRequested: e.amountRequested,
+            paidByPersonId: e.paidByName ? nameToIdMap[e.paidByName] : undefined,
+            requestedFromPersonId: e.requestedFromName ? nameToIdMap[e.requestedFromName] : undefined,
+            status: toReimbursementStatus(e.status),
+            dueDate: e.dueDate ? format(e.dueDate, 'yyyy-MM-dd') : undefined,
+            amountPaid: toReimbursementStatus(e.status) === ReimbursementStatus.Paid ? (e.amountRequested ?? e.amount) : 0,
+            notes: e.notes,
+            sourceType: SourceType.OFW
+        })));
+
+        onRecordsImported?.('reimbursements', saved.length);
+        onClose();
+        handleReset();
+    } catch (error) {
+        console.error(error);
+        alert('Failed to import expenses.');
+    } finally {
+        setLoading(false);
+    }
+  };
+
   const handleReset = () => {
     setStep(1);
     setRawContent('');
     setSelectedFile(null);
     setParsedData(null);
+    setParsedCalendar(null);
+    setParsedExpenses(null);
+    setImportThreads([]);
+    setSelectedThreads(new Set());
+    setImportWarning(null);
     setAnalysisSummary(null);
     setShowAnalysisSummary(false);
     setSavedConversationId(null);
@@ -608,6 +915,42 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
     }
   };
 
+  const renderParticipantMapping = (names: string[]) => (
+    <div>
+        <h3 className="text-sm font-bold text-slate-800 mb-3 flex items-center gap-2">
+            <Users className="w-4 h-4" /> Identify Participants
+        </h3>
+        <div className="space-y-3">
+            {names.map(name => (
+                <div key={name} className="flex items-center justify-between p-3 border border-slate-200 rounded-lg bg-white">
+                    <div className="flex items-center gap-3">
+                        <div className="w-8 h-8 rounded-full bg-indigo-100 flex items-center justify-center text-indigo-700 font-bold text-xs">
+                            {name.substring(0,2).toUpperCase()}
+                        </div>
+                        <span className="font-medium text-slate-700">{name}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <ArrowRight className="w-4 h-4 text-slate-300" />
+                        <select
+                            value={nameMapping[name] || 'new'}
+                            onChange={e => setNameMapping({...nameMapping, [name]: e.target.value})}
+                            className="border border-slate-300 rounded px-2 py-1 text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                        >
+                            <option value="new">+ Create New Person</option>
+                            <option value="ignore">Ignore / Don't Import</option>
+                            <optgroup label="Existing People">
+                                {existingPeople.map(p => (
+                                    <option key={p.id} value={p.id}>{p.fullName} ({p.role})</option>
+                                ))}
+                            </optgroup>
+                        </select>
+                    </div>
+                </div>
+            ))}
+        </div>
+    </div>
+  );
+
   if (!isOpen) return null;
 
   // Continuity detection modal
@@ -663,6 +1006,7 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
           isOpen={true}
           progress={analysisProgress}
           onCancel={handleCancelAnalysis}
+          onRunInBackground={handleRunInBackground}
         />
       );
     }
@@ -833,6 +1177,48 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
                  </button>
                </div>
 
+               {/* Source Selection */}
+               <div className="flex flex-wrap gap-6">
+                 <div>
+                   <label className="block text-sm font-medium text-slate-700 mb-2">Source Type</label>
+                   <div className="flex gap-2">
+                     {Object.values(SourceType).map((type) => (
+                       <button
+                         key={type}
+                         onClick={() => setSourceType(type)}
+                         className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${
+                           sourceType === type 
+                             ? 'bg-indigo-50 border-indigo-200 text-indigo-700' 
+                             : 'border-slate-200 text-slate-600 hover:border-slate-300'
+                         }`}
+                       >
+                         {type}
+                       </button>
+                     ))}
+                   </div>
+                 </div>
+                 {sourceType === SourceType.OFW && (
+                   <div>
+                     <label className="block text-sm font-medium text-slate-700 mb-2">OFW Report</label>
+                     <div className="flex gap-2">
+                       {OFW_REPORT_TYPES.map(({ value, label }) => (
+                         <button
+                           key={value}
+                           onClick={() => setOfwReportType(value)}
+                           className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${
+                             ofwReportType === value 
+                               ? 'bg-indigo-50 border-indigo-200 text-indigo-700' 
+                               : 'border-slate-200 text-slate-600 hover:border-slate-300'
+                           }`}
+                         >
+                           {label}
+                         </button>
+                       ))}
+                     </div>
+                   </div>
+                 )}
+               </div>
+
                {importMode === 'file' ? (
                   <div className="flex-1 flex flex-col items-center justify-center border-2 border-dashed border-slate-300 rounded-xl bg-slate-50/50 p-8">
                      <input 
@@ -840,7 +1226,7 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
                         ref={fileInputRef} 
                         onChange={handleFileSelect} 
                         className="hidden" 
-                        accept=".pdf,.png,.jpg,.jpeg,.txt"
+                        accept=".pdf,.png,.jpg,.jpeg,.txt,.csv,.xml,.eml,.mbox"
                      />
                      
                      {selectedFile ? (
@@ -864,7 +1250,7 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
                            </div>
                            <h3 className="font-bold text-slate-800 mb-1">Click to upload</h3>
                            <p className="text-sm text-slate-500 max-w-xs mx-auto">
-                              Support for PDF exports from OFW, Screenshots of SMS, or Email threads.
+                              Support for PDF exports from OFW, Screenshots of SMS, Email threads, or WhatsApp/iMazing/SMS Backup exports.
                            </p>
                         </div>
                      )}
@@ -872,24 +1258,6 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
                ) : (
                  /* Manual Text Mode */
                  <div className="flex-1 flex flex-col space-y-4">
-                    <div>
-                      <label className="block text-sm font-medium text-slate-700 mb-2">Source Type</label>
-                      <div className="flex gap-2">
-                        {Object.values(SourceType).map((type) => (
-                          <button
-                            key={type}
-                            onClick={() => setSourceType(type)}
-                            className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${
-                              sourceType === type 
-                                ? 'bg-indigo-50 border-indigo-200 text-indigo-700' 
-                                : 'border-slate-200 text-slate-600 hover:border-slate-300'
-                            }`}
-                          >
-                            {type}
-                          </button>
-                        ))}
-                      </div>
-                    </div>
                     <textarea
                       value={rawContent}
                       onChange={(e) => setRawContent(e.target.value)}
@@ -905,6 +1273,72 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
              <div className="flex flex-col h-full overflow-hidden">
                 <div className="p-6 overflow-y-auto space-y-8">
                     
+                    {importWarning && (
+                        <div className="bg-amber-50 p-3 rounded-lg border border-amber-200 text-sm text-amber-800 flex items-start gap-2">
+                            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                            <span>{importWarning}</span>
+                        </div>
+                    )}
+
+                    {/* Thread Selection (email archives and phone backups) */}
+                    {importThreads.length > 1 && (
+                        <div className="bg-indigo-50 p-4 rounded-lg border border-indigo-100">
+                            <div className="flex items-center justify-between mb-2">
+                                <label className="block text-xs font-bold text-indigo-700 uppercase tracking-wide">
+                                    Threads ({selectedThreads.size} of {importThreads.length} selected)
+                                </label>
+                                <button
+                                    type="button"
+                                    onClick={() => {
+                                        if (selectedThreads.size === importThreads.length) {
+                                            setSelectedThreads(new Set());
+                                        } else if (confirm(`Import all ${importThreads.length} threads? Each becomes its own conversation, its unmatched contacts are added as people, and each is analyzed.`)) {
+                                            setSelectedThreads(new Set(importThreads.map((_, idx) => idx)));
+                                        }
+                                    }}
+                                    className="text-xs font-medium text-indigo-600 hover:underline"
+                                >
+                                    {selectedThreads.size === importThreads.length ? 'Select none' : 'Select all'}
+                                </button>
+                            </div>
+                            <div className="max-h-48 overflow-y-auto space-y-1">
+                                {importThreads.map((thread, idx) => (
+                                    <div
+                                        key={idx}
+                                        className={`flex items-center gap-2 px-2 py-1.5 rounded text-sm ${thread === parsedData ? 'bg-white border border-indigo-200' : ''}`}
+                                    >
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedThreads.has(idx)}
+                                            onChange={() => {
+                                                const next = new Set(selectedThreads);
+                                                if (next.has(idx)) next.delete(idx); else next.add(idx);
+                                                setSelectedThreads(next);
+                                            }}
+                                            className="rounded border-indigo-300 text-indigo-600 focus:ring-indigo-500"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => {
+                                                // While only the previewed thread is selected, the selection follows the preview
+                                                const previewIdx = importThreads.indexOf(parsedData);
+                                                if (selectedThreads.size === 1 && selectedThreads.has(previewIdx)) {
+                                                    setSelectedThreads(new Set([idx]));
+                                                }
+                                                setParsedData(thread);
+                                                setConversationTitle(thread.title);
+                                            }}
+                                            className="flex-1 text-left text-slate-700 hover:text-indigo-700 truncate"
+                                        >
+                                            {thread.title} — {thread.messages.length} message(s), last {format(thread.lastDate, 'MMM d, yyyy')}
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                            <p className="text-xs text-indigo-600 mt-2">Click a thread to preview it. Only checked threads are imported, each as its own conversation.</p>
+                        </div>
+                    )}
+
                     {/* Metadata Section */}
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6 bg-slate-50 p-4 rounded-lg border border-slate-200">
                         <div>
@@ -926,39 +1360,9 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
                     </div>
 
                     {/* Participant Mapping */}
-                    <div>
-                        <h3 className="text-sm font-bold text-slate-800 mb-3 flex items-center gap-2">
-                            <Users className="w-4 h-4" /> Identify Participants
-                        </h3>
-                        <div className="space-y-3">
-                            {(Array.from(parsedData.participants) as string[]).map(name => (
-                                <div key={name} className="flex items-center justify-between p-3 border border-slate-200 rounded-lg bg-white">
-                                    <div className="flex items-center gap-3">
-                                        <div className="w-8 h-8 rounded-full bg-indigo-100 flex items-center justify-center text-indigo-700 font-bold text-xs">
-                                            {name.substring(0,2).toUpperCase()}
-                                        </div>
-                                        <span className="font-medium text-slate-700">{name}</span>
-                                    </div>
-                                    <div className="flex items-center gap-2">
-                                        <ArrowRight className="w-4 h-4 text-slate-300" />
-                                        <select
-                                            value={nameMapping[name] || 'new'}
-                                            onChange={e => setNameMapping({...nameMapping, [name]: e.target.value})}
-                                            className="border border-slate-300 rounded px-2 py-1 text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
-                                        >
-                                            <option value="new">+ Create New Person</option>
-                                            <option value="ignore">Ignore / Don't Import</option>
-                                            <optgroup label="Existing People">
-                                                {existingPeople.map(p => (
-                                                    <option key={p.id} value={p.id}>{p.fullName} ({p.role})</option>
-                                                ))}
-                                            </optgroup>
-                                        </select>
-                                    </div>
-                                </div>
-                            ))}
-                        </div>
-                    </div>
+                    {renderParticipantMapping(threadParticipants(
+                        importThreads.length > 1 ? importThreads.filter((_, idx) => selectedThreads.has(idx)) : [parsedData]
+                    ))}
 
                     {/* Message Preview */}
                     <div>
@@ -981,6 +1385,77 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
                 </div>
              </div>
           )}
+
+          {step === 2 && parsedCalendar && (
+             <div className="p-6 overflow-y-auto space-y-4">
+                <h3 className="text-sm font-bold text-slate-800 flex items-center gap-2">
+                    <Calendar className="w-4 h-4 text-emerald-600" /> 
+                    {parsedCalendar.length} Calendar Entries Detected
+                </h3>
+                <div className="space-y-3 border-l-2 border-slate-200 pl-4">
+                    {parsedCalendar.map((entry, idx) => (
+                        <div key={idx} className="bg-white border border-slate-200 rounded-lg p-3 text-sm shadow-sm">
+                            <div className="flex justify-between items-start mb-1">
+                                <span className="font-bold text-slate-800">
+                                    {entry.kind === 'trade' && <span className="text-xs font-bold uppercase tracking-wide text-amber-600 mr-2">Trade</span>}
+                                    {entry.title}
+                                </span>
+                                <span className="text-slate-400 text-xs">
+                                    {format(entry.start, 'MMM d, yyyy h:mm a')}
+                                    {entry.end && ` – ${format(entry.end, 'MMM d, h:mm a')}`}
+                                </span>
+                            </div>
+                            <div className="text-slate-500 text-xs">
+                                {[entry.parentName, entry.location, entry.status].filter(Boolean).join(' · ')}
+                            </div>
+                            {entry.notes && <div className="text-slate-600 whitespace-pre-wrap mt-1">{entry.notes}</div>}
+                        </div>
+                    ))}
+                </div>
+             </div>
+          )}
+
+          {step === 2 && parsedExpenses && (
+             <div className="p-6 overflow-y-auto space-y-8">
+                {renderParticipantMapping(expenseParticipantNames(parsedExpenses))}
+
+                <div>
+                    <h3 className="text-sm font-bold text-slate-800 mb-3 flex items-center gap-2">
+                        <CheckCircle2 className="w-4 h-4 text-emerald-600" /> 
+                        {parsedExpenses.length} Expenses Detected
+                    </h3>
+                    <div className="border border-slate-200 rounded-lg overflow-hidden">
+                        <table className="w-full text-sm">
+                            <thead className="bg-slate-50 text-xs text-slate-500 uppercase tracking-wide">
+                                <tr>
+                                    <th className="text-left p-2">Date</th>
+                                    <th className="text-left p-2">Expense</th>
+                                    <th className="text-left p-2">Paid By</th>
+                                    <th className="text-right p-2">Amount</th>
+                                    <th className="text-right p-2">Requested</th>
+                                    <th className="text-left p-2">Status</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {parsedExpenses.map((e, idx) => (
+                                    <tr key={idx} className="border-t border-slate-100">
+                                        <td className="p-2 text-slate-500 whitespace-nowrap">{format(e.expenseDate, 'MMM d, yyyy')}</td>
+                                        <td className="p-2 text-slate-800">
+                                            {e.title}
+                                            {e.category && <span className="text-xs text-slate-400 ml-1">({e.category})</span>}
+                                        </td>
+                                        <td className="p-2 text-slate-600">{e.paidByName || '—'}</td>
+                                        <td className="p-2 text-right font-medium text-slate-800">${e.amount.toFixed(2)}</td>
+                                        <td className="p-2 text-right text-slate-600">{e.amountRequested !== undefined ? `$${e.amountRequested.toFixed(2)}` : '—'}</td>
+                                        <td className="p-2 text-slate-600 capitalize">{toReimbursementStatus(e.status).replace('_', ' ')}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+             </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -1009,14 +1484,34 @@ export const ImportWizard: React.FC<ImportWizardProps> = ({ isOpen, onClose, onS
              >
                {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Analyze & Extract'} <ArrowRight className="w-4 h-4" />
              </button>
+          ) : parsedCalendar ? (
+             <button 
+               onClick={handleSaveCalendar}
+               disabled={loading}
+               className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+             >
+               {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+               Import {parsedCalendar.length} Calendar Entries
+             </button>
+          ) : parsedExpenses ? (
+             <button 
+               onClick={handleSaveExpenses}
+               disabled={loading}
+               className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+             >
+               {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+               Import {parsedExpenses.length} Expenses
+             </button>
           ) : (
              <button 
                onClick={handleSave}
-               disabled={loading}
+               disabled={loading || (importThreads.length > 1 && selectedThreads.size === 0)}
                className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-lg text-sm font-medium hover:bg-emerald-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
              >
                {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
-               Import & Analyze {parsedData?.messages.length} Messages
+               {importThreads.length > 1 && selectedThreads.size !== 1
+                 ? `Import & Analyze ${selectedThreads.size} Threads`
+                 : `Import & Analyze ${(importThreads.length > 1 ? importThreads.find((_, idx) => selectedThreads.has(idx)) : parsedData)?.messages.length} Messages`}
              </button>
           )}
         </div>
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { api } from '../services/api';
+import { Issue, IssueDependency, IssuePriority, IssueStatus } from '../types';
+import { openBlockers } from '../utils/issueHierarchy';
+import { ResolveIssueModal } from './ResolveIssueModal';
+import { AlertTriangle, Ban, CornerLeftUp, ListTree } from 'lucide-react';
+
+interface IssueBoardProps {
+  issues: Issue[];
+  dependencies: IssueDependency[];
+  // Called after a status change so the parent can reload
+  onChanged: () => void;
+}
+
+const COLUMNS: Array<{ status: IssueStatus; label: string; accent: string }> = [
+  { status: IssueStatus.Open, label: 'Open', accent: 'border-t-red-400' },
+  { status: IssueStatus.Monitoring, label: 'Monitoring', accent: 'border-t-amber-400' },
+  { status: IssueStatus.Resolved, label: 'Resolved', accent: 'border-t-emerald-400' },
+  { status: IssueStatus.Archived, label: 'Archived', accent: 'border-t-slate-400' }
+];
+
+/**
+ * Kanban view of issues by status. Dragging a card to another column changes
+ * its status; dropping on Resolved asks for the resolution first.
+ */
+export const IssueBoard: React.FC<IssueBoardProps> = ({ issues, dependencies, onChanged }) => {
+  const [dragOver, setDragOver] = useState<IssueStatus | null>(null);
+  const [resolving, setResolving] = useState<Issue | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDrop = async (e: React.DragEvent, status: IssueStatus) => {
+    e.preventDefault();
+    setDragOver(null);
+    const issue = issues.find(i => i.id === e.dataTransfer.getData('text/plain'));
+    if (!issue || issue.status === status) return;
+    if (status === IssueStatus.Resolved) {
+      setResolving(issue);
+      return;
+    }
+    setError(null);
+    try {
+      await api.updateIssue(issue.id, { status });
+      onChanged();
+    } catch (err: any) {
+      setError(err.message || 'Failed to move issue');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && <div className="p-3 rounded-lg text-sm bg-red-50 border border-red-200 text-red-800">{error}</div>}
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+        {COLUMNS.map(column => {
+          const columnIssues = issues.filter(i => i.status === column.status);
+          return (
+            <div
+              key={column.status}
+              onDragOver={e => { e.preventDefault(); setDragOver(column.status); }}
+              onDragLeave={() => setDragOver(null)}
+              onDrop={e => handleDrop(e, column.status)}
+              className={`bg-slate-50 rounded-xl border border-slate-200 border-t-4 ${column.accent} p-3 min-h-[300px] transition-colors ${
+                dragOver === column.status ? 'bg-indigo-50 border-indigo-200' : ''
+              }`}
+            >
+              <div className="flex justify-between items-center mb-3 px-1">
+                <h3 className="font-semibold text-slate-700 text-sm">{column.label}</h3>
+                <span className="text-xs text-slate-400">{columnIssues.length}</span>
+              </div>
+              <div className="space-y-2">
+                {columnIssues.map(issue => {
+                  const parent = issues.find(i => i.id === issue.parentIssueId);
+                  const subIssueCount = issues.filter(i => i.parentIssueId === issue.id).length;
+                  const blockers = openBlockers(issue.id, dependencies, issues);
+                  return (
+                    <div
+                      key={issue.id}
+                      draggable
+                      onDragStart={e => e.dataTransfer.setData('text/plain', issue.id)}
+                      className="bg-white rounded-lg border border-slate-200 p-3 shadow-sm cursor-grab active:cursor-grabbing hover:border-indigo-200"
+                    >
+                      {parent && (
+                        <p className="text-[11px] text-slate-400 flex items-center gap-1 mb-1 truncate">
+                          <CornerLeftUp className="w-3 h-3 flex-shrink-0" /> {parent.title}
+                        </p>
+                      )}
+                      <div className="flex justify-between items-start gap-2">
+                        <Link to={`/issues/${issue.id}`} className="font-medium text-sm text-slate-900 hover:text-indigo-700">
+                          {issue.title}
+                        </Link>
+                        {issue.priority === IssuePriority.High && <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />}
+                      </div>
+                      {(subIssueCount > 0 || blockers.length > 0) && (
+                        <div className="flex flex-wrap gap-3 mt-2 text-xs text-slate-500">
+                          {subIssueCount > 0 && (
+                            <span className="flex items-center gap-1"><ListTree className="w-3 h-3" /> {subIssueCount} sub-issue{subIssueCount === 1 ? '' : 's'}</span>
+                          )}
+                          {blockers.length > 0 && (
+                            <span className="flex items-center gap-1 text-amber-700" title={blockers.map(b => b.title).join(', ')}>
+                              <Ban className="w-3 h-3" /> Blocked by {blockers.length}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {resolving && (
+        <ResolveIssueModal
+          issue={resolving}
+          openBlockers={openBlockers(resolving.id, dependencies, issues)}
+          onClose={() => setResolving(null)}
+          onResolved={() => {
+            setResolving(null);
+            onChanged();
+          }}
+        />
+      )}
+    </div>
+  );
+};
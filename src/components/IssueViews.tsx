@@ -1,10 +1,22 @@
 import React, { useState, useEffect } from 'react';
-import { Link, useParams } from 'react-router-dom';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { api } from '../services/api';
-import { Issue, Event, Message, IssueStatus, IssuePriority, LegalClause, AgreementItem, Person } from '../types';
-import { CheckCircle2, Clock, AlertTriangle, Archive, ArrowUpCircle, Loader2, Plus, X, Scale, Handshake, Users, ArrowUp, ArrowDown, Minus } from 'lucide-react';
+import { Issue, IssueRedirect, IssueDuplicateSuggestion, IssueHistoryEntry, IssueHistoryField, IssueChangeSource, IssueDependency, Event, Message, IssueStatus, IssuePriority, LegalClause, AgreementItem, Person } from '../types';
+import { CheckCircle2, Clock, AlertTriangle, Archive, ArrowUpCircle, Loader2, Plus, X, Scale, Handshake, Users, ArrowUp, ArrowDown, Minus, FileDown, FileJson, GitMerge, History, CornerLeftUp, Ban, Network, LayoutGrid, Columns3 } from 'lucide-react';
 import { format } from 'date-fns';
 import { getContributionLabel, getContributionBadgeStyle, VALENCE_ICONS, ContributionValence } from '../utils/contributionHelpers';
+import { buildEvidencePacket, downloadEvidencePacketJson, printEvidencePacket } from '../services/evidencePacket';
+import { issueSimilarity } from '../utils/issueHelpers';
+import { buildIssueTree, canSetParent, descendantIds, openBlockers, wouldCreateDependencyCycle, IssueTreeNode } from '../utils/issueHierarchy';
+import { IssueBoard } from './IssueBoard';
+import { ResolveIssueModal } from './ResolveIssueModal';
+
+const CHANGE_SOURCE_LABELS: Record<IssueChangeSource, string> = {
+  user: 'You',
+  issue_linking: 'Analysis (issue linking)',
+  issue_detection: 'Analysis (issue detection)',
+  assistant: 'Assistant'
+};
 
 type PersonWithContribution = Person & {
   contributionType?: string;
@@ -12,8 +24,30 @@ type PersonWithContribution = Person & {
   contributionValence?: string;
 };
 
+// Nested sub-issue links shown on an issue card
+const SubIssueList: React.FC<{ nodes: IssueTreeNode[] }> = ({ nodes }) => (
+  <ul className="space-y-1">
+    {nodes.map(node => (
+      <li key={node.issue.id}>
+        <Link to={`/issues/${node.issue.id}`} className="flex justify-between gap-2 text-sm text-slate-600 hover:text-indigo-600">
+          <span className="truncate">{node.issue.title}</span>
+          <span className="text-xs text-slate-400 capitalize">{node.issue.status}</span>
+        </Link>
+        {node.children.length > 0 && (
+          <div className="pl-3 mt-1 border-l border-slate-100">
+            <SubIssueList nodes={node.children} />
+          </div>
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
 export const IssueList: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const view = searchParams.get('view') === 'board' ? 'board' : 'list';
   const [issues, setIssues] = useState<Issue[]>([]);
+  const [dependencies, setDependencies] = useState<IssueDependency[]>([]);
   const [loading, setLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [error, setError] = useState<{ type: 'duplicate' | 'unknown'; message: string; existingIssue?: Issue } | null>(null);
@@ -30,7 +64,12 @@ export const IssueList: React.FC = () => {
 
   const loadIssues = () => {
     setLoading(true);
-    api.getIssues().then(setIssues).finally(() => setLoading(false));
+    Promise.all([api.getIssues(), api.getIssueDependencies()])
+      .then(([issuesData, dependencyData]) => {
+        setIssues(issuesData);
+        setDependencies(dependencyData);
+      })
+      .finally(() => setLoading(false));
   };
 
   const handleCreate = async (e: React.FormEvent) => {
@@ -79,45 +118,80 @@ export const IssueList: React.FC = () => {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-slate-900">Issues Tracker</h2>
-        <button 
-          onClick={() => setIsModalOpen(true)}
-          className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors flex items-center gap-2"
-        >
-          <Plus className="w-4 h-4" /> New Issue
-        </button>
+        <div className="flex items-center gap-3">
+          <div className="flex bg-slate-100 rounded-lg p-1">
+            {([['list', 'List', LayoutGrid], ['board', 'Board', Columns3]] as const).map(([key, label, Icon]) => (
+              <button
+                key={key}
+                onClick={() => setSearchParams(key === 'board' ? { view: 'board' } : {})}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium flex items-center gap-1.5 transition-colors ${
+                  view === key ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                <Icon className="w-4 h-4" /> {label}
+              </button>
+            ))}
+          </div>
+          <button 
+            onClick={() => setIsModalOpen(true)}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-indigo-700 transition-colors flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" /> New Issue
+          </button>
+        </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {issues.map(issue => (
-          <Link to={`/issues/${issue.id}`} key={issue.id} className="group block h-full">
-            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 h-full flex flex-col transition-all group-hover:shadow-md group-hover:border-indigo-200">
-              <div className="flex justify-between items-start mb-4">
-                <span className={`px-2 py-1 rounded text-xs font-bold uppercase tracking-wider ${
-                  issue.status === IssueStatus.Open ? 'bg-red-100 text-red-700' :
-                  issue.status === IssueStatus.Monitoring ? 'bg-amber-100 text-amber-700' :
-                  'bg-emerald-100 text-emerald-700'
-                }`}>
-                  {issue.status}
-                </span>
-                {issue.priority === IssuePriority.High && (
-                  <AlertTriangle className="w-4 h-4 text-red-500" />
+      {view === 'board' ? (
+        <IssueBoard issues={issues} dependencies={dependencies} onChanged={loadIssues} />
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {buildIssueTree(issues).map(({ issue, children }) => (
+            <div key={issue.id} className="bg-white rounded-xl shadow-sm border border-slate-200 h-full flex flex-col transition-all hover:shadow-md hover:border-indigo-200">
+              <Link to={`/issues/${issue.id}`} className="group block flex-1">
+                <div className="p-6 pb-0 h-full flex flex-col">
+                  <div className="flex justify-between items-start mb-4">
+                    <span className={`px-2 py-1 rounded text-xs font-bold uppercase tracking-wider ${
+                      issue.status === IssueStatus.Open ? 'bg-red-100 text-red-700' :
+                      issue.status === IssueStatus.Monitoring ? 'bg-amber-100 text-amber-700' :
+                      'bg-emerald-100 text-emerald-700'
+                    }`}>
+                      {issue.status}
+                    </span>
+                    {issue.priority === IssuePriority.High && (
+                      <AlertTriangle className="w-4 h-4 text-red-500" />
+                    )}
+                  </div>
+                  <h3 className="font-bold text-lg text-slate-900 mb-2 group-hover:text-indigo-700">{issue.title}</h3>
+                  <p className="text-slate-500 text-sm mb-6 flex-1">{issue.description}</p>
+                </div>
+              </Link>
+              <div className="px-6 pb-6">
+                {children.length > 0 && (
+                  <div className="mb-4">
+                    <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wide mb-1">
+                      Sub-issues ({descendantIds(issue.id, issues).size})
+                    </h4>
+                    <SubIssueList nodes={children} />
+                  </div>
                 )}
-              </div>
-              <h3 className="font-bold text-lg text-slate-900 mb-2 group-hover:text-indigo-700">{issue.title}</h3>
-              <p className="text-slate-500 text-sm mb-6 flex-1">{issue.description}</p>
-              <div className="pt-4 border-t border-slate-100 text-xs text-slate-400 flex justify-between items-center">
-                <span>Updated {issue.updatedAt ? format(new Date(issue.updatedAt), 'MMM d, yyyy') : 'N/A'}</span>
-                <span className="font-medium text-slate-500">View Details &rarr;</span>
+                <div className="pt-4 border-t border-slate-100 text-xs text-slate-400 flex justify-between items-center">
+                  <span>Updated {issue.updatedAt ? format(new Date(issue.updatedAt), 'MMM d, yyyy') : 'N/A'}</span>
+                  {openBlockers(issue.id, dependencies, issues).length > 0 ? (
+                    <span className="font-medium text-amber-700 flex items-center gap-1"><Ban className="w-3 h-3" /> Blocked</span>
+                  ) : (
+                    <Link to={`/issues/${issue.id}`} className="font-medium text-slate-500 hover:text-indigo-600">View Details &rarr;</Link>
+                  )}
+                </div>
               </div>
             </div>
-          </Link>
-        ))}
-        {issues.length === 0 && (
-          <div className="col-span-3 text-center py-10 text-slate-500">
-            No issues found. Create one to get started.
-          </div>
-        )}
-      </div>
+          ))}
+          {issues.length === 0 && (
+            <div className="col-span-3 text-center py-10 text-slate-500">
+              No issues found. Create one to get started.
+            </div>
+          )}
+        </div>
+      )}
 
        {/* Create Modal */}
        {isModalOpen && (
@@ -175,29 +249,182 @@ export const IssueList: React.FC = () => {
 
 export const IssueDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
   const [issue, setIssue] = useState<Issue | null>(null);
   const [events, setEvents] = useState<Event[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
   const [relatedRules, setRelatedRules] = useState<{clauses: LegalClause[], items: AgreementItem[]}>({clauses: [], items: []});
   const [involvedPeople, setInvolvedPeople] = useState<PersonWithContribution[]>([]);
   const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState<'pdf' | 'json' | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [mergedIssues, setMergedIssues] = useState<IssueRedirect[]>([]);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+  const [mergeCandidates, setMergeCandidates] = useState<Issue[]>([]);
+  const [mergeSourceId, setMergeSourceId] = useState('');
+  const [merging, setMerging] = useState(false);
+  const [mergeError, setMergeError] = useState<string | null>(null);
+  const [duplicateSuggestions, setDuplicateSuggestions] = useState<IssueDuplicateSuggestion[]>([]);
+  const [history, setHistory] = useState<IssueHistoryEntry[]>([]);
+  const [historyMessages, setHistoryMessages] = useState<Message[]>([]);
+  const [agreementItems, setAgreementItems] = useState<AgreementItem[]>([]);
+  const [statusError, setStatusError] = useState<string | null>(null);
+  const [isResolveOpen, setIsResolveOpen] = useState(false);
+  const [allIssues, setAllIssues] = useState<Issue[]>([]);
+  const [dependencies, setDependencies] = useState<IssueDependency[]>([]);
+  const [structureError, setStructureError] = useState<string | null>(null);
 
   useEffect(() => {
+    loadIssue();
+  }, [id]);
+
+  const loadIssue = async () => {
     if (!id) return;
-    Promise.all([
-      api.getIssue(id),
-      api.getEvents(id),
-      api.getMessages(),
-      api.getRulesForIssue(id),
-      api.getPeopleForIssue(id)
-    ]).then(([i, e, m, rules, people]) => {
+    setLoading(true);
+    try {
+      const [i, e, m, rules, people, merged, suggestions, changes, items, issuesData, dependencyData] = await Promise.all([
+        api.getIssue(id),
+        api.getEvents(id),
+        api.getMessages(),
+        api.getRulesForIssue(id),
+        api.getPeopleForIssue(id),
+        api.getMergedIssues(id),
+        api.getDuplicateSuggestions(id),
+        api.getIssueHistory(id),
+        api.getAllActiveAgreementItems(),
+        api.getIssues(),
+        api.getIssueDependencies()
+      ]);
+      if (!i) {
+        // The issue may have been merged into another one
+        const redirectTo = await api.getIssueRedirect(id);
+        if (redirectTo) {
+          navigate(`/issues/${redirectTo}`, { replace: true });
+          return;
+        }
+      }
       setIssue(i);
       setEvents(e);
       setMessages(m.filter(msg => msg.issueIds?.includes(id)));
       setRelatedRules(rules);
       setInvolvedPeople(people);
-    }).finally(() => setLoading(false));
-  }, [id]);
+      setMergedIssues(merged);
+      setDuplicateSuggestions(suggestions);
+      setHistory(changes);
+      setAgreementItems(items);
+      setAllIssues(issuesData);
+      setDependencies(dependencyData);
+      const resolvingIds = changes.map(c => c.resolvingMessageId).filter((mid): mid is string => !!mid);
+      setHistoryMessages(await api.getMessagesByIds(resolvingIds));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFieldChange = async (updates: Partial<Issue>) => {
+    if (!id) return;
+    if (updates.status === IssueStatus.Resolved) {
+      setStatusError(null);
+      setIsResolveOpen(true);
+      return;
+    }
+    setStatusError(null);
+    try {
+      await api.updateIssue(id, updates);
+      loadIssue();
+    } catch (err: any) {
+      setStatusError(err.message || 'Failed to update issue');
+    }
+  };
+
+  const runStructureChange = async (change: () => Promise<unknown>) => {
+    setStructureError(null);
+    try {
+      await change();
+      loadIssue();
+    } catch (err: any) {
+      setStructureError(err.message || 'Failed to update issue structure');
+    }
+  };
+
+  const openMerge = async () => {
+    setIsMergeOpen(true);
+    setMergeSourceId('');
+    setMergeError(null);
+    const all = allIssues;
+    // Most similar first, so likely duplicates are at the top
+    setMergeCandidates(
+      all
+        .filter(i => i.id !== id)
+        .map(i => ({ issue: i, similarity: issue ? issueSimilarity(issue, i) : 0 }))
+        .sort((a, b) => b.similarity - a.similarity || a.issue.title.localeCompare(b.issue.title))
+        .map(c => c.issue)
+    );
+  };
+
+  const handleMerge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!id || !mergeSourceId) return;
+    setMerging(true);
+    setMergeError(null);
+    try {
+      await api.mergeIssues(mergeSourceId, id);
+      setIsMergeOpen(false);
+      loadIssue();
+    } catch (err: any) {
+      console.error('Issue merge failed:', err);
+      setMergeError(err.message || 'Failed to merge issues');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  // Confirming merges the newer issue into the one it was suggested to duplicate
+  const handleConfirmDuplicate = async (suggestion: IssueDuplicateSuggestion) => {
+    setMergeError(null);
+    try {
+      await api.mergeIssues(suggestion.issueId, suggestion.suggestedIssueId);
+      if (suggestion.issueId === id) {
+        navigate(`/issues/${suggestion.suggestedIssueId}`, { replace: true });
+      } else {
+        loadIssue();
+      }
+    } catch (err: any) {
+      console.error('Issue merge failed:', err);
+      setMergeError(err.message || 'Failed to merge issues');
+    }
+  };
+
+  const handleDismissDuplicate = async (suggestion: IssueDuplicateSuggestion) => {
+    setMergeError(null);
+    try {
+      await api.dismissDuplicateSuggestion(suggestion.id);
+      setDuplicateSuggestions(prev => prev.filter(d => d.id !== suggestion.id));
+    } catch (err: any) {
+      setMergeError(err.message || 'Failed to dismiss suggestion');
+    }
+  };
+
+  const handleExport = async (kind: 'pdf' | 'json') => {
+    if (!id) return;
+    setExporting(kind);
+    setExportError(null);
+    const printWindow = kind === 'pdf' ? window.open('', '_blank') : null;
+    try {
+      const packet = await buildEvidencePacket(id);
+      if (kind === 'pdf') {
+        printEvidencePacket(packet, printWindow);
+      } else {
+        downloadEvidencePacketJson(packet);
+      }
+    } catch (e: any) {
+      console.error('Evidence packet export failed:', e);
+      printWindow?.close();
+      setExportError(e.message || 'Failed to export evidence packet');
+    } finally {
+      setExporting(null);
+    }
+  };
 
   if (loading) return <div className="flex p-8 justify-center"><Loader2 className="animate-spin text-indigo-600" /></div>;
   if (!issue) return <div>Issue not found</div>;
@@ -208,26 +435,127 @@ export const IssueDetail: React.FC = () => {
     ...messages.map(m => ({ type: 'message', data: m, date: m.sentAt }))
   ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
+  const parent = allIssues.find(i => i.id === issue.parentIssueId);
+  const subIssues = allIssues.filter(i => i.parentIssueId === issue.id);
+  const blockers = openBlockers(issue.id, dependencies, allIssues);
+  const blockedBy = dependencies.filter(d => d.issueId === issue.id);
+  const blocking = dependencies.filter(d => d.blockedByIssueId === issue.id);
+  const issueTitle = (issueId: string) => allIssues.find(i => i.id === issueId)?.title || 'Unknown issue';
+  const issueStatus = (issueId: string) => allIssues.find(i => i.id === issueId)?.status;
+  const parentOptions = allIssues.filter(i => canSetParent(issue.id, i.id, allIssues));
+  const blockerOptions = allIssues.filter(i =>
+    !blockedBy.some(d => d.blockedByIssueId === i.id) && !wouldCreateDependencyCycle(issue.id, i.id, dependencies)
+  );
+
   return (
     <div className="max-w-6xl mx-auto space-y-8">
       <div className="bg-white p-8 rounded-xl shadow-sm border border-slate-200">
          <div className="flex justify-between items-start">
             <div>
+              {parent && (
+                <Link to={`/issues/${parent.id}`} className="text-sm text-indigo-600 hover:underline flex items-center gap-1 mb-1">
+                  <CornerLeftUp className="w-3 h-3" /> {parent.title}
+                </Link>
+              )}
               <div className="flex items-center gap-3 mb-2">
                  <h1 className="text-3xl font-bold text-slate-900">{issue.title}</h1>
                  <span className={`px-3 py-1 rounded-full text-sm font-bold uppercase tracking-wide ${
                   issue.status === IssueStatus.Open ? 'bg-red-100 text-red-700' : 'bg-slate-100 text-slate-700'
                 }`}>{issue.status}</span>
               </div>
-              <p className="text-slate-600 text-lg">{issue.description}</p>
+              <p className="text-slate-600 text-lg whitespace-pre-line">{issue.description}</p>
+              <div className="flex flex-wrap items-center gap-4 mt-4 text-sm">
+                <label className="flex items-center gap-2 text-slate-500">
+                  Status
+                  <select
+                    value={issue.status}
+                    onChange={e => handleFieldChange({ status: e.target.value as IssueStatus })}
+                    className="border rounded-lg px-2 py-1 text-sm text-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none capitalize"
+                  >
+                    {Object.values(IssueStatus).map(s => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-slate-500">
+                  Priority
+                  <select
+                    value={issue.priority}
+                    onChange={e => handleFieldChange({ priority: e.target.value as IssuePriority })}
+                    className="border rounded-lg px-2 py-1 text-sm text-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none capitalize"
+                  >
+                    {Object.values(IssuePriority).map(p => <option key={p} value={p}>{p}</option>)}
+                  </select>
+                </label>
+              </div>
+              {blockers.length > 0 && (
+                <p className="text-sm text-amber-700 mt-2 flex items-center gap-1">
+                  <Ban className="w-4 h-4" /> Blocked by {blockers.map(b => `"${b.title}"`).join(', ')}
+                </p>
+              )}
+              {statusError && (
+                <p className="text-sm text-red-600 mt-2">{statusError}</p>
+              )}
+              {mergedIssues.length > 0 && (
+                <p className="text-xs text-slate-400 mt-2 flex items-center gap-1">
+                  <GitMerge className="w-3 h-3" />
+                  Merged from {mergedIssues.map(m => `"${m.mergedTitle}"`).join(', ')}
+                </p>
+              )}
+              {duplicateSuggestions.map(suggestion => {
+                const otherId = suggestion.issueId === issue.id ? suggestion.suggestedIssueId : suggestion.issueId;
+                return (
+                  <div key={suggestion.id} className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 mt-2 flex items-center gap-2">
+                    <GitMerge className="w-3 h-3 shrink-0" />
+                    <span className="flex-1">
+                      May be the same issue as <Link to={`/issues/${otherId}`} className="font-medium underline">{issueTitle(otherId)}</Link>
+                      {' '}({Math.round(suggestion.similarity * 100)}% similar)
+                    </span>
+                    <button onClick={() => handleConfirmDuplicate(suggestion)} className="font-medium hover:underline">Merge</button>
+                    <button onClick={() => handleDismissDuplicate(suggestion)} className="text-slate-500 hover:underline">Not a duplicate</button>
+                  </div>
+                );
+              })}
+              {!isMergeOpen && mergeError && (
+                <p className="text-sm text-red-600 mt-2">{mergeError}</p>
+              )}
             </div>
             {/* Actions */}
             <div className="flex gap-2">
+               <button
+                  onClick={() => handleExport('pdf')}
+                  disabled={exporting !== null}
+                  title="Export evidence packet as PDF"
+                  className="flex items-center gap-2 px-3 py-2 border border-slate-200 rounded-lg hover:bg-slate-50 text-slate-600 text-sm font-medium disabled:opacity-50"
+               >
+                  {exporting === 'pdf' ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
+                  PDF
+               </button>
+               <button
+                  onClick={() => handleExport('json')}
+                  disabled={exporting !== null}
+                  title="Export evidence packet as JSON"
+                  className="flex items-center gap-2 px-3 py-2 border border-slate-200 rounded-lg hover:bg-slate-50 text-slate-600 text-sm font-medium disabled:opacity-50"
+               >
+                  {exporting === 'json' ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileJson className="w-4 h-4" />}
+                  JSON
+               </button>
+               <button
+                  onClick={openMerge}
+                  title="Merge another issue into this one"
+                  className="flex items-center gap-2 px-3 py-2 border border-slate-200 rounded-lg hover:bg-slate-50 text-slate-600 text-sm font-medium"
+               >
+                  <GitMerge className="w-4 h-4" />
+                  Merge
+               </button>
                <button className="p-2 border border-slate-200 rounded-lg hover:bg-slate-50 text-slate-500">
                   <Archive className="w-5 h-5" />
                </button>
             </div>
          </div>
+         {exportError && (
+           <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-center gap-2">
+             <AlertTriangle className="w-4 h-4" /> {exportError}
+           </div>
+         )}
       </div>
 
       <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
@@ -323,6 +651,143 @@ export const IssueDetail: React.FC = () => {
               </div>
            </div>
 
+           {/* Structure Section */}
+           <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+              <div className="bg-slate-50 p-4 border-b border-slate-200">
+                 <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                   <Network className="w-4 h-4" /> Sub-issues & Dependencies
+                 </h3>
+              </div>
+              <div className="p-4 space-y-4 text-sm">
+                 <div>
+                    <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1">Parent issue</label>
+                    <select
+                      value={issue.parentIssueId || ''}
+                      onChange={e => runStructureChange(() => api.setIssueParent(issue.id, e.target.value || null))}
+                      className="w-full border rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                    >
+                      <option value="">None (top level)</option>
+                      {parentOptions.map(i => <option key={i.id} value={i.id}>{i.title}</option>)}
+                    </select>
+                 </div>
+
+                 <div>
+                    <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1">Sub-issues</h4>
+                    {subIssues.length === 0 ? (
+                      <p className="text-slate-400 italic">None</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {subIssues.map(child => (
+                          <li key={child.id} className="flex justify-between gap-2">
+                            <Link to={`/issues/${child.id}`} className="text-slate-700 hover:text-indigo-600 truncate">{child.title}</Link>
+                            <span className="text-xs text-slate-400 capitalize">{child.status}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                 </div>
+
+                 <div>
+                    <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1">Blocked by</h4>
+                    <ul className="space-y-1 mb-2">
+                      {blockedBy.map(d => (
+                        <li key={d.id} className="flex justify-between items-center gap-2">
+                          <Link to={`/issues/${d.blockedByIssueId}`} className="text-slate-700 hover:text-indigo-600 truncate">{issueTitle(d.blockedByIssueId)}</Link>
+                          <span className="flex items-center gap-2">
+                            <span className="text-xs text-slate-400 capitalize">{issueStatus(d.blockedByIssueId)}</span>
+                            <button onClick={() => runStructureChange(() => api.removeIssueDependency(d.id))} title="Remove dependency">
+                              <X className="w-3 h-3 text-slate-400 hover:text-red-500" />
+                            </button>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    <select
+                      value=""
+                      onChange={e => e.target.value && runStructureChange(() => api.addIssueDependency(issue.id, e.target.value))}
+                      className="w-full border rounded-lg px-2 py-1.5 text-sm text-slate-500 focus:ring-2 focus:ring-indigo-500 outline-none"
+                    >
+                      <option value="">Add blocking issue...</option>
+                      {blockerOptions.map(i => <option key={i.id} value={i.id}>{i.title}</option>)}
+                    </select>
+                 </div>
+
+                 {blocking.length > 0 && (
+                   <div>
+                      <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wide mb-1">Blocking</h4>
+                      <ul className="space-y-1">
+                        {blocking.map(d => (
+                          <li key={d.id}>
+                            <Link to={`/issues/${d.issueId}`} className="text-slate-700 hover:text-indigo-600">{issueTitle(d.issueId)}</Link>
+                          </li>
+                        ))}
+                      </ul>
+                   </div>
+                 )}
+
+                 {structureError && <p className="text-red-600">{structureError}</p>}
+              </div>
+           </div>
+
+           {/* History Section */}
+           <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+              <div className="bg-slate-50 p-4 border-b border-slate-200">
+                 <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                   <History className="w-4 h-4" /> History
+                 </h3>
+              </div>
+              <div className="p-4 space-y-4">
+                 {history.map(entry => {
+                   const isCreation = (Object.keys(entry.changes) as IssueHistoryField[]).every(f => entry.changes[f]?.from === null);
+                   const resolvingItem = agreementItems.find(i => i.id === entry.resolvingAgreementItemId);
+                   const resolvingMessage = historyMessages.find(m => m.id === entry.resolvingMessageId);
+                   return (
+                     <div key={entry.id} className="text-sm">
+                        <div className="flex justify-between items-center gap-2">
+                           <span className="font-medium text-slate-800">{CHANGE_SOURCE_LABELS[entry.changedBy] || entry.changedBy}</span>
+                           <span className="text-xs text-slate-400">{format(new Date(entry.createdAt), 'MMM d, yyyy h:mm a')}</span>
+                        </div>
+                        {isCreation ? (
+                          <p className="text-slate-600">Opened the issue</p>
+                        ) : (
+                          <ul className="text-slate-600">
+                            {entry.changes.status && (
+                              <li>Status: <span className="capitalize">{entry.changes.status.from}</span> → <span className="capitalize font-medium">{entry.changes.status.to}</span></li>
+                            )}
+                            {entry.changes.priority && (
+                              <li>Priority: <span className="capitalize">{entry.changes.priority.from}</span> → <span className="capitalize font-medium">{entry.changes.priority.to}</span></li>
+                            )}
+                            {entry.changes.title && <li>Renamed from "{entry.changes.title.from}"</li>}
+                            {entry.changes.description && <li>Description updated</li>}
+                          </ul>
+                        )}
+                        {entry.resolutionNote && (
+                          <div className="mt-1 p-2 bg-emerald-50 border border-emerald-100 rounded text-emerald-800 text-xs space-y-1">
+                            <p>{entry.resolutionNote}</p>
+                            {entry.resolvingAgreementItemId && (
+                              <p>Agreement: {resolvingItem ? `${resolvingItem.itemRef ? `${resolvingItem.itemRef} ` : ''}${resolvingItem.topic}` : 'agreement item'}</p>
+                            )}
+                            {resolvingMessage && (
+                              <Link to={`/conversations/${resolvingMessage.conversationId}?message=${resolvingMessage.id}`} className="block italic hover:underline">
+                                "{resolvingMessage.rawText.slice(0, 120)}{resolvingMessage.rawText.length > 120 ? '…' : ''}"
+                              </Link>
+                            )}
+                          </div>
+                        )}
+                        {entry.conversationId && (
+                          <Link to={`/conversations/${entry.conversationId}`} className="text-xs text-indigo-600 hover:underline">
+                            From conversation analysis
+                          </Link>
+                        )}
+                     </div>
+                   );
+                 })}
+                 {history.length === 0 && (
+                   <div className="text-slate-400 text-sm italic text-center py-2">No recorded changes yet.</div>
+                 )}
+              </div>
+           </div>
+
            {/* Relevant Rules Section */}
            <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
               <div className="bg-slate-50 p-4 border-b border-slate-200">
@@ -378,6 +843,48 @@ export const IssueDetail: React.FC = () => {
            </div>
         </div>
       </div>
+
+      {isResolveOpen && (
+        <ResolveIssueModal
+          issue={issue}
+          openBlockers={blockers}
+          onClose={() => setIsResolveOpen(false)}
+          onResolved={() => {
+            setIsResolveOpen(false);
+            loadIssue();
+          }}
+        />
+      )}
+
+      {/* Merge Modal */}
+      {isMergeOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-bold text-slate-800">Merge Into "{issue.title}"</h3>
+              <button onClick={() => setIsMergeOpen(false)}><X className="w-5 h-5 text-slate-400 hover:text-slate-600" /></button>
+            </div>
+            <form onSubmit={handleMerge} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Issue to merge</label>
+                <select required value={mergeSourceId} onChange={e => setMergeSourceId(e.target.value)} className="w-full mt-1 border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none">
+                  <option value="">Select an issue...</option>
+                  {mergeCandidates.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+                </select>
+              </div>
+              <p className="text-sm text-slate-500">
+                Its messages, people, conversations, events, exhibits and rule links move to this issue. The merged issue is removed and its link redirects here.
+              </p>
+              {mergeError && (
+                <div className="p-3 rounded-lg text-sm bg-red-50 border border-red-200 text-red-800">{mergeError}</div>
+              )}
+              <button type="submit" disabled={merging || !mergeSourceId} className="w-full bg-indigo-600 text-white py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50">
+                {merging ? 'Merging...' : 'Merge Issues'}
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -4,7 +4,7 @@ import { api } from '../services/api';
 import { ImportWizard } from './ImportWizard';
 import { 
   LayoutDashboard, Users, MessageSquare, AlertCircle, History, 
-  ShieldCheck, PlusCircle, LogOut, Scale, Bot, Menu, X
+  ShieldCheck, PlusCircle, LogOut, Scale, Bot, Menu, X, Search, CalendarDays, Wallet, Flag
 } from 'lucide-react';
 
 export const Layout: React.FC = () => {
@@ -12,6 +12,14 @@ export const Layout: React.FC = () => {
   const navigate = useNavigate();
   const [isImportOpen, setIsImportOpen] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!searchQuery.trim()) return;
+    navigate(`/search?q=${encodeURIComponent(searchQuery.trim())}`);
+    setSearchQuery('');
+  };
 
   const navItems = [
     { to: '/', icon: LayoutDashboard, label: 'Dashboard' },
@@ -19,7 +27,10 @@ export const Layout: React.FC = () => {
     { to: '/people', icon: Users, label: 'People' },
     { to: '/conversations', icon: MessageSquare, label: 'Conversations' },
     { to: '/issues', icon: AlertCircle, label: 'Issues' },
+    { to: '/flags', icon: Flag, label: 'Flag Review' },
     { to: '/rules', icon: Scale, label: 'Rules & Obligations' },
+    { to: '/schedule', icon: CalendarDays, label: 'Schedule' },
+    { to: '/ledger', icon: Wallet, label: 'Expenses' },
     { to: '/timeline', icon: History, label: 'Timeline' },
   ];
 
@@ -33,6 +44,10 @@ export const Layout: React.FC = () => {
         isOpen={isImportOpen} 
         onClose={() => setIsImportOpen(false)} 
         onSuccess={(id) => navigate(`/conversations/${id}`)}
+        onRecordsImported={(kind) => {
+          if (kind === 'events') navigate('/timeline');
+          if (kind === 'conversations') navigate('/conversations');
+        }}
       />
 
       {/* Mobile overlay */}
@@ -117,6 +132,16 @@ export const Layout: React.FC = () => {
             </h1>
           </div>
           <div className="flex items-center gap-4">
+             <form onSubmit={handleSearch} className="relative hidden sm:block">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <input
+                  type="text"
+                  value={searchQuery}
+                  onChange={e => setSearchQuery(e.target.value)}
+                  placeholder="Search case file..."
+                  className="w-64 pl-9 pr-3 py-1.5 border border-border rounded-lg text-sm bg-background focus:ring-2 focus:ring-primary outline-none"
+                />
+             </form>
              <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center text-primary font-bold text-sm">
                 ME
              </div>
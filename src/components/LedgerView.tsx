@@ -0,0 +1,477 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { api } from '../services/api';
+import {
+  AgreementItem, LedgerEntryType, Message, Person, Reimbursement, ReimbursementStatus, SourceType
+} from '../types';
+import {
+  computeLedgerBalances, extractSplitPercentages, formatCurrency, getAmountOwed, getFinancialAgreementItems,
+  getOutstanding, isOverdue
+} from '../utils/ledger';
+import { getScheduleParents } from '../utils/parentingSchedule';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import {
+  Loader2, Plus, X, Save, AlertTriangle, Paperclip, MessageSquare, Trash2, CheckCircle2, Receipt
+} from 'lucide-react';
+
+type LedgerFilter = 'all' | 'outstanding' | 'overdue';
+
+const STATUS_STYLES: Record<ReimbursementStatus, string> = {
+  [ReimbursementStatus.Pending]: 'bg-slate-100 text-slate-600',
+  [ReimbursementStatus.PartiallyPaid]: 'bg-blue-100 text-blue-700',
+  [ReimbursementStatus.Paid]: 'bg-green-100 text-green-700',
+  [ReimbursementStatus.Declined]: 'bg-slate-100 text-slate-400',
+  [ReimbursementStatus.Disputed]: 'bg-red-100 text-red-700'
+};
+
+interface EntryForm {
+  entryType: LedgerEntryType;
+  title: string;
+  category: string;
+  expenseDate: string;
+  amount: string;
+  paidByPersonId: string;
+  requestedFromPersonId: string;
+  agreementItemId: string;
+  splitPercentage: string;
+  requestedAt: string;
+  dueDate: string;
+  sourceMessageId: string;
+  notes: string;
+}
+
+const emptyForm = (): EntryForm => ({
+  entryType: 'expense',
+  title: '',
+  category: '',
+  expenseDate: format(new Date(), 'yyyy-MM-dd'),
+  amount: '',
+  paidByPersonId: '',
+  requestedFromPersonId: '',
+  agreementItemId: '',
+  splitPercentage: '50',
+  requestedAt: '',
+  dueDate: '',
+  sourceMessageId: '',
+  notes: ''
+});
+
+export const LedgerView: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [entries, setEntries] = useState<Reimbursement[]>([]);
+  const [people, setPeople] = useState<Person[]>([]);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [financialItems, setFinancialItems] = useState<AgreementItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<LedgerFilter>('all');
+  const [form, setForm] = useState<EntryForm | null>(null);
+  const [receiptFile, setReceiptFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [payment, setPayment] = useState<{ id: string; amount: string; date: string } | null>(null);
+  const receiptInputRef = useRef<HTMLInputElement>(null);
+  const [receiptTargetId, setReceiptTargetId] = useState<string | null>(null);
+
+  const loadEntries = async () => setEntries(await api.getReimbursements());
+
+  useEffect(() => {
+    Promise.all([api.getReimbursements(), api.getPeople(), api.getMessages(), api.getAgreementItemsWithOverrideInfo()])
+      .then(([r, p, m, items]) => {
+        setEntries(r);
+        setPeople(p);
+        setMessages(m);
+        setFinancialItems(getFinancialAgreementItems(items));
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Deep link from a message: /ledger?message=<id>
+  useEffect(() => {
+    const messageId = searchParams.get('message');
+    if (!messageId || messages.length === 0) return;
+    const message = messages.find(m => m.id === messageId);
+    if (message) {
+      setForm({
+        ...emptyForm(),
+        sourceMessageId: message.id,
+        requestedAt: format(new Date(message.sentAt), 'yyyy-MM-dd'),
+        expenseDate: format(new Date(message.sentAt), 'yyyy-MM-dd'),
+        paidByPersonId: message.senderId || '',
+        requestedFromPersonId: message.receiverId || '',
+        notes: message.rawText.slice(0, 280)
+      });
+    }
+    setSearchParams({}, { replace: true });
+  }, [searchParams, messages]);
+
+  const personName = (id?: string) => people.find(p => p.id === id)?.fullName || '—';
+  const parents = getScheduleParents(people);
+  const balances = computeLedgerBalances(entries);
+  const overdue = entries.filter(e => isOverdue(e));
+
+  const visibleEntries = entries.filter(e =>
+    filter === 'all' ? true : filter === 'overdue' ? isOverdue(e) : getOutstanding(e) > 0
+  );
+
+  const nearbyMessages = form
+    ? messages.filter(m =>
+        m.id === form.sourceMessageId ||
+        Math.abs(differenceInCalendarDays(new Date(m.sentAt), parseISO(form.requestedAt || form.expenseDate))) <= 7
+      )
+    : [];
+
+  const handleAgreementChange = (itemId: string) => {
+    if (!form) return;
+    const item = financialItems.find(i => i.id === itemId);
+    const [split] = item ? extractSplitPercentages(item) : [];
+    setForm({ ...form, agreementItemId: itemId, splitPercentage: split != null ? String(split) : form.splitPercentage });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    setSaving(true);
+    try {
+      const [saved] = await api.createReimbursementsBulk([{
+        entryType: form.entryType,
+        title: form.title,
+        category: form.category || undefined,
+        expenseDate: form.expenseDate,
+        amount: parseFloat(form.amount),
+        paidByPersonId: form.paidByPersonId || undefined,
+        requestedFromPersonId: form.requestedFromPersonId || undefined,
+        status: ReimbursementStatus.Pending,
+        dueDate: form.dueDate || undefined,
+        splitPercentage: form.entryType === 'expense' && form.splitPercentage ? parseFloat(form.splitPercentage) : undefined,
+        agreementItemId: form.agreementItemId || undefined,
+        requestedAt: form.requestedAt || undefined,
+        amountPaid: 0,
+        sourceMessageId: form.sourceMessageId || undefined,
+        notes: form.notes || undefined,
+        sourceType: SourceType.Manual
+      }]);
+
+      if (receiptFile && saved) {
+        const path = await api.uploadReceipt(receiptFile, saved.id);
+        await api.updateReimbursement(saved.id, { receiptPath: path });
+      }
+
+      setForm(null);
+      setReceiptFile(null);
+      await loadEntries();
+    } catch (error) {
+      console.error(error);
+      alert('Failed to save ledger entry.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRecordPayment = async () => {
+    if (!payment) return;
+    const entry = entries.find(e => e.id === payment.id);
+    if (!entry) return;
+
+    const amountPaid = Math.round((entry.amountPaid + (parseFloat(payment.amount) || 0)) * 100) / 100;
+    const settled = amountPaid >= getAmountOwed(entry);
+    await api.updateReimbursement(entry.id, {
+      amountPaid,
+      paidAt: payment.date,
+      status: settled ? ReimbursementStatus.Paid : ReimbursementStatus.PartiallyPaid
+    });
+    setPayment(null);
+    await loadEntries();
+  };
+
+  const handleReceiptSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !receiptTargetId) return;
+    try {
+      const path = await api.uploadReceipt(file, receiptTargetId);
+      await api.updateReimbursement(receiptTargetId, { receiptPath: path });
+      await loadEntries();
+    } catch (error) {
+      console.error(error);
+      alert('Failed to upload receipt.');
+    } finally {
+      setReceiptTargetId(null);
+    }
+  };
+
+  const handleViewReceipt = async (path: string) => {
+    const url = await api.getReceiptUrl(path);
+    if (url) window.open(url, '_blank');
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this ledger entry?')) return;
+    await api.deleteReimbursement(id);
+    await loadEntries();
+  };
+
+  if (loading) return <div className="flex p-8 justify-center"><Loader2 className="animate-spin text-indigo-600" /></div>;
+
+  const inputClass = 'w-full mt-1 border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none';
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-slate-900">Expenses & Support</h2>
+        <button
+          onClick={() => setForm(emptyForm())}
+          className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 flex items-center gap-1.5"
+        >
+          <Plus className="w-4 h-4" /> Add Entry
+        </button>
+      </div>
+
+      {/* Running Balances */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {parents.map(p => {
+          const balance = balances.find(b => b.personId === p.id) || { owedTo: 0, owes: 0, totalPaid: 0 };
+          const net = balance.owedTo - balance.owes;
+          return (
+            <div key={p.id} className="bg-white p-5 rounded-xl shadow-sm border border-slate-200">
+              <div className="flex justify-between items-center">
+                <h3 className="font-semibold text-slate-800">{p.fullName}</h3>
+                <span className={`text-lg font-bold ${net > 0 ? 'text-green-600' : net < 0 ? 'text-red-600' : 'text-slate-500'}`}>
+                  {net >= 0 ? '+' : '−'}{formatCurrency(Math.abs(net))}
+                </span>
+              </div>
+              <div className="grid grid-cols-3 gap-2 mt-3 text-sm">
+                <div><div className="text-xs text-slate-500">Is owed</div><div className="font-medium">{formatCurrency(balance.owedTo)}</div></div>
+                <div><div className="text-xs text-slate-500">Owes</div><div className="font-medium">{formatCurrency(balance.owes)}</div></div>
+                <div><div className="text-xs text-slate-500">Total paid</div><div className="font-medium">{formatCurrency(balance.totalPaid)}</div></div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {overdue.length > 0 && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4" />
+          {overdue.length} overdue reimbursement{overdue.length !== 1 ? 's' : ''} totalling {formatCurrency(overdue.reduce((sum, e) => sum + getOutstanding(e), 0))}
+        </div>
+      )}
+
+      {/* Filter Tabs */}
+      <div className="flex gap-2">
+        {(['all', 'outstanding', 'overdue'] as LedgerFilter[]).map(f => (
+          <button
+            key={f}
+            onClick={() => setFilter(f)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium capitalize transition-colors ${
+              filter === f ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 border border-slate-200 hover:bg-slate-50'
+            }`}
+          >
+            {f}
+          </button>
+        ))}
+      </div>
+
+      {/* Ledger Table */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-x-auto">
+        {visibleEntries.length === 0 ? (
+          <div className="p-8 text-center text-slate-500">No ledger entries.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-slate-500 border-b border-slate-200">
+                <th className="p-3 font-medium">Date</th>
+                <th className="p-3 font-medium">Expense</th>
+                <th className="p-3 font-medium">Paid by → Owed by</th>
+                <th className="p-3 font-medium text-right">Amount</th>
+                <th className="p-3 font-medium text-right">Owed</th>
+                <th className="p-3 font-medium text-right">Outstanding</th>
+                <th className="p-3 font-medium">Status</th>
+                <th className="p-3 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {visibleEntries.map(entry => {
+                const sourceMessage = messages.find(m => m.id === entry.sourceMessageId);
+                const entryOverdue = isOverdue(entry);
+                return (
+                  <React.Fragment key={entry.id}>
+                    <tr className={entryOverdue ? 'bg-red-50/50' : ''}>
+                      <td className="p-3 text-slate-600 whitespace-nowrap">{format(parseISO(entry.expenseDate), 'MMM d, yyyy')}</td>
+                      <td className="p-3">
+                        <div className="font-medium text-slate-800">{entry.title}</div>
+                        <div className="text-xs text-slate-500 flex flex-wrap items-center gap-2 mt-0.5">
+                          <span>{entry.entryType === 'child_support' ? 'Child support' : entry.category || 'Expense'}</span>
+                          {entry.splitPercentage != null && <span>{entry.splitPercentage}% split</span>}
+                          {entry.requestedAt && <span>requested {format(parseISO(entry.requestedAt), 'MMM d')}</span>}
+                          {entry.dueDate && <span className={entryOverdue ? 'text-red-600 font-medium' : ''}>due {format(parseISO(entry.dueDate), 'MMM d')}</span>}
+                          {entry.paidAt && <span>paid {format(parseISO(entry.paidAt), 'MMM d')}</span>}
+                          {sourceMessage && (
+                            <Link to={`/conversations/${sourceMessage.conversationId}?message=${sourceMessage.id}`} className="text-indigo-600 hover:underline flex items-center gap-0.5">
+                              <MessageSquare className="w-3 h-3" /> request
+                            </Link>
+                          )}
+                          {entry.receiptPath && (
+                            <button onClick={() => handleViewReceipt(entry.receiptPath!)} className="text-indigo-600 hover:underline flex items-center gap-0.5">
+                              <Receipt className="w-3 h-3" /> receipt
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                      <td className="p-3 text-slate-600">{personName(entry.paidByPersonId)} → {personName(entry.requestedFromPersonId)}</td>
+                      <td className="p-3 text-right">{formatCurrency(entry.amount)}</td>
+                      <td className="p-3 text-right">{formatCurrency(getAmountOwed(entry))}</td>
+                      <td className={`p-3 text-right font-medium ${entryOverdue ? 'text-red-600' : ''}`}>{formatCurrency(getOutstanding(entry))}</td>
+                      <td className="p-3">
+                        <span className={`text-xs px-2 py-0.5 rounded-full capitalize ${STATUS_STYLES[entry.status]}`}>
+                          {entry.status.replace('_', ' ')}
+                        </span>
+                      </td>
+                      <td className="p-3">
+                        <div className="flex items-center gap-1 justify-end">
+                          {getOutstanding(entry) > 0 && (
+                            <button
+                              onClick={() => setPayment({ id: entry.id, amount: String(getOutstanding(entry)), date: format(new Date(), 'yyyy-MM-dd') })}
+                              className="p-1 text-slate-400 hover:text-green-600"
+                              title="Record payment"
+                            >
+                              <CheckCircle2 className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => { setReceiptTargetId(entry.id); receiptInputRef.current?.click(); }}
+                            className="p-1 text-slate-400 hover:text-indigo-600"
+                            title={entry.receiptPath ? 'Replace receipt' : 'Attach receipt'}
+                          >
+                            <Paperclip className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => handleDelete(entry.id)} className="p-1 text-slate-400 hover:text-red-600" title="Delete">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                    {payment?.id === entry.id && (
+                      <tr className="bg-green-50/50">
+                        <td colSpan={8} className="p-3">
+                          <div className="flex flex-wrap items-center gap-2 text-sm">
+                            <span className="text-slate-600">Payment of</span>
+                            <input type="number" step="0.01" min={0} value={payment.amount} onChange={e => setPayment({ ...payment, amount: e.target.value })} className="w-28 border border-slate-300 rounded px-2 py-1" />
+                            <span className="text-slate-600">received on</span>
+                            <input type="date" value={payment.date} onChange={e => setPayment({ ...payment, date: e.target.value })} className="border border-slate-300 rounded px-2 py-1" />
+                            <button onClick={handleRecordPayment} className="px-3 py-1 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700">Record</button>
+                            <button onClick={() => setPayment(null)} className="px-3 py-1 text-slate-600 hover:bg-slate-100 rounded-lg text-sm">Cancel</button>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <input ref={receiptInputRef} type="file" accept="image/*,.pdf" className="hidden" onChange={handleReceiptSelected} />
+
+      {/* Add Entry Modal */}
+      {form && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl p-6 max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-bold text-slate-800">Add Ledger Entry</h3>
+              <button onClick={() => { setForm(null); setReceiptFile(null); }}><X className="w-5 h-5 text-slate-400 hover:text-slate-600" /></button>
+            </div>
+            <form onSubmit={handleSave} className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Type</label>
+                <select value={form.entryType} onChange={e => setForm({ ...form, entryType: e.target.value as LedgerEntryType })} className={`${inputClass} bg-white`}>
+                  <option value="expense">Shared expense</option>
+                  <option value="child_support">Child support payment</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Date</label>
+                <input required type="date" value={form.expenseDate} onChange={e => setForm({ ...form, expenseDate: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Description</label>
+                <input required value={form.title} onChange={e => setForm({ ...form, title: e.target.value })} className={inputClass} placeholder={form.entryType === 'expense' ? 'e.g. Soccer registration' : 'e.g. March support'} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Category</label>
+                <input value={form.category} onChange={e => setForm({ ...form, category: e.target.value })} className={inputClass} placeholder="e.g. Medical, School" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Amount</label>
+                <input required type="number" step="0.01" min={0} value={form.amount} onChange={e => setForm({ ...form, amount: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Governing agreement</label>
+                <select value={form.agreementItemId} onChange={e => handleAgreementChange(e.target.value)} className={`${inputClass} bg-white`}>
+                  <option value="">None</option>
+                  {financialItems.map(i => <option key={i.id} value={i.id}>{i.itemRef ? `${i.itemRef}: ` : ''}{i.topic}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700">{form.entryType === 'expense' ? 'Paid by' : 'Paid to'}</label>
+                <select value={form.paidByPersonId} onChange={e => setForm({ ...form, paidByPersonId: e.target.value })} className={`${inputClass} bg-white`}>
+                  <option value="">Select...</option>
+                  {parents.map(p => <option key={p.id} value={p.id}>{p.fullName}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Owed by</label>
+                <select value={form.requestedFromPersonId} onChange={e => setForm({ ...form, requestedFromPersonId: e.target.value })} className={`${inputClass} bg-white`}>
+                  <option value="">Select...</option>
+                  {parents.map(p => <option key={p.id} value={p.id}>{p.fullName}</option>)}
+                </select>
+              </div>
+              {form.entryType === 'expense' && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700">Their share (%)</label>
+                  <input type="number" step="0.01" min={0} max={100} value={form.splitPercentage} onChange={e => setForm({ ...form, splitPercentage: e.target.value })} className={inputClass} />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Requested on</label>
+                <input type="date" value={form.requestedAt} onChange={e => setForm({ ...form, requestedAt: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Due by</label>
+                <input type="date" value={form.dueDate} onChange={e => setForm({ ...form, dueDate: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700">Receipt</label>
+                <input type="file" accept="image/*,.pdf" onChange={e => setReceiptFile(e.target.files?.[0] || null)} className="w-full mt-1 text-sm" />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-slate-700">Requested in message</label>
+                <select value={form.sourceMessageId} onChange={e => setForm({ ...form, sourceMessageId: e.target.value })} className={`${inputClass} bg-white`}>
+                  <option value="">Not linked</option>
+                  {nearbyMessages.map(m => (
+                    <option key={m.id} value={m.id}>
+                      {format(new Date(m.sentAt), 'MMM d h:mm a')} · {personName(m.senderId)}: {m.rawText.slice(0, 80)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-slate-700">Notes</label>
+                <textarea rows={2} value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} className={`${inputClass} resize-none`} />
+              </div>
+              {form.entryType === 'expense' && form.amount && form.splitPercentage && (
+                <p className="col-span-2 text-sm text-slate-600">
+                  {personName(form.requestedFromPersonId)} owes {formatCurrency(Math.round(parseFloat(form.amount) * parseFloat(form.splitPercentage)) / 100)}
+                </p>
+              )}
+              <button type="submit" disabled={saving} className="col-span-2 w-full bg-indigo-600 text-white py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50 flex items-center justify-center gap-2">
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                Save Entry
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState, useMemo } from 'react';
+import { api } from '../services/api';
+import { Person } from '../types';
+import { findAllMatches } from '../utils/nameMatching';
+import { X, GitMerge, AlertTriangle } from 'lucide-react';
+
+interface MergePersonModalProps {
+  // The person that survives the merge
+  person: Person;
+  people: Person[];
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+/**
+ * Picks a duplicate of `person` and merges it in. Likely duplicates (by name
+ * similarity) are listed first.
+ */
+export const MergePersonModal: React.FC<MergePersonModalProps> = ({ person, people, onClose, onMerged }) => {
+  const [duplicateId, setDuplicateId] = useState('');
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const candidates = useMemo(() => {
+    const others = people.filter(p => p.id !== person.id);
+    const scores = new Map(findAllMatches(person.fullName, others, 0).map(m => [m.personId, m.matchScore]));
+    return others
+      .map(p => ({ person: p, score: scores.get(p.id) || 0 }))
+      .sort((a, b) => b.score - a.score || a.person.fullName.localeCompare(b.person.fullName));
+  }, [person, people]);
+
+  const duplicate = people.find(p => p.id === duplicateId);
+
+  const handleMerge = async () => {
+    if (!duplicate) return;
+    setMerging(true);
+    setError(null);
+    try {
+      await api.mergePeople(duplicate.id, person.id);
+      onMerged();
+    } catch (err: any) {
+      setError(err.message || 'Failed to merge people');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-slate-800">Merge a duplicate into {person.fullName}</h3>
+          <button onClick={onClose}><X className="w-5 h-5 text-slate-400 hover:text-slate-600" /></button>
+        </div>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700">Duplicate person</label>
+            <select
+              value={duplicateId}
+              onChange={e => setDuplicateId(e.target.value)}
+              className="w-full mt-1 border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              <option value="">Select a person...</option>
+              {candidates.map(({ person: p, score }) => (
+                <option key={p.id} value={p.id}>
+                  {p.fullName} ({p.role}){p.email ? ` · ${p.email}` : ''}{score >= 0.6 ? ' · likely duplicate' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+          {duplicate && (
+            <div className="p-3 rounded-lg text-sm bg-amber-50 border border-amber-200 text-amber-800 flex gap-2">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>
+                Messages, conversations, relationships, issue links, profile notes and agreements of {duplicate.fullName} will
+                move to {person.fullName}. Their name, email and phone are kept as aliases and {duplicate.fullName} is deleted.
+                This cannot be undone.
+              </span>
+            </div>
+          )}
+          {error && (
+            <div className="p-3 rounded-lg text-sm bg-red-50 border border-red-200 text-red-800">{error}</div>
+          )}
+          <button
+            onClick={handleMerge}
+            disabled={merging || !duplicate}
+            className="w-full flex items-center justify-center gap-2 bg-indigo-600 text-white py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            <GitMerge className="w-4 h-4" /> {merging ? 'Merging...' : 'Merge'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
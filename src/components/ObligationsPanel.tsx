@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { api } from '../services/api';
+import { AgreementItem, DerivedDeadline, Event, Obligation, ObligationStatus, Person } from '../types';
+import { deriveNoticeDeadlines, isObligationOverdue } from '../utils/obligations';
+import { format, parseISO } from 'date-fns';
+import { Loader2, Plus, Trash2, MessageSquare, Handshake, BellRing, AlertCircle } from 'lucide-react';
+
+const STATUS_LABELS: Record<ObligationStatus, string> = {
+  [ObligationStatus.Open]: 'Open',
+  [ObligationStatus.Fulfilled]: 'Fulfilled',
+  [ObligationStatus.Missed]: 'Missed',
+  [ObligationStatus.Waived]: 'Waived'
+};
+
+const SOURCE_LABELS: Record<Obligation['sourceType'], string> = {
+  commitment: 'Commitment',
+  agreement_notice: 'Notice period',
+  manual: 'Manual'
+};
+
+export const ObligationsPanel: React.FC = () => {
+  const [obligations, setObligations] = useState<Obligation[]>([]);
+  const [derived, setDerived] = useState<DerivedDeadline[]>([]);
+  const [people, setPeople] = useState<Person[]>([]);
+  const [items, setItems] = useState<AgreementItem[]>([]);
+  const [events, setEvents] = useState<Event[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showClosed, setShowClosed] = useState(false);
+
+  // Manual obligation form
+  const [newTitle, setNewTitle] = useState('');
+  const [newOwner, setNewOwner] = useState('');
+  const [newDue, setNewDue] = useState('');
+
+  useEffect(() => {
+    Promise.all([api.getObligations(), api.getPeople(), api.getAllActiveAgreementItems(), api.getEvents()])
+      .then(([o, p, i, e]) => {
+        setObligations(o);
+        setPeople(p);
+        setItems(i);
+        setEvents(e);
+        setDerived(deriveNoticeDeadlines(i, e, o));
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const reload = async () => {
+    const o = await api.getObligations();
+    setObligations(o);
+    setDerived(deriveNoticeDeadlines(items, events, o));
+  };
+
+  const personName = (id?: string) => people.find(p => p.id === id)?.fullName;
+  const itemLabel = (id?: string) => {
+    const item = items.find(i => i.id === id);
+    return item ? `${item.itemRef ? `${item.itemRef}: ` : ''}${item.topic}` : null;
+  };
+
+  const handleTrack = async (deadline: DerivedDeadline) => {
+    await api.createObligation({
+      title: deadline.title,
+      description: deadline.description,
+      dueDate: deadline.dueDate,
+      status: ObligationStatus.Open,
+      sourceType: 'agreement_notice',
+      agreementItemId: deadline.agreementItemId,
+      eventId: deadline.eventId
+    });
+    await reload();
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTitle.trim()) return;
+    await api.createObligation({
+      title: newTitle.trim(),
+      ownerPersonId: newOwner || undefined,
+      dueDate: newDue || undefined,
+      status: ObligationStatus.Open,
+      sourceType: 'manual'
+    });
+    setNewTitle('');
+    setNewOwner('');
+    setNewDue('');
+    await reload();
+  };
+
+  const handleStatusChange = async (id: string, status: ObligationStatus) => {
+    await api.updateObligation(id, { status });
+    await reload();
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this obligation?')) return;
+    await api.deleteObligation(id);
+    await reload();
+  };
+
+  if (loading) return <div className="flex p-8 justify-center"><Loader2 className="animate-spin text-primary" /></div>;
+
+  const visible = obligations.filter(o => showClosed || o.status === ObligationStatus.Open);
+
+  return (
+    <div className="space-y-6">
+      {/* Derived notice deadlines */}
+      {derived.length > 0 && (
+        <div className="bg-card rounded-xl border border-border">
+          <div className="p-4 border-b border-border flex items-center gap-2">
+            <BellRing className="w-4 h-4 text-amber-500" />
+            <h3 className="font-semibold text-foreground">Notice Deadlines from Agreements</h3>
+          </div>
+          <div className="divide-y divide-border">
+            {derived.map(d => (
+              <div key={d.key} className="p-4 flex items-center justify-between gap-4">
+                <div>
+                  <div className="font-medium text-foreground">{d.title}</div>
+                  <div className="text-sm text-muted-foreground mt-0.5">
+                    {d.description} · event on {format(parseISO(d.eventDate), 'MMM d, yyyy')}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <span className="text-sm font-medium text-foreground">by {format(parseISO(d.dueDate), 'MMM d, yyyy')}</span>
+                  <button
+                    onClick={() => handleTrack(d)}
+                    className="text-sm font-medium text-primary bg-primary/10 px-3 py-1.5 rounded-lg hover:bg-primary/20"
+                  >
+                    Track
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Add manual obligation */}
+      <form onSubmit={handleAdd} className="flex flex-wrap gap-2">
+        <input
+          value={newTitle}
+          onChange={e => setNewTitle(e.target.value)}
+          placeholder="New obligation, e.g. Send passport copy"
+          className="flex-1 min-w-[240px] border border-border rounded-lg px-3 py-2 text-sm bg-background"
+        />
+        <select value={newOwner} onChange={e => setNewOwner(e.target.value)} className="border border-border rounded-lg px-3 py-2 text-sm bg-background">
+          <option value="">Owner...</option>
+          {people.map(p => <option key={p.id} value={p.id}>{p.fullName}</option>)}
+        </select>
+        <input type="date" value={newDue} onChange={e => setNewDue(e.target.value)} className="border border-border rounded-lg px-3 py-2 text-sm bg-background" />
+        <button type="submit" className="flex items-center gap-2 text-sm font-medium text-primary bg-primary/10 px-4 py-2 rounded-lg hover:bg-primary/20">
+          <Plus className="w-4 h-4" /> Add
+        </button>
+      </form>
+
+      {/* Tracked obligations */}
+      <div className="bg-card rounded-xl border border-border">
+        <div className="p-4 border-b border-border flex items-center justify-between">
+          <h3 className="font-semibold text-foreground">Tracked Obligations</h3>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <input type="checkbox" checked={showClosed} onChange={e => setShowClosed(e.target.checked)} />
+            Show closed
+          </label>
+        </div>
+        {visible.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground text-sm">
+            No obligations yet. Commitments found when analyzing conversations appear here.
+          </div>
+        ) : (
+          <div className="divide-y divide-border">
+            {visible.map(o => {
+              const overdue = isObligationOverdue(o);
+              return (
+                <div key={o.id} className="p-4 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className={`font-medium ${o.status === ObligationStatus.Open ? 'text-foreground' : 'text-muted-foreground line-through'}`}>
+                      {o.title}
+                    </div>
+                    {o.description && <p className="text-sm text-muted-foreground mt-0.5">{o.description}</p>}
+                    <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-muted-foreground">
+                      <span className="px-2 py-0.5 bg-muted rounded">{SOURCE_LABELS[o.sourceType]}</span>
+                      {personName(o.ownerPersonId) && <span>Owner: {personName(o.ownerPersonId)}</span>}
+                      {o.dueDate && (
+                        <span className={overdue ? 'text-red-600 font-medium flex items-center gap-1' : ''}>
+                          {overdue && <AlertCircle className="w-3 h-3" />}
+                          Due {format(parseISO(o.dueDate), 'MMM d, yyyy')}
+                        </span>
+                      )}
+                      {o.sourceConversationId && (
+                        <Link
+                          to={`/conversations/${o.sourceConversationId}${o.sourceMessageId ? `?message=${o.sourceMessageId}` : ''}`}
+                          className="text-primary hover:underline flex items-center gap-1"
+                        >
+                          <MessageSquare className="w-3 h-3" /> Source message
+                        </Link>
+                      )}
+                      {itemLabel(o.agreementItemId) && (
+                        <span className="flex items-center gap-1"><Handshake className="w-3 h-3" /> {itemLabel(o.agreementItemId)}</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <select
+                      value={o.status}
+                      onChange={e => handleStatusChange(o.id, e.target.value as ObligationStatus)}
+                      className="border border-border rounded-lg px-2 py-1 text-sm bg-background"
+                    >
+                      {Object.values(ObligationStatus).map(s => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+                    </select>
+                    <button onClick={() => handleDelete(o.id)} className="p-1 text-muted-foreground hover:text-red-600" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
 import { api } from '../services/api';
 import { generatePersonAnalysis, clarifyPerson } from '../services/ai';
 import { Person, Role, ProfileNote, Conversation, Issue, Event, ConversationTurn, SuggestedRelationship, PersonRelationship, ConversationStatus } from '../types';
-import { Mail, Phone, MapPin, MessageSquare, AlertCircle, FileText, BrainCircuit, Loader2, Plus, X, Save, Link as LinkIcon, Pencil, Trash2, Clock } from 'lucide-react';
+import { Mail, Phone, MapPin, MessageSquare, AlertCircle, FileText, BrainCircuit, Loader2, Plus, X, Save, Link as LinkIcon, Pencil, Trash2, Clock, GitMerge, LayoutGrid, Network } from 'lucide-react';
 import { ClarificationModal } from './ClarificationModal';
+import { PersonTrendsPanel } from './PersonTrendsPanel';
+import { CommunicationMetricsPanel } from './CommunicationMetricsPanel';
+import { PersonAliasesPanel } from './PersonAliasesPanel';
+import { MergePersonModal } from './MergePersonModal';
+import { RelationshipGraph } from './RelationshipGraph';
 import { getContributionLabel, getContributionBadgeStyle, VALENCE_ICONS, ContributionValence } from '../utils/contributionHelpers';
 
 type IssueWithContribution = Issue & {
@@ -17,6 +22,8 @@ export const PeopleList: React.FC = () => {
   const [people, setPeople] = useState<Person[]>([]);
   const [loading, setLoading] = useState(true);
   const [filterRole, setFilterRole] = useState<string>('all');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const view = searchParams.get('view') === 'graph' ? 'graph' : 'list';
   const [isModalOpen, setIsModalOpen] = useState(false);
   
   // New Person Form State
@@ -174,6 +181,19 @@ export const PeopleList: React.FC = () => {
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-slate-900">Directory</h2>
         <div className="flex gap-2">
+          <div className="flex bg-slate-100 rounded-lg p-1">
+            {([['list', 'Cards', LayoutGrid], ['graph', 'Family Graph', Network]] as const).map(([key, label, Icon]) => (
+              <button
+                key={key}
+                onClick={() => setSearchParams(key === 'graph' ? { view: 'graph' } : {})}
+                className={`px-3 py-1.5 rounded-md text-sm font-medium flex items-center gap-1.5 transition-colors ${
+                  view === key ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                <Icon className="w-4 h-4" /> {label}
+              </button>
+            ))}
+          </div>
           <select 
             className="border border-slate-300 rounded-lg px-3 py-2 text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
             value={filterRole}
@@ -193,39 +213,43 @@ export const PeopleList: React.FC = () => {
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {filteredPeople.map(person => (
-          <Link to={`/people/${person.id}`} key={person.id} className="group">
-            <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 transition-all group-hover:shadow-md group-hover:border-indigo-200">
-              <div className="flex items-start gap-4">
-                <img 
-                  src={person.avatarUrl || `https://ui-avatars.com/api/?name=${person.fullName}&background=random`} 
-                  alt={person.fullName} 
-                  className="w-16 h-16 rounded-full object-cover border-2 border-slate-100 group-hover:border-indigo-100"
-                />
-                <div>
-                  <h3 className="font-bold text-slate-900 group-hover:text-indigo-700">{person.fullName}</h3>
-                  <span className="inline-block bg-slate-100 text-slate-600 text-xs px-2 py-0.5 rounded-full mt-1 capitalize">
-                    {person.role}
-                  </span>
+      {view === 'graph' ? (
+        <RelationshipGraph people={filteredPeople} />
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {filteredPeople.map(person => (
+            <Link to={`/people/${person.id}`} key={person.id} className="group">
+              <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 transition-all group-hover:shadow-md group-hover:border-indigo-200">
+                <div className="flex items-start gap-4">
+                  <img 
+                    src={person.avatarUrl || `https://ui-avatars.com/api/?name=${person.fullName}&background=random`} 
+                    alt={person.fullName} 
+                    className="w-16 h-16 rounded-full object-cover border-2 border-slate-100 group-hover:border-indigo-100"
+                  />
+                  <div>
+                    <h3 className="font-bold text-slate-900 group-hover:text-indigo-700">{person.fullName}</h3>
+                    <span className="inline-block bg-slate-100 text-slate-600 text-xs px-2 py-0.5 rounded-full mt-1 capitalize">
+                      {person.role}
+                    </span>
+                  </div>
+                </div>
+                {person.notes && (
+                  <p className="mt-4 text-sm text-slate-500 line-clamp-2">{person.notes}</p>
+                )}
+                <div className="mt-4 pt-4 border-t border-slate-100 flex gap-4 text-slate-400">
+                  {person.email && <Mail className="w-4 h-4" />}
+                  {person.phone && <Phone className="w-4 h-4" />}
                 </div>
               </div>
-              {person.notes && (
-                <p className="mt-4 text-sm text-slate-500 line-clamp-2">{person.notes}</p>
-              )}
-              <div className="mt-4 pt-4 border-t border-slate-100 flex gap-4 text-slate-400">
-                {person.email && <Mail className="w-4 h-4" />}
-                {person.phone && <Phone className="w-4 h-4" />}
-              </div>
+            </Link>
+          ))}
+          {filteredPeople.length === 0 && (
+            <div className="col-span-3 text-center py-10 text-slate-500">
+              No people found. Add some in Supabase!
             </div>
-          </Link>
-        ))}
-        {filteredPeople.length === 0 && (
-          <div className="col-span-3 text-center py-10 text-slate-500">
-            No people found. Add some in Supabase!
-          </div>
-        )}
-      </div>
+          )}
+        </div>
+      )}
 
       {/* Modal for creating person */}
       {isModalOpen && !showClarification && (
@@ -306,7 +330,7 @@ export const PersonDetail: React.FC = () => {
   const [relationships, setRelationships] = useState<(PersonRelationship & { relatedPerson?: Person })[]>([]);
   const [allPeople, setAllPeople] = useState<Person[]>([]);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'overview' | 'analysis'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'analysis' | 'trends' | 'communication'>('overview');
   
   // Create Note State
   const [isNoteModalOpen, setIsNoteModalOpen] = useState(false);
@@ -332,6 +356,10 @@ export const PersonDetail: React.FC = () => {
   const [deletingRel, setDeletingRel] = useState<(PersonRelationship & { relatedPerson?: Person }) | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
 
+  const [isMergeModalOpen, setIsMergeModalOpen] = useState(false);
+  // Bumped after a merge so the alias list picks up the duplicate's names
+  const [aliasesVersion, setAliasesVersion] = useState(0);
+
   useEffect(() => {
     if (!id) return;
     loadData();
@@ -491,6 +519,12 @@ export const PersonDetail: React.FC = () => {
                 )}
               </div>
             </div>
+            <button
+              onClick={() => setIsMergeModalOpen(true)}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-slate-600 border border-slate-300 rounded-lg hover:bg-slate-50"
+            >
+              <GitMerge className="w-4 h-4" /> Merge Duplicate
+            </button>
           </div>
           
           <div className="mt-6 flex flex-wrap gap-6 text-slate-600">
@@ -512,6 +546,10 @@ export const PersonDetail: React.FC = () => {
              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-2">Clinical Assessment Summary</h4>
              <p className="text-slate-700 text-sm leading-relaxed">{person.notes || "No assessment available. Run the AI Analysis."}</p>
           </div>
+
+          <div className="mt-6">
+            <PersonAliasesPanel key={aliasesVersion} personId={person.id} />
+          </div>
         </div>
       </div>
 
@@ -531,6 +569,20 @@ export const PersonDetail: React.FC = () => {
           Analysis & Notes
           {activeTab === 'analysis' && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-indigo-600"></div>}
         </button>
+        <button 
+          onClick={() => setActiveTab('trends')}
+          className={`px-6 py-3 font-medium text-sm transition-colors relative ${activeTab === 'trends' ? 'text-indigo-600' : 'text-slate-500 hover:text-slate-700'}`}
+        >
+          Trends
+          {activeTab === 'trends' && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-indigo-600"></div>}
+        </button>
+        <button 
+          onClick={() => setActiveTab('communication')}
+          className={`px-6 py-3 font-medium text-sm transition-colors relative ${activeTab === 'communication' ? 'text-indigo-600' : 'text-slate-500 hover:text-slate-700'}`}
+        >
+          Communication
+          {activeTab === 'communication' && <div className="absolute bottom-0 left-0 w-full h-0.5 bg-indigo-600"></div>}
+        </button>
       </div>
 
       {/* Tab Content */}
@@ -649,12 +701,20 @@ export const PersonDetail: React.FC = () => {
                 <h3 className="font-semibold text-slate-800 flex items-center gap-2">
                   <LinkIcon className="w-4 h-4" /> Relationships
                 </h3>
-                <button 
-                  onClick={() => setIsRelModalOpen(true)}
-                  className="flex items-center gap-1 text-xs font-medium bg-white border border-slate-300 text-slate-700 px-3 py-1.5 rounded-lg hover:bg-slate-50 transition-colors"
-                >
-                  <Plus className="w-3 h-3" /> Add Relationship
-                </button>
+                <div className="flex items-center gap-2">
+                  <Link
+                    to="/people?view=graph"
+                    className="flex items-center gap-1 text-xs font-medium text-indigo-600 px-3 py-1.5 rounded-lg hover:bg-indigo-50 transition-colors"
+                  >
+                    <Network className="w-3 h-3" /> Family Graph
+                  </Link>
+                  <button 
+                    onClick={() => setIsRelModalOpen(true)}
+                    className="flex items-center gap-1 text-xs font-medium bg-white border border-slate-300 text-slate-700 px-3 py-1.5 rounded-lg hover:bg-slate-50 transition-colors"
+                  >
+                    <Plus className="w-3 h-3" /> Add Relationship
+                  </button>
+                </div>
               </div>
               <div className="bg-white rounded-lg border border-slate-200 divide-y divide-slate-100">
                 {relationships.length === 0 ? (
@@ -706,7 +766,7 @@ export const PersonDetail: React.FC = () => {
               </div>
             </div>
           </div>
-        ) : (
+        ) : activeTab === 'analysis' ? (
           <div className="space-y-6">
             <div className="flex justify-between items-center">
               <h3 className="font-semibold text-slate-800 flex items-center gap-2">
@@ -760,6 +820,10 @@ export const PersonDetail: React.FC = () => {
               )}
             </div>
           </div>
+        ) : activeTab === 'trends' ? (
+          <PersonTrendsPanel personId={person.id} conversations={conversations} />
+        ) : (
+          <CommunicationMetricsPanel personId={person.id} conversations={conversations} />
         )}
       </div>
 
@@ -962,6 +1026,19 @@ export const PersonDetail: React.FC = () => {
           </div>
         </div>
       )}
+
+      {isMergeModalOpen && (
+        <MergePersonModal
+          person={person}
+          people={allPeople}
+          onClose={() => setIsMergeModalOpen(false)}
+          onMerged={() => {
+            setIsMergeModalOpen(false);
+            setAliasesVersion(v => v + 1);
+            loadData();
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../services/api';
+import { PersonAlias, PersonAliasType } from '../types';
+import { Plus, X } from 'lucide-react';
+
+interface PersonAliasesPanelProps {
+  personId: string;
+}
+
+const ALIAS_TYPE_LABELS: Record<PersonAliasType, string> = {
+  name: 'Other name',
+  nickname: 'Nickname',
+  email: 'Email',
+  phone: 'Phone',
+  ofw_name: 'OFW name'
+};
+
+/**
+ * The names, addresses and numbers a person appears under in imports.
+ * Imports match against these, and add to them when a name is mapped by hand.
+ */
+export const PersonAliasesPanel: React.FC<PersonAliasesPanelProps> = ({ personId }) => {
+  const [aliases, setAliases] = useState<PersonAlias[]>([]);
+  const [aliasType, setAliasType] = useState<PersonAliasType>('nickname');
+  const [value, setValue] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.getPersonAliases(personId).then(setAliases);
+  }, [personId]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!value.trim()) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const alias = await api.addPersonAlias({ personId, aliasType, alias: value });
+      setAliases(prev => [...prev, alias]);
+      setValue('');
+    } catch (err: any) {
+      setError(err.code === '23505' ? 'This alias is already saved' : err.message || 'Failed to add alias');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      await api.deletePersonAlias(id);
+      setAliases(prev => prev.filter(a => a.id !== id));
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove alias');
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wide mb-2">Also Known As</h4>
+      <div className="flex flex-wrap gap-2">
+        {aliases.length === 0 && <span className="text-sm text-slate-400 italic">No aliases yet.</span>}
+        {aliases.map(alias => (
+          <span key={alias.id} className="inline-flex items-center gap-1.5 bg-slate-100 text-slate-700 text-sm px-2.5 py-1 rounded-full border border-slate-200">
+            <span className="text-[10px] uppercase text-slate-400 font-semibold">{ALIAS_TYPE_LABELS[alias.aliasType]}</span>
+            {alias.alias}
+            <button onClick={() => handleRemove(alias.id)} title="Remove alias" className="text-slate-400 hover:text-red-500">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+      <form onSubmit={handleAdd} className="flex gap-2 mt-3">
+        <select
+          value={aliasType}
+          onChange={e => setAliasType(e.target.value as PersonAliasType)}
+          className="border border-slate-300 rounded-lg px-2 py-1.5 text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+        >
+          {(Object.keys(ALIAS_TYPE_LABELS) as PersonAliasType[]).map(type => (
+            <option key={type} value={type}>{ALIAS_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        <input
+          value={value}
+          onChange={e => setValue(e.target.value)}
+          placeholder="e.g. Jen, jsmith@example.com"
+          className="flex-1 border border-slate-300 rounded-lg px-3 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+        />
+        <button
+          type="submit"
+          disabled={saving || !value.trim()}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-indigo-600 border border-indigo-200 rounded-lg hover:bg-indigo-50 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" /> Add
+        </button>
+      </form>
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { api } from '../services/api';
+import { Conversation, ConversationAnalysis, FlagReview, Message } from '../types';
+import {
+  computePersonTrends, formatFlagType, getFlagTier, FLAG_TIERS, FLAG_TIER_LABELS, FlagTier
+} from '../utils/behaviorTrends';
+import { format, parseISO, subMonths } from 'date-fns';
+import { Loader2, TrendingUp, Sparkles } from 'lucide-react';
+
+interface PersonTrendsPanelProps {
+  personId: string;
+  conversations: Conversation[];
+}
+
+const TIER_COLORS: Record<FlagTier, { bar: string; cell: string; text: string }> = {
+  resolution_blocking: { bar: 'bg-red-500', cell: 'bg-red-500', text: 'text-red-700' },
+  significant: { bar: 'bg-orange-400', cell: 'bg-orange-400', text: 'text-orange-700' },
+  pattern: { bar: 'bg-amber-300', cell: 'bg-amber-400', text: 'text-amber-700' },
+  positive: { bar: 'bg-emerald-500', cell: 'bg-emerald-500', text: 'text-emerald-700' }
+};
+
+const TONE_COLORS: Record<string, string> = {
+  cooperative: '#10b981',
+  neutral: '#64748b',
+  tense: '#f59e0b',
+  contentious: '#f97316',
+  hostile: '#ef4444'
+};
+
+const monthLabel = (month: string) => format(parseISO(`${month}-01`), 'MMM yy');
+
+export const PersonTrendsPanel: React.FC<PersonTrendsPanelProps> = ({ personId, conversations }) => {
+  const [analyses, setAnalyses] = useState<ConversationAnalysis[]>([]);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [reviews, setReviews] = useState<FlagReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [range, setRange] = useState<'12m' | 'all'>('12m');
+
+  useEffect(() => {
+    const ids = conversations.map(c => c.id);
+    setLoading(true);
+    Promise.all([api.getConversationAnalyses(ids), api.getMessagesForConversations(ids), api.getFlagReviews(ids)])
+      .then(([a, m, r]) => {
+        setAnalyses(a);
+        setMessages(m);
+        setReviews(r);
+      })
+      .catch(err => console.error('Failed to load trend data:', err))
+      .finally(() => setLoading(false));
+  }, [conversations]);
+
+  const trends = useMemo(() => {
+    const since = range === '12m' ? format(subMonths(new Date(), 12), 'yyyy-MM-01') : undefined;
+    return computePersonTrends(personId, conversations, analyses, messages, reviews, since);
+  }, [personId, conversations, analyses, messages, reviews, range]);
+
+  if (loading) return <div className="flex p-8 justify-center"><Loader2 className="animate-spin text-indigo-600" /></div>;
+
+  if (trends.months.length === 0) {
+    return (
+      <div className="bg-white p-8 rounded-xl border border-slate-200 text-center text-slate-500">
+        No analyzed conversations for this person{range === '12m' ? ' in the last 12 months' : ''}.
+      </div>
+    );
+  }
+
+  const maxMonthTotal = Math.max(1, ...trends.months.map(m => m.total));
+  const maxTypeCount = Math.max(1, ...trends.months.flatMap(m => Object.values(m.byType)));
+  const firstSeenByMonth = new Map<string, string[]>();
+  for (const f of trends.firstAppearances) {
+    const month = f.firstSeen.slice(0, 7);
+    firstSeenByMonth.set(month, [...(firstSeenByMonth.get(month) || []), f.type]);
+  }
+
+  // Tone chart geometry
+  const chartWidth = 600;
+  const chartHeight = 140;
+  const toneX = (i: number) => trends.tone.length === 1 ? chartWidth / 2 : 20 + (i * (chartWidth - 40)) / (trends.tone.length - 1);
+  const toneY = (score: number) => 15 + ((2 - score) * (chartHeight - 30)) / 4;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <TrendingUp className="w-4 h-4 text-indigo-600" /> Behavioral Trends
+          <span className="text-sm font-normal text-slate-500">({trends.totalFlags} confirmed flags)</span>
+          <Link to="/flags" className="text-xs font-normal text-indigo-600 hover:underline">Review flags</Link>
+        </h3>
+        <div className="flex gap-1 bg-slate-100 p-1 rounded-lg">
+          {(['12m', 'all'] as const).map(r => (
+            <button
+              key={r}
+              onClick={() => setRange(r)}
+              className={`px-3 py-1 text-sm rounded-md ${range === r ? 'bg-white shadow-sm text-slate-900' : 'text-slate-500'}`}
+            >
+              {r === '12m' ? 'Last 12 months' : 'All time'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Flags by tier per month */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <div className="flex justify-between items-center mb-4">
+          <h4 className="text-sm font-semibold text-slate-700">Flags by Tier per Month</h4>
+          <div className="flex flex-wrap gap-3 text-xs text-slate-500">
+            {FLAG_TIERS.map(t => (
+              <span key={t} className="flex items-center gap-1">
+                <span className={`w-2.5 h-2.5 rounded-sm ${TIER_COLORS[t].bar}`} /> {FLAG_TIER_LABELS[t]}
+              </span>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-end gap-1 h-40 overflow-x-auto">
+          {trends.months.map(m => (
+            <div key={m.month} className="flex-1 min-w-[28px] flex flex-col items-center h-full">
+              <div className="flex-1 w-full flex flex-col justify-end relative">
+                {firstSeenByMonth.has(m.month) && (
+                  <span className="mx-auto mb-0.5" title={`First seen: ${firstSeenByMonth.get(m.month)!.map(formatFlagType).join(', ')}`}>
+                    <Sparkles className="w-3 h-3 text-indigo-500" />
+                  </span>
+                )}
+                <div
+                  className="w-full flex flex-col-reverse rounded-t overflow-hidden"
+                  style={{ height: `${(m.total / maxMonthTotal) * 100}%` }}
+                  title={`${monthLabel(m.month)}: ${FLAG_TIERS.map(t => `${FLAG_TIER_LABELS[t]} ${m.byTier[t]}`).join(', ')}`}
+                >
+                  {FLAG_TIERS.map(t => m.byTier[t] > 0 && (
+                    <div key={t} className={TIER_COLORS[t].bar} style={{ height: `${(m.byTier[t] / m.total) * 100}%` }} />
+                  ))}
+                </div>
+              </div>
+              <span className="text-[10px] text-slate-400 mt-1 whitespace-nowrap">{monthLabel(m.month)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Tone across conversations */}
+      {trends.tone.length > 0 && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <h4 className="text-sm font-semibold text-slate-700 mb-4">Tone Across Conversations</h4>
+          <div className="flex gap-3">
+            <div className="flex flex-col justify-between text-[10px] text-slate-400 py-1">
+              <span>Cooperative</span>
+              <span>Tense</span>
+              <span>Hostile</span>
+            </div>
+            <svg viewBox={`0 0 ${chartWidth} ${chartHeight}`} className="flex-1 h-36">
+              <line x1={0} x2={chartWidth} y1={toneY(0)} y2={toneY(0)} stroke="#e2e8f0" strokeDasharray="4 4" />
+              <polyline
+                fill="none"
+                stroke="#6366f1"
+                strokeWidth={2}
+                points={trends.tone.map((t, i) => `${toneX(i)},${toneY(t.score)}`).join(' ')}
+              />
+              {trends.tone.map((t, i) => (
+                <circle key={t.conversationId} cx={toneX(i)} cy={toneY(t.score)} r={5} fill={TONE_COLORS[t.tone] || '#64748b'}>
+                  <title>{`${t.title} (${format(parseISO(t.date), 'MMM d, yyyy')}): ${t.tone}`}</title>
+                </circle>
+              ))}
+            </svg>
+          </div>
+        </div>
+      )}
+
+      {/* Flag types per month */}
+      {trends.flagTypes.length > 0 && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 overflow-x-auto">
+          <h4 className="text-sm font-semibold text-slate-700 mb-4">Flag Types per Month</h4>
+          <table className="text-xs">
+            <thead>
+              <tr>
+                <th className="text-left font-medium text-slate-500 pr-4 pb-2">Flag</th>
+                {trends.months.map(m => (
+                  <th key={m.month} className="font-normal text-slate-400 px-0.5 pb-2 whitespace-nowrap">{monthLabel(m.month)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {trends.flagTypes.map(type => {
+                const tier = getFlagTier(type);
+                return (
+                  <tr key={type}>
+                    <td className={`pr-4 py-0.5 whitespace-nowrap ${TIER_COLORS[tier].text}`}>{formatFlagType(type)}</td>
+                    {trends.months.map(m => {
+                      const count = m.byType[type] || 0;
+                      return (
+                        <td key={m.month} className="px-0.5 py-0.5">
+                          <div
+                            className={`w-7 h-5 rounded-sm flex items-center justify-center ${count > 0 ? `${TIER_COLORS[tier].cell} text-white` : 'bg-slate-50'}`}
+                            style={count > 0 ? { opacity: 0.35 + 0.65 * (count / maxTypeCount) } : undefined}
+                          >
+                            {count > 0 ? count : ''}
+                          </div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* First appearances */}
+      {trends.firstAppearances.length > 0 && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+          <h4 className="text-sm font-semibold text-slate-700 mb-4 flex items-center gap-2">
+            <Sparkles className="w-4 h-4 text-indigo-500" /> When Patterns First Appeared
+          </h4>
+          <div className="divide-y divide-slate-100">
+            {trends.firstAppearances.map(f => (
+              <div key={f.type} className="py-2 flex items-center justify-between gap-4 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className={`w-2 h-2 rounded-full ${TIER_COLORS[f.tier].bar}`} />
+                  <span className="text-slate-800">{formatFlagType(f.type)}</span>
+                  <span className="text-xs text-slate-400">{f.count} total</span>
+                </div>
+                <Link
+                  to={`/conversations/${f.conversationId}?message=${f.messageId}`}
+                  className="text-xs text-indigo-600 hover:underline whitespace-nowrap"
+                >
+                  {format(parseISO(f.firstSeen), 'MMM d, yyyy')}
+                </Link>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,279 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { api } from '../services/api';
+import { IssueStatus, Person, PersonRelationship, Role } from '../types';
+import { layoutGenerations, countSharedIssues, PairWeight } from '../utils/relationshipGraph';
+import { Loader2, MessageSquare, AlertCircle } from 'lucide-react';
+
+interface RelationshipGraphProps {
+  people: Person[];
+}
+
+type Overlay = 'none' | 'messages' | 'issues';
+
+const WIDTH = 1000;
+const ROW_HEIGHT = 190;
+const NODE_RADIUS = 26;
+// Only the heaviest pairs are drawn so the overlay stays readable
+const MAX_OVERLAY_PAIRS = 10;
+
+const ROLE_COLORS: Record<Role, string> = {
+  [Role.Me]: '#4f46e5',
+  [Role.Parent]: '#2563eb',
+  [Role.StepParent]: '#7c3aed',
+  [Role.Child]: '#059669',
+  [Role.Clinician]: '#d97706',
+  [Role.Legal]: '#475569',
+  [Role.Other]: '#94a3b8'
+};
+
+const OVERLAY_COLORS: Record<Exclude<Overlay, 'none'>, string> = {
+  messages: '#f59e0b',
+  issues: '#ef4444'
+};
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+
+/**
+ * Genogram-style graph of everyone in the directory and their relationships.
+ * Nodes can be dragged to untangle the layout and clicked to open the person;
+ * overlays highlight the pairs that message most or share the most open issues.
+ */
+export const RelationshipGraph: React.FC<RelationshipGraphProps> = ({ people }) => {
+  const navigate = useNavigate();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [relationships, setRelationships] = useState<PersonRelationship[]>([]);
+  const [messagePairs, setMessagePairs] = useState<PairWeight[]>([]);
+  const [issuePairs, setIssuePairs] = useState<PairWeight[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [overlay, setOverlay] = useState<Overlay>('none');
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  // Positions of nodes the user has dragged, overriding the computed layout
+  const [moved, setMoved] = useState<Record<string, { x: number; y: number }>>({});
+  const dragRef = useRef<{ personId: string; dragged: boolean } | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      api.getAllPersonRelationships(),
+      api.getMessagePairCounts(),
+      api.getIssues(),
+      api.getIssuePeopleLinks()
+    ]).then(([rels, messageCounts, issues, links]) => {
+      setRelationships(rels);
+      setMessagePairs(messageCounts);
+      const openIssueIds = new Set(
+        issues.filter(i => i.status === IssueStatus.Open || i.status === IssueStatus.Monitoring).map(i => i.id)
+      );
+      setIssuePairs(countSharedIssues(links, openIssueIds));
+    })
+      .catch(err => console.error('Failed to load relationship graph data:', err))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const layout = useMemo(() => layoutGenerations(people, relationships, WIDTH, ROW_HEIGHT), [people, relationships]);
+  const height = Math.max(ROW_HEIGHT, ...layout.map(n => n.y + ROW_HEIGHT / 2));
+
+  const positions = useMemo(() => {
+    const map = new Map<string, { x: number; y: number }>();
+    layout.forEach(n => map.set(n.person.id, moved[n.person.id] || { x: n.x, y: n.y }));
+    return map;
+  }, [layout, moved]);
+
+  const personById = useMemo(() => new Map(people.map(p => [p.id, p])), [people]);
+
+  const overlayPairs = useMemo(() => {
+    if (overlay === 'none') return [];
+    const pairs = overlay === 'messages' ? messagePairs : issuePairs;
+    return pairs.filter(p => positions.has(p.personIds[0]) && positions.has(p.personIds[1])).slice(0, MAX_OVERLAY_PAIRS);
+  }, [overlay, messagePairs, issuePairs, positions]);
+  const maxOverlayCount = Math.max(1, ...overlayPairs.map(p => p.count));
+
+  const isHighlighted = (a: string, b: string) => !hoveredId || hoveredId === a || hoveredId === b;
+
+  const toSvgPoint = (e: React.PointerEvent) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return null;
+    const point = svg.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const { x, y } = point.matrixTransform(matrix.inverse());
+    return { x: Math.min(WIDTH - NODE_RADIUS, Math.max(NODE_RADIUS, x)), y: Math.min(height - NODE_RADIUS, Math.max(NODE_RADIUS, y)) };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toSvgPoint(e);
+    if (!point) return;
+    drag.dragged = true;
+    setMoved(prev => ({ ...prev, [drag.personId]: point }));
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    // A press without movement is a click
+    if (drag && !drag.dragged) navigate(`/people/${drag.personId}`);
+  };
+
+  if (loading) return <div className="flex p-8 justify-center"><Loader2 className="animate-spin text-indigo-600" /></div>;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div className="flex flex-wrap gap-3 text-xs text-slate-600">
+          {(Object.keys(ROLE_COLORS) as Role[]).map(role => (
+            <span key={role} className="flex items-center gap-1.5">
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: ROLE_COLORS[role] }} /> {role}
+            </span>
+          ))}
+        </div>
+        <div className="flex bg-slate-100 rounded-lg p-1">
+          {([['none', 'Relationships', null], ['messages', 'Most Messages', MessageSquare], ['issues', 'Shared Open Issues', AlertCircle]] as const).map(([key, label, Icon]) => (
+            <button
+              key={key}
+              onClick={() => setOverlay(key)}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium flex items-center gap-1.5 transition-colors ${
+                overlay === key ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {Icon && <Icon className="w-4 h-4" />} {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="lg:col-span-3 bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+          {people.length === 0 ? (
+            <div className="text-center py-10 text-slate-500">No people to show.</div>
+          ) : (
+            <svg
+              ref={svgRef}
+              viewBox={`0 0 ${WIDTH} ${height}`}
+              className="w-full select-none touch-none"
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={() => { dragRef.current = null; }}
+            >
+              {overlayPairs.map(pair => {
+                const [a, b] = pair.personIds;
+                const from = positions.get(a)!;
+                const to = positions.get(b)!;
+                return (
+                  <g key={`overlay-${a}-${b}`} opacity={isHighlighted(a, b) ? 0.45 : 0.1}>
+                    <line
+                      x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+                      stroke={OVERLAY_COLORS[overlay as Exclude<Overlay, 'none'>]}
+                      strokeWidth={3 + (pair.count / maxOverlayCount) * 13}
+                      strokeLinecap="round"
+                    >
+                      <title>{`${personById.get(a)?.fullName} ↔ ${personById.get(b)?.fullName}: ${pair.count}`}</title>
+                    </line>
+                  </g>
+                );
+              })}
+
+              {relationships.map(rel => {
+                const from = positions.get(rel.personId);
+                const to = positions.get(rel.relatedPersonId);
+                if (!from || !to) return null;
+                const highlighted = isHighlighted(rel.personId, rel.relatedPersonId);
+                return (
+                  <g key={rel.id} opacity={highlighted ? 1 : 0.15}>
+                    <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke="#94a3b8" strokeWidth={1.5} />
+                    <text
+                      x={(from.x + to.x) / 2}
+                      y={(from.y + to.y) / 2 - 4}
+                      textAnchor="middle"
+                      className="text-[11px] fill-slate-500"
+                      stroke="white"
+                      strokeWidth={4}
+                      paintOrder="stroke"
+                    >
+                      {rel.relationshipType}
+                    </text>
+                  </g>
+                );
+              })}
+
+              {overlayPairs.map(pair => {
+                const [a, b] = pair.personIds;
+                const from = positions.get(a)!;
+                const to = positions.get(b)!;
+                if (!isHighlighted(a, b)) return null;
+                return (
+                  <text
+                    key={`count-${a}-${b}`}
+                    x={(from.x + to.x) / 2}
+                    y={(from.y + to.y) / 2 + 14}
+                    textAnchor="middle"
+                    className="text-[11px] font-semibold"
+                    fill={OVERLAY_COLORS[overlay as Exclude<Overlay, 'none'>]}
+                    stroke="white"
+                    strokeWidth={4}
+                    paintOrder="stroke"
+                  >
+                    {pair.count}
+                  </text>
+                );
+              })}
+
+              {layout.map(({ person }) => {
+                const { x, y } = positions.get(person.id)!;
+                return (
+                  <g
+                    key={person.id}
+                    transform={`translate(${x}, ${y})`}
+                    className="cursor-pointer"
+                    opacity={!hoveredId || hoveredId === person.id || relationships.some(r =>
+                      (r.personId === hoveredId && r.relatedPersonId === person.id) ||
+                      (r.relatedPersonId === hoveredId && r.personId === person.id)
+                    ) ? 1 : 0.4}
+                    onPointerDown={e => {
+                      e.preventDefault();
+                      dragRef.current = { personId: person.id, dragged: false };
+                    }}
+                    onPointerEnter={() => setHoveredId(person.id)}
+                    onPointerLeave={() => setHoveredId(null)}
+                  >
+                    <title>{`${person.fullName} (${person.role})`}</title>
+                    <circle r={NODE_RADIUS} fill={ROLE_COLORS[person.role] || ROLE_COLORS[Role.Other]} stroke="white" strokeWidth={3} />
+                    <text textAnchor="middle" dy="0.35em" className="text-[13px] font-bold fill-white pointer-events-none">
+                      {initials(person.fullName)}
+                    </text>
+                    <text y={NODE_RADIUS + 16} textAnchor="middle" className="text-[12px] font-medium fill-slate-700 pointer-events-none">
+                      {person.fullName}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          )}
+          <p className="text-xs text-slate-400 mt-2">Drag people to rearrange; click one to open their profile.</p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-4">
+          <h3 className="font-semibold text-slate-800 text-sm mb-3">
+            {overlay === 'issues' ? 'Most Shared Open Issues' : 'Most Messages Exchanged'}
+          </h3>
+          <div className="space-y-2">
+            {(overlay === 'issues' ? issuePairs : messagePairs).slice(0, MAX_OVERLAY_PAIRS).map(pair => (
+              <div key={pair.personIds.join(':')} className="flex justify-between items-center text-sm gap-2">
+                <span className="text-slate-700 truncate">
+                  {personById.get(pair.personIds[0])?.fullName || 'Unknown'} ↔ {personById.get(pair.personIds[1])?.fullName || 'Unknown'}
+                </span>
+                <span className="text-xs font-medium bg-slate-100 text-slate-600 px-2 py-0.5 rounded-full">{pair.count}</span>
+              </div>
+            ))}
+            {(overlay === 'issues' ? issuePairs : messagePairs).length === 0 && (
+              <p className="text-xs text-slate-400 italic">Nothing to show yet.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
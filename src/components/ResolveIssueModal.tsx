@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { api } from '../services/api';
+import { AgreementItem, Issue, IssueStatus, Message } from '../types';
+import { X, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface ResolveIssueModalProps {
+  issue: Issue;
+  // Unresolved issues this one is blocked by, shown as a warning
+  openBlockers?: Issue[];
+  onClose: () => void;
+  onResolved: () => void;
+}
+
+/**
+ * Marks an issue resolved. A note and the agreement item or message that
+ * resolved it are required, and are kept in the issue's history.
+ */
+export const ResolveIssueModal: React.FC<ResolveIssueModalProps> = ({ issue, openBlockers = [], onClose, onResolved }) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [agreementItems, setAgreementItems] = useState<AgreementItem[]>([]);
+  const [note, setNote] = useState('');
+  const [itemId, setItemId] = useState('');
+  const [messageId, setMessageId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([api.getMessagesForIssue(issue.id), api.getAllActiveAgreementItems()]).then(([m, items]) => {
+      setMessages(m);
+      setAgreementItems(items);
+    }).catch((err: any) => setError(err.message || 'Failed to load linked messages'));
+  }, [issue.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      await api.updateIssue(issue.id, { status: IssueStatus.Resolved }, {
+        changedBy: 'user',
+        resolution: {
+          note,
+          agreementItemId: itemId || undefined,
+          messageId: messageId || undefined
+        }
+      });
+      onResolved();
+    } catch (err: any) {
+      setError(err.message || 'Failed to resolve issue');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-slate-800">Resolve "{issue.title}"</h3>
+          <button onClick={onClose}><X className="w-5 h-5 text-slate-400 hover:text-slate-600" /></button>
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {openBlockers.length > 0 && (
+            <div className="p-3 rounded-lg text-sm bg-amber-50 border border-amber-200 text-amber-800 flex gap-2">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>Still blocked by {openBlockers.map(b => `"${b.title}"`).join(', ')}.</span>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-slate-700">Resolution note</label>
+            <textarea required rows={3} value={note} onChange={e => setNote(e.target.value)} className="w-full mt-1 border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none resize-none" placeholder="How was this settled?" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700">Resolving agreement</label>
+            <select value={itemId} onChange={e => setItemId(e.target.value)} className="w-full mt-1 border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none">
+              <option value="">None</option>
+              {agreementItems.map(item => (
+                <option key={item.id} value={item.id}>{item.itemRef ? `${item.itemRef} · ` : ''}{item.topic}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700">Resolving message</label>
+            <select value={messageId} onChange={e => setMessageId(e.target.value)} className="w-full mt-1 border rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none">
+              <option value="">None</option>
+              {messages.map(m => (
+                <option key={m.id} value={m.id}>{format(new Date(m.sentAt), 'MMM d')}: {m.rawText.slice(0, 60)}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs text-slate-500">Choose the agreement item or message that resolved the issue (at least one).</p>
+          {error && (
+            <div className="p-3 rounded-lg text-sm bg-red-50 border border-red-200 text-red-800">{error}</div>
+          )}
+          <button
+            type="submit"
+            disabled={saving || !note.trim() || (!itemId && !messageId)}
+            className="w-full bg-indigo-600 text-white py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Mark Resolved'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
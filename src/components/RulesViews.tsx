@@ -1,9 +1,10 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Link, useParams } from 'react-router-dom';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
 import { api } from '../services/api';
 import { parseLegalDocument } from '../services/ai';
 import { DocumentProcessingModal } from './DocumentProcessingModal';
 import { RecordAgreementModal } from './RecordAgreementModal';
+import { ObligationsPanel } from './ObligationsPanel';
 import { 
   LegalDocument, Agreement, LegalClause, AgreementItem, 
   LegalDocumentType, AgreementStatus, 
@@ -11,10 +12,13 @@ import {
   Role, Person, ExtractedPersonWithAction
 } from '../types';
 import { format } from 'date-fns';
-import { Scale, FileText, Handshake, Calendar, Gavel, Loader2, Plus, ArrowRight, X, Save, Upload, Trash2, AlertCircle } from 'lucide-react';
+import { Scale, FileText, Handshake, Calendar, Gavel, Loader2, Plus, ArrowRight, X, Save, Upload, Trash2, AlertCircle, ListChecks } from 'lucide-react';
 
 export const RulesDashboard: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'legal' | 'agreements'>('legal');
+  const [searchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState<'legal' | 'agreements' | 'deadlines'>(
+    searchParams.get('tab') === 'deadlines' ? 'deadlines' : 'legal'
+  );
   const [docs, setDocs] = useState<LegalDocument[]>([]);
   const [agreements, setAgreements] = useState<Agreement[]>([]);
   const [existingPeople, setExistingPeople] = useState<Person[]>([]);
@@ -219,6 +223,17 @@ export const RulesDashboard: React.FC = () => {
             <span className="bg-muted text-muted-foreground px-2 py-0.5 rounded-full text-xs">{agreements.length}</span>
           </div>
         </button>
+        <button
+          onClick={() => setActiveTab('deadlines')}
+          className={`pb-3 text-sm font-medium transition-colors relative ${
+            activeTab === 'deadlines' ? 'text-primary border-b-2 border-primary' : 'text-muted-foreground hover:text-foreground'
+          }`}
+        >
+          <div className="flex items-center gap-2">
+            <ListChecks className="w-4 h-4" />
+            Deadlines
+          </div>
+        </button>
       </div>
 
       {activeTab === 'legal' ? (
@@ -270,7 +285,7 @@ export const RulesDashboard: React.FC = () => {
              </Link>
            ))}
         </div>
-      ) : (
+      ) : activeTab === 'agreements' ? (
         <div className="space-y-4">
           <div className="flex justify-end">
             <button 
@@ -310,6 +325,8 @@ export const RulesDashboard: React.FC = () => {
             )}
           </div>
         </div>
+      ) : (
+        <ObligationsPanel />
       )}
 
       {/* Document Processing Modal */}
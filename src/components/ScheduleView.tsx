@@ -0,0 +1,416 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { api } from '../services/api';
+import { AgreementItem, CustodyRotationPattern, ParentingSchedule, Person } from '../types';
+import { ExchangeLogPanel } from './ExchangeLogPanel';
+import {
+  ParentingScheduleDraft, ROTATION_PATTERNS, NAMED_HOLIDAYS, buildMonthCalendar, buildRotationCycle,
+  extractSchedulesFromAgreementItem, getScheduleCategory, getScheduleParents, resolveCustody
+} from '../utils/parentingSchedule';
+import { addMonths, format, isSameMonth, isToday, parseISO, subMonths } from 'date-fns';
+import {
+  Loader2, ChevronLeft, ChevronRight, CalendarDays, ArrowLeftRight, Gift, Wand2, Trash2, Plus, AlertTriangle, Check
+} from 'lucide-react';
+
+const PARENT_COLORS = [
+  'bg-indigo-50 border-indigo-200 text-indigo-800',
+  'bg-amber-50 border-amber-200 text-amber-800',
+  'bg-emerald-50 border-emerald-200 text-emerald-800',
+  'bg-rose-50 border-rose-200 text-rose-800'
+];
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+type EditableDraft = ParentingScheduleDraft & {
+  key: string;
+  include: boolean;
+  parentAId?: string;
+  parentBId?: string;
+};
+
+const toEditable = (draft: ParentingScheduleDraft, index: number): EditableDraft => ({
+  ...draft,
+  key: `${draft.agreementItemId || 'manual'}-${index}`,
+  include: true,
+  parentAId: draft.cycle?.[0],
+  parentBId: draft.cycle?.find(id => id !== draft.cycle?.[0])
+});
+
+export const ScheduleView: React.FC = () => {
+  const [people, setPeople] = useState<Person[]>([]);
+  const [items, setItems] = useState<AgreementItem[]>([]);
+  const [allSchedules, setAllSchedules] = useState<ParentingSchedule[]>([]);
+  const [schedules, setSchedules] = useState<ParentingSchedule[]>([]);
+  const [notes, setNotes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [month, setMonth] = useState(new Date());
+  const [queryDate, setQueryDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [drafts, setDrafts] = useState<EditableDraft[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadData = async () => {
+    const [p, i, all, effective] = await Promise.all([
+      api.getPeople(),
+      api.getAgreementItemsWithOverrideInfo(),
+      api.getParentingSchedules(),
+      api.getEffectiveParentingSchedules()
+    ]);
+    setPeople(p);
+    setItems(i);
+    setAllSchedules(all);
+    setSchedules(effective.schedules);
+    setNotes(effective.notes);
+  };
+
+  useEffect(() => {
+    loadData().finally(() => setLoading(false));
+  }, []);
+
+  const parents = getScheduleParents(people);
+  const personName = (id?: string) => people.find(p => p.id === id)?.fullName || 'Unassigned';
+  const colorFor = (id?: string) => {
+    const index = parents.findIndex(p => p.id === id);
+    return index >= 0 ? PARENT_COLORS[index % PARENT_COLORS.length] : 'bg-white border-slate-200 text-slate-400';
+  };
+
+  const calendar = useMemo(() => buildMonthCalendar(month, schedules), [month, schedules]);
+  const answer = useMemo(
+    () => queryDate ? resolveCustody(parseISO(queryDate), schedules) : null,
+    [queryDate, schedules]
+  );
+  const effectiveIds = new Set(schedules.map(s => s.id));
+  const itemFor = (id?: string) => items.find(i => i.id === id);
+
+  const handleExtract = () => {
+    const alreadyStructured = new Set(allSchedules.map(s => s.agreementItemId));
+    const candidates = items.filter(i => i.isActive && getScheduleCategory(i) && !alreadyStructured.has(i.id));
+    const extracted = candidates.flatMap(i => extractSchedulesFromAgreementItem(i, people));
+    setDrafts(extracted.map(toEditable));
+    setError(extracted.length === 0 ? 'No schedule details could be extracted from agreements that are not already structured.' : null);
+  };
+
+  const handleAddRotation = () => {
+    const [a, b] = parents;
+    const anchor = format(new Date(), 'yyyy-MM-dd');
+    setDrafts(prev => [...prev, toEditable({
+      scheduleType: 'rotation',
+      label: 'Alternating weeks (7-7) rotation',
+      pattern: 'alternating_weeks',
+      anchorDate: anchor,
+      startDate: anchor,
+      cycle: a && b ? buildRotationCycle('alternating_weeks', a.id, b.id) : [],
+      recurrence: 'once'
+    }, prev.length + Date.now())]);
+  };
+
+  const updateDraft = (key: string, updates: Partial<EditableDraft>) => {
+    setDrafts(prev => prev.map(d => d.key === key ? { ...d, ...updates } : d));
+  };
+
+  const handleSaveDrafts = async () => {
+    const selected = drafts.filter(d => d.include);
+    const incomplete = selected.find(d =>
+      (d.scheduleType === 'rotation' && (!d.parentAId || !d.parentBId || !d.anchorDate)) ||
+      (d.scheduleType === 'holiday' && !d.custodianPersonId)
+    );
+    if (incomplete) {
+      setError(`"${incomplete.label}" needs ${incomplete.scheduleType === 'rotation' ? 'both parents and a start date' : 'a parent assigned'}.`);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await api.createParentingSchedulesBulk(selected.map(({ key, include, parentAId, parentBId, ...draft }) => (
+        draft.scheduleType === 'rotation' && draft.pattern
+          ? { ...draft, cycle: buildRotationCycle(draft.pattern, parentAId!, parentBId!), startDate: draft.startDate || draft.anchorDate }
+          : draft
+      )));
+      setDrafts([]);
+      await loadData();
+    } catch (e) {
+      console.error(e);
+      setError('Failed to save schedules.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this schedule?')) return;
+    await api.deleteParentingSchedule(id);
+    await loadData();
+  };
+
+  if (loading) return <div className="flex p-8 justify-center"><Loader2 className="animate-spin text-indigo-600" /></div>;
+
+  const renderParentSelect = (value: string | undefined, onChange: (id: string) => void) => (
+    <select
+      value={value || ''}
+      onChange={e => onChange(e.target.value)}
+      className="border border-slate-300 rounded px-2 py-1 text-sm bg-white"
+    >
+      <option value="">Select parent...</option>
+      {parents.map(p => <option key={p.id} value={p.id}>{p.fullName}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-slate-900">Parenting Schedule</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={handleAddRotation}
+            className="px-3 py-2 border border-slate-300 rounded-lg text-sm text-slate-700 hover:bg-slate-50 flex items-center gap-1.5"
+          >
+            <Plus className="w-4 h-4" /> Add Rotation
+          </button>
+          <button
+            onClick={handleExtract}
+            className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 flex items-center gap-1.5"
+          >
+            <Wand2 className="w-4 h-4" /> Extract from Agreements
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+
+      {notes.map((note, i) => (
+        <div key={i} className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800 flex items-start gap-2">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" /> {note}
+        </div>
+      ))}
+
+      {/* Draft Review */}
+      {drafts.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-indigo-200 p-5 space-y-3">
+          <div className="flex justify-between items-center">
+            <h3 className="font-semibold text-slate-800">Review Extracted Schedules</h3>
+            <div className="flex gap-2">
+              <button onClick={() => setDrafts([])} className="px-3 py-1.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg">
+                Discard
+              </button>
+              <button
+                onClick={handleSaveDrafts}
+                disabled={saving || !drafts.some(d => d.include)}
+                className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-1.5"
+              >
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                Save Selected
+              </button>
+            </div>
+          </div>
+
+          {drafts.map(d => {
+            const source = itemFor(d.agreementItemId);
+            return (
+              <div key={d.key} className={`border rounded-lg p-3 text-sm ${d.include ? 'border-slate-200' : 'border-slate-100 opacity-50'}`}>
+                <div className="flex items-center gap-2 mb-2">
+                  <input type="checkbox" checked={d.include} onChange={e => updateDraft(d.key, { include: e.target.checked })} />
+                  <span className="text-xs font-bold uppercase tracking-wider text-indigo-600">{d.scheduleType}</span>
+                  <input
+                    value={d.label}
+                    onChange={e => updateDraft(d.key, { label: e.target.value })}
+                    className="flex-1 border-b border-transparent hover:border-slate-200 focus:border-indigo-400 outline-none font-medium text-slate-800"
+                  />
+                  {source && <span className="text-xs text-slate-400 truncate max-w-[40%]">from {source.itemRef || source.topic}</span>}
+                </div>
+
+                {d.scheduleType === 'rotation' && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={d.pattern}
+                      onChange={e => updateDraft(d.key, { pattern: e.target.value as CustodyRotationPattern })}
+                      className="border border-slate-300 rounded px-2 py-1 text-sm bg-white"
+                    >
+                      {Object.entries(ROTATION_PATTERNS).map(([key, p]) => <option key={key} value={key}>{p.label}</option>)}
+                    </select>
+                    <span className="text-slate-500">starting</span>
+                    <input
+                      type="date"
+                      value={d.anchorDate || ''}
+                      onChange={e => updateDraft(d.key, { anchorDate: e.target.value, startDate: e.target.value })}
+                      className="border border-slate-300 rounded px-2 py-1 text-sm"
+                    />
+                    <span className="text-slate-500">with</span>
+                    {renderParentSelect(d.parentAId, id => updateDraft(d.key, { parentAId: id }))}
+                    <span className="text-slate-500">first, then</span>
+                    {renderParentSelect(d.parentBId, id => updateDraft(d.key, { parentBId: id }))}
+                  </div>
+                )}
+
+                {d.scheduleType === 'holiday' && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    {renderParentSelect(d.custodianPersonId, id => updateDraft(d.key, { custodianPersonId: id }))}
+                    <span className="text-slate-500">has {d.holidayKey ? NAMED_HOLIDAYS[d.holidayKey]?.label : d.label}</span>
+                    <select
+                      value={d.yearParity || ''}
+                      onChange={e => updateDraft(d.key, { yearParity: (e.target.value || undefined) as EditableDraft['yearParity'] })}
+                      className="border border-slate-300 rounded px-2 py-1 text-sm bg-white"
+                    >
+                      <option value="">every year</option>
+                      <option value="odd">in odd years</option>
+                      <option value="even">in even years</option>
+                    </select>
+                  </div>
+                )}
+
+                {d.scheduleType === 'exchange' && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-slate-500">at</span>
+                    <input
+                      type="time"
+                      value={d.exchangeTime || ''}
+                      onChange={e => updateDraft(d.key, { exchangeTime: e.target.value })}
+                      className="border border-slate-300 rounded px-2 py-1 text-sm"
+                    />
+                    <input
+                      value={d.exchangeLocation || ''}
+                      onChange={e => updateDraft(d.key, { exchangeLocation: e.target.value })}
+                      placeholder="Location"
+                      className="border border-slate-300 rounded px-2 py-1 text-sm flex-1 min-w-[160px]"
+                    />
+                  </div>
+                )}
+
+                {d.notes && d.scheduleType === 'holiday' && <p className="text-xs text-slate-400 mt-2 italic">"{d.notes}"</p>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Month Calendar */}
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-slate-200 p-5">
+          <div className="flex justify-between items-center mb-4">
+            <button onClick={() => setMonth(subMonths(month, 1))} className="p-1.5 hover:bg-slate-100 rounded-lg">
+              <ChevronLeft className="w-5 h-5 text-slate-600" />
+            </button>
+            <h3 className="font-semibold text-slate-800">{format(month, 'MMMM yyyy')}</h3>
+            <button onClick={() => setMonth(addMonths(month, 1))} className="p-1.5 hover:bg-slate-100 rounded-lg">
+              <ChevronRight className="w-5 h-5 text-slate-600" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-7 gap-1 text-center text-xs font-medium text-slate-500 mb-1">
+            {WEEKDAY_LABELS.map(d => <div key={d}>{d}</div>)}
+          </div>
+          <div className="grid grid-cols-7 gap-1">
+            {calendar.map(day => {
+              const date = parseISO(day.date);
+              return (
+                <button
+                  key={day.date}
+                  onClick={() => setQueryDate(day.date)}
+                  title={day.custodianPersonId ? personName(day.custodianPersonId) : 'No schedule'}
+                  className={`min-h-[72px] p-1.5 border rounded-lg text-left flex flex-col gap-0.5 transition-all ${colorFor(day.custodianPersonId)} ${
+                    isSameMonth(date, month) ? '' : 'opacity-40'
+                  } ${day.date === queryDate ? 'ring-2 ring-indigo-500' : ''}`}
+                >
+                  <span className={`text-xs font-semibold ${isToday(date) ? 'bg-indigo-600 text-white rounded-full w-5 h-5 flex items-center justify-center' : ''}`}>
+                    {format(date, 'd')}
+                  </span>
+                  {day.custodianPersonId && (
+                    <span className="text-[10px] truncate">{personName(day.custodianPersonId).split(' ')[0]}</span>
+                  )}
+                  {day.holidayLabel && (
+                    <span className="text-[10px] truncate flex items-center gap-0.5"><Gift className="w-3 h-3 flex-shrink-0" />{day.holidayLabel}</span>
+                  )}
+                  {day.exchange && (
+                    <span className="text-[10px] truncate flex items-center gap-0.5">
+                      <ArrowLeftRight className="w-3 h-3 flex-shrink-0" />{day.exchange.time || 'Exchange'}
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-wrap gap-3 mt-4 text-xs">
+            {parents.map(p => (
+              <span key={p.id} className={`px-2 py-0.5 border rounded ${colorFor(p.id)}`}>{p.fullName}</span>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Who has the children? */}
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-5">
+            <h3 className="font-semibold text-slate-800 mb-3 flex items-center gap-2">
+              <CalendarDays className="w-4 h-4 text-indigo-600" /> Who has the children?
+            </h3>
+            <input
+              type="date"
+              value={queryDate}
+              onChange={e => setQueryDate(e.target.value)}
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-indigo-500 outline-none mb-3"
+            />
+            {answer && (
+              answer.custodianPersonId ? (
+                <div className="space-y-2 text-sm">
+                  <div className={`px-3 py-2 border rounded-lg font-semibold ${colorFor(answer.custodianPersonId)}`}>
+                    {personName(answer.custodianPersonId)}
+                  </div>
+                  <p className="text-slate-600">
+                    {answer.source === 'holiday' ? `Holiday schedule: ${answer.holidayLabel}` : 'Regular rotation'}
+                    {itemFor(answer.agreementItemId) && (
+                      <> per <Link to={`/rules/agreements/${itemFor(answer.agreementItemId)!.agreementId}`} className="text-indigo-600 hover:underline">
+                        {itemFor(answer.agreementItemId)!.itemRef || itemFor(answer.agreementItemId)!.topic}
+                      </Link></>
+                    )}
+                  </p>
+                  {answer.exchange && (
+                    <p className="text-slate-600 flex items-start gap-1.5">
+                      <ArrowLeftRight className="w-4 h-4 mt-0.5 flex-shrink-0 text-slate-400" />
+                      Exchange from {personName(answer.exchange.fromPersonId)}
+                      {answer.exchange.time && ` at ${answer.exchange.time}`}
+                      {answer.exchange.location && `, ${answer.exchange.location}`}
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-slate-500">No schedule covers this date.</p>
+              )
+            )}
+          </div>
+
+          {/* Schedule List */}
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-5">
+            <h3 className="font-semibold text-slate-800 mb-3">Schedules</h3>
+            {allSchedules.length === 0 ? (
+              <p className="text-sm text-slate-500">No structured schedules yet. Extract them from your parenting-time, holiday and exchange agreements.</p>
+            ) : (
+              <div className="space-y-2">
+                {allSchedules.map(s => {
+                  const inForce = effectiveIds.has(s.id);
+                  return (
+                    <div key={s.id} className={`flex items-start justify-between gap-2 p-2 rounded-lg border text-sm ${inForce ? 'border-slate-200' : 'border-slate-100 opacity-60'}`}>
+                      <div className="min-w-0">
+                        <div className="font-medium text-slate-800 truncate">{s.label}</div>
+                        <div className="text-xs text-slate-500">
+                          {s.scheduleType === 'rotation' && s.anchorDate && `From ${format(parseISO(s.startDate || s.anchorDate), 'MMM d, yyyy')}`}
+                          {s.scheduleType === 'holiday' && `${personName(s.custodianPersonId)}${s.yearParity ? ` · ${s.yearParity} years` : ''}`}
+                          {s.scheduleType === 'exchange' && [s.exchangeTime, s.exchangeLocation].filter(Boolean).join(' · ')}
+                          {!inForce && ' · superseded'}
+                        </div>
+                      </div>
+                      <button onClick={() => handleDelete(s.id)} className="p-1 text-slate-400 hover:text-red-600" title="Delete">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <ExchangeLogPanel people={people} parents={parents} selectedDay={answer} />
+    </div>
+  );
+};
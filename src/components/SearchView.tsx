@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { api } from '../services/api';
+import { Person, SourceType, TopicCategory, SearchResult, SearchResultType, SearchFilters } from '../types';
+import { Search, Loader2, MessageSquare, Sparkles, AlertCircle, User, Handshake, Scale, X } from 'lucide-react';
+import { format } from 'date-fns';
+
+const RESULT_TYPES: Array<{ type: SearchResultType; label: string; icon: React.ElementType; color: string }> = [
+  { type: 'message', label: 'Messages', icon: MessageSquare, color: 'text-indigo-600' },
+  { type: 'analysis', label: 'Analysis Summaries', icon: Sparkles, color: 'text-purple-600' },
+  { type: 'issue', label: 'Issues', icon: AlertCircle, color: 'text-red-600' },
+  { type: 'profile_note', label: 'Profile Notes', icon: User, color: 'text-amber-600' },
+  { type: 'agreement_item', label: 'Agreements', icon: Handshake, color: 'text-emerald-600' },
+  { type: 'legal_clause', label: 'Legal Clauses', icon: Scale, color: 'text-blue-600' }
+];
+
+export const getSearchResultLink = (result: SearchResult): string => {
+  switch (result.type) {
+    case 'message':
+      return `/conversations/${result.conversationId}?message=${result.id}`;
+    case 'analysis':
+      return `/conversations/${result.conversationId}`;
+    case 'issue':
+      return `/issues/${result.id}`;
+    case 'profile_note':
+      return result.personId ? `/people/${result.personId}` : '/people';
+    case 'agreement_item':
+      return result.parentId ? `/rules/agreements/${result.parentId}` : '/rules';
+    case 'legal_clause':
+      return result.parentId ? `/rules/legal/${result.parentId}` : '/rules';
+  }
+};
+
+// Snippets come back from Postgres with matches wrapped in [[ ]]
+const renderSnippet = (snippet: string) =>
+  snippet.split(/(\[\[.*?\]\])/g).map((part, i) =>
+    part.startsWith('[[') && part.endsWith(']]')
+      ? <mark key={i} className="bg-yellow-100 text-slate-900 rounded px-0.5">{part.slice(2, -2)}</mark>
+      : <React.Fragment key={i}>{part}</React.Fragment>
+  );
+
+export const SearchView: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') || '';
+
+  const [input, setInput] = useState(query);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [people, setPeople] = useState<Person[]>([]);
+  const [topics, setTopics] = useState<TopicCategory[]>([]);
+
+  const filters: SearchFilters = {
+    personId: searchParams.get('person') || undefined,
+    startDate: searchParams.get('from') || undefined,
+    endDate: searchParams.get('to') || undefined,
+    sourceType: (searchParams.get('source') as SourceType) || undefined,
+    topicSlug: searchParams.get('topic') || undefined,
+    resultTypes: (searchParams.get('types')?.split(',').filter(Boolean) as SearchResultType[]) || undefined
+  };
+
+  useEffect(() => {
+    Promise.all([api.getPeople(), api.getTopicCategories()]).then(([p, t]) => {
+      setPeople(p);
+      setTopics(t);
+    });
+  }, []);
+
+  useEffect(() => {
+    setInput(query);
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    api.searchCaseFile(query, {
+      ...filters,
+      // Date inputs are days; make the end date inclusive
+      endDate: filters.endDate ? `${filters.endDate}T23:59:59` : undefined
+    })
+      .then(setResults)
+      .catch(() => setError('Search failed. Please try again.'))
+      .finally(() => setLoading(false));
+  }, [searchParams]);
+
+  const updateParam = (key: string, value?: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next);
+  };
+
+  const toggleResultType = (type: SearchResultType) => {
+    const current = filters.resultTypes || [];
+    const next = current.includes(type) ? current.filter(t => t !== type) : [...current, type];
+    updateParam('types', next.join(','));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParam('q', input.trim());
+  };
+
+  const hasFilters = !!(filters.personId || filters.startDate || filters.endDate || filters.sourceType || filters.topicSlug);
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <h2 className="text-2xl font-bold text-slate-900">Search Case File</h2>
+
+      <form onSubmit={handleSubmit} className="relative">
+        <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-slate-400" />
+        <input
+          type="text"
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder='Search messages, issues, agreements... (use "quotes" for phrases, -word to exclude)'
+          className="w-full pl-12 pr-4 py-3 border border-slate-300 rounded-xl text-sm focus:ring-2 focus:ring-indigo-500 outline-none bg-white"
+          autoFocus
+        />
+      </form>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-xl border border-slate-200 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {RESULT_TYPES.map(({ type, label, icon: Icon }) => {
+            const active = filters.resultTypes?.includes(type);
+            return (
+              <button
+                key={type}
+                onClick={() => toggleResultType(type)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-all flex items-center gap-1.5 ${
+                  active
+                    ? 'bg-indigo-50 border-indigo-200 text-indigo-700'
+                    : 'border-slate-200 text-slate-600 hover:border-slate-300'
+                }`}
+              >
+                <Icon className="w-3.5 h-3.5" />
+                {label}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <select
+            value={filters.personId || ''}
+            onChange={e => updateParam('person', e.target.value)}
+            className="border border-slate-300 rounded-lg px-2 py-1.5 text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+          >
+            <option value="">Any person</option>
+            {people.map(p => <option key={p.id} value={p.id}>{p.fullName}</option>)}
+          </select>
+          <select
+            value={filters.sourceType || ''}
+            onChange={e => updateParam('source', e.target.value)}
+            className="border border-slate-300 rounded-lg px-2 py-1.5 text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+          >
+            <option value="">Any source</option>
+            {Object.values(SourceType).map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <select
+            value={filters.topicSlug || ''}
+            onChange={e => updateParam('topic', e.target.value)}
+            className="border border-slate-300 rounded-lg px-2 py-1.5 text-sm bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+          >
+            <option value="">Any topic</option>
+            {topics.map(t => <option key={t.slug} value={t.slug}>{t.displayName}</option>)}
+          </select>
+          <input
+            type="date"
+            value={filters.startDate || ''}
+            onChange={e => updateParam('from', e.target.value)}
+            title="From date"
+            className="border border-slate-300 rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+          <input
+            type="date"
+            value={filters.endDate || ''}
+            onChange={e => updateParam('to', e.target.value)}
+            title="To date"
+            className="border border-slate-300 rounded-lg px-2 py-1.5 text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+        </div>
+
+        {hasFilters && (
+          <button
+            onClick={() => setSearchParams(query ? { q: query } : {})}
+            className="text-xs text-slate-500 hover:text-slate-700 flex items-center gap-1"
+          >
+            <X className="w-3 h-3" /> Clear filters
+          </button>
+        )}
+      </div>
+
+      {/* Results */}
+      {loading ? (
+        <div className="flex p-8 justify-center"><Loader2 className="animate-spin text-indigo-600" /></div>
+      ) : error ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      ) : !query ? (
+        <div className="text-center text-slate-500 py-12">Enter a search term to search across the whole case file.</div>
+      ) : results.length === 0 ? (
+        <div className="text-center text-slate-500 py-12">No results for "{query}".</div>
+      ) : (
+        <div className="space-y-3">
+          <div className="text-sm text-slate-500">{results.length} result{results.length !== 1 ? 's' : ''}</div>
+          {results.map(result => {
+            const meta = RESULT_TYPES.find(t => t.type === result.type)!;
+            const Icon = meta.icon;
+            return (
+              <Link
+                key={`${result.type}-${result.id}`}
+                to={getSearchResultLink(result)}
+                className="block bg-white p-4 rounded-xl border border-slate-200 shadow-sm hover:shadow-md hover:border-indigo-200 transition-all"
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Icon className={`w-4 h-4 flex-shrink-0 ${meta.color}`} />
+                    <span className={`text-xs font-bold uppercase tracking-wider ${meta.color}`}>{meta.label}</span>
+                    <span className="font-medium text-slate-800 truncate">{result.title}</span>
+                  </div>
+                  {result.occurredAt && (
+                    <span className="text-xs text-slate-400 flex-shrink-0 ml-2">
+                      {format(new Date(result.occurredAt), 'MMM d, yyyy')}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-slate-600 leading-relaxed">{renderSnippet(result.snippet)}</p>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,8 +3,11 @@ import { api } from './api';
 import { processAnalysisResults, updateConversationState, buildAnalysisSummary } from './analysisProcessor';
 import { buildAnalysisRequest } from './analysisRequestBuilder';
 import { FEATURES } from '../config/features';
-import { runPipelineAnalysis } from '../utils/sseAnalysisClient';
+import { queueAnalysis, waitForAnalysisRun, applyAnalysisRun } from './analysisJobs';
 import { validateAndSanitizeAnalysisResult } from '../utils/analysisValidator';
+import { ensureCaseIndexFresh, retrieveRelevantPassages } from './caseIndex';
+import { buildCitations, extractCitationRefs } from '../utils/citations';
+import { isReadTool, isWriteTool, runReadTool, summarizeAction } from './assistantTools';
 import { 
   AssistantSenderType, 
   MessageDirection, 
@@ -16,11 +19,16 @@ import {
   PDFProcessingInfo,
   SourceType,
   Conversation,
-  Message,
   Issue,
   AgreementItem,
+  LegalClause,
   ProfileNote,
-  PersonRelationship
+  PersonRelationship,
+  RetrievedPassage,
+  CaseEmbeddingSourceType,
+  AssistantMessage,
+  AssistantAction,
+  CitationRef
 } from '../types';
 import { 
   extractTextFromPDF, 
@@ -52,6 +60,11 @@ interface ExtractedEntities {
   reasoning: string;
 }
 
+// Passages retrieved from the case file per assistant question
+const RETRIEVED_PASSAGE_LIMIT = 40;
+// Model round-trips allowed for read tools within a single assistant turn
+const MAX_TOOL_ROUNDS = 4;
+
 // Types for targeted context
 interface AssistantContext {
   people: Person[];
@@ -59,9 +72,10 @@ interface AssistantContext {
   profileNotes: ProfileNote[];
   issues: Issue[];
   conversations: Conversation[];
-  messages: Message[];
   rules: AgreementItem[];
-  conversationAnalyses: any[];
+  clauses: LegalClause[];
+  // Most relevant passages from anywhere in the case file, by embedding similarity
+  retrievedPassages: RetrievedPassage[];
 }
 
 /**
@@ -306,7 +320,7 @@ async function extractRelevantEntities(
  */
 async function loadTargetedContext(
   mentionedPeopleIds: string[],
-  options: { needsRules: boolean; needsConversations: boolean }
+  options: { query: string; needsRules: boolean; needsConversations: boolean }
 ): Promise<AssistantContext> {
   // 1. Load mentioned people with full details
   const peopleResults = await Promise.all(
@@ -338,49 +352,30 @@ async function loadTargetedContext(
   }
   const issues = Array.from(issuesMap.values());
 
-  // 5. Load conversations and messages if needed
+  // 5. Retrieve the passages most relevant to the question, regardless of age
   let conversations: Conversation[] = [];
-  let messages: Message[] = [];
-  let conversationAnalyses: any[] = [];
-
-  if (options.needsConversations && mentionedPeopleIds.length > 0) {
-    // Get all conversations
-    const allConversations = await api.getConversations();
-    
-    // For each conversation, check if any mentioned person participated
-    const conversationCheckPromises = allConversations.slice(0, 20).map(async (conv) => {
-      const convMessages = await api.getMessages(conv.id);
-      const involvedPeopleIds = new Set<string>();
-      
-      for (const msg of convMessages) {
-        if (msg.senderId) involvedPeopleIds.add(msg.senderId);
-        if (msg.receiverId) involvedPeopleIds.add(msg.receiverId);
-      }
-      
-      const hasRelevantPerson = mentionedPeopleIds.some(id => involvedPeopleIds.has(id));
-      if (hasRelevantPerson) {
-        return { conv, messages: convMessages.slice(-20) }; // Last 20 messages per conversation
-      }
-      return null;
-    });
-
-    const results = await Promise.all(conversationCheckPromises);
-    const validResults = results.filter((r): r is { conv: Conversation; messages: Message[] } => r !== null);
-    
-    conversations = validResults.map(r => r.conv);
-    messages = validResults.flatMap(r => r.messages);
-
-    // Load analyses for relevant conversations
-    const analysisResults = await Promise.all(
-      conversations.slice(0, 10).map(c => api.getConversationAnalysis(c.id))
-    );
-    conversationAnalyses = analysisResults.filter(a => a !== null);
+  let retrievedPassages: RetrievedPassage[] = [];
+
+  if (options.needsConversations) {
+    await ensureCaseIndexFresh();
+    // Rules and the mentioned people's notes are already included in full
+    const sourceTypes: CaseEmbeddingSourceType[] = options.needsRules
+      ? ['message', 'analysis', 'profile_note']
+      : ['message', 'analysis', 'agreement_item', 'profile_note'];
+    retrievedPassages = (await retrieveRelevantPassages(options.query, RETRIEVED_PASSAGE_LIMIT, sourceTypes))
+      .filter(p => !(p.sourceType === 'profile_note' && p.personId && mentionedPeopleIds.includes(p.personId)));
+
+    const conversationIds = new Set(retrievedPassages.map(p => p.conversationId).filter(Boolean));
+    if (conversationIds.size > 0) {
+      conversations = (await api.getConversations()).filter(c => conversationIds.has(c.id));
+    }
   }
 
   // 6. Load rules if needed
   let rules: AgreementItem[] = [];
+  let clauses: LegalClause[] = [];
   if (options.needsRules) {
-    rules = await api.getAllActiveAgreementItems();
+    [rules, clauses] = await Promise.all([api.getAllActiveAgreementItems(), api.getAllActiveLegalClauses()]);
   }
 
   return {
@@ -389,9 +384,9 @@ async function loadTargetedContext(
     profileNotes,
     issues,
     conversations,
-    messages,
     rules,
-    conversationAnalyses
+    clauses,
+    retrievedPassages
   };
 }
 
@@ -504,66 +499,44 @@ async function handleFileImportInChat(
     let analysisSummary = '';
     
     if (FEATURES.USE_ANALYSIS_PIPELINE) {
-      // Use SSE pipeline for consistency with ImportWizard
-      const runInfo = await api.createAnalysisRun(conversation.id);
-      console.log(`Chat import: Analysis run ${runInfo.id}, isResume: ${runInfo.isResume}`);
-      
-      const pipelineRequest = {
-        ...requestBody,
-        runId: runInfo.id,
-        resumeFromStage: runInfo.resumeFromStage,
-        priorOutputs: runInfo.priorOutputs
-      };
+      // Server-side job, same as ImportWizard
+      const { run: queuedRun, isResume } = await queueAnalysis(conversation.id, requestBody);
+      console.log(`Chat import: Analysis run ${queuedRun.id}, isResume: ${isResume}`);
       
-      await new Promise<void>((resolve) => {
-        runPipelineAnalysis(pipelineRequest, {
-          onProgress: async (progress) => {
-            console.log(`Chat import analysis: Stage ${progress.stageNumber}/${progress.totalStages} - ${progress.stageName}`);
-            await api.setAnalysisRunCurrentStage(runInfo.id, progress.stage);
-          },
-          onStageComplete: async (stage, _stageNumber, output) => {
-            await api.updateAnalysisRunStage(runInfo.id, stage, output);
-          },
-          onComplete: async (rawResult) => {
-            await api.completeAnalysisRun(runInfo.id);
-            
-            const { sanitized, warnings } = validateAndSanitizeAnalysisResult(rawResult);
-            if (warnings.length > 0) {
-              console.warn('Chat import analysis validation warnings:', warnings);
-            }
-            
-            await processAnalysisResults(conversation.id, sanitized, formattedMessages);
-            
-            if (sanitized.conversationState) {
-              await updateConversationState(conversation.id, sanitized.conversationState);
-            }
-            
-            const stats = buildAnalysisSummary(sanitized);
-            analysisSummary = `\n\nAnalysis complete:\n- Tone: ${sanitized.conversationAnalysis?.overallTone || 'neutral'}\n- Issues created: ${stats.issuesCreated}\n- Issues updated: ${stats.issuesUpdated}\n- Violations detected: ${stats.violationsDetected}`;
-            resolve();
-          },
-          onError: async (error, stage, partialOutputs) => {
-            console.error(`Chat import analysis failed at ${stage || 'unknown'}:`, error);
-            await api.failAnalysisRun(runInfo.id, error, stage);
-            
-            if (partialOutputs && Object.keys(partialOutputs).length > 0) {
-              for (const [stageName, output] of Object.entries(partialOutputs)) {
-                await api.updateAnalysisRunStage(runInfo.id, stageName, output);
-              }
-            }
-            
-            analysisSummary = `\n\nAnalysis partially complete (failed at ${stage || 'unknown'})`;
-            resolve();
+      const run = await waitForAnalysisRun(queuedRun.id, {
+        onUpdate: ({ progress }) => {
+          if (progress) {
+            console.log(`Chat import analysis: Stage ${progress.stageNumber}/${progress.totalStages} - ${progress.stageName}${progress.totalChunks ? ` (section ${progress.chunkNumber}/${progress.totalChunks})` : ''}`);
           }
-        });
+        }
       });
+      
+      // A failed apply is retried when the conversation is next opened
+      const sanitized = run
+        ? await applyAnalysisRun(run).catch(error => {
+            console.error('Chat import: failed to apply analysis result:', error);
+            return null;
+          })
+        : null;
+      if (sanitized) {
+        const stats = buildAnalysisSummary(sanitized);
+        analysisSummary = `\n\nAnalysis complete:\n- Tone: ${sanitized.conversationAnalysis?.overallTone || 'neutral'}\n- Issues created: ${stats.issuesCreated}\n- Issues updated: ${stats.issuesUpdated}\n- Violations detected: ${stats.violationsDetected}`;
+      } else if (run?.status === 'failed') {
+        console.error(`Chat import analysis failed at ${run.errorStage || 'unknown'}:`, run.errorMessage);
+        analysisSummary = `\n\nAnalysis partially complete (failed at ${run.errorStage || 'unknown'})`;
+      }
     } else {
       // Legacy single-call path
-      const { data: analysisResult, error: analysisError } = await supabase.functions.invoke('analyze-conversation-import', {
+      const { data, error: analysisError } = await supabase.functions.invoke('analyze-conversation-import', {
         body: requestBody
       });
       
-      if (!analysisError && analysisResult) {
+      if (!analysisError && data) {
+        // Same validation and evidence check as queued runs
+        const { sanitized: analysisResult, warnings } = validateAndSanitizeAnalysisResult(data, formattedMessages);
+        if (warnings.length > 0) {
+          console.warn('Analysis validation warnings:', warnings);
+        }
         await processAnalysisResults(conversation.id, analysisResult, formattedMessages);
         
         if (analysisResult.conversationState) {
@@ -643,7 +616,9 @@ export async function chatWithAssistant(
   const historyMessages = await api.getAssistantMessages(sessionId);
   const chatMessages = historyMessages.map((m: any) => ({
     role: m.senderType === AssistantSenderType.User ? 'user' : 'assistant',
-    content: m.content
+    content: m.actions?.length
+      ? `${m.content}\n\nProposed changes:\n${m.actions.map((a: AssistantAction) => `- ${summarizeAction(a)} (${a.status})`).join('\n')}`
+      : m.content
   }));
 
   // PHASE 1: Extract relevant entities
@@ -656,12 +631,13 @@ export async function chatWithAssistant(
   // PHASE 2: Load targeted context
   let context: AssistantContext | null = null;
   
-  if (entities.mentionedPeopleIds.length > 0 || entities.needsRules) {
+  if (entities.mentionedPeopleIds.length > 0 || entities.needsRules || entities.needsConversations) {
     context = await loadTargetedContext(entities.mentionedPeopleIds, {
+      query: [userContent, ...entities.topicKeywords].join(' '),
       needsRules: entities.needsRules,
       needsConversations: entities.needsConversations
     });
-    console.log(`Loaded context: ${context.people.length} people, ${context.issues.length} issues, ${context.messages.length} messages, ${context.rules.length} rules`);
+    console.log(`Loaded context: ${context.people.length} people, ${context.issues.length} issues, ${context.retrievedPassages.length} passages, ${context.rules.length} rules`);
   }
   
   onContextLoading?.(false);
@@ -700,8 +676,9 @@ export async function chatWithAssistant(
     return { stream: null, error: 'Not authenticated' };
   }
 
-  // PHASE 3: Make contextual chat request
-  const response = await fetch(
+  // PHASE 3: Make contextual chat request, with tools the model can call
+  const peopleList = allPeople.map(p => ({ id: p.id, name: p.fullName, role: p.role }));
+  const requestChat = (messages: any[]) => fetch(
     `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat-assistant`,
     {
       method: 'POST',
@@ -711,30 +688,60 @@ export async function chatWithAssistant(
       },
       body: JSON.stringify({
         operation: 'chat',
-        messages: chatMessages,
-        context: context // Pass targeted context to edge function
+        messages,
+        context: context, // Pass targeted context to edge function
+        peopleList
       })
     }
   );
 
-  if (!response.ok) {
+  const response = await requestChat(chatMessages);
+
+  if (!response.ok || !response.body) {
     const errorData = await response.json().catch(() => ({}));
     return { stream: null, error: errorData.error || 'Failed to connect to assistant' };
   }
 
-  return { stream: response.body };
+  return { stream: createToolLoopStream(response, chatMessages, requestChat) };
 }
 
 /**
- * Process a streaming response and accumulate the full text
+ * Save a streamed assistant answer with its inline citations resolved against
+ * the case file, so the UI can link each one and flag answers that cite nothing.
  */
-export async function processStream(
-  stream: ReadableStream,
-  onChunk: (text: string) => void
-): Promise<string> {
+export async function saveAssistantAnswer(
+  sessionId: string,
+  content: string,
+  actions: AssistantAction[] = []
+): Promise<AssistantMessage> {
+  // A turn that only proposes changes has nothing to cite
+  if (!content.trim() && actions.length > 0) {
+    return api.saveAssistantMessage(sessionId, AssistantSenderType.Assistant, 'I have prepared the following changes for your review.', undefined, undefined, { actions });
+  }
+
+  const refs = extractCitationRefs(content);
+  const idsOf = (type: CitationRef['targetType']) => refs.filter(r => r.targetType === type).map(r => r.targetId);
+
+  const [messages, items, clauses] = await Promise.all([
+    api.getMessagesByIds(idsOf('message')),
+    api.getAgreementItemsByIds(idsOf('agreement_item')),
+    api.getLegalClausesByIds(idsOf('legal_clause'))
+  ]);
+  const people = messages.length > 0 ? await api.getPeople() : [];
+
+  const citations = buildCitations(refs, { messages, people, items, clauses });
+  return api.saveAssistantMessage(sessionId, AssistantSenderType.Assistant, content, undefined, undefined, {
+    citations,
+    actions: actions.length > 0 ? actions : undefined
+  });
+}
+
+/**
+ * Read an SSE response, passing each parsed `data:` payload to onEvent
+ */
+async function readSSEEvents(stream: ReadableStream, onEvent: (payload: any) => void): Promise<void> {
   const reader = stream.getReader();
   const decoder = new TextDecoder();
-  let fullText = '';
   let buffer = '';
 
   try {
@@ -757,27 +764,157 @@ export async function processStream(
         const jsonStr = line.slice(6).trim();
         if (jsonStr === '[DONE]') continue;
 
+        let parsed: any;
         try {
-          const parsed = JSON.parse(jsonStr);
-          const content = parsed.choices?.[0]?.delta?.content;
-          if (content) {
-            fullText += content;
-            onChunk(content);
-          }
+          parsed = JSON.parse(jsonStr);
         } catch {
           // Incomplete JSON, will be completed in next chunk
           buffer = line + '\n' + buffer;
           break;
         }
+        onEvent(parsed);
       }
     }
   } finally {
     reader.releaseLock();
   }
+}
+
+/**
+ * Process a streaming response and accumulate the full text. Actions the
+ * assistant proposed during the turn arrive as a final event.
+ */
+export async function processStream(
+  stream: ReadableStream,
+  onChunk: (text: string) => void,
+  onActions?: (actions: AssistantAction[]) => void
+): Promise<string> {
+  let fullText = '';
+
+  await readSSEEvents(stream, parsed => {
+    const content = parsed.choices?.[0]?.delta?.content;
+    if (content) {
+      fullText += content;
+      onChunk(content);
+    }
+    if (Array.isArray(parsed.proposedActions)) {
+      onActions?.(parsed.proposedActions);
+    }
+  });
 
   return fullText;
 }
 
+interface StreamedToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * Read one model completion, forwarding text as it arrives and assembling
+ * tool calls from their streamed fragments
+ */
+async function readCompletion(
+  stream: ReadableStream,
+  onChunk: (text: string) => void
+): Promise<{ text: string; toolCalls: StreamedToolCall[] }> {
+  let text = '';
+  const toolCalls: StreamedToolCall[] = [];
+
+  await readSSEEvents(stream, parsed => {
+    const delta = parsed.choices?.[0]?.delta;
+    if (delta?.content) {
+      text += delta.content;
+      onChunk(delta.content);
+    }
+    for (const fragment of delta?.tool_calls || []) {
+      const call = toolCalls[fragment.index ?? 0] ||= { id: '', name: '', arguments: '' };
+      if (fragment.id) call.id = fragment.id;
+      if (fragment.function?.name) call.name += fragment.function.name;
+      if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+    }
+  });
+
+  return { text, toolCalls: toolCalls.filter(Boolean) };
+}
+
+const parseToolArguments = (raw: string): Record<string, any> => {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Wraps the first chat response in a stream that runs read tools and feeds
+ * their results back to the model until it answers. Write tool calls are
+ * collected as pending actions and emitted at the end for the user to approve.
+ */
+function createToolLoopStream(
+  firstResponse: Response,
+  messages: any[],
+  requestChat: (messages: any[]) => Promise<Response>
+): ReadableStream {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    async start(controller) {
+      const emit = (payload: any) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+      const emitText = (content: string) => emit({ choices: [{ delta: { content } }] });
+
+      const history = [...messages];
+      const proposed: AssistantAction[] = [];
+      let response = firstResponse;
+
+      try {
+        for (let round = 1; ; round++) {
+          const { text, toolCalls } = await readCompletion(response.body!, emitText);
+          if (toolCalls.length === 0) break;
+
+          history.push({
+            role: 'assistant',
+            content: text || null,
+            tool_calls: toolCalls.map(c => ({ id: c.id, type: 'function', function: { name: c.name, arguments: c.arguments } }))
+          });
+
+          let needsFollowUp = false;
+          for (const call of toolCalls) {
+            const args = parseToolArguments(call.arguments);
+            let result: string;
+            if (isReadTool(call.name)) {
+              result = await runReadTool(call.name, args);
+              needsFollowUp = true;
+            } else if (isWriteTool(call.name)) {
+              proposed.push({ id: call.id, tool: call.name, args, status: 'pending' });
+              result = 'Proposed to the user for confirmation. Not applied yet.';
+            } else {
+              result = JSON.stringify({ error: `Unknown tool: ${call.name}` });
+            }
+            history.push({ role: 'tool', tool_call_id: call.id, content: result });
+          }
+
+          // Writes alone need no further model output; the cards speak for themselves
+          if (!needsFollowUp || round >= MAX_TOOL_ROUNDS) break;
+
+          response = await requestChat(history);
+          if (!response.ok || !response.body) {
+            throw new Error(`Assistant request failed (${response.status})`);
+          }
+        }
+      } catch (err: any) {
+        console.error('Assistant tool loop failed:', err);
+        emitText(`\n\n**Error:** ${err.message || 'Failed to complete the request.'}`);
+      }
+
+      if (proposed.length > 0) emit({ proposedActions: proposed });
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    }
+  });
+}
+
 /**
  * Clarify a person's role and relationships using AI (iterative free-text mode)
  */
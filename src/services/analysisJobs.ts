@@ -0,0 +1,216 @@
+import { supabase } from '../lib/supabase';
+import { api } from './api';
+import { AnalysisSection, processAnalysisResults, updateConversationState } from './analysisProcessor';
+import { AnalysisMessage, buildAnalysisRequest } from './analysisRequestBuilder';
+import { Message } from '../types';
+import { AnalysisRun, AnalysisRunStatus, ConversationAnalysisResult } from '../types/analysisTypes';
+import { validateAndSanitizeAnalysisResult } from '../utils/analysisValidator';
+
+/**
+ * Client side of the server-side analysis pipeline. Runs are queued as
+ * analysis_runs rows and executed by the analyze-conversation-pipeline edge
+ * function, which persists each stage. Clients only follow progress and write
+ * the finished result into the case file, so a run survives closing the tab
+ * and can be followed from any signed-in device.
+ */
+
+const TERMINAL_STATUSES: AnalysisRunStatus[] = ['completed', 'failed', 'cancelled'];
+// Fallback for when the realtime subscription is unavailable
+const POLL_INTERVAL_MS = 5000;
+
+// Realtime channels are keyed by name; each watcher needs its own
+let watcherCount = 0;
+
+const toAnalysisMessages = (messages: Message[]): AnalysisMessage[] =>
+  messages.map(m => ({
+    id: m.id,
+    senderId: m.senderId || '',
+    receiverId: m.receiverId,
+    rawText: m.rawText || '',
+    sentAt: m.sentAt || ''
+  }));
+
+export const isRunFinished = (run: AnalysisRun): boolean => TERMINAL_STATUSES.includes(run.status);
+
+/**
+ * Queues (or resumes) analysis for one conversation and wakes the worker.
+ */
+export async function queueAnalysis(
+  conversationId: string,
+  requestBody: object
+): Promise<{ run: AnalysisRun; isResume: boolean }> {
+  const queued = await api.createAnalysisRun(conversationId, requestBody);
+  await wakeAnalysisWorker();
+  return queued;
+}
+
+/**
+ * Queues analysis for several conversations at once. The worker processes
+ * them one after another in the background.
+ */
+export async function queueConversationAnalyses(
+  conversationIds: string[],
+  { isReanalysis = true }: { isReanalysis?: boolean } = {}
+): Promise<AnalysisRun[]> {
+  const people = await api.getPeople();
+  const runs: AnalysisRun[] = [];
+
+  for (const conversationId of conversationIds) {
+    const [conversation, messages] = await Promise.all([
+      api.getConversation(conversationId),
+      api.getMessages(conversationId)
+    ]);
+    if (!conversation || messages.length === 0) continue;
+
+    const requestBody = await buildAnalysisRequest(
+      conversationId,
+      toAnalysisMessages(messages),
+      conversation.participantIds,
+      people,
+      { isReanalysis }
+    );
+    const { run } = await api.createAnalysisRun(conversationId, requestBody);
+    runs.push(run);
+  }
+
+  if (runs.length > 0) await wakeAnalysisWorker();
+  return runs;
+}
+
+/**
+ * Starts a worker for any queued runs. Safe to call repeatedly; concurrent
+ * workers never claim the same run.
+ */
+export async function wakeAnalysisWorker(): Promise<void> {
+  try {
+    await api.startAnalysisWorker();
+  } catch (error) {
+    // Runs stay queued and are picked up the next time a worker starts
+    console.warn('Failed to start analysis worker:', error);
+  }
+}
+
+/**
+ * Calls onUpdate whenever the run changes, via realtime with polling as a
+ * fallback. Returns an unsubscribe function.
+ */
+export function watchAnalysisRun(runId: string, onUpdate: (run: AnalysisRun) => void): () => void {
+  let stopped = false;
+  let lastSeen = '';
+
+  const refresh = async () => {
+    const run = await api.getAnalysisRun(runId);
+    if (stopped || !run) return;
+    // Skip polls that found nothing new
+    const signature = `${run.status}|${run.updatedAt}|${run.completedStages.length}`;
+    if (signature === lastSeen) return;
+    lastSeen = signature;
+    onUpdate(run);
+  };
+
+  const channel = supabase
+    .channel(`analysis-run-${runId}-${++watcherCount}`)
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'analysis_runs', filter: `id=eq.${runId}` },
+      () => { refresh(); }
+    )
+    .subscribe();
+  const interval = setInterval(refresh, POLL_INTERVAL_MS);
+  refresh();
+
+  return () => {
+    stopped = true;
+    clearInterval(interval);
+    supabase.removeChannel(channel);
+  };
+}
+
+/**
+ * Resolves with the run once it completes, fails or is cancelled, or with
+ * null if the signal aborts first. Aborting only stops watching; the run
+ * itself carries on server-side.
+ */
+export function waitForAnalysisRun(
+  runId: string,
+  options: { onUpdate?: (run: AnalysisRun) => void; signal?: AbortSignal } = {}
+): Promise<AnalysisRun | null> {
+  return new Promise(resolve => {
+    if (options.signal?.aborted) return resolve(null);
+
+    const finish = (run: AnalysisRun | null) => {
+      unsubscribe();
+      options.signal?.removeEventListener('abort', onAbort);
+      resolve(run);
+    };
+    const onAbort = () => finish(null);
+
+    const unsubscribe = watchAnalysisRun(runId, run => {
+      options.onUpdate?.(run);
+      if (isRunFinished(run)) finish(run);
+    });
+    options.signal?.addEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * Writes a completed run's result into the case file. Returns the sanitized
+ * result, or null when there is nothing to apply or another client is
+ * applying it. The run is only marked applied once everything was written;
+ * on failure it is left for the next attempt, which resumes with the sections
+ * that were not written yet.
+ */
+export async function applyAnalysisRun(run: AnalysisRun): Promise<ConversationAnalysisResult | null> {
+  if (run.status !== 'completed' || !run.result) return null;
+  if (!(await api.claimAnalysisRunApply(run.id))) return null;
+
+  try {
+    // Throws rather than returning no messages, which would strip every annotation
+    const messages = toAnalysisMessages(await api.getMessagesChecked(run.conversationId));
+    // The evidence check travels in analysisMeta and is saved with the analysis
+    const { sanitized, warnings } = validateAndSanitizeAnalysisResult(run.result, messages);
+    if (warnings.length > 0) {
+      console.warn('Analysis validation warnings:', warnings);
+    }
+
+    // Sections written by an earlier, interrupted attempt are not written again
+    const appliedSections = await api.getAnalysisRunAppliedSections(run.id) as AnalysisSection[];
+    const processed = await processAnalysisResults(run.conversationId, sanitized, messages, {
+      skipSections: appliedSections,
+      onSectionProcessed: section => {
+        appliedSections.push(section);
+        return api.setAnalysisRunAppliedSections(run.id, appliedSections);
+      }
+    });
+    if (!processed.success) {
+      throw new Error(processed.errors.join('; '));
+    }
+
+    if (sanitized.conversationState) {
+      await updateConversationState(run.conversationId, sanitized.conversationState);
+    }
+
+    await api.markAnalysisRunApplied(run.id);
+    return sanitized;
+  } catch (error) {
+    await api.releaseAnalysisRunApply(run.id);
+    throw error;
+  }
+}
+
+/**
+ * Applies results of runs that finished while nobody was watching, e.g.
+ * after the tab that queued them was closed. Returns how many were applied.
+ */
+export async function applyPendingAnalysisRuns(conversationId?: string): Promise<number> {
+  const runs = await api.getUnappliedAnalysisRuns(conversationId);
+  let applied = 0;
+  for (const run of runs) {
+    try {
+      if (await applyAnalysisRun(run)) applied++;
+    } catch (error) {
+      console.error(`Failed to apply analysis run ${run.id}:`, error);
+    }
+  }
+  return applied;
+}
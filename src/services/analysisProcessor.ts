@@ -1,5 +1,11 @@
 import { api } from './api';
-import { ConversationAnalysisResult } from '../types/analysisTypes';
+import { IssueChangeContext, IssueStatus } from '../types';
+import { ConversationAnalysisResult, IssueAction } from '../types/analysisTypes';
+import { commitmentsFromClaims } from '../utils/obligations';
+import { indexConversation } from './caseIndex';
+import { isCompleteResolution } from '../utils/issueHelpers';
+
+export type AnalysisSection = 'analysis' | 'issues' | 'people' | 'obligations' | 'index';
 
 export interface ProcessingResult {
   success: boolean;
@@ -7,6 +13,21 @@ export interface ProcessingResult {
   errors: string[];
 }
 
+// Issue changes from the pipeline are attributed to the stage that proposed them
+const pipelineChange = (action: IssueAction, conversationId: string): IssueChangeContext => ({
+  changedBy: action.action === 'create' ? 'issue_detection' : 'issue_linking',
+  conversationId,
+  resolution: isCompleteResolution(action.resolution) ? action.resolution : undefined
+});
+
+// A "resolved" status without a complete resolution is ignored rather than failing the action
+function pipelineStatus(action: IssueAction, fallback?: IssueStatus): string | undefined {
+  if (action.status !== IssueStatus.Resolved) return action.status;
+  if (isCompleteResolution(action.resolution)) return action.status;
+  console.warn(`Ignoring "resolved" for issue "${action.title}": no resolution note and settling item or message`);
+  return fallback;
+}
+
 /**
  * Shared analysis processor - handles all post-analysis processing
  * Used by both ImportWizard (initial import) and ConversationViews (refresh analysis)
@@ -16,11 +37,19 @@ export async function processAnalysisResults(
   conversationId: string,
   analysis: Partial<ConversationAnalysisResult>,
   savedMessages: Array<{ id: string; senderId: string; receiverId?: string; rawText: string; sentAt: string }>,
-  options: { skipSections?: Array<'issues' | 'people' | 'analysis' | 'notes'> } = {}
+  options: {
+    skipSections?: AnalysisSection[];
+    // Called as each section is written, e.g. to record progress for a retry
+    onSectionProcessed?: (section: AnalysisSection) => Promise<void>;
+  } = {}
 ): Promise<ProcessingResult> {
   const sectionsProcessed: string[] = [];
   const errors: string[] = [];
   const skip = options.skipSections || [];
+  const sectionDone = async (section: AnalysisSection) => {
+    sectionsProcessed.push(section);
+    await options.onSectionProcessed?.(section);
+  };
 
   // 1. Save conversation analysis
   if (!skip.includes('analysis') && analysis.conversationAnalysis) {
@@ -31,9 +60,11 @@ export async function processAnalysisResults(
         overallTone: analysis.conversationAnalysis.overallTone,
         keyTopics: analysis.conversationAnalysis.keyTopics || [],
         agreementViolations: analysis.agreementViolations || [],
-        messageAnnotations: analysis.messageAnnotations || []
+        messageAnnotations: analysis.messageAnnotations || [],
+        issueActions: analysis.issueActions || [],
+        meta: analysis.analysisMeta
       });
-      sectionsProcessed.push('analysis');
+      await sectionDone('analysis');
     } catch (e) {
       errors.push(`Failed to save analysis: ${e instanceof Error ? e.message : 'Unknown error'}`);
     }
@@ -42,19 +73,20 @@ export async function processAnalysisResults(
   // 2. Process issue actions
   if (!skip.includes('issues') && analysis.issueActions && analysis.issueActions.length > 0) {
     try {
+      const issueErrors: string[] = [];
       for (const issueAction of analysis.issueActions) {
         try {
           if (issueAction.action === 'create') {
-            // Use findOrCreate to prevent duplicates
+            // Use findOrCreate to prevent duplicates; near-duplicate titles are suggested, not merged
             const { issue: newIssue, isNew, matchType } = await api.findOrCreateIssue({
               title: issueAction.title,
               description: issueAction.description,
               priority: issueAction.priority as any,
-              status: issueAction.status as any
-            });
+              status: pipelineStatus(issueAction, IssueStatus.Open) as any
+            }, { suggestSimilar: true, context: pipelineChange(issueAction, conversationId) });
             
             if (!isNew) {
-              console.log(`Issue "${issueAction.title}" already exists (${matchType} match), linking instead of creating`);
+              console.log(`Issue "${issueAction.title}" already exists as "${newIssue.title}" (${matchType} match), linking instead of creating`);
             }
             
             // Always link people (upsert handles duplicates)
@@ -73,32 +105,37 @@ export async function processAnalysisResults(
             await api.linkConversationToIssue(conversationId, newIssue.id, issueAction.reasoning);
             
           } else if (issueAction.action === 'update' && issueAction.issueId) {
-            await api.updateIssue(issueAction.issueId, {
+            // The model may still know an issue by the id it had before a merge
+            const issueId = (await api.getIssueRedirect(issueAction.issueId)) || issueAction.issueId;
+            await api.updateIssue(issueId, {
               description: issueAction.description,
               priority: issueAction.priority as any,
-              status: issueAction.status as any
-            });
+              status: pipelineStatus(issueAction) as any
+            }, pipelineChange(issueAction, conversationId));
             
             // Link additional people - prefer personContributions, fallback to involvedPersonIds
             if (issueAction.personContributions && issueAction.personContributions.length > 0) {
-              await api.linkPeopleToIssueWithContributions(issueAction.issueId, issueAction.personContributions);
+              await api.linkPeopleToIssueWithContributions(issueId, issueAction.personContributions);
             } else if (issueAction.involvedPersonIds && issueAction.involvedPersonIds.length > 0) {
-              await api.linkPeopleToIssue(issueAction.issueId, issueAction.involvedPersonIds);
+              await api.linkPeopleToIssue(issueId, issueAction.involvedPersonIds);
             }
             
             // Link messages to existing issue
             if (issueAction.linkedMessageIds?.length > 0) {
-              await api.linkMessagesToIssue(issueAction.linkedMessageIds, issueAction.issueId);
+              await api.linkMessagesToIssue(issueAction.linkedMessageIds, issueId);
             }
             
             // Link conversation to issue
-            await api.linkConversationToIssue(conversationId, issueAction.issueId, issueAction.reasoning);
+            await api.linkConversationToIssue(conversationId, issueId, issueAction.reasoning);
           }
         } catch (issueError) {
           console.error('Error processing issue action:', issueError);
+          issueErrors.push(`Failed to process issue "${issueAction.title}": ${issueError instanceof Error ? issueError.message : 'Unknown error'}`);
         }
       }
-      sectionsProcessed.push('issues');
+      // A failed action leaves the section open so a retry runs it again
+      errors.push(...issueErrors);
+      if (issueErrors.length === 0) await sectionDone('issues');
     } catch (e) {
       errors.push(`Failed to process issues: ${e instanceof Error ? e.message : 'Unknown error'}`);
     }
@@ -187,7 +224,7 @@ export async function processAnalysisResults(
           notesToCreate.push({
             personId: personAnalysis.personId,
             type: 'observation',
-            content: `⚠️ **${concern.type.toUpperCase()}** (Severity: ${concern.severity})\n\n${concern.description}\n\nEvidence: ${concern.evidence.join('; ')}`
+            content: `⚠️ **${concern.type.toUpperCase()}** (Severity: ${concern.severity})\n\n${concern.description}\n\nEvidence: ${concern.evidence.join('; ')}${concern.evidenceVerified === false ? '\n\n_Quoted evidence could not be found in the conversation._' : ''}`
           });
         }
       }
@@ -196,12 +233,36 @@ export async function processAnalysisResults(
         // Use idempotent version that handles re-analysis
         await api.createProfileNotesForConversation(conversationId, notesToCreate);
       }
-      sectionsProcessed.push('people');
+      await sectionDone('people');
     } catch (e) {
       errors.push(`Failed to create profile notes: ${e instanceof Error ? e.message : 'Unknown error'}`);
     }
   }
 
+  // 4. Track commitments as obligations
+  if (!skip.includes('obligations') && analysis.claimsLedger && analysis.claimsLedger.length > 0) {
+    try {
+      const commitments = commitmentsFromClaims(analysis.claimsLedger, savedMessages);
+      if (commitments.length > 0) {
+        await api.createObligationsForConversation(conversationId, commitments);
+      }
+      await sectionDone('obligations');
+    } catch (e) {
+      errors.push(`Failed to track obligations: ${e instanceof Error ? e.message : 'Unknown error'}`);
+    }
+  }
+
+  // 5. Refresh the assistant's retrieval index for this conversation
+  if (!skip.includes('index')) {
+    try {
+      await indexConversation(conversationId);
+      await sectionDone('index');
+    } catch (e) {
+      // Non-fatal: the assistant re-syncs the index before answering
+      console.warn('Failed to index conversation for retrieval:', e);
+    }
+  }
+
   return {
     success: errors.length === 0,
     sectionsProcessed,
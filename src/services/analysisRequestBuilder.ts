@@ -1,5 +1,6 @@
 import { Person, Role } from '../types';
 import { api } from './api';
+import { AnalysisCommunicationMetrics, computeCommunicationMetrics, toAnalysisMetrics } from '../utils/communicationMetrics';
 
 // Standardized participant format for analysis requests
 export interface AnalysisParticipant {
@@ -41,11 +42,26 @@ export interface AnalysisRequestBody {
     status: string;
     priority: string;
   }>;
+  // Logged parenting-time exchanges around the conversation's dates, citable as violation evidence
+  exchangeLogs: Array<{
+    id: string;
+    scheduledAt: string;
+    outcome: string;
+    minutesLate?: number;
+    responsiblePersonId?: string;
+    agreementItemId?: string;
+    notes?: string;
+    messageIds: string[];
+  }>;
+  // Computed from the messages themselves, not by a model
+  communicationMetrics: AnalysisCommunicationMetrics[];
   mePersonId: string;
   isReanalysis: boolean;
   userGuidance?: string;
 }
 
+const EXCHANGE_LOG_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
 /**
  * Builds a standardized request body for the analyze-conversation-import edge function.
  * This ensures consistent field names and structure across all callers.
@@ -60,11 +76,19 @@ export async function buildAnalysisRequest(
     userGuidance?: string;
   } = {}
 ): Promise<AnalysisRequestBody> {
+  // Exchanges within a week either side of the conversation
+  const sentTimes = messages.map(m => new Date(m.sentAt).getTime()).filter(t => !isNaN(t));
+  const exchangeRange = sentTimes.length > 0 ? {
+    startDate: new Date(Math.min(...sentTimes) - EXCHANGE_LOG_WINDOW_MS).toISOString(),
+    endDate: new Date(Math.max(...sentTimes) + EXCHANGE_LOG_WINDOW_MS).toISOString()
+  } : null;
+
   // Fetch context data in parallel
-  const [agreementItems, existingIssues, relationships] = await Promise.all([
+  const [agreementItems, existingIssues, relationships, exchangeLogs] = await Promise.all([
     api.getAllActiveAgreementItems(),
     api.getIssues(),
-    Promise.all(participantIds.map(id => api.getPersonRelationships(id)))
+    Promise.all(participantIds.map(id => api.getPersonRelationships(id))),
+    exchangeRange ? api.getExchangeLogs(exchangeRange) : Promise.resolve([])
   ]);
 
   // Build participants with consistent structure (always use fullName, never name)
@@ -105,6 +129,17 @@ export async function buildAnalysisRequest(
       status: issue.status,
       priority: issue.priority
     })),
+    exchangeLogs: exchangeLogs.map(log => ({
+      id: log.id,
+      scheduledAt: log.scheduledAt,
+      outcome: log.outcome,
+      minutesLate: log.minutesLate,
+      responsiblePersonId: log.responsiblePersonId,
+      agreementItemId: log.agreementItemId,
+      notes: log.notes,
+      messageIds: log.messageIds
+    })),
+    communicationMetrics: toAnalysisMetrics(computeCommunicationMetrics(messages)),
     mePersonId,
     isReanalysis: options.isReanalysis ?? false,
     userGuidance: options.userGuidance
@@ -1,15 +1,18 @@
 import { supabase } from '../lib/supabase';
 import { 
-  Person, Conversation, Message, Issue, Event, ProfileNote, 
+  Person, PersonAlias, Conversation, Message, Issue, IssueStatus, IssueRedirect, IssueDuplicateSuggestion, IssueChangeContext, IssueChangeSource, IssueHistoryEntry, IssueHistoryField, IssueDependency, Event, ProfileNote, 
   LegalDocument, LegalClause, Agreement, AgreementItem,
   AssistantSession, AssistantMessage, AssistantSenderType,
   PersonRelationship, ExtractedClause, ExtractedAgreement,
   AgreementSourceType, AgreementStatus, Role, ConversationStatus,
-  TopicCategory, ConversationAnalysis, RelatedConversationDiscovery
+  TopicCategory, ConversationAnalysis, AnalysisVersion, FlagReview, RelatedConversationDiscovery,
+  Reimbursement, ReimbursementStatus, SourceType, SearchFilters, SearchResult,
+  ParentingSchedule, ExchangeLog, ExchangeOutcome, Obligation, ObligationStatus, ObligationSourceType,
+  CaseEmbeddingSource, CaseEmbeddingSourceType, RetrievedPassage, AssistantCitation, AssistantAction
 } from '../types';
-import { IssuePersonContribution } from '../types/analysisTypes';
+import { AnalysisMeta, AnalysisRun, IssuePersonContribution } from '../types/analysisTypes';
 import { normalizeTextForMatching } from '../utils/textMatching';
-import { normalizeIssueTitle, titlesMatch } from '../utils/issueHelpers';
+import { findSimilarIssues, isCompleteResolution, normalizeIssueTitle, titlesMatch } from '../utils/issueHelpers';
 
 // --- SYSTEM INSTRUCTIONS ---
 export const COPARENTING_ASSISTANT_INSTRUCTIONS = `
@@ -54,6 +57,255 @@ const handleResponse = async (query: any) => {
   return data;
 };
 
+// PostgREST caps every response at 1000 rows, so large tables are read page by page.
+// Unlike handleResponse this throws, since a partial list is worse than none.
+const PAGE_SIZE = 1000;
+const fetchAllPages = async (buildQuery: (from: number, to: number) => any): Promise<any[]> => {
+  const rows: any[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+};
+
+// Ids per .in() filter; keeps the request URL well under proxy limits
+const ID_BATCH_SIZE = 100;
+
+// Re-analysis rewords commitment titles, so the source message identifies the
+// claim; the title is only used when the model could not point at a message
+const commitmentClaimKey = (c: { title: string; ownerPersonId?: string; dueDate?: string; sourceMessageId?: string }): string =>
+  c.sourceMessageId
+    ? `${c.sourceMessageId}|${c.ownerPersonId || ''}|${c.dueDate || ''}`
+    : normalizeTextForMatching(c.title);
+
+const mapReimbursement = (r: any): Reimbursement => ({
+  id: r.id,
+  entryType: r.entry_type || 'expense',
+  title: r.title,
+  category: r.category,
+  expenseDate: r.expense_date,
+  amount: Number(r.amount),
+  amountRequested: r.amount_requested != null ? Number(r.amount_requested) : undefined,
+  paidByPersonId: r.paid_by_person_id,
+  requestedFromPersonId: r.requested_from_person_id,
+  status: r.status as ReimbursementStatus,
+  dueDate: r.due_date,
+  splitPercentage: r.split_percentage != null ? Number(r.split_percentage) : undefined,
+  agreementItemId: r.agreement_item_id,
+  receiptPath: r.receipt_path,
+  requestedAt: r.requested_at,
+  paidAt: r.paid_at,
+  amountPaid: Number(r.amount_paid || 0),
+  sourceMessageId: r.source_message_id,
+  notes: r.notes,
+  sourceType: r.source_type as SourceType,
+  createdAt: r.created_at
+});
+
+const mapParentingSchedule = (s: any): ParentingSchedule => ({
+  id: s.id,
+  agreementItemId: s.agreement_item_id,
+  scheduleType: s.schedule_type,
+  label: s.label,
+  pattern: s.pattern,
+  anchorDate: s.anchor_date,
+  cycle: s.cycle || undefined,
+  startDate: s.start_date,
+  endDate: s.end_date,
+  holidayKey: s.holiday_key,
+  recurrence: s.recurrence,
+  yearParity: s.year_parity,
+  custodianPersonId: s.custodian_person_id,
+  exchangeDays: s.exchange_days || undefined,
+  exchangeTime: s.exchange_time,
+  exchangeLocation: s.exchange_location,
+  notes: s.notes,
+  createdAt: s.created_at
+});
+
+const mapExchangeLog = (l: any): ExchangeLog => ({
+  id: l.id,
+  scheduledAt: l.scheduled_at,
+  actualAt: l.actual_at,
+  outcome: l.outcome as ExchangeOutcome,
+  minutesLate: l.minutes_late ?? undefined,
+  responsiblePersonId: l.responsible_person_id,
+  fromPersonId: l.from_person_id,
+  toPersonId: l.to_person_id,
+  agreementItemId: l.agreement_item_id,
+  scheduleId: l.schedule_id,
+  location: l.location,
+  notes: l.notes,
+  messageIds: (l.exchange_log_links || []).filter((k: any) => k.target_type === 'message').map((k: any) => k.target_id),
+  issueIds: (l.exchange_log_links || []).filter((k: any) => k.target_type === 'issue').map((k: any) => k.target_id),
+  createdAt: l.created_at
+});
+
+const mapMessage = (m: any): Message => ({
+  id: m.id,
+  conversationId: m.conversation_id,
+  senderId: m.sender_id,
+  receiverId: m.receiver_id,
+  sentAt: m.sent_at,
+  rawText: m.raw_text,
+  direction: m.direction,
+  issueIds: m.message_issues?.map((mi: any) => mi.issue_id) || []
+});
+
+const mapConversationAnalysis = (a: any): ConversationAnalysis => ({
+  id: a.id,
+  conversationId: a.conversation_id,
+  summary: a.summary,
+  overallTone: a.overall_tone,
+  keyTopics: a.key_topics || [],
+  topicCategorySlugs: a.topic_category_slugs || [],
+  agreementViolations: a.agreement_violations || [],
+  messageAnnotations: a.message_annotations || [],
+  faithfulness: a.faithfulness || undefined,
+  createdAt: a.created_at
+});
+
+const mapAnalysisVersion = (v: any): AnalysisVersion => ({
+  id: v.id,
+  conversationId: v.conversation_id,
+  source: v.source,
+  model: v.model || undefined,
+  promptVersion: v.prompt_version || undefined,
+  userGuidance: v.user_guidance || undefined,
+  summary: v.summary,
+  overallTone: v.overall_tone,
+  keyTopics: v.key_topics || [],
+  topicCategorySlugs: v.topic_category_slugs || [],
+  agreementViolations: v.agreement_violations || [],
+  messageAnnotations: v.message_annotations || [],
+  issueActions: v.issue_actions || [],
+  faithfulness: v.faithfulness || undefined,
+  createdAt: v.created_at
+});
+
+const mapFlagReview = (r: any): FlagReview => ({
+  id: r.id,
+  conversationId: r.conversation_id,
+  messageId: r.message_id,
+  flagType: r.flag_type,
+  attributedToPersonId: r.attributed_to_person_id,
+  status: r.status,
+  correctedType: r.corrected_type || undefined,
+  correctedSeverity: r.corrected_severity || undefined,
+  correctedPersonId: r.corrected_person_id || undefined,
+  correctedEvidence: r.corrected_evidence || undefined,
+  reason: r.reason || undefined,
+  reviewedAt: r.reviewed_at
+});
+
+const mapIssueRedirect = (r: any): IssueRedirect => ({
+  fromIssueId: r.from_issue_id,
+  toIssueId: r.to_issue_id,
+  mergedTitle: r.merged_title,
+  createdAt: r.created_at
+});
+
+const mapIssueDuplicateSuggestion = (d: any): IssueDuplicateSuggestion => ({
+  id: d.id,
+  issueId: d.issue_id,
+  suggestedIssueId: d.suggested_issue_id,
+  similarity: d.similarity,
+  status: d.status,
+  createdAt: d.created_at
+});
+
+const mapIssueHistoryEntry = (h: any): IssueHistoryEntry => ({
+  id: h.id,
+  issueId: h.issue_id,
+  changedBy: h.changed_by,
+  changes: h.changes || {},
+  conversationId: h.conversation_id || undefined,
+  resolutionNote: h.resolution_note || undefined,
+  resolvingAgreementItemId: h.resolving_agreement_item_id || undefined,
+  resolvingMessageId: h.resolving_message_id || undefined,
+  createdAt: h.created_at
+});
+
+const mapIssueDependency = (d: any): IssueDependency => ({
+  id: d.id,
+  issueId: d.issue_id,
+  blockedByIssueId: d.blocked_by_issue_id
+});
+
+const ISSUE_HISTORY_FIELDS: IssueHistoryField[] = ['title', 'description', 'status', 'priority'];
+
+const RESOLUTION_REQUIRED = 'Resolving an issue requires a resolution note and the agreement item or message that resolved it';
+
+// Who made an issue change, passed to the create_issue / update_issue rpcs that
+// write the change and its history row together. The rpc only stores the
+// resolution when the change resolves the issue.
+const issueChangeParams = (context: IssueChangeContext) => ({
+  p_changed_by: context.changedBy,
+  p_conversation_id: context.conversationId || null,
+  p_resolution_note: context.resolution?.note.trim() || null,
+  p_resolving_agreement_item_id: context.resolution?.agreementItemId || null,
+  p_resolving_message_id: context.resolution?.messageId || null
+});
+
+const mapPersonAlias = (a: any): PersonAlias => ({
+  id: a.id,
+  personId: a.person_id,
+  aliasType: a.alias_type,
+  alias: a.alias
+});
+
+const mapObligation = (o: any): Obligation => ({
+  id: o.id,
+  title: o.title,
+  description: o.description,
+  ownerPersonId: o.owner_person_id,
+  dueDate: o.due_date,
+  status: o.status as ObligationStatus,
+  sourceType: o.source_type as ObligationSourceType,
+  sourceConversationId: o.source_conversation_id,
+  sourceMessageId: o.source_message_id,
+  agreementItemId: o.agreement_item_id,
+  eventId: o.event_id,
+  claimKey: o.claim_key,
+  fulfilledAt: o.fulfilled_at,
+  createdAt: o.created_at
+});
+
+const mapAssistantMessage = (m: any): AssistantMessage => ({
+  id: m.id,
+  sessionId: m.assistant_session_id,
+  senderType: m.sender_type,
+  content: m.content,
+  createdAt: m.created_at,
+  linkedTargetType: m.linked_target_type,
+  linkedTargetId: m.linked_target_id,
+  citations: m.citations ?? undefined,
+  actions: m.proposed_actions ?? undefined
+});
+
+const mapAnalysisRun = (r: any): AnalysisRun => ({
+  id: r.id,
+  conversationId: r.conversation_id,
+  status: r.status,
+  progress: r.progress ?? undefined,
+  completedStages: r.completed_stages || [],
+  result: r.result ?? undefined,
+  appliedAt: r.applied_at ?? undefined,
+  appliedSections: r.applied_sections || [],
+  errorMessage: r.error_message ?? undefined,
+  errorStage: r.error_stage ?? undefined,
+  queuedAt: r.queued_at ?? undefined,
+  startedAt: r.started_at ?? undefined,
+  completedAt: r.completed_at ?? undefined,
+  updatedAt: r.updated_at ?? undefined
+});
+
+// A running run whose worker has not reported for this long is presumed dead
+const ANALYSIS_RUN_STALE_MS = 10 * 60 * 1000;
+
 export const api = {
   // --- Auth ---
   signOut: async () => {
@@ -139,6 +391,51 @@ export const api = {
     };
   },
 
+  // --- Person Aliases ---
+  // All aliases, or only one person's when personId is given
+  getPersonAliases: async (personId?: string): Promise<PersonAlias[]> => {
+    let query = supabase.from('person_aliases').select('*').order('created_at', { ascending: true });
+    if (personId) query = query.eq('person_id', personId);
+    const data = await handleResponse(query);
+    return Array.isArray(data) ? data.map(mapPersonAlias) : [];
+  },
+
+  addPersonAlias: async (alias: Omit<PersonAlias, 'id'>): Promise<PersonAlias> => {
+    const { data, error } = await supabase.from('person_aliases').insert({
+      person_id: alias.personId,
+      alias_type: alias.aliasType,
+      alias: alias.alias.trim()
+    }).select().single();
+    if (error) throw error;
+    return mapPersonAlias(data);
+  },
+
+  // Adds aliases learned from an import; ones the person already has are skipped
+  addPersonAliases: async (aliases: Omit<PersonAlias, 'id'>[]): Promise<void> => {
+    if (aliases.length === 0) return;
+    const { error } = await supabase.from('person_aliases').upsert(
+      aliases.map(a => ({ person_id: a.personId, alias_type: a.aliasType, alias: a.alias.trim() })),
+      { onConflict: 'person_id,alias_type,normalized_alias', ignoreDuplicates: true }
+    );
+    if (error) console.error('Failed to save person aliases', error);
+  },
+
+  deletePersonAlias: async (id: string): Promise<void> => {
+    const { error } = await supabase.from('person_aliases').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  /**
+   * Merges the duplicate sourceId into targetId: moves messages, conversation
+   * participation, relationships, issue links, profile notes and agreement
+   * parties, keeps the duplicate's name and contact details as aliases and
+   * deletes it.
+   */
+  mergePeople: async (sourceId: string, targetId: string): Promise<void> => {
+    const { error } = await supabase.rpc('merge_people', { p_source_id: sourceId, p_target_id: targetId });
+    if (error) throw error;
+  },
+
   // --- Person Relationships ---
   createPersonRelationship: async (relationship: Omit<PersonRelationship, 'id'>): Promise<PersonRelationship> => {
     const { data, error } = await supabase.from('person_relationships').insert({
@@ -194,6 +491,24 @@ export const api = {
     })) : [];
   },
 
+  // Every relationship, paged past the row cap; throws on error
+  getAllPersonRelationships: async (): Promise<PersonRelationship[]> => {
+    const data = await fetchAllPages((from, to) =>
+      supabase
+        .from('person_relationships')
+        .select('*')
+        .order('id', { ascending: true })
+        .range(from, to)
+    );
+    return data.map((r: any) => ({
+      id: r.id,
+      personId: r.person_id,
+      relatedPersonId: r.related_person_id,
+      relationshipType: r.relationship_type,
+      description: r.description
+    }));
+  },
+
   deletePersonRelationship: async (id: string): Promise<void> => {
     const { error } = await supabase.from('person_relationships').delete().eq('id', id);
     if (error) throw error;
@@ -208,7 +523,8 @@ export const api = {
       description: i.description,
       status: i.status,
       priority: i.priority,
-      updatedAt: i.updated_at
+      updatedAt: i.updated_at,
+      parentIssueId: i.parent_issue_id || undefined
     })) : [];
   },
 
@@ -221,18 +537,25 @@ export const api = {
       description: data.description,
       status: data.status,
       priority: data.priority,
-      updatedAt: data.updated_at
+      updatedAt: data.updated_at,
+      parentIssueId: data.parent_issue_id || undefined
     };
   },
 
   /**
    * Find an existing issue by title (case-insensitive) or create a new one.
-   * This is the preferred method for idempotent issue creation.
+   * This is the preferred method for idempotent issue creation. With
+   * suggestSimilar, a newly created issue that resembles an existing one is
+   * recorded as a suggested duplicate for the user to merge or dismiss.
    */
-  findOrCreateIssue: async (issue: Partial<Issue>): Promise<{ 
+  findOrCreateIssue: async (
+    issue: Partial<Issue>,
+    options: { suggestSimilar?: boolean; context?: IssueChangeContext } = {}
+  ): Promise<{ 
     issue: Issue; 
     isNew: boolean;
     matchType?: 'exact' | 'case_insensitive';
+    suggestedDuplicate?: { issueId: string; similarity: number };
   }> => {
     const normalizedTitle = normalizeIssueTitle(issue.title || '');
     
@@ -259,19 +582,33 @@ export const api = {
         matchType: existingMatch.title === normalizedTitle ? 'exact' : 'case_insensitive'
       };
     }
+
+    // Step 1b: Near duplicate ("Summer Camp Enrollment" vs "Summer camp sign-up dispute").
+    // Word overlap can't tell a different issue from a reworded one, so it is only suggested.
+    const [similar] = options.suggestSimilar
+      ? findSimilarIssues({ title: normalizedTitle, description: issue.description }, allIssues || [])
+      : [];
     
     // Step 2: Create new issue with normalized title
-    const { data, error } = await supabase.from('issues').insert({
-      title: normalizedTitle,
-      description: issue.description,
-      status: issue.status,
-      priority: issue.priority
-    }).select().single();
+    const context = options.context || { changedBy: 'user' };
+    if (issue.status === IssueStatus.Resolved && !isCompleteResolution(context.resolution)) {
+      throw new Error(RESOLUTION_REQUIRED);
+    }
+    const { data, error } = await supabase.rpc('create_issue', {
+      p_fields: {
+        title: normalizedTitle,
+        description: issue.description,
+        status: issue.status,
+        priority: issue.priority
+      },
+      ...issueChangeParams(context)
+    });
 
     if (error) {
       // Handle race condition: unique constraint violation
       if (error.code === '23505') {
-        // Another request created it simultaneously - fetch and return
+        // Another request created it simultaneously - fetch and return.
+        // Its create_issue call already recorded the creation history.
         const { data: raced } = await supabase
           .from('issues')
           .select('*')
@@ -296,6 +633,16 @@ export const api = {
       }
       throw error;
     }
+
+    if (similar) {
+      const { error: suggestionError } = await supabase.from('issue_duplicate_suggestions').insert({
+        issue_id: data.id,
+        suggested_issue_id: similar.issue.id,
+        similarity: similar.similarity
+      });
+      // Only a hint; the issue itself was created
+      if (suggestionError) console.warn('Failed to record duplicate suggestion:', suggestionError);
+    }
     
     return {
       issue: {
@@ -306,25 +653,124 @@ export const api = {
         priority: data.priority,
         updatedAt: data.updated_at
       },
-      isNew: true
+      isNew: true,
+      suggestedDuplicate: similar ? { issueId: similar.issue.id, similarity: similar.similarity } : undefined
     };
   },
 
   /**
    * @deprecated Use findOrCreateIssue for idempotent issue creation
    */
-  createIssue: async (issue: Partial<Issue>): Promise<Issue> => {
-    const result = await api.findOrCreateIssue(issue);
+  createIssue: async (issue: Partial<Issue>, context?: IssueChangeContext): Promise<Issue> => {
+    const result = await api.findOrCreateIssue(issue, { context });
     return result.issue;
   },
   
-  updateIssue: async (id: string, updates: Partial<Issue>): Promise<void> => {
-    await supabase.from('issues').update({
-        title: updates.title,
-        description: updates.description,
-        status: updates.status,
-        priority: updates.priority
-    }).eq('id', id);
+  /**
+   * Merges sourceId into targetId: moves messages, people, conversations,
+   * events, exhibits and rule links, deletes the source and leaves a redirect.
+   * The description carried over is recorded in history under changedBy.
+   */
+  mergeIssues: async (sourceId: string, targetId: string, changedBy: IssueChangeSource = 'user'): Promise<void> => {
+    const { error } = await supabase.rpc('merge_issues', { p_source_id: sourceId, p_target_id: targetId, p_changed_by: changedBy });
+    if (error) throw error;
+  },
+
+  // Where a merged issue's id now points, or null if it was never merged
+  getIssueRedirect: async (id: string): Promise<string | null> => {
+    const { data } = await supabase.from('issue_redirects').select('to_issue_id').eq('from_issue_id', id).maybeSingle();
+    return data?.to_issue_id || null;
+  },
+
+  getMergedIssues: async (issueId: string): Promise<IssueRedirect[]> => {
+    const data = await handleResponse(
+      supabase.from('issue_redirects').select('*').eq('to_issue_id', issueId).order('created_at', { ascending: true })
+    );
+    return Array.isArray(data) ? data.map(mapIssueRedirect) : [];
+  },
+
+  // Undecided duplicate suggestions involving the issue, on either side
+  getDuplicateSuggestions: async (issueId: string): Promise<IssueDuplicateSuggestion[]> => {
+    const data = await handleResponse(
+      supabase
+        .from('issue_duplicate_suggestions')
+        .select('*')
+        .eq('status', 'pending')
+        .or(`issue_id.eq.${issueId},suggested_issue_id.eq.${issueId}`)
+        .order('similarity', { ascending: false })
+    );
+    return Array.isArray(data) ? data.map(mapIssueDuplicateSuggestion) : [];
+  },
+
+  dismissDuplicateSuggestion: async (id: string): Promise<void> => {
+    const { error } = await supabase.from('issue_duplicate_suggestions').update({ status: 'dismissed' }).eq('id', id);
+    if (error) throw error;
+  },
+
+  /**
+   * Updates an issue and records what changed and who changed it. Setting the
+   * status to resolved requires context.resolution.
+   */
+  updateIssue: async (
+    id: string,
+    updates: Partial<Issue>,
+    context: IssueChangeContext = { changedBy: 'user' }
+  ): Promise<void> => {
+    const { data: current } = await supabase.from('issues').select('*').eq('id', id).single();
+    if (!current) throw new Error('Issue not found');
+
+    const changes: IssueHistoryEntry['changes'] = {};
+    for (const field of ISSUE_HISTORY_FIELDS) {
+      const next = updates[field];
+      if (next !== undefined && next !== current[field]) {
+        changes[field] = { from: current[field] ?? null, to: next };
+      }
+    }
+    if (Object.keys(changes).length === 0) return;
+    if (changes.status?.to === IssueStatus.Resolved && !isCompleteResolution(context.resolution)) {
+      throw new Error(RESOLUTION_REQUIRED);
+    }
+
+    // The rpc re-reads the issue under a lock and writes the update and its history row together
+    const { error } = await supabase.rpc('update_issue', {
+      p_issue_id: id,
+      p_updates: Object.fromEntries(Object.keys(changes).map(field => [field, updates[field as IssueHistoryField]])),
+      ...issueChangeParams(context)
+    });
+    if (error) throw error;
+  },
+
+  // Moves an issue under a parent, or to the top level with null
+  setIssueParent: async (id: string, parentIssueId: string | null): Promise<void> => {
+    const { error } = await supabase.from('issues').update({ parent_issue_id: parentIssueId }).eq('id', id);
+    if (error) throw error;
+  },
+
+  getIssueDependencies: async (): Promise<IssueDependency[]> => {
+    const data = await handleResponse(supabase.from('issue_dependencies').select('*'));
+    return Array.isArray(data) ? data.map(mapIssueDependency) : [];
+  },
+
+  addIssueDependency: async (issueId: string, blockedByIssueId: string): Promise<IssueDependency> => {
+    const { data, error } = await supabase
+      .from('issue_dependencies')
+      .insert({ issue_id: issueId, blocked_by_issue_id: blockedByIssueId })
+      .select()
+      .single();
+    if (error) throw error;
+    return mapIssueDependency(data);
+  },
+
+  removeIssueDependency: async (id: string): Promise<void> => {
+    const { error } = await supabase.from('issue_dependencies').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  getIssueHistory: async (issueId: string): Promise<IssueHistoryEntry[]> => {
+    const data = await handleResponse(
+      supabase.from('issue_history').select('*').eq('issue_id', issueId).order('created_at', { ascending: false })
+    );
+    return Array.isArray(data) ? data.map(mapIssueHistoryEntry) : [];
   },
 
   // --- Issue-People Links ---
@@ -413,6 +859,19 @@ export const api = {
     });
   },
 
+  // Every issue/person link, without contribution details, paged past the row cap; throws on error
+  getIssuePeopleLinks: async (): Promise<Array<{ issueId: string; personId: string }>> => {
+    const data = await fetchAllPages((from, to) =>
+      supabase
+        .from('issue_people')
+        .select('issue_id, person_id')
+        .order('issue_id', { ascending: true })
+        .order('person_id', { ascending: true })
+        .range(from, to)
+    );
+    return data.map((l: any) => ({ issueId: l.issue_id, personId: l.person_id }));
+  },
+
   getIssuesForPersonDirect: async (personId: string): Promise<(Issue & {
     contributionType?: string;
     contributionDescription?: string;
@@ -622,22 +1081,76 @@ export const api = {
 
   // --- Messages ---
   getMessages: async (conversationId?: string): Promise<Message[]> => {
-    let query = supabase.from('messages').select('*, message_issues(issue_id)').order('sent_at', { ascending: true });
-    if (conversationId) {
-      query = query.eq('conversation_id', conversationId);
+    try {
+      return await api.getMessagesChecked(conversationId);
+    } catch (error) {
+      console.error('Supabase Error:', error);
+      return [];
     }
-    const data = await handleResponse(query);
+  },
 
-    return Array.isArray(data) ? data.map((m: any) => ({
-      id: m.id,
-      conversationId: m.conversation_id,
-      senderId: m.sender_id,
-      receiverId: m.receiver_id,
-      sentAt: m.sent_at,
-      rawText: m.raw_text,
-      direction: m.direction,
-      issueIds: m.message_issues?.map((mi: any) => mi.issue_id) || []
-    })) : [];
+  // Like getMessages, but throws so a failed fetch is never mistaken for an empty conversation
+  getMessagesChecked: async (conversationId?: string): Promise<Message[]> => {
+    const data = await fetchAllPages((from, to) => {
+      let query = supabase
+        .from('messages')
+        .select('*, message_issues(issue_id)')
+        .order('sent_at', { ascending: true })
+        .order('id', { ascending: true });
+      if (conversationId) {
+        query = query.eq('conversation_id', conversationId);
+      }
+      return query.range(from, to);
+    });
+    return data.map(mapMessage);
+  },
+
+  // Every message linked to an issue, paged past the row cap; throws on error
+  getMessagesForIssue: async (issueId: string): Promise<Message[]> => {
+    const data = await fetchAllPages((from, to) =>
+      supabase
+        .from('messages')
+        .select('*, message_issues!inner(issue_id)')
+        .eq('message_issues.issue_id', issueId)
+        .order('sent_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to)
+    );
+    return data.map(mapMessage);
+  },
+
+  // Ids go in the request URL, so they are sent in batches and each batch is
+  // paged past the row cap; throws on error
+  getMessagesForConversations: async (conversationIds: string[]): Promise<Message[]> => {
+    const rows: any[] = [];
+    for (let i = 0; i < conversationIds.length; i += ID_BATCH_SIZE) {
+      const batch = conversationIds.slice(i, i + ID_BATCH_SIZE);
+      rows.push(...await fetchAllPages((from, to) =>
+        supabase
+          .from('messages')
+          .select('*, message_issues(issue_id)')
+          .in('conversation_id', batch)
+          .order('sent_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, to)
+      ));
+    }
+    return rows
+      .map(mapMessage)
+      .sort((a, b) => (a.sentAt || '').localeCompare(b.sentAt || ''));
+  },
+
+  // Messages between each pair of people in either direction, most first; counted server-side
+  getMessagePairCounts: async (): Promise<Array<{ personIds: [string, string]; count: number }>> => {
+    const { data, error } = await supabase.rpc('count_message_pairs');
+    if (error) throw error;
+    return (data || []).map((p: any) => ({ personIds: [p.person_a, p.person_b], count: Number(p.message_count) }));
+  },
+
+  getMessagesByIds: async (ids: string[]): Promise<Message[]> => {
+    if (ids.length === 0) return [];
+    const data = await handleResponse(supabase.from('messages').select('*').in('id', ids));
+    return Array.isArray(data) ? data.map(mapMessage) : [];
   },
 
   getRecentMessages: async (limit = 100): Promise<Message[]> => {
@@ -723,6 +1236,107 @@ export const api = {
     };
   },
 
+  // --- Reimbursements ---
+  getReimbursements: async (): Promise<Reimbursement[]> => {
+    const data = await handleResponse(
+      supabase.from('reimbursements').select('*').order('expense_date', { ascending: false })
+    );
+
+    return Array.isArray(data) ? data.map(mapReimbursement) : [];
+  },
+
+  // Every entry, paged past the row cap; throws so a failed read is never taken for an empty ledger
+  getReimbursementsChecked: async (): Promise<Reimbursement[]> => {
+    const data = await fetchAllPages((from, to) =>
+      supabase
+        .from('reimbursements')
+        .select('*')
+        .order('expense_date', { ascending: false })
+        .order('id', { ascending: true })
+        .range(from, to)
+    );
+    return data.map(mapReimbursement);
+  },
+
+  createReimbursementsBulk: async (reimbursements: Array<Omit<Reimbursement, 'id' | 'createdAt'>>): Promise<Reimbursement[]> => {
+    if (reimbursements.length === 0) return [];
+
+    const { data, error } = await supabase.from('reimbursements').insert(
+      reimbursements.map(r => ({
+        entry_type: r.entryType,
+        title: r.title,
+        category: r.category,
+        expense_date: r.expenseDate,
+        amount: r.amount,
+        amount_requested: r.amountRequested,
+        paid_by_person_id: r.paidByPersonId,
+        requested_from_person_id: r.requestedFromPersonId,
+        status: r.status,
+        due_date: r.dueDate,
+        split_percentage: r.splitPercentage,
+        agreement_item_id: r.agreementItemId,
+        receipt_path: r.receiptPath,
+        requested_at: r.requestedAt,
+        paid_at: r.paidAt,
+        amount_paid: r.amountPaid,
+        source_message_id: r.sourceMessageId,
+        notes: r.notes,
+        source_type: r.sourceType
+      }))
+    ).select();
+
+    if (error) throw error;
+    return (data || []).map(mapReimbursement);
+  },
+
+  updateReimbursement: async (id: string, updates: Partial<Omit<Reimbursement, 'id' | 'createdAt'>>): Promise<void> => {
+    const dbUpdates: Record<string, unknown> = {};
+    if (updates.status !== undefined) dbUpdates.status = updates.status;
+    if (updates.amountPaid !== undefined) dbUpdates.amount_paid = updates.amountPaid;
+    if (updates.paidAt !== undefined) dbUpdates.paid_at = updates.paidAt;
+    if (updates.requestedAt !== undefined) dbUpdates.requested_at = updates.requestedAt;
+    if (updates.dueDate !== undefined) dbUpdates.due_date = updates.dueDate;
+    if (updates.receiptPath !== undefined) dbUpdates.receipt_path = updates.receiptPath;
+    if (updates.sourceMessageId !== undefined) dbUpdates.source_message_id = updates.sourceMessageId;
+    if (updates.notes !== undefined) dbUpdates.notes = updates.notes;
+
+    const { error } = await supabase.from('reimbursements').update(dbUpdates).eq('id', id);
+    if (error) throw error;
+  },
+
+  deleteReimbursement: async (id: string): Promise<void> => {
+    const { error } = await supabase.from('reimbursements').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  getReimbursementsForMessage: async (messageId: string): Promise<Reimbursement[]> => {
+    const data = await handleResponse(
+      supabase.from('reimbursements').select('*').eq('source_message_id', messageId)
+    );
+    return Array.isArray(data) ? data.map(mapReimbursement) : [];
+  },
+
+  uploadReceipt: async (file: File, reimbursementId: string): Promise<string> => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const filePath = `${user.id}/${reimbursementId}/${file.name.replace(/\s+/g, '_')}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('receipts')
+      .upload(filePath, file, { upsert: true });
+
+    if (uploadError) throw uploadError;
+    return filePath;
+  },
+
+  // Receipts bucket is private; links expire after an hour
+  getReceiptUrl: async (path: string): Promise<string | null> => {
+    const { data, error } = await supabase.storage.from('receipts').createSignedUrl(path, 3600);
+    if (error || !data) return null;
+    return data.signedUrl;
+  },
+
   // --- Profile Notes ---
   getProfileNotes: async (personId: string): Promise<ProfileNote[]> => {
     const data = await handleResponse(
@@ -876,6 +1490,20 @@ export const api = {
      }));
   },
 
+  getLegalClausesByIds: async (ids: string[]): Promise<LegalClause[]> => {
+    if (ids.length === 0) return [];
+    const data = await handleResponse(supabase.from('legal_clauses').select('*').in('id', ids));
+    return Array.isArray(data) ? data.map((c: any) => ({
+      id: c.id,
+      legalDocumentId: c.legal_document_id,
+      clauseRef: c.clause_ref,
+      topic: c.topic,
+      fullText: c.full_text,
+      summary: c.summary,
+      isActive: c.is_active
+    })) : [];
+  },
+
   // --- Agreements ---
   getAgreements: async (): Promise<Agreement[]> => {
     const data = await handleResponse(
@@ -967,6 +1595,20 @@ export const api = {
       }));
   },
 
+  getAgreementItemsByIds: async (ids: string[]): Promise<AgreementItem[]> => {
+    if (ids.length === 0) return [];
+    const data = await handleResponse(supabase.from('agreement_items').select('*').in('id', ids));
+    return Array.isArray(data) ? data.map((i: any) => ({
+      id: i.id,
+      agreementId: i.agreement_id,
+      itemRef: i.item_ref,
+      topic: i.topic,
+      fullText: i.full_text,
+      summary: i.summary,
+      isActive: i.is_active
+    })) : [];
+  },
+
   // --- Cross-Referencing ---
   getRulesForIssue: async (issueId: string): Promise<{ clauses: LegalClause[], items: AgreementItem[] }> => {
     try {
@@ -1002,6 +1644,65 @@ export const api = {
     }
   },
 
+  // --- Evidence Exhibits ---
+
+  /**
+   * Returns exhibit numbers for the given messages, assigning new numbers
+   * (after the current highest) to messages that have never been exported.
+   * Callers should pass messages in chronological order.
+   */
+  getOrAssignIssueExhibits: async (
+    issueId: string,
+    messages: Array<{ messageId: string; contentSha256: string }>
+  ): Promise<Array<{ messageId: string; exhibitNumber: number; recordedSha256: string }>> => {
+    if (messages.length === 0) return [];
+    // Numbered server-side under a lock on the issue, so concurrent exports don't
+    // collide; later pages re-run the call, which then only reads
+    const exhibits = messages.map(m => ({ message_id: m.messageId, content_sha256: m.contentSha256 }));
+    const data = await fetchAllPages((from, to) =>
+      supabase.rpc('assign_issue_exhibits', { p_issue_id: issueId, p_exhibits: exhibits }).range(from, to)
+    );
+
+    return data.map((r: any) => ({
+      messageId: r.message_id,
+      exhibitNumber: r.exhibit_number,
+      recordedSha256: r.content_sha256
+    }));
+  },
+
+  // --- Search ---
+  searchCaseFile: async (query: string, filters: SearchFilters = {}, limit = 50): Promise<SearchResult[]> => {
+    if (!query.trim()) return [];
+
+    const { data, error } = await supabase.rpc('search_case_file', {
+      p_query: query.trim(),
+      p_person_id: filters.personId || null,
+      p_start_date: filters.startDate || null,
+      p_end_date: filters.endDate || null,
+      p_source_type: filters.sourceType || null,
+      p_topic_slug: filters.topicSlug || null,
+      p_result_types: filters.resultTypes && filters.resultTypes.length > 0 ? filters.resultTypes : null,
+      p_limit: limit
+    });
+
+    if (error) {
+      console.error('Error searching case file:', error);
+      throw error;
+    }
+
+    return (data || []).map((r: any) => ({
+      type: r.result_type,
+      id: r.result_id,
+      title: r.title || '',
+      snippet: r.snippet || '',
+      occurredAt: r.occurred_at,
+      conversationId: r.conversation_id,
+      personId: r.person_id,
+      parentId: r.parent_id,
+      rank: r.rank
+    }));
+  },
+
   // --- Assistant Module ---
   
   getAssistantSessions: async (): Promise<AssistantSession[]> => {
@@ -1033,15 +1734,7 @@ export const api = {
      const data = await handleResponse(
        supabase.from('assistant_messages').select('*').eq('assistant_session_id', sessionId).order('created_at', { ascending: true })
      );
-     return Array.isArray(data) ? data.map((m: any) => ({
-       id: m.id,
-       sessionId: m.assistant_session_id,
-       senderType: m.sender_type,
-       content: m.content,
-       createdAt: m.created_at,
-       linkedTargetType: m.linked_target_type,
-       linkedTargetId: m.linked_target_id
-     })) : [];
+     return Array.isArray(data) ? data.map(mapAssistantMessage) : [];
   },
 
   saveAssistantMessage: async (
@@ -1049,29 +1742,29 @@ export const api = {
       senderType: AssistantSenderType, 
       content: string, 
       linkedType?: string, 
-      linkedId?: string
+      linkedId?: string,
+      extras: { citations?: AssistantCitation[]; actions?: AssistantAction[] } = {}
   ): Promise<AssistantMessage> => {
       const { data: msg, error } = await supabase.from('assistant_messages').insert({
         assistant_session_id: sessionId,
         sender_type: senderType,
         content: content,
         linked_target_type: linkedType,
-        linked_target_id: linkedId
+        linked_target_id: linkedId,
+        citations: extras.citations,
+        proposed_actions: extras.actions
       }).select().single();
       
       if (error) throw error;
 
       await supabase.from('assistant_sessions').update({ last_activity_at: new Date().toISOString() }).eq('id', sessionId);
 
-      return {
-        id: msg.id,
-        sessionId: msg.assistant_session_id,
-        senderType: msg.sender_type,
-        content: msg.content,
-        createdAt: msg.created_at,
-        linkedTargetType: msg.linked_target_type,
-        linkedTargetId: msg.linked_target_id
-      };
+      return mapAssistantMessage(msg);
+  },
+
+  updateAssistantMessageActions: async (messageId: string, actions: AssistantAction[]): Promise<void> => {
+      const { error } = await supabase.from('assistant_messages').update({ proposed_actions: actions }).eq('id', messageId);
+      if (error) throw error;
   },
 
   // --- Bulk Creation for Document Import ---
@@ -1338,6 +2031,7 @@ export const api = {
 
   // --- Conversation Analysis ---
   
+  // Replaces the current analysis and keeps a copy in the version history
   saveConversationAnalysis: async (analysis: {
     conversationId: string;
     summary: string;
@@ -1346,6 +2040,8 @@ export const api = {
     topicCategorySlugs?: string[];
     agreementViolations: any[];
     messageAnnotations: any[];
+    issueActions?: any[];
+    meta?: AnalysisMeta;
   }): Promise<void> => {
     const { error } = await supabase.from('conversation_analyses').upsert({
       conversation_id: analysis.conversationId,
@@ -1354,19 +2050,74 @@ export const api = {
       key_topics: analysis.keyTopics,
       topic_category_slugs: analysis.topicCategorySlugs || [],
       agreement_violations: analysis.agreementViolations,
-      message_annotations: analysis.messageAnnotations
+      message_annotations: analysis.messageAnnotations,
+      user_guidance: analysis.meta?.userGuidance || null,
+      faithfulness: analysis.meta?.faithfulness || null
     }, { onConflict: 'conversation_id,user_id' });
     
     if (error) throw error;
+
+    const { error: versionError } = await supabase.from('conversation_analysis_versions').insert({
+      conversation_id: analysis.conversationId,
+      source: 'analysis',
+      model: analysis.meta?.model || null,
+      prompt_version: analysis.meta?.promptVersion || null,
+      user_guidance: analysis.meta?.userGuidance || null,
+      summary: analysis.summary,
+      overall_tone: analysis.overallTone,
+      key_topics: analysis.keyTopics,
+      topic_category_slugs: analysis.topicCategorySlugs || [],
+      agreement_violations: analysis.agreementViolations,
+      message_annotations: analysis.messageAnnotations,
+      issue_actions: analysis.issueActions || [],
+      faithfulness: analysis.meta?.faithfulness || null
+    });
+    if (versionError) throw versionError;
   },
 
-  updateAnalysisSummary: async (conversationId: string, summary: string): Promise<void> => {
+  // Amends only the summary; the new version carries over everything else
+  updateAnalysisSummary: async (conversationId: string, summary: string, meta?: AnalysisMeta): Promise<void> => {
     const { error } = await supabase
       .from('conversation_analyses')
-      .update({ summary })
+      .update({ summary, user_guidance: meta?.userGuidance || null })
       .eq('conversation_id', conversationId);
     
     if (error) throw error;
+
+    const [current, previous] = await Promise.all([
+      api.getConversationAnalysis(conversationId),
+      api.getAnalysisVersions(conversationId).then(versions => versions[0])
+    ]);
+    if (!current) return;
+
+    const { error: versionError } = await supabase.from('conversation_analysis_versions').insert({
+      conversation_id: conversationId,
+      source: 'amendment',
+      model: meta?.model || null,
+      prompt_version: meta?.promptVersion || null,
+      user_guidance: meta?.userGuidance || null,
+      summary,
+      overall_tone: current.overallTone,
+      key_topics: current.keyTopics,
+      topic_category_slugs: current.topicCategorySlugs,
+      agreement_violations: current.agreementViolations,
+      message_annotations: current.messageAnnotations,
+      issue_actions: previous?.issueActions || [],
+      faithfulness: current.faithfulness || null
+    });
+    if (versionError) throw versionError;
+  },
+
+  // Newest first
+  getAnalysisVersions: async (conversationId: string): Promise<AnalysisVersion[]> => {
+    const data = await handleResponse(
+      supabase
+        .from('conversation_analysis_versions')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false })
+    );
+    return Array.isArray(data) ? data.map(mapAnalysisVersion) : [];
   },
 
   getConversationAnalysis: async (conversationId: string): Promise<ConversationAnalysis | null> => {
@@ -1377,17 +2128,57 @@ export const api = {
       .single();
     
     if (error || !data) return null;
-    return {
-      id: data.id,
-      conversationId: data.conversation_id,
-      summary: data.summary,
-      overallTone: data.overall_tone,
-      keyTopics: data.key_topics || [],
-      topicCategorySlugs: data.topic_category_slugs || [],
-      agreementViolations: data.agreement_violations || [],
-      messageAnnotations: data.message_annotations || [],
-      createdAt: data.created_at
-    };
+    return mapConversationAnalysis(data);
+  },
+
+  // All analyses, or only those for the given conversations
+  getConversationAnalyses: async (conversationIds?: string[]): Promise<ConversationAnalysis[]> => {
+    if (conversationIds && conversationIds.length === 0) return [];
+    let query = supabase.from('conversation_analyses').select('*');
+    if (conversationIds) query = query.in('conversation_id', conversationIds);
+    const data = await handleResponse(query);
+    return Array.isArray(data) ? data.map(mapConversationAnalysis) : [];
+  },
+
+  // --- Message Flag Reviews ---
+
+  // All reviews, or only those for the given conversations
+  getFlagReviews: async (conversationIds?: string[]): Promise<FlagReview[]> => {
+    if (conversationIds && conversationIds.length === 0) return [];
+    let query = supabase.from('message_flag_reviews').select('*');
+    if (conversationIds) query = query.in('conversation_id', conversationIds);
+    const data = await handleResponse(query);
+    return Array.isArray(data) ? data.map(mapFlagReview) : [];
+  },
+
+  // One review per flag; reviewing again replaces the earlier decision
+  saveFlagReview: async (review: Omit<FlagReview, 'id' | 'reviewedAt'>): Promise<FlagReview> => {
+    const { data, error } = await supabase
+      .from('message_flag_reviews')
+      .upsert({
+        conversation_id: review.conversationId,
+        message_id: review.messageId,
+        flag_type: review.flagType,
+        attributed_to_person_id: review.attributedToPersonId,
+        status: review.status,
+        corrected_type: review.correctedType || null,
+        corrected_severity: review.correctedSeverity || null,
+        corrected_person_id: review.correctedPersonId || null,
+        corrected_evidence: review.correctedEvidence || null,
+        reason: review.reason || null,
+        reviewed_at: new Date().toISOString()
+      }, { onConflict: 'user_id,message_id,flag_type,attributed_to_person_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return mapFlagReview(data);
+  },
+
+  // Returns the flag to the review queue
+  deleteFlagReview: async (id: string): Promise<void> => {
+    const { error } = await supabase.from('message_flag_reviews').delete().eq('id', id);
+    if (error) throw error;
   },
 
   // --- Discovery Functions for Related Conversations ---
@@ -1861,6 +2652,343 @@ export const api = {
     };
   },
 
+  // --- Parenting Schedules ---
+
+  getParentingSchedules: async (): Promise<ParentingSchedule[]> => {
+    const data = await handleResponse(
+      supabase.from('parenting_schedules').select('*').order('created_at', { ascending: true })
+    );
+    return Array.isArray(data) ? data.map(mapParentingSchedule) : [];
+  },
+
+  createParentingSchedulesBulk: async (schedules: Array<Omit<ParentingSchedule, 'id' | 'createdAt'>>): Promise<ParentingSchedule[]> => {
+    if (schedules.length === 0) return [];
+
+    const inserts = schedules.map(s => ({
+      agreement_item_id: s.agreementItemId || null,
+      schedule_type: s.scheduleType,
+      label: s.label,
+      pattern: s.pattern || null,
+      anchor_date: s.anchorDate || null,
+      cycle: s.cycle || null,
+      start_date: s.startDate || null,
+      end_date: s.endDate || null,
+      holiday_key: s.holidayKey || null,
+      recurrence: s.recurrence,
+      year_parity: s.yearParity || null,
+      custodian_person_id: s.custodianPersonId || null,
+      exchange_days: s.exchangeDays || null,
+      exchange_time: s.exchangeTime || null,
+      exchange_location: s.exchangeLocation || null,
+      notes: s.notes || null
+    }));
+
+    const { data, error } = await supabase.from('parenting_schedules').insert(inserts).select();
+    if (error) throw error;
+    return (data || []).map(mapParentingSchedule);
+  },
+
+  deleteParentingSchedule: async (id: string): Promise<void> => {
+    const { error } = await supabase.from('parenting_schedules').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  /**
+   * Returns the schedules currently in force. For schedules extracted from
+   * agreement items, the override chain is resolved with get_effective_agreement_item;
+   * if the effective override has no structured schedule yet, the nearest
+   * ancestor in its chain that does is used instead and a note is returned.
+   */
+  getEffectiveParentingSchedules: async (): Promise<{ schedules: ParentingSchedule[]; notes: string[] }> => {
+    const [schedules, items] = await Promise.all([
+      api.getParentingSchedules(),
+      api.getAgreementItemsWithOverrideInfo()
+    ]);
+
+    const itemById = new Map(items.map(i => [i.id, i]));
+    const schedulesByItem = new Map<string, ParentingSchedule[]>();
+    const effective: ParentingSchedule[] = [];
+
+    for (const s of schedules) {
+      if (s.agreementItemId && itemById.has(s.agreementItemId)) {
+        schedulesByItem.set(s.agreementItemId, [...(schedulesByItem.get(s.agreementItemId) || []), s]);
+      } else {
+        // Manually entered schedules are always in force
+        effective.push(s);
+      }
+    }
+
+    const rootOf = (item: AgreementItem): AgreementItem => {
+      const seen = new Set<string>();
+      let current = item;
+      while (current.overridesItemId && itemById.has(current.overridesItemId) && !seen.has(current.id)) {
+        seen.add(current.id);
+        current = itemById.get(current.overridesItemId)!;
+      }
+      return current;
+    };
+
+    // Same traversal as the SQL function, used when it resolves the topic to a different chain
+    const deepestActiveOverride = (root: AgreementItem): AgreementItem => {
+      const seen = new Set<string>();
+      let current = root;
+      while (!seen.has(current.id)) {
+        seen.add(current.id);
+        const next = items
+          .filter(i => i.overridesItemId === current.id && i.isActive && (!i.overrideStatus || i.overrideStatus === 'active'))
+          .sort((a, b) => new Date(b.detectedAt || 0).getTime() - new Date(a.detectedAt || 0).getTime())[0];
+        if (!next) break;
+        current = next;
+      }
+      return current;
+    };
+
+    const roots = new Map<string, AgreementItem>();
+    for (const itemId of schedulesByItem.keys()) {
+      const root = rootOf(itemById.get(itemId)!);
+      roots.set(root.id, root);
+    }
+
+    const topics = Array.from(new Set(Array.from(roots.values()).map(r => r.topic)));
+    const effectiveByTopic = new Map(
+      await Promise.all(topics.map(async t => [t, await api.getEffectiveAgreementItem(t)] as const))
+    );
+
+    const notes: string[] = [];
+    for (const root of roots.values()) {
+      if (!root.isActive) continue;
+
+      const resolved = effectiveByTopic.get(root.topic);
+      const current = resolved && rootOf(itemById.get(resolved.id) || resolved).id === root.id
+        ? itemById.get(resolved.id) || resolved
+        : deepestActiveOverride(root);
+
+      let cursor: AgreementItem | undefined = current;
+      while (cursor && !schedulesByItem.has(cursor.id)) {
+        cursor = cursor.overridesItemId ? itemById.get(cursor.overridesItemId) : undefined;
+      }
+      if (!cursor) continue;
+
+      if (cursor.id !== current.id) {
+        notes.push(`"${current.summary || current.topic}" overrides "${cursor.summary || cursor.topic}" but has no structured schedule yet; the earlier schedule is shown.`);
+      }
+      effective.push(...schedulesByItem.get(cursor.id)!);
+    }
+
+    return { schedules: effective, notes };
+  },
+
+  // --- Exchange Logs ---
+
+  getExchangeLogs: async (range: { startDate?: string; endDate?: string } = {}): Promise<ExchangeLog[]> => {
+    let query = supabase
+      .from('exchange_logs')
+      .select('*, exchange_log_links(target_type, target_id)')
+      .order('scheduled_at', { ascending: false });
+    if (range.startDate) query = query.gte('scheduled_at', range.startDate);
+    if (range.endDate) query = query.lte('scheduled_at', range.endDate);
+
+    const data = await handleResponse(query);
+    return Array.isArray(data) ? data.map(mapExchangeLog) : [];
+  },
+
+  createExchangeLog: async (log: Omit<ExchangeLog, 'id' | 'createdAt'>): Promise<ExchangeLog> => {
+    const { data, error } = await supabase.from('exchange_logs').insert({
+      scheduled_at: log.scheduledAt,
+      actual_at: log.actualAt || null,
+      outcome: log.outcome,
+      minutes_late: log.outcome === ExchangeOutcome.Late ? log.minutesLate ?? null : null,
+      responsible_person_id: log.responsiblePersonId || null,
+      from_person_id: log.fromPersonId || null,
+      to_person_id: log.toPersonId || null,
+      agreement_item_id: log.agreementItemId || null,
+      schedule_id: log.scheduleId || null,
+      location: log.location || null,
+      notes: log.notes || null
+    }).select().single();
+
+    if (error) throw error;
+    await api.setExchangeLogLinks(data.id, log.messageIds, log.issueIds);
+    return { ...mapExchangeLog(data), messageIds: log.messageIds, issueIds: log.issueIds };
+  },
+
+  // Replaces the message and issue links of an exchange log
+  setExchangeLogLinks: async (logId: string, messageIds: string[], issueIds: string[]): Promise<void> => {
+    const { error: deleteError } = await supabase.from('exchange_log_links').delete().eq('exchange_log_id', logId);
+    if (deleteError) throw deleteError;
+
+    const inserts = [
+      ...messageIds.map(id => ({ exchange_log_id: logId, target_type: 'message', target_id: id })),
+      ...issueIds.map(id => ({ exchange_log_id: logId, target_type: 'issue', target_id: id }))
+    ];
+    if (inserts.length === 0) return;
+
+    const { error } = await supabase.from('exchange_log_links').insert(inserts);
+    if (error) throw error;
+  },
+
+  deleteExchangeLog: async (id: string): Promise<void> => {
+    const { error } = await supabase.from('exchange_logs').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  // --- Obligations ---
+
+  getObligations: async (): Promise<Obligation[]> => {
+    const data = await handleResponse(
+      supabase.from('obligations').select('*').order('due_date', { ascending: true, nullsFirst: false })
+    );
+    return Array.isArray(data) ? data.map(mapObligation) : [];
+  },
+
+  createObligation: async (obligation: Omit<Obligation, 'id' | 'createdAt'>): Promise<Obligation> => {
+    const { data, error } = await supabase.from('obligations').insert({
+      title: obligation.title,
+      description: obligation.description || null,
+      owner_person_id: obligation.ownerPersonId || null,
+      due_date: obligation.dueDate || null,
+      status: obligation.status,
+      source_type: obligation.sourceType,
+      source_conversation_id: obligation.sourceConversationId || null,
+      source_message_id: obligation.sourceMessageId || null,
+      agreement_item_id: obligation.agreementItemId || null,
+      event_id: obligation.eventId || null,
+      claim_key: obligation.claimKey || null
+    }).select().single();
+
+    if (error) throw error;
+    return mapObligation(data);
+  },
+
+  /**
+   * Records commitments found by analysis of a conversation. Existing rows are
+   * left untouched on re-analysis so status changes made by the user survive.
+   */
+  createObligationsForConversation: async (
+    conversationId: string,
+    commitments: Array<{ title: string; ownerPersonId?: string; dueDate?: string; sourceMessageId?: string; description?: string }>
+  ): Promise<void> => {
+    if (commitments.length === 0) return;
+
+    const inserts = commitments.map(c => ({
+      title: c.title,
+      description: c.description || null,
+      owner_person_id: c.ownerPersonId || null,
+      due_date: c.dueDate || null,
+      status: ObligationStatus.Open,
+      source_type: 'commitment',
+      source_conversation_id: conversationId,
+      source_message_id: c.sourceMessageId || null,
+      claim_key: commitmentClaimKey(c)
+    }));
+
+    const { error } = await supabase
+      .from('obligations')
+      .upsert(inserts, { onConflict: 'user_id,source_conversation_id,claim_key', ignoreDuplicates: true });
+    if (error) throw error;
+  },
+
+  updateObligation: async (
+    id: string,
+    updates: Partial<Pick<Obligation, 'status' | 'dueDate' | 'ownerPersonId' | 'title' | 'description'>>
+  ): Promise<void> => {
+    const payload: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (updates.status !== undefined) {
+      payload.status = updates.status;
+      payload.fulfilled_at = updates.status === ObligationStatus.Fulfilled ? new Date().toISOString() : null;
+    }
+    if (updates.dueDate !== undefined) payload.due_date = updates.dueDate || null;
+    if (updates.ownerPersonId !== undefined) payload.owner_person_id = updates.ownerPersonId || null;
+    if (updates.title !== undefined) payload.title = updates.title;
+    if (updates.description !== undefined) payload.description = updates.description || null;
+
+    const { error } = await supabase.from('obligations').update(payload).eq('id', id);
+    if (error) throw error;
+  },
+
+  deleteObligation: async (id: string): Promise<void> => {
+    const { error } = await supabase.from('obligations').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  // --- Case Embeddings ---
+
+  // Content hash and embedding model of everything indexed for a source type, keyed by source id
+  getCaseEmbeddingHashes: async (
+    sourceType: CaseEmbeddingSourceType
+  ): Promise<Map<string, { contentHash: string; embeddingModel?: string }>> => {
+    const rows = await fetchAllPages((from, to) =>
+      supabase
+        .from('case_embeddings')
+        .select('source_id, content_hash, embedding_model')
+        .eq('source_type', sourceType)
+        .order('source_id', { ascending: true })
+        .range(from, to)
+    );
+    return new Map(rows.map((row: any) => [
+      row.source_id,
+      { contentHash: row.content_hash, embeddingModel: row.embedding_model || undefined }
+    ]));
+  },
+
+  upsertCaseEmbeddings: async (
+    rows: Array<CaseEmbeddingSource & { contentHash: string; embedding: number[]; embeddingModel: string }>
+  ): Promise<void> => {
+    if (rows.length === 0) return;
+    const { error } = await supabase.from('case_embeddings').upsert(
+      rows.map(r => ({
+        source_type: r.sourceType,
+        source_id: r.sourceId,
+        conversation_id: r.conversationId || null,
+        person_id: r.personId || null,
+        content: r.content,
+        content_hash: r.contentHash,
+        embedding: r.embedding,
+        embedding_model: r.embeddingModel,
+        occurred_at: r.occurredAt || null,
+        updated_at: new Date().toISOString()
+      })),
+      { onConflict: 'user_id,source_type,source_id' }
+    );
+    if (error) throw error;
+  },
+
+  deleteCaseEmbeddings: async (sourceType: CaseEmbeddingSourceType, sourceIds: string[]): Promise<void> => {
+    if (sourceIds.length === 0) return;
+    const { error } = await supabase
+      .from('case_embeddings')
+      .delete()
+      .eq('source_type', sourceType)
+      .in('source_id', sourceIds);
+    if (error) throw error;
+  },
+
+  // Only rows embedded by embeddingModel are compared; other models' vectors are not comparable
+  matchCaseEmbeddings: async (
+    embedding: number[],
+    embeddingModel: string,
+    matchCount = 30,
+    sourceTypes?: CaseEmbeddingSourceType[]
+  ): Promise<RetrievedPassage[]> => {
+    const { data, error } = await supabase.rpc('match_case_embeddings', {
+      p_query_embedding: embedding,
+      p_embedding_model: embeddingModel,
+      p_match_count: matchCount,
+      p_source_types: sourceTypes && sourceTypes.length > 0 ? sourceTypes : null
+    });
+    if (error) throw error;
+
+    return (data || []).map((r: any) => ({
+      sourceType: r.source_type,
+      sourceId: r.source_id,
+      conversationId: r.conversation_id,
+      personId: r.person_id,
+      content: r.content,
+      occurredAt: r.occurred_at,
+      similarity: r.similarity
+    }));
+  },
+
   // --- Idempotent Profile Notes for Re-Analysis ---
   createProfileNotesForConversation: async (
     conversationId: string,
@@ -2172,24 +3300,34 @@ export const api = {
     })) : [];
   },
 
-  // === Analysis Run Management (for multi-stage pipeline) ===
+  // === Analysis Run Management (server-side pipeline jobs) ===
 
   /**
-   * Creates a new analysis run or returns existing incomplete run for resume.
-   * Also cleans up stale runs older than 1 hour.
+   * Queues an analysis run for the pipeline worker. A failed run that got
+   * partway is re-queued instead, so the worker resumes from its failed stage
+   * using the stored stage outputs. An already queued or running run is
+   * returned as is.
    */
-  createAnalysisRun: async (conversationId: string): Promise<{
-    id: string;
+  createAnalysisRun: async (conversationId: string, requestPayload: object): Promise<{
+    run: AnalysisRun;
     isResume: boolean;
-    resumeFromStage?: string;
-    priorOutputs?: Record<string, unknown>;
   }> => {
-    // First, clean up any stale runs (older than 1 hour)
+    // First, fail runs whose worker stopped reporting
     await supabase
       .from('analysis_runs')
-      .update({ status: 'failed', error_message: 'Timed out' })
+      .update({ status: 'failed', error_message: 'Timed out', current_stage: null, progress: null })
       .eq('status', 'running')
-      .lt('started_at', new Date(Date.now() - 60 * 60 * 1000).toISOString());
+      .lt('updated_at', new Date(Date.now() - ANALYSIS_RUN_STALE_MS).toISOString());
+
+    const { data: active } = await supabase
+      .from('analysis_runs')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .in('status', ['pending', 'running'])
+      .limit(1)
+      .maybeSingle();
+
+    if (active) return { run: mapAnalysisRun(active), isResume: false };
 
     // Check for existing incomplete run that can be resumed
     const { data: existing } = await supabase
@@ -2202,106 +3340,126 @@ export const api = {
       .maybeSingle();
 
     if (existing && (existing.completed_stages as string[] || []).length > 0) {
-      // Update to running for resume
-      await supabase
+      const { data, error } = await supabase
         .from('analysis_runs')
-        .update({ status: 'running', error_message: null, error_stage: null })
-        .eq('id', existing.id);
-      
-      const completedStages = existing.completed_stages as string[] || [];
-      return {
-        id: existing.id,
-        isResume: true,
-        resumeFromStage: getNextAnalysisStage(completedStages),
-        priorOutputs: existing.stage_outputs as Record<string, unknown>
-      };
-    }
+        .update({
+          status: 'pending',
+          request_payload: requestPayload,
+          error_message: null,
+          error_stage: null,
+          queued_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', existing.id)
+        .select()
+        .single();
 
-    // Cancel any other pending/running runs for this conversation
-    await supabase
-      .from('analysis_runs')
-      .update({ status: 'cancelled' })
-      .eq('conversation_id', conversationId)
-      .in('status', ['pending', 'running']);
+      if (error) throw error;
+      return { run: mapAnalysisRun(data), isResume: true };
+    }
 
-    // Create new run
     const { data, error } = await supabase
       .from('analysis_runs')
-      .insert({ conversation_id: conversationId, status: 'running' })
+      .insert({ conversation_id: conversationId, status: 'pending', request_payload: requestPayload })
       .select()
       .single();
 
     if (error) throw error;
-    return { id: data.id, isResume: false };
+    return { run: mapAnalysisRun(data), isResume: false };
   },
 
   /**
-   * Updates analysis run with completed stage and its output.
+   * Asks the pipeline edge function to work through the queued runs. It
+   * returns straight away; the runs continue server-side.
    */
-  updateAnalysisRunStage: async (
-    runId: string, 
-    stage: string, 
-    output: unknown
-  ): Promise<void> => {
-    const { data: current } = await supabase
+  startAnalysisWorker: async (): Promise<void> => {
+    const { error } = await supabase.functions.invoke('analyze-conversation-pipeline', {
+      body: { action: 'drain' }
+    });
+    if (error) throw error;
+  },
+
+  getAnalysisRun: async (runId: string): Promise<AnalysisRun | null> => {
+    const { data, error } = await supabase
       .from('analysis_runs')
-      .select('completed_stages, stage_outputs')
+      .select('*')
       .eq('id', runId)
-      .single();
-
-    const completedStages = [...(current?.completed_stages as string[] || []), stage];
-    const stageOutputs = { 
-      ...(current?.stage_outputs as Record<string, unknown> || {}), 
-      [stage]: output 
-    };
+      .maybeSingle();
+    if (error || !data) return null;
+    return mapAnalysisRun(data);
+  },
 
-    await supabase
-      .from('analysis_runs')
-      .update({
-        current_stage: null,
-        completed_stages: completedStages,
-        stage_outputs: stageOutputs
-      })
-      .eq('id', runId);
+  /**
+   * All queued and running runs, oldest first, for progress UIs.
+   */
+  getActiveAnalysisRuns: async (): Promise<AnalysisRun[]> => {
+    const data = await handleResponse(
+      supabase.from('analysis_runs').select('*').in('status', ['pending', 'running']).order('queued_at', { ascending: true })
+    );
+    return data.map(mapAnalysisRun);
   },
 
   /**
-   * Sets the current stage being processed.
+   * Completed runs whose results have not been written into the case file yet.
    */
-  setAnalysisRunCurrentStage: async (runId: string, stage: string): Promise<void> => {
-    await supabase
+  getUnappliedAnalysisRuns: async (conversationId?: string): Promise<AnalysisRun[]> => {
+    let query = supabase
       .from('analysis_runs')
-      .update({ current_stage: stage })
-      .eq('id', runId);
+      .select('*')
+      .eq('status', 'completed')
+      .is('applied_at', null)
+      .order('completed_at', { ascending: true });
+    if (conversationId) query = query.eq('conversation_id', conversationId);
+    const data = await handleResponse(query);
+    return data.map(mapAnalysisRun);
   },
 
   /**
-   * Marks analysis run as completed.
+   * Takes a short lease on applying a completed run's result. Only one caller
+   * wins, so a result watched from two devices is processed once.
    */
-  completeAnalysisRun: async (runId: string): Promise<void> => {
-    await supabase
+  claimAnalysisRunApply: async (runId: string): Promise<boolean> => {
+    const { data, error } = await supabase.rpc('claim_analysis_run_apply', { p_run_id: runId });
+    if (error) throw error;
+    return data === true;
+  },
+
+  // Called once the result is in the case file; ends the lease
+  // Re-read after taking the lease, since an earlier attempt may have written sections since the run was loaded
+  getAnalysisRunAppliedSections: async (runId: string): Promise<string[]> => {
+    const { data, error } = await supabase.from('analysis_runs').select('applied_sections').eq('id', runId).single();
+    if (error) throw error;
+    return data?.applied_sections || [];
+  },
+
+  setAnalysisRunAppliedSections: async (runId: string, sections: string[]): Promise<void> => {
+    const { error } = await supabase.from('analysis_runs').update({ applied_sections: sections }).eq('id', runId);
+    if (error) throw error;
+  },
+
+  markAnalysisRunApplied: async (runId: string): Promise<void> => {
+    const { error } = await supabase
       .from('analysis_runs')
-      .update({ 
-        status: 'completed', 
-        current_stage: null,
-        completed_at: new Date().toISOString() 
-      })
+      .update({ applied_at: new Date().toISOString(), applying_until: null })
       .eq('id', runId);
+    if (error) throw error;
+  },
+
+  // Gives up the lease after a failed apply so the result is retried
+  releaseAnalysisRunApply: async (runId: string): Promise<void> => {
+    await supabase.from('analysis_runs').update({ applying_until: null }).eq('id', runId);
   },
 
   /**
-   * Marks analysis run as failed with error details.
+   * Cancels a queued or running run. A running stage finishes, then the
+   * worker stops before the next one.
    */
-  failAnalysisRun: async (runId: string, errorMessage: string, errorStage?: string): Promise<void> => {
+  cancelAnalysisRun: async (runId: string): Promise<void> => {
     await supabase
       .from('analysis_runs')
-      .update({ 
-        status: 'failed', 
-        error_message: errorMessage,
-        error_stage: errorStage || null,
-        current_stage: null
-      })
-      .eq('id', runId);
+      .update({ status: 'cancelled', current_stage: null, progress: null })
+      .eq('id', runId)
+      .in('status', ['pending', 'running']);
   },
 
   /**
@@ -2319,7 +3477,7 @@ export const api = {
       .from('analysis_runs')
       .select('id, status, completed_stages, error_message, error_stage')
       .eq('conversation_id', conversationId)
-      .in('status', ['running', 'failed'])
+      .eq('status', 'failed')
       .order('started_at', { ascending: false })
       .limit(1)
       .maybeSingle();
@@ -2338,20 +3496,3 @@ export const api = {
   }
 };
 
-// Helper function for stage ordering
-function getNextAnalysisStage(completedStages: string[]): string {
-  const allStages = [
-    'conversation_map',
-    'claims_verification', 
-    'issue_linking',
-    'issue_detection',
-    'agreement_checks',
-    'person_analysis',
-    'message_annotation',
-    'synthesis'
-  ];
-  
-  const lastCompleted = completedStages[completedStages.length - 1];
-  const lastIndex = allStages.indexOf(lastCompleted);
-  return allStages[lastIndex + 1] || allStages[0];
-}
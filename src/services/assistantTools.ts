@@ -0,0 +1,128 @@
+import { api } from './api';
+import {
+  AgreementSourceType, AgreementStatus, AssistantAction, AssistantReadToolName, AssistantWriteToolName,
+  IssuePriority, IssueStatus
+} from '../types';
+import { titlesMatch } from '../utils/issueHelpers';
+
+/**
+ * Client-side executors for the tools declared in the chat-assistant edge
+ * function. Read tools run immediately during a turn; write tools are only
+ * ever returned as proposed actions and run once the user approves them.
+ */
+
+const READ_TOOLS: AssistantReadToolName[] = ['search_messages', 'get_issue_details'];
+const WRITE_TOOLS: AssistantWriteToolName[] = ['create_event', 'open_issue', 'add_profile_note', 'record_agreement_item'];
+
+export const isReadTool = (name: string): name is AssistantReadToolName =>
+  READ_TOOLS.includes(name as AssistantReadToolName);
+
+export const isWriteTool = (name: string): name is AssistantWriteToolName =>
+  WRITE_TOOLS.includes(name as AssistantWriteToolName);
+
+const stripHighlights = (text: string) => text.replace(/\[\[|\]\]/g, '');
+
+/**
+ * Runs a read tool and returns the JSON string sent back to the model.
+ */
+export async function runReadTool(name: AssistantReadToolName, args: Record<string, any>): Promise<string> {
+  switch (name) {
+    case 'search_messages': {
+      const limit = Math.min(Number(args.limit) || 10, 25);
+      const results = await api.searchCaseFile(String(args.query || ''), { resultTypes: ['message'] }, limit);
+      return JSON.stringify(results.map(r => ({
+        marker: `[[msg:${r.id}]]`,
+        date: r.occurredAt,
+        conversation: r.title,
+        text: stripHighlights(r.snippet)
+      })));
+    }
+
+    case 'get_issue_details': {
+      const issues = await api.getIssues();
+      const issue = issues.find(i => i.id === args.issueId)
+        || (args.title ? issues.find(i => titlesMatch(i.title, args.title) || i.title.toLowerCase().includes(String(args.title).toLowerCase())) : undefined);
+      if (!issue) return JSON.stringify({ error: 'No matching issue found' });
+
+      const [people, rules] = await Promise.all([api.getPeopleForIssue(issue.id), api.getRulesForIssue(issue.id)]);
+      return JSON.stringify({
+        ...issue,
+        people: people.map(p => ({ id: p.id, name: p.fullName, contribution: p.contributionType, description: p.contributionDescription })),
+        agreementItems: rules.items.map(i => ({ marker: `[[item:${i.id}]]`, topic: i.topic, text: i.summary || i.fullText })),
+        courtClauses: rules.clauses.map(c => ({ marker: `[[clause:${c.id}]]`, ref: c.clauseRef, text: c.summary || c.fullText }))
+      });
+    }
+  }
+}
+
+/**
+ * One-line description of a proposed action, shown on its confirmation card
+ * and replayed to the model in later turns.
+ */
+export function summarizeAction(action: AssistantAction): string {
+  const { args } = action;
+  switch (action.tool) {
+    case 'create_event': return `Create event "${args.title}" on ${args.date}`;
+    case 'open_issue': return `Open issue "${args.title}" (${args.priority || IssuePriority.Medium} priority)`;
+    case 'add_profile_note': return `Add ${args.type || 'observation'} note to profile`;
+    case 'record_agreement_item': return `Record agreement item on ${args.topic}`;
+  }
+}
+
+/**
+ * Applies an approved action through the api and returns it with its new
+ * status. Failures are captured on the action rather than thrown.
+ */
+export async function applyAssistantAction(action: AssistantAction): Promise<AssistantAction> {
+  const { args } = action;
+  try {
+    switch (action.tool) {
+      case 'create_event': {
+        const event = await api.createEvent({ title: args.title, description: args.description || '', date: args.date });
+        return { ...action, status: 'approved', resultId: event.id, resultPath: '/timeline' };
+      }
+
+      case 'open_issue': {
+        const issue = await api.createIssue({
+          title: args.title,
+          description: args.description || '',
+          status: IssueStatus.Open,
+          priority: Object.values(IssuePriority).includes(args.priority) ? args.priority : IssuePriority.Medium
+        }, { changedBy: 'assistant' });
+        if (Array.isArray(args.personIds) && args.personIds.length > 0) {
+          await api.linkPeopleToIssue(issue.id, args.personIds);
+        }
+        return { ...action, status: 'approved', resultId: issue.id, resultPath: `/issues/${issue.id}` };
+      }
+
+      case 'add_profile_note': {
+        const note = await api.createProfileNote({
+          personId: args.personId,
+          type: ['observation', 'strategy', 'pattern'].includes(args.type) ? args.type : 'observation',
+          content: args.content
+        });
+        return { ...action, status: 'approved', resultId: note.id, resultPath: `/people/${args.personId}` };
+      }
+
+      case 'record_agreement_item': {
+        const item = { topic: args.topic, fullText: args.fullText, summary: args.summary || args.fullText };
+        if (args.sourceConversationId) {
+          const agreement = await api.getOrCreateConversationAgreement();
+          const created = await api.createAgreementItemFromConversation(agreement.id, {
+            ...item,
+            sourceConversationId: args.sourceConversationId,
+            sourceMessageId: args.sourceMessageId
+          });
+          return { ...action, status: 'approved', resultId: created.id, resultPath: `/rules/agreements/${agreement.id}` };
+        }
+        const { agreement, items } = await api.createManualAgreement(
+          { title: args.topic, sourceType: AgreementSourceType.Other, status: AgreementStatus.Agreed },
+          [item]
+        );
+        return { ...action, status: 'approved', resultId: items[0]?.id, resultPath: `/rules/agreements/${agreement.id}` };
+      }
+    }
+  } catch (err: any) {
+    return { ...action, status: 'failed', error: err.message || 'Failed to apply change' };
+  }
+}
@@ -0,0 +1,248 @@
+import { supabase } from '../lib/supabase';
+import { api } from './api';
+import {
+  AgreementItem, CaseEmbeddingSource, CaseEmbeddingSourceType, Conversation, ConversationAnalysis,
+  Message, Person, ProfileNote, RetrievedPassage
+} from '../types';
+import { format } from 'date-fns';
+
+/**
+ * Embeddings index over the case file used by the assistant to retrieve
+ * relevant passages regardless of how old they are. Records are rendered to
+ * text, hashed, and only re-embedded when that text changes.
+ */
+
+// Inputs per call to the generate-embeddings edge function
+const EMBED_CHUNK_SIZE = 256;
+// Full re-sync of the index runs at most this often per browser session
+const SYNC_INTERVAL_MS = 10 * 60 * 1000;
+
+let lastSyncAt = 0;
+let syncInFlight: Promise<void> | null = null;
+// Model the edge function currently embeds with; probed once per session so
+// rows embedded by a previous model are found and re-embedded
+let currentEmbeddingModel: string | null = null;
+
+// FNV-1a; only used to detect changed content, not for security
+function hashContent(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}-${text.length}`;
+}
+
+const formatDate = (iso?: string) => (iso ? format(new Date(iso), 'yyyy-MM-dd') : 'undated');
+
+export interface EmbeddedTexts {
+  embeddings: number[][];
+  // provider/model that produced the vectors
+  model: string;
+}
+
+export async function embedTexts(texts: string[]): Promise<EmbeddedTexts> {
+  const embeddings: number[][] = [];
+  let model = '';
+  for (let i = 0; i < texts.length; i += EMBED_CHUNK_SIZE) {
+    const { data, error } = await supabase.functions.invoke('generate-embeddings', {
+      body: { inputs: texts.slice(i, i + EMBED_CHUNK_SIZE) }
+    });
+    if (error || !Array.isArray(data?.embeddings) || !data?.embeddingModel) {
+      throw new Error(`Failed to generate embeddings: ${error?.message || 'invalid response'}`);
+    }
+    embeddings.push(...data.embeddings);
+    model = data.embeddingModel;
+  }
+  currentEmbeddingModel = model || currentEmbeddingModel;
+  return { embeddings, model };
+}
+
+async function getCurrentEmbeddingModel(): Promise<string> {
+  if (!currentEmbeddingModel) await embedTexts(['model probe']);
+  return currentEmbeddingModel!;
+}
+
+// --- Rendering records to indexable text ---
+
+export function messageSources(messages: Message[], conversations: Conversation[], people: Person[]): CaseEmbeddingSource[] {
+  const name = (id?: string) => people.find(p => p.id === id)?.fullName || 'Unknown';
+  return messages
+    .filter(m => m.rawText?.trim())
+    .map(m => {
+      const conversation = conversations.find(c => c.id === m.conversationId);
+      return {
+        sourceType: 'message' as const,
+        sourceId: m.id,
+        conversationId: m.conversationId,
+        personId: m.senderId,
+        occurredAt: m.sentAt,
+        content: `[${formatDate(m.sentAt)}] ${conversation?.title || 'Conversation'} - ${name(m.senderId)}` +
+          `${m.receiverId ? ` to ${name(m.receiverId)}` : ''}: ${m.rawText}`
+      };
+    });
+}
+
+export function analysisSources(analyses: ConversationAnalysis[], conversations: Conversation[]): CaseEmbeddingSource[] {
+  return analyses
+    .filter(a => a.summary?.trim())
+    .map(a => {
+      const conversation = conversations.find(c => c.id === a.conversationId);
+      return {
+        sourceType: 'analysis' as const,
+        sourceId: a.id,
+        conversationId: a.conversationId,
+        occurredAt: conversation?.endedAt || conversation?.startedAt || a.createdAt,
+        content: `Analysis of "${conversation?.title || 'Conversation'}" (${formatDate(conversation?.startedAt)}, tone: ${a.overallTone}): ${a.summary}`
+      };
+    });
+}
+
+export function agreementItemSources(items: AgreementItem[]): CaseEmbeddingSource[] {
+  return items.map(i => ({
+    sourceType: 'agreement_item' as const,
+    sourceId: i.id,
+    conversationId: i.sourceConversationId,
+    occurredAt: i.detectedAt,
+    content: `Agreement ${i.itemRef ? `${i.itemRef} ` : ''}[${i.topic}]: ${i.summary ? `${i.summary}\n` : ''}${i.fullText}`
+  }));
+}
+
+export function profileNoteSources(notes: ProfileNote[], people: Person[]): CaseEmbeddingSource[] {
+  return notes.map(n => ({
+    sourceType: 'profile_note' as const,
+    sourceId: n.id,
+    personId: n.personId,
+    occurredAt: n.createdAt,
+    content: `Profile note on ${people.find(p => p.id === n.personId)?.fullName || 'unknown person'} (${n.type}, ${formatDate(n.createdAt)}): ${n.content}`
+  }));
+}
+
+// --- Indexing ---
+
+/**
+ * Embeds and stores the given sources, skipping any whose text is unchanged
+ * since it was last indexed. Returns the number of records embedded.
+ */
+export async function indexSources(sources: CaseEmbeddingSource[]): Promise<number> {
+  if (sources.length === 0) return 0;
+
+  const sourceTypes = Array.from(new Set(sources.map(s => s.sourceType)));
+  const existing = new Map<CaseEmbeddingSourceType, Map<string, { contentHash: string; embeddingModel?: string }>>();
+  for (const type of sourceTypes) {
+    existing.set(type, await api.getCaseEmbeddingHashes(type));
+  }
+  const model = await getCurrentEmbeddingModel();
+
+  // Re-embed when the text changed or the row was embedded by another model
+  const changed = sources
+    .map(s => ({ ...s, contentHash: hashContent(s.content) }))
+    .filter(s => {
+      const indexed = existing.get(s.sourceType)?.get(s.sourceId);
+      return indexed?.contentHash !== s.contentHash || indexed?.embeddingModel !== model;
+    });
+
+  for (let i = 0; i < changed.length; i += EMBED_CHUNK_SIZE) {
+    const chunk = changed.slice(i, i + EMBED_CHUNK_SIZE);
+    const { embeddings, model: embeddingModel } = await embedTexts(chunk.map(s => s.content));
+    await api.upsertCaseEmbeddings(chunk.map((s, idx) => ({ ...s, embedding: embeddings[idx], embeddingModel })));
+  }
+
+  return changed.length;
+}
+
+/**
+ * Re-indexes one conversation's messages and analysis summary. Called after
+ * import and re-analysis so the assistant sees new material immediately.
+ */
+export async function indexConversation(conversationId: string): Promise<number> {
+  const [conversations, people, messages, analysis] = await Promise.all([
+    api.getConversations(),
+    api.getPeople(),
+    api.getMessagesChecked(conversationId),
+    api.getConversationAnalysis(conversationId)
+  ]);
+
+  return indexSources([
+    ...messageSources(messages, conversations, people),
+    ...(analysis ? analysisSources([analysis], conversations) : [])
+  ]);
+}
+
+/**
+ * Brings the whole index up to date: backfills anything never indexed,
+ * refreshes edited agreement items and notes, and drops agreement items that
+ * are no longer active. Rows for deleted records are removed by database
+ * triggers as the records are deleted.
+ */
+export async function syncCaseIndex(): Promise<void> {
+  const [conversations, people, messages, items] = await Promise.all([
+    api.getConversations(),
+    api.getPeople(),
+    api.getMessagesChecked(),
+    api.getAllActiveAgreementItems()
+  ]);
+  const [analyses, notesByPerson] = await Promise.all([
+    api.getConversationAnalyses(),
+    Promise.all(people.map(p => api.getProfileNotes(p.id)))
+  ]);
+
+  await indexSources([
+    ...messageSources(messages, conversations, people),
+    ...analysisSources(analyses, conversations),
+    ...agreementItemSources(items),
+    ...profileNoteSources(notesByPerson.flat(), people)
+  ]);
+
+  const activeItemIds = new Set(items.map(i => i.id));
+  const indexedItemIds = Array.from((await api.getCaseEmbeddingHashes('agreement_item')).keys());
+  await api.deleteCaseEmbeddings('agreement_item', indexedItemIds.filter(id => !activeItemIds.has(id)));
+}
+
+/**
+ * Runs syncCaseIndex at most once per SYNC_INTERVAL_MS. Failures are logged
+ * and retried on the next call rather than blocking the assistant.
+ */
+export function ensureCaseIndexFresh(): Promise<void> {
+  if (syncInFlight) return syncInFlight;
+  if (Date.now() - lastSyncAt < SYNC_INTERVAL_MS) return Promise.resolve();
+
+  syncInFlight = syncCaseIndex()
+    .then(() => { lastSyncAt = Date.now(); })
+    .catch(err => console.warn('Case index sync failed:', err))
+    .finally(() => { syncInFlight = null; });
+  return syncInFlight;
+}
+
+// --- Retrieval ---
+
+/**
+ * Passages from anywhere in the case file most relevant to the query. Falls
+ * back to full-text search when embeddings are unavailable.
+ */
+export async function retrieveRelevantPassages(
+  query: string,
+  limit = 40,
+  sourceTypes?: CaseEmbeddingSourceType[]
+): Promise<RetrievedPassage[]> {
+  if (!query.trim()) return [];
+
+  try {
+    const { embeddings: [embedding], model } = await embedTexts([query]);
+    return await api.matchCaseEmbeddings(embedding, model, limit, sourceTypes);
+  } catch (err) {
+    console.warn('Embedding retrieval failed, falling back to full-text search:', err);
+  }
+
+  const resultTypes = sourceTypes || ['message', 'analysis', 'agreement_item', 'profile_note'];
+  const results = await api.searchCaseFile(query, { resultTypes }, limit).catch(() => []);
+  return results.map(r => ({
+    sourceType: r.type as CaseEmbeddingSourceType,
+    sourceId: r.id,
+    conversationId: r.conversationId,
+    personId: r.personId,
+    occurredAt: r.occurredAt,
+    content: `${r.title}: ${r.snippet.replace(/\[\[|\]\]/g, '')}`,
+    similarity: r.rank
+  }));
+}
@@ -0,0 +1,264 @@
+import { api } from './api';
+import { Issue, Event, LegalClause, AgreementItem } from '../types';
+import { format } from 'date-fns';
+
+/**
+ * Evidence packet export for an issue.
+ * Bundles the issue, every linked message (as numbered exhibits with a SHA-256
+ * of the verbatim text), contribution attributions, governing rules and related
+ * events into a single structure that can be saved as JSON or printed to PDF.
+ */
+
+export interface EvidenceExhibit {
+  exhibitNumber: number;
+  exhibitLabel: string;
+  messageId: string;
+  conversationId: string;
+  conversationTitle?: string;
+  sourceType?: string;
+  sentAt: string;
+  senderId: string;
+  senderName: string;
+  receiverId?: string;
+  receiverName?: string;
+  direction: string;
+  rawText: string;
+  sha256: string;
+  // Hash recorded when the exhibit number was first assigned
+  recordedSha256: string;
+  unchangedSinceFirstExport: boolean;
+}
+
+export interface EvidenceAttribution {
+  personId: string;
+  fullName: string;
+  role: string;
+  contributionType?: string;
+  contributionDescription?: string;
+  contributionValence?: string;
+}
+
+export interface EvidencePacket {
+  formatVersion: 1;
+  generatedAt: string;
+  hashAlgorithm: 'SHA-256';
+  issue: Issue;
+  exhibits: EvidenceExhibit[];
+  attributions: EvidenceAttribution[];
+  rules: {
+    legalClauses: LegalClause[];
+    agreementItems: AgreementItem[];
+  };
+  events: Event[];
+  // SHA-256 over the exhibit hashes joined in exhibit order
+  manifestSha256: string;
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const byDateAsc = (a: string, b: string) => new Date(a).getTime() - new Date(b).getTime();
+
+export async function buildEvidencePacket(issueId: string): Promise<EvidencePacket> {
+  const [issue, events, linkedMessages, rules, involvedPeople, people, conversations] = await Promise.all([
+    api.getIssue(issueId),
+    api.getEvents(issueId),
+    api.getMessagesForIssue(issueId),
+    api.getRulesForIssue(issueId),
+    api.getPeopleForIssue(issueId),
+    api.getPeople(),
+    api.getConversations()
+  ]);
+
+  if (!issue) throw new Error('Issue not found');
+
+  const messages = [...linkedMessages].sort((a, b) => byDateAsc(a.sentAt, b.sentAt) || a.id.localeCompare(b.id));
+
+  const hashes = await Promise.all(messages.map(m => sha256Hex(m.rawText)));
+
+  const numbering = await api.getOrAssignIssueExhibits(
+    issueId,
+    messages.map((m, i) => ({ messageId: m.id, contentSha256: hashes[i] }))
+  );
+
+  const personName = (id?: string) => id ? people.find(p => p.id === id)?.fullName || 'Unknown' : undefined;
+
+  const exhibits: EvidenceExhibit[] = messages.map((m, i) => {
+    const assigned = numbering.find(n => n.messageId === m.id)!;
+    const conversation = conversations.find(c => c.id === m.conversationId);
+    return {
+      exhibitNumber: assigned.exhibitNumber,
+      exhibitLabel: `Exhibit ${assigned.exhibitNumber}`,
+      messageId: m.id,
+      conversationId: m.conversationId,
+      conversationTitle: conversation?.title,
+      sourceType: conversation?.sourceType,
+      sentAt: m.sentAt,
+      senderId: m.senderId,
+      senderName: personName(m.senderId) || 'Unknown',
+      receiverId: m.receiverId,
+      receiverName: personName(m.receiverId),
+      direction: m.direction,
+      rawText: m.rawText,
+      sha256: hashes[i],
+      recordedSha256: assigned.recordedSha256,
+      unchangedSinceFirstExport: assigned.recordedSha256 === hashes[i]
+    };
+  }).sort((a, b) => a.exhibitNumber - b.exhibitNumber);
+
+  const attributions: EvidenceAttribution[] = involvedPeople.map(p => ({
+    personId: p.id,
+    fullName: p.fullName,
+    role: p.role,
+    contributionType: p.contributionType,
+    contributionDescription: p.contributionDescription,
+    contributionValence: p.contributionValence
+  }));
+
+  return {
+    formatVersion: 1,
+    generatedAt: new Date().toISOString(),
+    hashAlgorithm: 'SHA-256',
+    issue,
+    exhibits,
+    attributions,
+    rules: {
+      legalClauses: rules.clauses,
+      agreementItems: rules.items
+    },
+    events: [...events].sort((a, b) => byDateAsc(a.date, b.date)),
+    manifestSha256: await sha256Hex(exhibits.map(e => e.sha256).join('\n'))
+  };
+}
+
+const packetFileName = (packet: EvidencePacket, ext: string) => {
+  const slug = packet.issue.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `evidence-${slug || packet.issue.id}-${format(new Date(packet.generatedAt), 'yyyyMMdd-HHmm')}.${ext}`;
+};
+
+export function downloadEvidencePacketJson(packet: EvidencePacket): void {
+  const blob = new Blob([JSON.stringify(packet, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = packetFileName(packet, 'json');
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const formatDate = (date: string) => format(new Date(date), 'MMM d, yyyy h:mm a');
+
+function renderEvidencePacketHtml(packet: EvidencePacket): string {
+  const { issue, exhibits, attributions, rules, events } = packet;
+
+  const exhibitHtml = exhibits.map(e => `
+    <section class="exhibit">
+      <h3>${e.exhibitLabel}</h3>
+      <table>
+        <tr><th>Date</th><td>${formatDate(e.sentAt)} (${escapeHtml(e.sentAt)})</td></tr>
+        <tr><th>From</th><td>${escapeHtml(e.senderName)}</td></tr>
+        ${e.receiverName ? `<tr><th>To</th><td>${escapeHtml(e.receiverName)}</td></tr>` : ''}
+        ${e.conversationTitle ? `<tr><th>Conversation</th><td>${escapeHtml(e.conversationTitle)}${e.sourceType ? ` (${escapeHtml(e.sourceType)})` : ''}</td></tr>` : ''}
+        <tr><th>Message ID</th><td class="mono">${e.messageId}</td></tr>
+        <tr><th>SHA-256</th><td class="mono">${e.sha256}</td></tr>
+        ${e.unchangedSinceFirstExport ? '' : `<tr><th>Note</th><td>Text differs from the version first exported (recorded hash ${e.recordedSha256}).</td></tr>`}
+      </table>
+      <pre>${escapeHtml(e.rawText)}</pre>
+    </section>`).join('');
+
+  const attributionHtml = attributions.length === 0 ? '<p><em>No people linked to this issue.</em></p>' : `
+    <table class="list">
+      <tr><th>Name</th><th>Role</th><th>Contribution</th><th>Description</th></tr>
+      ${attributions.map(a => `<tr>
+        <td>${escapeHtml(a.fullName)}</td>
+        <td>${escapeHtml(a.role)}</td>
+        <td>${escapeHtml(a.contributionType || 'involved')}${a.contributionValence ? ` (${escapeHtml(a.contributionValence)})` : ''}</td>
+        <td>${escapeHtml(a.contributionDescription || '')}</td>
+      </tr>`).join('')}
+    </table>`;
+
+  const rulesHtml = [
+    ...rules.legalClauses.map(c => `<div class="rule"><strong>Legal ${escapeHtml(c.clauseRef)} — ${escapeHtml(c.topic)}</strong><pre>${escapeHtml(c.fullText)}</pre></div>`),
+    ...rules.agreementItems.map(i => `<div class="rule"><strong>Agreement ${escapeHtml(i.itemRef || 'Item')} — ${escapeHtml(i.topic)}</strong><pre>${escapeHtml(i.fullText)}</pre></div>`)
+  ].join('') || '<p><em>No rules linked to this issue.</em></p>';
+
+  const eventsHtml = events.length === 0 ? '<p><em>No events linked to this issue.</em></p>' : `
+    <table class="list">
+      <tr><th>Date</th><th>Event</th><th>Description</th></tr>
+      ${events.map(e => `<tr><td>${formatDate(e.date)}</td><td>${escapeHtml(e.title)}</td><td>${escapeHtml(e.description || '')}</td></tr>`).join('')}
+    </table>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(packetFileName(packet, 'pdf'))}</title>
+  <style>
+    body { font-family: Georgia, 'Times New Roman', serif; color: #111; margin: 2rem; font-size: 11pt; }
+    h1 { font-size: 18pt; margin-bottom: 0.25rem; }
+    h2 { font-size: 14pt; border-bottom: 1px solid #999; padding-bottom: 0.25rem; margin-top: 2rem; }
+    h3 { font-size: 12pt; margin-bottom: 0.5rem; }
+    table { border-collapse: collapse; margin-bottom: 0.5rem; }
+    th { text-align: left; padding: 2px 12px 2px 0; vertical-align: top; white-space: nowrap; }
+    td { padding: 2px 8px 2px 0; vertical-align: top; }
+    table.list { width: 100%; }
+    table.list th, table.list td { border-bottom: 1px solid #ddd; padding: 4px 8px 4px 0; }
+    pre { white-space: pre-wrap; word-wrap: break-word; font-family: inherit; background: #f6f6f6; border: 1px solid #ddd; padding: 0.75rem; }
+    .mono { font-family: 'Courier New', monospace; font-size: 9pt; word-break: break-all; }
+    .meta { color: #555; font-size: 9pt; }
+    .exhibit { page-break-inside: avoid; margin-bottom: 1.5rem; }
+    .rule { margin-bottom: 1rem; }
+  </style>
+</head>
+<body>
+  <h1>Evidence Packet: ${escapeHtml(issue.title)}</h1>
+  <p class="meta">Generated ${formatDate(packet.generatedAt)} · ${exhibits.length} exhibit(s) · Manifest SHA-256 <span class="mono">${packet.manifestSha256}</span></p>
+
+  <h2>Issue</h2>
+  <table>
+    <tr><th>Status</th><td>${escapeHtml(issue.status)}</td></tr>
+    <tr><th>Priority</th><td>${escapeHtml(issue.priority)}</td></tr>
+    <tr><th>Last Updated</th><td>${formatDate(issue.updatedAt)}</td></tr>
+  </table>
+  <pre>${escapeHtml(issue.description || '')}</pre>
+
+  <h2>People Involved</h2>
+  ${attributionHtml}
+
+  <h2>Governing Rules</h2>
+  ${rulesHtml}
+
+  <h2>Chronology of Events</h2>
+  ${eventsHtml}
+
+  <h2>Exhibits</h2>
+  <p class="meta">Each exhibit reproduces the message text verbatim. The SHA-256 is computed over the UTF-8 encoding of that text.</p>
+  ${exhibitHtml || '<p><em>No messages linked to this issue.</em></p>'}
+</body>
+</html>`;
+}
+
+/**
+ * Writes the packet into a print-formatted window so it can be saved as PDF
+ * via the browser's print dialog. Pass a window opened synchronously from the
+ * click handler, otherwise pop-up blockers will reject it after the await.
+ */
+export function printEvidencePacket(packet: EvidencePacket, target?: Window | null): void {
+  const win = target || window.open('', '_blank');
+  if (!win) throw new Error('Pop-up blocked. Allow pop-ups to export the PDF.');
+  win.document.open();
+  win.document.write(renderEvidencePacketHtml(packet));
+  win.document.close();
+  win.focus();
+  win.print();
+}
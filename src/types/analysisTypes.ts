@@ -8,6 +8,11 @@ export interface ClaimEntry {
   evidence: string;
   verificationStatus: 'supported' | 'contradicted' | 'ambiguous';
   notes: string;
+  // Set by the evidence check: false when the quote wasn't found in the messages
+  evidenceVerified?: boolean;
+  // Commitments only: message the commitment was made in and when it is due (yyyy-MM-dd)
+  messageId?: string;
+  dueDate?: string;
 }
 
 // NEW: Alternative interpretations section
@@ -44,6 +49,15 @@ export interface ConversationAnalysisResult {
   personAnalyses: PersonAnalysisResult[];
   messageAnnotations: MessageAnnotation[];
   detectedAgreements: DetectedAgreement[];
+  analysisMeta?: AnalysisMeta;
+}
+
+// Provenance reported by the edge function, stored with each analysis version
+export interface AnalysisMeta {
+  model?: string;
+  promptVersion?: string;
+  userGuidance?: string;
+  faithfulness?: FaithfulnessReport; // set by the client-side evidence check
 }
 
 export interface DetectedAgreement {
@@ -79,6 +93,11 @@ export interface IssueAction {
   // NEW format (preferred when available)
   personContributions?: IssuePersonContribution[];
   reasoning: string;
+  // Only with status "resolved": why, and the message that settled it
+  resolution?: {
+    note: string;
+    messageId?: string;
+  };
 }
 
 export interface AgreementViolation {
@@ -86,6 +105,8 @@ export interface AgreementViolation {
   violationType: 'direct' | 'potential' | 'pattern';
   description: string;
   messageIds: string[];
+  // Exchange log entries cited as evidence (parenting-time violations)
+  exchangeLogIds?: string[];
   severity: 'minor' | 'moderate' | 'severe';
 }
 
@@ -134,6 +155,7 @@ export interface PersonConcern {
   description: string;
   evidence: string[];
   severity: 'low' | 'medium' | 'high';
+  evidenceVerified?: boolean;
 }
 
 // Expanded flag types for behavioral attribution
@@ -179,9 +201,18 @@ export interface MessageAnnotation {
     evidence: string;
     impact?: string; // How it affects resolution
     verificationStatus?: 'supported' | 'contradicted' | 'ambiguous';
+    evidenceVerified?: boolean;
   }>;
 }
 
+// How much of a run's quoted evidence was found in the stored messages
+export interface FaithfulnessReport {
+  score: number | null; // verified / checked quotes; null when nothing was quoted
+  quotesChecked: number;
+  quotesVerified: number;
+  rejectedMessageIds: number;
+}
+
 // Summary shown to user after import
 export interface AnalysisSummary {
   conversationTone: string;
@@ -192,3 +223,35 @@ export interface AnalysisSummary {
   keyFindings: string[];
   agreementsDetected?: number;
 }
+
+// Stage (and window, for long conversations) a pipeline run is working on
+export interface AnalysisProgress {
+  stage: string;
+  stageName: string;
+  stageNumber: number;
+  totalStages: number;
+  chunkNumber?: number;
+  totalChunks?: number;
+}
+
+// 'pending' runs are queued for the server-side worker
+export type AnalysisRunStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface AnalysisRun {
+  id: string;
+  conversationId: string;
+  status: AnalysisRunStatus;
+  progress?: AnalysisProgress;
+  completedStages: string[];
+  result?: ConversationAnalysisResult;
+  // Set once a client has written the result into the case file
+  appliedAt?: string;
+  // Sections already written by an earlier, interrupted apply
+  appliedSections: string[];
+  errorMessage?: string;
+  errorStage?: string;
+  queuedAt?: string;
+  startedAt?: string;
+  completedAt?: string;
+  updatedAt?: string;
+}
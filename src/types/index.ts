@@ -1,3 +1,5 @@
+import type { FaithfulnessReport } from './analysisTypes';
+
 export enum Role {
   Me = 'Me',
   Parent = 'Parent',
@@ -50,6 +52,16 @@ export interface Person {
   roleContext?: string;
 }
 
+// Another name, nickname, address or number a person shows up under in imports
+export type PersonAliasType = 'name' | 'nickname' | 'email' | 'phone' | 'ofw_name';
+
+export interface PersonAlias {
+  id: string;
+  personId: string;
+  aliasType: PersonAliasType;
+  alias: string;
+}
+
 // --- Person Relationships Types ---
 
 export interface PersonRelationship {
@@ -113,6 +125,64 @@ export interface Issue {
   status: IssueStatus;
   priority: IssuePriority;
   updatedAt: string;
+  // Parent in the issue hierarchy; undefined for top-level issues
+  parentIssueId?: string;
+}
+
+// issueId cannot be resolved until blockedByIssueId is
+export interface IssueDependency {
+  id: string;
+  issueId: string;
+  blockedByIssueId: string;
+}
+
+// Left behind when an issue is merged into another, so its old id still resolves
+export interface IssueRedirect {
+  fromIssueId: string;
+  toIssueId: string;
+  mergedTitle: string;
+  createdAt: string;
+}
+
+// A newly created issue that looks like an existing one, awaiting the user's decision
+export interface IssueDuplicateSuggestion {
+  id: string;
+  issueId: string;
+  suggestedIssueId: string;
+  similarity: number;
+  status: 'pending' | 'dismissed';
+  createdAt: string;
+}
+
+// Who or what changed an issue: the user, the pipeline stage that proposed it, or an assistant action
+export type IssueChangeSource = 'user' | 'issue_linking' | 'issue_detection' | 'assistant';
+
+export type IssueHistoryField = 'title' | 'description' | 'status' | 'priority';
+
+// Required whenever an issue is marked resolved
+export interface IssueResolution {
+  note: string;
+  agreementItemId?: string;
+  messageId?: string;
+}
+
+export interface IssueChangeContext {
+  changedBy: IssueChangeSource;
+  conversationId?: string;
+  resolution?: IssueResolution;
+}
+
+export interface IssueHistoryEntry {
+  id: string;
+  issueId: string;
+  changedBy: IssueChangeSource;
+  // Only the fields that changed; a creation entry has from = null throughout
+  changes: Partial<Record<IssueHistoryField, { from: string | null; to: string | null }>>;
+  conversationId?: string;
+  resolutionNote?: string;
+  resolvingAgreementItemId?: string;
+  resolvingMessageId?: string;
+  createdAt: string;
 }
 
 export interface Event {
@@ -210,6 +280,46 @@ export interface ConversationAnalysis {
   topicCategorySlugs: string[];
   agreementViolations: any[];
   messageAnnotations: any[];
+  faithfulness?: FaithfulnessReport;
+  createdAt: string;
+}
+
+export type FlagReviewStatus = 'confirmed' | 'corrected' | 'dismissed';
+
+// A reviewer's decision on one AI message flag, matched by message, type and person
+export interface FlagReview {
+  id: string;
+  conversationId: string;
+  messageId: string;
+  flagType: string;
+  attributedToPersonId: string;
+  status: FlagReviewStatus;
+  correctedType?: string;
+  correctedSeverity?: 'low' | 'medium' | 'high';
+  correctedPersonId?: string;
+  correctedEvidence?: string;
+  reason?: string;
+  reviewedAt: string;
+}
+
+export type AnalysisVersionSource = 'analysis' | 'amendment' | 'backfill';
+
+// One saved analysis of a conversation; the newest matches ConversationAnalysis
+export interface AnalysisVersion {
+  id: string;
+  conversationId: string;
+  source: AnalysisVersionSource;
+  model?: string;
+  promptVersion?: string;
+  userGuidance?: string;
+  summary: string;
+  overallTone: string;
+  keyTopics: string[];
+  topicCategorySlugs: string[];
+  agreementViolations: any[];
+  messageAnnotations: any[];
+  issueActions: any[];
+  faithfulness?: FaithfulnessReport;
   createdAt: string;
 }
 
@@ -362,6 +472,41 @@ export interface AssistantMessage {
   linkedTargetType?: 'conversation' | 'issue' | 'event' | 'person' | 'legal_document' | 'agreement' | 'none';
   linkedTargetId?: string;
   fileId?: string;
+  // Undefined for messages never checked for citations (user turns, notices, older answers)
+  citations?: AssistantCitation[];
+  // Changes the assistant proposed via tool calls, applied only once approved
+  actions?: AssistantAction[];
+}
+
+export type AssistantReadToolName = 'search_messages' | 'get_issue_details';
+export type AssistantWriteToolName = 'create_event' | 'open_issue' | 'add_profile_note' | 'record_agreement_item';
+
+export type AssistantActionStatus = 'pending' | 'approved' | 'rejected' | 'failed';
+
+export interface AssistantAction {
+  // Tool call id from the model
+  id: string;
+  tool: AssistantWriteToolName;
+  args: Record<string, any>;
+  status: AssistantActionStatus;
+  resultId?: string;
+  // App route to the created record
+  resultPath?: string;
+  error?: string;
+}
+
+export type CitationTargetType = 'message' | 'agreement_item' | 'legal_clause';
+
+export interface CitationRef {
+  targetType: CitationTargetType;
+  targetId: string;
+}
+
+export interface AssistantCitation extends CitationRef {
+  // Conversation, agreement or legal document containing the target; unset if the id did not resolve
+  parentId?: string;
+  label: string;
+  detail?: string;
 }
 
 export interface AssistantFile {
@@ -373,3 +518,221 @@ export interface AssistantFile {
   detectedSourceType: SourceType | 'unknown';
   uploadedAt: string;
 }
+
+// --- Reimbursement Types ---
+
+export enum ReimbursementStatus {
+  Pending = 'pending',
+  PartiallyPaid = 'partially_paid',
+  Paid = 'paid',
+  Declined = 'declined',
+  Disputed = 'disputed'
+}
+
+export type LedgerEntryType = 'expense' | 'child_support';
+
+export interface Reimbursement {
+  id: string;
+  entryType: LedgerEntryType;
+  title: string;
+  category?: string;
+  expenseDate: string;
+  amount: number;
+  amountRequested?: number;
+  paidByPersonId?: string;
+  requestedFromPersonId?: string;
+  status: ReimbursementStatus;
+  dueDate?: string;
+  // Share owed by requestedFromPersonId, from the financial agreement item
+  splitPercentage?: number;
+  agreementItemId?: string;
+  receiptPath?: string;
+  requestedAt?: string;
+  paidAt?: string;
+  amountPaid: number;
+  // Message in which the reimbursement was requested
+  sourceMessageId?: string;
+  notes?: string;
+  sourceType: SourceType;
+  createdAt: string;
+}
+
+// --- Search Types ---
+
+export type SearchResultType = 'message' | 'analysis' | 'issue' | 'profile_note' | 'agreement_item' | 'legal_clause';
+
+export interface SearchFilters {
+  personId?: string;
+  startDate?: string;
+  endDate?: string;
+  sourceType?: SourceType;
+  topicSlug?: string;
+  resultTypes?: SearchResultType[];
+}
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  // Matched terms are wrapped in [[ ]]
+  snippet: string;
+  occurredAt?: string;
+  conversationId?: string;
+  personId?: string;
+  // Agreement id for agreement items, legal document id for clauses
+  parentId?: string;
+  rank: number;
+}
+
+// --- Parenting Schedule Types ---
+
+export type ParentingScheduleType = 'rotation' | 'holiday' | 'exchange';
+
+export type CustodyRotationPattern =
+  | 'alternating_weeks'
+  | 'alternating_weekends'
+  | '2-2-3'
+  | '2-2-5-5'
+  | '3-4-4-3'
+  | 'custom';
+
+export interface ParentingSchedule {
+  id: string;
+  agreementItemId?: string;
+  scheduleType: ParentingScheduleType;
+  label: string;
+  // Rotation: one person id per day of the cycle, starting at anchorDate
+  pattern?: CustodyRotationPattern;
+  anchorDate?: string;
+  cycle?: string[];
+  // Effective window for rotations/exchanges, or the dates of a holiday
+  startDate?: string;
+  endDate?: string;
+  // Holiday: named holidays are recomputed per year
+  holidayKey?: string;
+  recurrence: 'once' | 'yearly';
+  yearParity?: 'odd' | 'even';
+  custodianPersonId?: string;
+  // Exchange: days of week (0 = Sunday), time as HH:mm
+  exchangeDays?: number[];
+  exchangeTime?: string;
+  exchangeLocation?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+export interface CustodyResolution {
+  date: string;
+  custodianPersonId?: string;
+  source: 'holiday' | 'rotation' | 'none';
+  scheduleId?: string;
+  agreementItemId?: string;
+  holidayLabel?: string;
+  // Set when custody changes hands on this date
+  exchange?: {
+    fromPersonId?: string;
+    toPersonId?: string;
+    time?: string;
+    location?: string;
+  };
+}
+
+// --- Exchange Log Types ---
+
+export enum ExchangeOutcome {
+  OnTime = 'on_time',
+  Late = 'late',
+  Missed = 'missed',
+  Swapped = 'swapped'
+}
+
+export interface ExchangeLog {
+  id: string;
+  scheduledAt: string;
+  actualAt?: string;
+  outcome: ExchangeOutcome;
+  minutesLate?: number;
+  // Parent whose compliance this entry counts against
+  responsiblePersonId?: string;
+  fromPersonId?: string;
+  toPersonId?: string;
+  agreementItemId?: string;
+  scheduleId?: string;
+  location?: string;
+  notes?: string;
+  messageIds: string[];
+  issueIds: string[];
+  createdAt: string;
+}
+
+export interface ExchangeComplianceStats {
+  personId: string;
+  total: number;
+  onTime: number;
+  late: number;
+  missed: number;
+  swapped: number;
+  averageMinutesLate: number;
+  // Share of exchanges that were on time or swapped by agreement
+  complianceRate: number;
+}
+
+// --- Obligation Types ---
+
+export enum ObligationStatus {
+  Open = 'open',
+  Fulfilled = 'fulfilled',
+  Missed = 'missed',
+  Waived = 'waived'
+}
+
+export type ObligationSourceType = 'commitment' | 'agreement_notice' | 'manual';
+
+export interface Obligation {
+  id: string;
+  title: string;
+  description?: string;
+  ownerPersonId?: string;
+  dueDate?: string;
+  status: ObligationStatus;
+  sourceType: ObligationSourceType;
+  sourceConversationId?: string;
+  sourceMessageId?: string;
+  agreementItemId?: string;
+  // Planned event that triggered an agreement notice deadline
+  eventId?: string;
+  claimKey?: string;
+  fulfilledAt?: string;
+  createdAt: string;
+}
+
+// Notice deadline computed from an agreement item and a planned event, not yet tracked
+export interface DerivedDeadline {
+  key: string;
+  title: string;
+  description: string;
+  dueDate: string;
+  noticeDays: number;
+  agreementItemId: string;
+  eventId: string;
+  eventDate: string;
+}
+
+// --- Retrieval Types ---
+
+export type CaseEmbeddingSourceType = 'message' | 'analysis' | 'agreement_item' | 'profile_note';
+
+// A record rendered to text for the embeddings index
+export interface CaseEmbeddingSource {
+  sourceType: CaseEmbeddingSourceType;
+  sourceId: string;
+  conversationId?: string;
+  personId?: string;
+  content: string;
+  occurredAt?: string;
+}
+
+export interface RetrievedPassage extends CaseEmbeddingSource {
+  // Cosine similarity to the query, or full-text rank when retrieved by keyword fallback
+  similarity: number;
+}
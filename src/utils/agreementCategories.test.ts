@@ -0,0 +1,52 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { AgreementItem } from '../types';
+import { CATEGORY_KEYWORDS, getAgreementCategory } from './agreementCategories';
+
+const item = (fields: Partial<AgreementItem>): AgreementItem => ({
+  id: 'item-1',
+  agreementId: 'agreement-1',
+  topic: '',
+  fullText: '',
+  isActive: true,
+  ...fields
+});
+
+const SCHEDULE = ['parenting_time', 'holiday_schedule', 'exchange'] as const;
+
+describe('getAgreementCategory', () => {
+  it('takes the category from the item ref before keywords', () => {
+    expect(getAgreementCategory(item({ itemRef: 'financial-3', summary: 'Payment schedule for daycare' })))
+      .toBe('financial');
+  });
+
+  it('returns null when the ref category is outside among', () => {
+    expect(getAgreementCategory(item({ itemRef: 'financial-3', summary: 'Payment schedule for daycare' }), SCHEDULE))
+      .toBeNull();
+  });
+
+  it('falls back to keywords limited to among when there is no ref', () => {
+    expect(getAgreementCategory(item({ topic: 'Weekend rotation', summary: 'Exchange fee split' }), SCHEDULE))
+      .toBe('exchange');
+    expect(getAgreementCategory(item({ topic: 'Weekend rotation' }), SCHEDULE)).toBe('parenting_time');
+  });
+});
+
+describe('rule_topic_category', () => {
+  // The newest migration that defines the function is the one in effect
+  const migrationsDir = join(__dirname, '../../supabase/migrations');
+  const definition = readdirSync(migrationsDir)
+    .sort()
+    .reverse()
+    .map(file => readFileSync(join(migrationsDir, file), 'utf8'))
+    .find(sql => sql.includes('FUNCTION rule_topic_category'))!;
+
+  it('uses the same keywords, in the same order, as getAgreementCategory', () => {
+    const sqlKeywords = Array.from(definition.matchAll(/WHEN t ~ '([^']+)' THEN '(\w+)'/g))
+      .map(([, pattern, category]) => [category, pattern]);
+    // Postgres spells the word boundary \y
+    const tsKeywords = CATEGORY_KEYWORDS.map(([category, pattern]) => [category, pattern.source.replace(/\\b/g, '\\y')]);
+    expect(sqlKeywords).toEqual(tsKeywords);
+  });
+});
@@ -0,0 +1,35 @@
+import { AgreementCategory, AgreementItem } from '../types';
+
+const AGREEMENT_CATEGORIES: AgreementCategory[] = [
+  'decision_making', 'parenting_time', 'holiday_schedule', 'school', 'communication',
+  'financial', 'travel', 'right_of_first_refusal', 'exchange', 'medical',
+  'extracurricular', 'technology', 'third_party', 'dispute_resolution', 'modification', 'other'
+];
+
+// Checked in order; only categories that features depend on are inferred.
+// rule_topic_category() in the search migration repeats this list for the topic
+// filter; agreementCategories.test.ts fails when the two drift apart.
+export const CATEGORY_KEYWORDS: Array<[AgreementCategory, RegExp]> = [
+  ['financial', /child support|expense|reimburse|payment|cost|financial|fees?\b|insurance premium/],
+  ['holiday_schedule', /holiday|christmas|thanksgiving|easter|spring break|winter break|summer vacation/],
+  ['exchange', /exchange|pick[- ]?up|drop[- ]?off|transfer|handover/],
+  ['parenting_time', /parenting time|custody|visitation|weekend|rotation|schedule/]
+];
+
+/**
+ * Document-extracted items carry their category in item_ref ("parenting_time-3");
+ * items recorded manually or from conversations fall back to keywords in the topic.
+ * `among` limits the answer to those categories, so a schedule item that mentions
+ * a fee is still recognised as a schedule rather than claimed by financial. An
+ * item_ref category outside `among` means the item is not one of them at all.
+ */
+export function getAgreementCategory(
+  item: AgreementItem,
+  among: readonly AgreementCategory[] = AGREEMENT_CATEGORIES
+): AgreementCategory | null {
+  const prefix = AGREEMENT_CATEGORIES.find(c => item.itemRef?.startsWith(`${c}-`));
+  if (prefix) return among.includes(prefix) ? prefix : null;
+
+  const text = `${item.topic} ${item.summary || ''}`.toLowerCase();
+  return CATEGORY_KEYWORDS.find(([category, pattern]) => among.includes(category) && pattern.test(text))?.[0] || null;
+}
@@ -0,0 +1,104 @@
+import { AnalysisVersion } from '../types';
+import { normalizeTextForMatching } from './textMatching';
+
+/**
+ * Compares two saved analysis versions of the same conversation. Items are
+ * matched on stable identifiers rather than wording, since model output is
+ * rarely phrased the same way twice.
+ */
+
+export interface ItemDiff<T> {
+  added: T[];
+  dropped: T[];
+}
+
+export interface DiffFlag {
+  messageId: string;
+  type: string;
+  description: string;
+  attributedToPersonId: string;
+  severity: string;
+}
+
+export interface AnalysisVersionDiff {
+  flags: ItemDiff<DiffFlag>;
+  issueActions: ItemDiff<any>;
+  violations: ItemDiff<any>;
+  summarySentences: ItemDiff<string>;
+  toneChange: { from: string; to: string } | null;
+}
+
+function diffBy<T>(before: T[], after: T[], keyOf: (item: T) => string): ItemDiff<T> {
+  const beforeKeys = new Set(before.map(keyOf));
+  const afterKeys = new Set(after.map(keyOf));
+  return {
+    added: dedupeBy(after.filter(item => !beforeKeys.has(keyOf(item))), keyOf),
+    dropped: dedupeBy(before.filter(item => !afterKeys.has(keyOf(item))), keyOf)
+  };
+}
+
+function dedupeBy<T>(items: T[], keyOf: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = keyOf(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function flattenFlags(version: AnalysisVersion): DiffFlag[] {
+  return version.messageAnnotations.flatMap((annotation: any) =>
+    (annotation.flags || []).map((flag: any) => ({
+      messageId: annotation.messageId,
+      type: flag.type,
+      description: flag.description,
+      attributedToPersonId: flag.attributedToPersonId,
+      severity: flag.severity
+    }))
+  );
+}
+
+// Updates are tied to an existing issue; creates only have their title
+const issueActionKey = (action: any): string =>
+  action.action === 'update' && action.issueId
+    ? `update:${action.issueId}`
+    : `create:${normalizeTextForMatching(action.title || '')}`;
+
+const violationKey = (violation: any): string =>
+  [
+    violation.agreementItemId,
+    violation.violationType,
+    [...(violation.messageIds || [])].sort().join(',')
+  ].join('|');
+
+function splitSentences(text: string): string[] {
+  return (text || '')
+    .split(/(?<=[.!?])\s+/)
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Returns what `newer` added and dropped relative to `older`.
+ */
+export function diffAnalysisVersions(older: AnalysisVersion, newer: AnalysisVersion): AnalysisVersionDiff {
+  return {
+    flags: diffBy(
+      flattenFlags(older),
+      flattenFlags(newer),
+      f => `${f.messageId}|${f.type}|${f.attributedToPersonId}`
+    ),
+    issueActions: diffBy(older.issueActions, newer.issueActions, issueActionKey),
+    violations: diffBy(older.agreementViolations, newer.agreementViolations, violationKey),
+    summarySentences: diffBy(splitSentences(older.summary), splitSentences(newer.summary), normalizeTextForMatching),
+    toneChange: older.overallTone !== newer.overallTone
+      ? { from: older.overallTone, to: newer.overallTone }
+      : null
+  };
+}
+
+export const isEmptyDiff = (diff: AnalysisVersionDiff): boolean =>
+  !diff.toneChange &&
+  [diff.flags, diff.issueActions, diff.violations, diff.summarySentences]
+    .every(d => d.added.length === 0 && d.dropped.length === 0);
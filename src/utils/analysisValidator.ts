@@ -1,17 +1,22 @@
-import { ConversationAnalysisResult } from '../types/analysisTypes';
+import { ConversationAnalysisResult, FaithfulnessReport } from '../types/analysisTypes';
+import { VerifiableMessage, verifyAnalysisEvidence } from './evidenceVerification';
 
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
   sanitized: ConversationAnalysisResult;
+  // Only when the conversation's messages were supplied
+  faithfulness?: FaithfulnessReport;
 }
 
 /**
  * Validates and sanitizes AI-generated analysis results.
  * Provides safe defaults for missing fields to prevent downstream failures.
+ * When the conversation's messages are given, quoted evidence and message
+ * IDs are also checked against them.
  */
-export function validateAndSanitizeAnalysisResult(raw: unknown): ValidationResult {
+export function validateAndSanitizeAnalysisResult(raw: unknown, messages?: VerifiableMessage[]): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
   const result = raw as Partial<ConversationAnalysisResult>;
@@ -101,13 +106,22 @@ export function validateAndSanitizeAnalysisResult(raw: unknown): ValidationResul
       : [],
     personAnalyses: validPersonAnalyses,
     messageAnnotations: validMessageAnnotations,
-    detectedAgreements: validDetectedAgreements
+    detectedAgreements: validDetectedAgreements,
+    analysisMeta: result.analysisMeta && typeof result.analysisMeta === 'object'
+      ? result.analysisMeta
+      : undefined
   };
 
+  const faithfulness = messages ? verifyAnalysisEvidence(sanitized, messages, warnings) : undefined;
+  if (faithfulness) {
+    sanitized.analysisMeta = { ...sanitized.analysisMeta, faithfulness };
+  }
+
   return {
     isValid: errors.length === 0,
     errors,
     warnings,
-    sanitized
+    sanitized,
+    faithfulness
   };
 }
@@ -0,0 +1,212 @@
+import { format, parseISO, addMonths } from 'date-fns';
+import { Conversation, ConversationAnalysis, FlagReview, Message } from '../types';
+import { MessageFlagType } from '../types/analysisTypes';
+import { isConfirmedFlag, reviewFlags } from './flagReviews';
+
+export type FlagTier = 'resolution_blocking' | 'significant' | 'pattern' | 'positive';
+
+export const FLAG_TIERS: FlagTier[] = ['resolution_blocking', 'significant', 'pattern', 'positive'];
+
+export const FLAG_TIER_LABELS: Record<FlagTier, string> = {
+  resolution_blocking: 'Resolution-blocking',
+  significant: 'Significant',
+  pattern: 'Pattern',
+  positive: 'Positive'
+};
+
+// Mirrors the tier groupings documented on MessageFlagType
+const FLAG_TIER_BY_TYPE: Record<MessageFlagType, FlagTier> = {
+  misrepresenting_guidance: 'resolution_blocking',
+  guidance_downshift: 'resolution_blocking',
+  professional_recommendation_ignored: 'resolution_blocking',
+  agreement_violation: 'resolution_blocking',
+  safety_concern: 'resolution_blocking',
+  process_gating: 'significant',
+  channel_shift_request: 'significant',
+  communication_stonewalling: 'significant',
+  selective_response: 'significant',
+  deflection_tactic: 'significant',
+  accountability_avoidance: 'significant',
+  unilateral_decision: 'significant',
+  documentation_resistance: 'significant',
+  parental_alienation_indicator: 'significant',
+  concerning_language: 'pattern',
+  boundary_violation: 'pattern',
+  false_equivalence: 'pattern',
+  context_shifting: 'pattern',
+  manipulation_tactic: 'pattern',
+  gaslighting_indicator: 'pattern',
+  scheduling_obstruction: 'pattern',
+  financial_non_compliance: 'pattern',
+  positive_cooperation: 'positive',
+  constructive_problem_solving: 'positive',
+  repair_attempt: 'positive',
+  appropriate_flexibility: 'positive'
+};
+
+export const MESSAGE_FLAG_TYPES = Object.keys(FLAG_TIER_BY_TYPE) as MessageFlagType[];
+
+// Old analyses stored free-form flag types; treat unknown ones as pattern tracking
+export const getFlagTier = (type: string): FlagTier =>
+  FLAG_TIER_BY_TYPE[type as MessageFlagType] || 'pattern';
+
+export const formatFlagType = (type: string): string =>
+  type.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+const TONE_SCORES: Record<string, number> = { cooperative: 2, neutral: 1, tense: 0, contentious: -1, hostile: -2 };
+
+export interface FlagOccurrence {
+  type: string;
+  tier: FlagTier;
+  severity: 'low' | 'medium' | 'high';
+  description: string;
+  messageId: string;
+  conversationId: string;
+  date: string;
+}
+
+export interface MonthlyFlagCounts {
+  // yyyy-MM
+  month: string;
+  byTier: Record<FlagTier, number>;
+  byType: Record<string, number>;
+  total: number;
+}
+
+export interface ToneTrendPoint {
+  conversationId: string;
+  title: string;
+  date: string;
+  tone: string;
+  // cooperative = 2 ... hostile = -2
+  score: number;
+}
+
+export interface PatternFirstAppearance {
+  type: string;
+  tier: FlagTier;
+  firstSeen: string;
+  messageId: string;
+  conversationId: string;
+  count: number;
+}
+
+export interface PersonTrends {
+  months: MonthlyFlagCounts[];
+  tone: ToneTrendPoint[];
+  firstAppearances: PatternFirstAppearance[];
+  flagTypes: string[];
+  totalFlags: number;
+}
+
+const emptyTierCounts = (): Record<FlagTier, number> =>
+  ({ resolution_blocking: 0, significant: 0, pattern: 0, positive: 0 });
+
+/**
+ * Reviewer-confirmed flags attributed to a person across all analyzed
+ * conversations, dated by the message they were raised on (falling back to
+ * the analysis date).
+ */
+export function collectPersonFlags(
+  personId: string,
+  analyses: ConversationAnalysis[],
+  messages: Message[],
+  reviews: FlagReview[]
+): FlagOccurrence[] {
+  const sentAtById = new Map(messages.map(m => [m.id, m.sentAt]));
+  const analysisDates = new Map(analyses.map(a => [a.conversationId, a.createdAt]));
+
+  return reviewFlags(analyses, reviews)
+    .filter(f => isConfirmedFlag(f) && f.flag.attributedToPersonId === personId)
+    .map(({ flag, messageId, conversationId }) => ({
+      type: flag.type,
+      tier: getFlagTier(flag.type),
+      severity: flag.severity,
+      description: flag.description,
+      messageId,
+      conversationId,
+      date: sentAtById.get(messageId) || analysisDates.get(conversationId) || ''
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Month-by-month flag counts, tone across the person's conversations and the
+ * month each flag type was first seen. Months without flags are included so
+ * gaps read as improvement rather than missing data.
+ */
+export function computePersonTrends(
+  personId: string,
+  conversations: Conversation[],
+  analyses: ConversationAnalysis[],
+  messages: Message[],
+  reviews: FlagReview[],
+  since?: string
+): PersonTrends {
+  const allFlags = collectPersonFlags(personId, analyses, messages, reviews);
+  const flags = since ? allFlags.filter(f => f.date >= since) : allFlags;
+
+  const lastMessageAt = new Map<string, string>();
+  for (const m of messages) lastMessageAt.set(m.conversationId, m.sentAt);
+
+  const tone: ToneTrendPoint[] = analyses
+    .map(a => {
+      const conversation = conversations.find(c => c.id === a.conversationId);
+      return {
+        conversationId: a.conversationId,
+        title: conversation?.title || 'Untitled conversation',
+        date: lastMessageAt.get(a.conversationId) || conversation?.startedAt || a.createdAt,
+        tone: a.overallTone,
+        score: TONE_SCORES[a.overallTone] ?? 0
+      };
+    })
+    .filter(t => !since || t.date >= since)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // Contiguous month range covering all flags and analyzed conversations
+  const datedKeys = [...flags.map(f => f.date), ...tone.map(t => t.date)].map(d => d.slice(0, 7)).sort();
+  const months: MonthlyFlagCounts[] = [];
+  if (datedKeys.length > 0) {
+    const last = datedKeys[datedKeys.length - 1];
+    for (let cursor = parseISO(`${datedKeys[0]}-01`); format(cursor, 'yyyy-MM') <= last; cursor = addMonths(cursor, 1)) {
+      months.push({ month: format(cursor, 'yyyy-MM'), byTier: emptyTierCounts(), byType: {}, total: 0 });
+    }
+  }
+
+  const monthIndex = new Map(months.map((m, i) => [m.month, i]));
+  for (const flag of flags) {
+    const bucket = months[monthIndex.get(flag.date.slice(0, 7))!];
+    bucket.byTier[flag.tier]++;
+    bucket.byType[flag.type] = (bucket.byType[flag.type] || 0) + 1;
+    bucket.total++;
+  }
+
+  // First appearance is judged over all history, not just the selected window
+  const firstByType = new Map<string, PatternFirstAppearance>();
+  for (const flag of allFlags) {
+    const existing = firstByType.get(flag.type);
+    if (existing) {
+      existing.count++;
+    } else {
+      firstByType.set(flag.type, {
+        type: flag.type,
+        tier: flag.tier,
+        firstSeen: flag.date,
+        messageId: flag.messageId,
+        conversationId: flag.conversationId,
+        count: 1
+      });
+    }
+  }
+
+  const flagTypes = Array.from(new Set(flags.map(f => f.type)))
+    .sort((a, b) => FLAG_TIERS.indexOf(getFlagTier(a)) - FLAG_TIERS.indexOf(getFlagTier(b)) || a.localeCompare(b));
+
+  return {
+    months,
+    tone,
+    firstAppearances: Array.from(firstByType.values()).sort((a, b) => a.firstSeen.localeCompare(b.firstSeen)),
+    flagTypes,
+    totalFlags: flags.length
+  };
+}
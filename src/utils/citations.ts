@@ -0,0 +1,89 @@
+import { format } from 'date-fns';
+import {
+  AgreementItem, AssistantCitation, AssistantMessage, CitationRef, CitationTargetType,
+  LegalClause, Message, Person
+} from '../types';
+
+/**
+ * Inline citation markers the assistant is instructed to emit after each
+ * factual statement, e.g. "[[msg:<uuid>]]".
+ */
+const CITATION_PATTERN = /\[\[(msg|item|clause):([0-9a-f-]{36})\]\]/gi;
+
+const TARGET_TYPE_BY_PREFIX: Record<string, CitationTargetType> = {
+  msg: 'message',
+  item: 'agreement_item',
+  clause: 'legal_clause'
+};
+
+export const citationKey = (ref: CitationRef) => `${ref.targetType}:${ref.targetId}`;
+
+/**
+ * Splits text into plain segments and citation refs, in order.
+ */
+export function splitCitations(text: string): Array<string | CitationRef> {
+  const parts: Array<string | CitationRef> = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    if (match.index! > lastIndex) parts.push(text.slice(lastIndex, match.index));
+    parts.push({ targetType: TARGET_TYPE_BY_PREFIX[match[1].toLowerCase()], targetId: match[2].toLowerCase() });
+    lastIndex = match.index! + match[0].length;
+  }
+  if (lastIndex < text.length) parts.push(text.slice(lastIndex));
+  return parts;
+}
+
+// Unique refs in order of first appearance
+export function extractCitationRefs(text: string): CitationRef[] {
+  const seen = new Map<string, CitationRef>();
+  for (const part of splitCitations(text)) {
+    if (typeof part !== 'string' && !seen.has(citationKey(part))) seen.set(citationKey(part), part);
+  }
+  return Array.from(seen.values());
+}
+
+const excerpt = (text?: string, max = 160) =>
+  text && text.length > max ? `${text.substring(0, max)}...` : text;
+
+/**
+ * Resolves refs against the loaded records. Refs whose id matches nothing in
+ * the case file are kept without a parentId so they render as unverified.
+ */
+export function buildCitations(
+  refs: CitationRef[],
+  sources: { messages: Message[]; people: Person[]; items: AgreementItem[]; clauses: LegalClause[] }
+): AssistantCitation[] {
+  return refs.map(ref => {
+    if (ref.targetType === 'message') {
+      const message = sources.messages.find(m => m.id === ref.targetId);
+      if (message) {
+        const sender = sources.people.find(p => p.id === message.senderId)?.fullName || 'Unknown';
+        return { ...ref, parentId: message.conversationId, label: `${sender}, ${format(new Date(message.sentAt), 'MMM d, yyyy')}`, detail: excerpt(message.rawText) };
+      }
+    } else if (ref.targetType === 'agreement_item') {
+      const item = sources.items.find(i => i.id === ref.targetId);
+      if (item) {
+        return { ...ref, parentId: item.agreementId, label: item.itemRef || item.topic, detail: excerpt(item.summary || item.fullText) };
+      }
+    } else {
+      const clause = sources.clauses.find(c => c.id === ref.targetId);
+      if (clause) {
+        return { ...ref, parentId: clause.legalDocumentId, label: clause.clauseRef, detail: excerpt(clause.summary || clause.fullText) };
+      }
+    }
+    return { ...ref, label: 'Unverified source' };
+  });
+}
+
+export function citationHref(citation: AssistantCitation): string | null {
+  if (!citation.parentId) return null;
+  switch (citation.targetType) {
+    case 'message': return `/conversations/${citation.parentId}?message=${citation.targetId}`;
+    case 'agreement_item': return `/rules/agreements/${citation.parentId}`;
+    case 'legal_clause': return `/rules/legal/${citation.parentId}`;
+  }
+}
+
+// Checked answers whose citations are all missing or unresolvable
+export const isUnsupportedAnswer = (message: AssistantMessage): boolean =>
+  Array.isArray(message.citations) && !message.citations.some(c => c.parentId);
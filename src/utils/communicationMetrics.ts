@@ -0,0 +1,266 @@
+import { addWeeks, format, startOfWeek } from 'date-fns';
+import { Message } from '../types';
+
+/**
+ * Communication metrics computed directly from message timestamps and text,
+ * with no model involved. The same messages always give the same numbers, so
+ * they can be cited as objective context next to the AI analysis.
+ */
+
+export type MetricsMessage = Pick<Message, 'id' | 'senderId' | 'sentAt' | 'rawText'> & {
+  conversationId?: string;
+  receiverId?: string;
+};
+
+export type LatencyBucket = 'under_1h' | '1_4h' | '4_24h' | '1_3d' | 'over_3d';
+
+export const LATENCY_BUCKETS: Array<{ bucket: LatencyBucket; label: string; maxMinutes: number }> = [
+  { bucket: 'under_1h', label: '< 1h', maxMinutes: 60 },
+  { bucket: '1_4h', label: '1–4h', maxMinutes: 4 * 60 },
+  { bucket: '4_24h', label: '4–24h', maxMinutes: 24 * 60 },
+  { bucket: '1_3d', label: '1–3d', maxMinutes: 3 * 24 * 60 },
+  { bucket: 'over_3d', label: '> 3d', maxMinutes: Infinity }
+];
+
+export interface LatencyStats {
+  replies: number;
+  medianMinutes: number | null;
+  p90Minutes: number | null;
+  maxMinutes: number | null;
+  buckets: Record<LatencyBucket, number>;
+}
+
+export interface UnansweredQuestion {
+  messageId: string;
+  conversationId?: string;
+  askedById: string;
+  sentAt: string;
+  text: string;
+}
+
+export interface WeeklyVolume {
+  // Monday of the week, yyyy-MM-dd
+  week: string;
+  messages: number;
+  averageLength: number;
+}
+
+export interface PersonCommunicationMetrics {
+  personId: string;
+  messagesSent: number;
+  averageLength: number;
+  // Time to reply after another participant's message addressed to this person
+  responseLatency: LatencyStats;
+  // Questions addressed to this person, and those they never replied to
+  questionsReceived: number;
+  unansweredQuestions: UnansweredQuestion[];
+  weekly: WeeklyVolume[];
+  // Messages sent per local hour, 0-23
+  hourOfDay: number[];
+  // Share of messages sent between 22:00 and 06:00
+  lateNightShare: number;
+  // Threads this person took part in whose last message, addressed to them, went unanswered
+  threadsParticipated: number;
+  threadsAbandoned: number;
+  abandonmentRate: number | null;
+}
+
+export interface MetricsOptions {
+  // Reference time for deciding whether a thread is still open; defaults to now
+  asOf?: Date;
+  // Questions and threads younger than this may still get a reply and aren't counted
+  openThreadHours?: number;
+}
+
+const DEFAULT_OPEN_THREAD_HOURS = 72;
+const MINUTE_MS = 60 * 1000;
+
+// A question mark ending a sentence, not one inside a URL query string
+const QUESTION = /[\p{L}\p{N})"'’]\?+(?=\s|$)/u;
+
+export const isQuestion = (text: string): boolean => QUESTION.test(text || '');
+
+const percentile = (sorted: number[], p: number): number | null =>
+  sorted.length === 0 ? null : sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+
+function latencyStats(minutes: number[]): LatencyStats {
+  const sorted = [...minutes].sort((a, b) => a - b);
+  const buckets = Object.fromEntries(LATENCY_BUCKETS.map(b => [b.bucket, 0])) as Record<LatencyBucket, number>;
+  for (const m of sorted) {
+    buckets[LATENCY_BUCKETS.find(b => m < b.maxMinutes)!.bucket]++;
+  }
+  return {
+    replies: sorted.length,
+    medianMinutes: percentile(sorted, 0.5),
+    p90Minutes: percentile(sorted, 0.9),
+    maxMinutes: sorted.length > 0 ? sorted[sorted.length - 1] : null,
+    buckets
+  };
+}
+
+function weeklyVolume(messages: MetricsMessage[]): WeeklyVolume[] {
+  const byWeek = new Map<string, { messages: number; chars: number }>();
+  for (const m of messages) {
+    const week = format(startOfWeek(new Date(m.sentAt), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+    const entry = byWeek.get(week) || { messages: 0, chars: 0 };
+    entry.messages++;
+    entry.chars += (m.rawText || '').length;
+    byWeek.set(week, entry);
+  }
+  if (byWeek.size === 0) return [];
+
+  // Contiguous weeks so quiet weeks show as zero rather than disappearing
+  const keys = Array.from(byWeek.keys()).sort();
+  const weeks: WeeklyVolume[] = [];
+  for (let cursor = new Date(`${keys[0]}T00:00:00`); format(cursor, 'yyyy-MM-dd') <= keys[keys.length - 1]; cursor = addWeeks(cursor, 1)) {
+    const week = format(cursor, 'yyyy-MM-dd');
+    const entry = byWeek.get(week);
+    weeks.push({
+      week,
+      messages: entry?.messages || 0,
+      averageLength: entry ? Math.round(entry.chars / entry.messages) : 0
+    });
+  }
+  return weeks;
+}
+
+/**
+ * Who a message is addressed to: its receiver, or in a two-person thread the
+ * other participant.
+ */
+const addresseeOf = (message: MetricsMessage, senders: Set<string>): string | undefined => {
+  if (message.receiverId) return message.receiverId;
+  const others = Array.from(senders).filter(id => id !== message.senderId);
+  return others.length === 1 ? others[0] : undefined;
+};
+
+/**
+ * Computes metrics for every sender in the given messages, which may span
+ * several conversations.
+ */
+export function computeCommunicationMetrics(
+  messages: MetricsMessage[],
+  options: MetricsOptions = {}
+): Record<string, PersonCommunicationMetrics> {
+  const asOf = (options.asOf || new Date()).getTime();
+  const openThreadMs = (options.openThreadHours ?? DEFAULT_OPEN_THREAD_HOURS) * 60 * MINUTE_MS;
+  const valid = messages.filter(m => m.senderId && !isNaN(new Date(m.sentAt).getTime()));
+
+  const threads = new Map<string, MetricsMessage[]>();
+  for (const m of valid) {
+    const key = m.conversationId || '';
+    if (!threads.has(key)) threads.set(key, []);
+    threads.get(key)!.push(m);
+  }
+
+  const latencies = new Map<string, number[]>();
+  const questionsReceived = new Map<string, number>();
+  const unanswered = new Map<string, UnansweredQuestion[]>();
+  const participated = new Map<string, number>();
+  const abandoned = new Map<string, number>();
+  const bump = (map: Map<string, number>, id: string) => map.set(id, (map.get(id) || 0) + 1);
+
+  for (const thread of threads.values()) {
+    thread.sort((a, b) => a.sentAt.localeCompare(b.sentAt));
+    const senders = new Set(thread.map(m => m.senderId));
+    for (const id of senders) bump(participated, id);
+
+    // Last time each person wrote in this thread
+    const lastSentBy = new Map<string, string>();
+    for (const m of thread) lastSentBy.set(m.senderId, m.sentAt);
+
+    thread.forEach((m, i) => {
+      const previous = thread[i - 1];
+      if (previous && previous.senderId !== m.senderId && addresseeOf(previous, senders) === m.senderId) {
+        const minutes = (new Date(m.sentAt).getTime() - new Date(previous.sentAt).getTime()) / MINUTE_MS;
+        if (!latencies.has(m.senderId)) latencies.set(m.senderId, []);
+        latencies.get(m.senderId)!.push(Math.max(0, Math.round(minutes)));
+      }
+
+      const addressee = addresseeOf(m, senders);
+      if (!addressee || !isQuestion(m.rawText)) return;
+      if (asOf - new Date(m.sentAt).getTime() < openThreadMs) return;
+      bump(questionsReceived, addressee);
+      const repliedAt = lastSentBy.get(addressee);
+      if (!repliedAt || repliedAt <= m.sentAt) {
+        if (!unanswered.has(addressee)) unanswered.set(addressee, []);
+        unanswered.get(addressee)!.push({
+          messageId: m.id,
+          conversationId: m.conversationId,
+          askedById: m.senderId,
+          sentAt: m.sentAt,
+          text: m.rawText
+        });
+      }
+    });
+
+    const last = thread[thread.length - 1];
+    const addressee = addresseeOf(last, senders);
+    if (addressee && senders.has(addressee) && asOf - new Date(last.sentAt).getTime() >= openThreadMs) {
+      bump(abandoned, addressee);
+    }
+  }
+
+  const result: Record<string, PersonCommunicationMetrics> = {};
+  for (const personId of new Set(valid.map(m => m.senderId))) {
+    const sent = valid.filter(m => m.senderId === personId);
+    const hourOfDay = new Array<number>(24).fill(0);
+    for (const m of sent) hourOfDay[new Date(m.sentAt).getHours()]++;
+    const lateNight = hourOfDay.slice(22).concat(hourOfDay.slice(0, 6)).reduce((sum, n) => sum + n, 0);
+    const threadsParticipated = participated.get(personId) || 0;
+    const threadsAbandoned = abandoned.get(personId) || 0;
+
+    result[personId] = {
+      personId,
+      messagesSent: sent.length,
+      averageLength: Math.round(sent.reduce((sum, m) => sum + (m.rawText || '').length, 0) / sent.length),
+      responseLatency: latencyStats(latencies.get(personId) || []),
+      questionsReceived: questionsReceived.get(personId) || 0,
+      unansweredQuestions: unanswered.get(personId) || [],
+      weekly: weeklyVolume(sent),
+      hourOfDay,
+      lateNightShare: lateNight / sent.length,
+      threadsParticipated,
+      threadsAbandoned,
+      abandonmentRate: threadsParticipated > 0 ? threadsAbandoned / threadsParticipated : null
+    };
+  }
+  return result;
+}
+
+// Compact per-person figures sent to the analysis pipeline as objective context
+export interface AnalysisCommunicationMetrics {
+  personId: string;
+  messagesSent: number;
+  averageLength: number;
+  replies: number;
+  medianReplyMinutes: number | null;
+  p90ReplyMinutes: number | null;
+  maxReplyMinutes: number | null;
+  questionsReceived: number;
+  unansweredQuestionMessageIds: string[];
+  lateNightShare: number;
+  leftLastMessageUnanswered: boolean;
+}
+
+export const toAnalysisMetrics = (metrics: Record<string, PersonCommunicationMetrics>): AnalysisCommunicationMetrics[] =>
+  Object.values(metrics).map(m => ({
+    personId: m.personId,
+    messagesSent: m.messagesSent,
+    averageLength: m.averageLength,
+    replies: m.responseLatency.replies,
+    medianReplyMinutes: m.responseLatency.medianMinutes,
+    p90ReplyMinutes: m.responseLatency.p90Minutes,
+    maxReplyMinutes: m.responseLatency.maxMinutes,
+    questionsReceived: m.questionsReceived,
+    unansweredQuestionMessageIds: m.unansweredQuestions.map(q => q.messageId),
+    lateNightShare: Math.round(m.lateNightShare * 100) / 100,
+    leftLastMessageUnanswered: m.threadsAbandoned > 0
+  }));
+
+export const formatMinutes = (minutes: number | null): string => {
+  if (minutes === null) return '–';
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 6) / 10}h`;
+  return `${Math.round(minutes / 144) / 10}d`;
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { stripQuotedReply } from './emailParsers';
+
+describe('stripQuotedReply', () => {
+  it('cuts the quoted history after an "On ... wrote:" line', () => {
+    const body = [
+      'Pickup is at 5 on Friday.',
+      '',
+      'On Mon, Jan 6, 2025 at 9:14 AM Jane Doe <jane@example.com> wrote:',
+      '> What time is pickup?'
+    ].join('\n');
+    expect(stripQuotedReply(body)).toBe('Pickup is at 5 on Friday.');
+  });
+
+  it('keeps the header and body of a Gmail forwarded message', () => {
+    const body = [
+      'See the school email below.',
+      '',
+      '---------- Forwarded message ---------',
+      'From: Lincoln Elementary <office@lincoln.example.org>',
+      'Date: Tue, Jan 7, 2025 at 8:00 AM',
+      'Subject: Early dismissal',
+      'To: John Doe <john@example.com>',
+      '',
+      'School closes at noon on Friday.'
+    ].join('\n');
+    const stripped = stripQuotedReply(body);
+    expect(stripped).toContain('---------- Forwarded message ---------');
+    expect(stripped).toContain('From: Lincoln Elementary');
+    expect(stripped).toContain('School closes at noon on Friday.');
+  });
+
+  it('still cuts quoted history that comes before a forward', () => {
+    const body = [
+      'Forwarding as promised.',
+      '',
+      'On Mon, Jan 6, 2025 at 9:14 AM Jane Doe <jane@example.com> wrote:',
+      '> Please forward the school email.',
+      '> ---------- Forwarded message ---------'
+    ].join('\n');
+    expect(stripQuotedReply(body)).toBe('Forwarding as promised.');
+  });
+});
@@ -0,0 +1,445 @@
+/**
+ * Raw email ingestion for .eml files and .mbox archives (e.g. Google Takeout).
+ * Decodes MIME structure, transfer encodings and RFC 2047 header words, strips
+ * quoted replies, and groups messages into threads via Message-ID / In-Reply-To /
+ * References (plus Gmail's X-GM-THRID when present).
+ */
+
+import { MessageDirection } from '../types';
+import type { ParsedConversation, ParsedMessage } from './parsers';
+
+export interface EmailAddress {
+  name: string;
+  email: string;
+}
+
+export interface EmailAttachment {
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
+export interface ParsedEmail {
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+  gmailThreadId?: string;
+  subject: string;
+  // Null when the Date header is missing or unreadable
+  date: Date | null;
+  from: EmailAddress;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  text: string;
+  attachments: EmailAttachment[];
+}
+
+type Headers = Record<string, string>;
+
+// --- Header decoding ---
+
+const splitHeadersAndBody = (raw: string): { headers: Headers; body: string } => {
+  const normalized = raw.replace(/\r\n/g, '\n');
+  const separator = normalized.indexOf('\n\n');
+  const headerText = separator >= 0 ? normalized.substring(0, separator) : normalized;
+  const body = separator >= 0 ? normalized.substring(separator + 2) : '';
+
+  const headers: Headers = {};
+  // Unfold continuation lines before splitting
+  headerText.replace(/\n[ \t]+/g, ' ').split('\n').forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) return;
+    const name = line.substring(0, colon).trim().toLowerCase();
+    if (!(name in headers)) {
+      headers[name] = line.substring(colon + 1).trim();
+    }
+  });
+
+  return { headers, body };
+};
+
+const decodeBytes = (bytes: Uint8Array, charset = 'utf-8'): string => {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
+
+const base64ToBytes = (input: string): Uint8Array => {
+  const binary = atob(input.replace(/[^A-Za-z0-9+/=]/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const quotedPrintableToBytes = (input: string, isHeader = false): Uint8Array => {
+  const text = (isHeader ? input.replace(/_/g, ' ') : input).replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(text.substring(i + 1, i + 3))) {
+      bytes.push(parseInt(text.substring(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      // Characters outside Latin-1 were already decoded when the file was read as text
+      const encoded = new TextEncoder().encode(text[i]);
+      encoded.forEach(b => bytes.push(b));
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+/**
+ * Decodes RFC 2047 encoded words, e.g. "=?UTF-8?Q?Caf=C3=A9?=".
+ */
+export const decodeHeaderValue = (value: string): string => value
+  // Whitespace between adjacent encoded words is not significant
+  .replace(/(\?=)\s+(=\?)/g, '$1$2')
+  .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset, encoding, text) => {
+    const bytes = encoding.toUpperCase() === 'B' ? base64ToBytes(text) : quotedPrintableToBytes(text, true);
+    return decodeBytes(bytes, charset);
+  });
+
+const parseHeaderParams = (value: string): { value: string; params: Record<string, string> } => {
+  const [main, ...rest] = value.split(';');
+  const params: Record<string, string> = {};
+  rest.forEach(part => {
+    const eq = part.indexOf('=');
+    if (eq < 0) return;
+    const key = part.substring(0, eq).trim().toLowerCase().replace(/\*$/, '');
+    let val = part.substring(eq + 1).trim().replace(/^"(.*)"$/, '$1');
+    // RFC 2231 extended values: utf-8''file%20name.pdf
+    const extended = val.match(/^([^']*)'[^']*'(.*)$/);
+    if (extended) {
+      try { val = decodeURIComponent(extended[2]); } catch { /* keep raw */ }
+    }
+    params[key] = decodeHeaderValue(val);
+  });
+  return { value: main.trim().toLowerCase(), params };
+};
+
+/**
+ * Splits an address list on commas that are not inside quotes or angle brackets.
+ */
+export const parseAddressList = (value?: string): EmailAddress[] => {
+  if (!value) return [];
+  const decoded = decodeHeaderValue(value);
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let inAngle = false;
+
+  for (const ch of decoded) {
+    if (ch === '"') inQuotes = !inQuotes;
+    if (ch === '<' && !inQuotes) inAngle = true;
+    if (ch === '>' && !inQuotes) inAngle = false;
+    if (ch === ',' && !inQuotes && !inAngle) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+
+  return parts
+    .map(part => {
+      const angle = part.match(/^(.*)<([^>]+)>\s*$/);
+      const email = (angle ? angle[2] : part).trim().toLowerCase();
+      const name = angle ? angle[1].trim().replace(/^"(.*)"$/, '$1').trim() : '';
+      return { name: name || email, email };
+    })
+    .filter(a => a.email.includes('@'));
+};
+
+const parseMessageIds = (value?: string): string[] =>
+  value ? (value.match(/<[^>]+>/g) || []).map(id => id.toLowerCase()) : [];
+
+// --- MIME body decoding ---
+
+const decodeTransfer = (body: string, encoding?: string): Uint8Array => {
+  switch ((encoding || '').toLowerCase()) {
+    case 'base64': return base64ToBytes(body);
+    case 'quoted-printable': return quotedPrintableToBytes(body);
+    default: return new TextEncoder().encode(body);
+  }
+};
+
+const decodedSize = (body: string, encoding?: string): number => {
+  if ((encoding || '').toLowerCase() === 'base64') {
+    const clean = body.replace(/[^A-Za-z0-9+/=]/g, '');
+    return Math.floor(clean.length * 3 / 4) - (clean.endsWith('==') ? 2 : clean.endsWith('=') ? 1 : 0);
+  }
+  return decodeTransfer(body, encoding).length;
+};
+
+const htmlToText = (html: string): string => html
+  .replace(/<(style|script)[\s\S]*?<\/\1>/gi, '')
+  // Gmail wraps quoted history in this block
+  .replace(/<div class="gmail_quote"[\s\S]*$/i, '')
+  .replace(/<blockquote[\s\S]*?<\/blockquote>/gi, '')
+  .replace(/<br\s*\/?>/gi, '\n')
+  .replace(/<\/(p|div|tr|li|h\d)>/gi, '\n')
+  .replace(/<[^>]+>/g, '')
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&amp;/g, '&')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;/g, "'")
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+interface MimeContent {
+  plain: string[];
+  html: string[];
+  attachments: EmailAttachment[];
+}
+
+const walkMimePart = (headers: Headers, body: string, out: MimeContent): void => {
+  const contentType = parseHeaderParams(headers['content-type'] || 'text/plain');
+  const disposition = parseHeaderParams(headers['content-disposition'] || '');
+  const encoding = headers['content-transfer-encoding'];
+  const fileName = disposition.params['filename'] || contentType.params['name'];
+
+  if (contentType.value.startsWith('multipart/') && contentType.params['boundary']) {
+    const delimiter = `--${contentType.params['boundary']}`;
+    const sections = body.split(delimiter).slice(1);
+    for (const section of sections) {
+      if (section.startsWith('--')) break;
+      const part = splitHeadersAndBody(section.replace(/^\n/, ''));
+      walkMimePart(part.headers, part.body, out);
+    }
+    return;
+  }
+
+  if (disposition.value === 'attachment' || fileName || contentType.value === 'message/rfc822') {
+    out.attachments.push({
+      fileName: fileName || 'attachment',
+      contentType: contentType.value,
+      size: decodedSize(body, encoding)
+    });
+    return;
+  }
+
+  const text = decodeBytes(decodeTransfer(body, encoding), contentType.params['charset']);
+  if (contentType.value === 'text/html') {
+    out.html.push(text);
+  } else if (contentType.value.startsWith('text/')) {
+    out.plain.push(text);
+  }
+};
+
+// --- Quoted reply stripping ---
+
+const REPLY_HEADER = /^On\s.+wrote:\s*$/;
+const ORIGINAL_MESSAGE = /^-{2,}\s*Original Message\s*-{2,}/i;
+const OUTLOOK_SEPARATOR = /^_{10,}\s*$/;
+// Gmail "---------- Forwarded message ---------", Apple Mail "Begin forwarded message:"
+const FORWARDED_MESSAGE = /^(-{2,}\s*Forwarded message\s*-{2,}|Begin forwarded message:)/i;
+
+/**
+ * Removes quoted history from a reply body: everything after an "On ... wrote:" line,
+ * Outlook "Original Message"/"From: ... Sent:" blocks, and any remaining "> " lines.
+ * Forwarded messages are kept since the forwarded content is usually the point.
+ */
+export const stripQuotedReply = (text: string): string => {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  let cutAt = lines.length;
+  let forwardedAt = lines.length;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    // The forwarded message's own From:/Date: block is not quoted history
+    if (FORWARDED_MESSAGE.test(line)) {
+      forwardedAt = i;
+      break;
+    }
+    const withNext = `${line} ${(lines[i + 1] || '').trim()}`;
+    const isOutlookHeader = /^From:\s/.test(line) &&
+      lines.slice(i + 1, i + 5).some(l => /^(Sent|Date):\s/.test(l.trim()));
+
+    if (REPLY_HEADER.test(line) || ORIGINAL_MESSAGE.test(line) || isOutlookHeader ||
+        (OUTLOOK_SEPARATOR.test(line) && /^From:\s/.test((lines[i + 1] || '').trim()))) {
+      cutAt = i;
+      break;
+    }
+    // Gmail wraps long "On ... wrote:" headers onto two lines
+    if (/^On\s/.test(line) && !line.endsWith('wrote:') && REPLY_HEADER.test(withNext)) {
+      cutAt = i;
+      break;
+    }
+  }
+
+  return [
+    ...lines.slice(0, Math.min(cutAt, forwardedAt)).filter(l => !l.trimStart().startsWith('>')),
+    ...lines.slice(forwardedAt)
+  ]
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// --- Message / archive parsing ---
+
+export const parseEmlMessage = (raw: string): ParsedEmail => {
+  const { headers, body } = splitHeadersAndBody(raw);
+  const content: MimeContent = { plain: [], html: [], attachments: [] };
+  walkMimePart(headers, body, content);
+
+  const bodyText = content.plain.length > 0
+    ? content.plain.join('\n\n')
+    : htmlToText(content.html.join('\n'));
+
+  const parsedDate = new Date(headers['date'] || '');
+  const from = parseAddressList(headers['from'])[0] || { name: 'Unknown', email: '' };
+
+  return {
+    messageId: parseMessageIds(headers['message-id'])[0],
+    inReplyTo: parseMessageIds(headers['in-reply-to'])[0],
+    references: parseMessageIds(headers['references']),
+    gmailThreadId: headers['x-gm-thrid'],
+    subject: decodeHeaderValue(headers['subject'] || '(no subject)'),
+    date: isNaN(parsedDate.getTime()) ? null : parsedDate,
+    from,
+    to: parseAddressList(headers['to']),
+    cc: parseAddressList(headers['cc']),
+    text: stripQuotedReply(bodyText),
+    attachments: content.attachments
+  };
+};
+
+/**
+ * Splits an mbox archive on its "From " separator lines and un-escapes ">From " lines.
+ */
+export const splitMbox = (raw: string): string[] =>
+  raw
+    .replace(/\r\n/g, '\n')
+    .split(/^From .*$/m)
+    .map(chunk => chunk.replace(/^>(>*From )/gm, '$1').trim())
+    .filter(chunk => chunk.length > 0);
+
+export const isMboxContent = (raw: string): boolean => /^From \S+/.test(raw.trimStart());
+
+/**
+ * Heuristic for pasted text that is a raw RFC 822 message rather than Gmail's print view.
+ */
+export const isRawEmailContent = (raw: string): boolean => {
+  const head = raw.trimStart().substring(0, 4000);
+  return isMboxContent(head) ||
+    (/^(From|Date|Subject|Message-ID|Received|Return-Path|MIME-Version):/im.test(head) &&
+     /^Message-ID:/im.test(head) && /^From:/im.test(head));
+};
+
+/**
+ * Groups emails into threads. Messages sharing a Message-ID reference chain or a
+ * Gmail thread ID end up in the same thread.
+ */
+export const threadEmails = (emails: ParsedEmail[]): ParsedEmail[][] => {
+  const parent = emails.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const union = (a: number, b: number) => { parent[find(a)] = find(b); };
+
+  const byKey = new Map<string, number>();
+  const link = (key: string | undefined, index: number) => {
+    if (!key) return;
+    const existing = byKey.get(key);
+    if (existing === undefined) {
+      byKey.set(key, index);
+    } else {
+      union(index, existing);
+    }
+  };
+
+  emails.forEach((email, i) => {
+    link(email.messageId, i);
+    link(email.inReplyTo, i);
+    email.references.forEach(ref => link(ref, i));
+    if (email.gmailThreadId) link(`gm:${email.gmailThreadId}`, i);
+  });
+
+  const groups = new Map<number, ParsedEmail[]>();
+  emails.forEach((email, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), email]);
+  });
+
+  return Array.from(groups.values())
+    .map(thread => thread.sort((a, b) => (a.date?.getTime() ?? 0) - (b.date?.getTime() ?? 0)));
+};
+
+const formatSize = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` :
+  bytes >= 1024 ? `${Math.round(bytes / 1024)} KB` : `${bytes} B`;
+
+type DatedEmail = ParsedEmail & { date: Date };
+
+const threadToConversation = (thread: DatedEmail[]): ParsedConversation => {
+  // One participant per address, preferring a real display name over the bare address
+  const nameByEmail = new Map<string, string>();
+  thread.forEach(email => {
+    [email.from, ...email.to, ...email.cc].forEach(address => {
+      const known = nameByEmail.get(address.email);
+      if (!known || (known === address.email && address.name !== address.email)) {
+        nameByEmail.set(address.email, address.name);
+      }
+    });
+  });
+  const displayName = (address: EmailAddress) => nameByEmail.get(address.email) || address.name;
+
+  const participants = new Set<string>();
+  const participantEmails: Record<string, string> = {};
+  nameByEmail.forEach((name, email) => {
+    participants.add(name);
+    if (email) participantEmails[name] = email;
+  });
+
+  const messages: ParsedMessage[] = thread.map(email => {
+    const attachmentLines = email.attachments.map(a =>
+      `[Attachment: ${a.fileName} (${a.contentType}, ${formatSize(a.size)})]`
+    );
+
+    return {
+      senderName: displayName(email.from),
+      receiverName: email.to[0] ? displayName(email.to[0]) : 'Unknown',
+      sentAt: email.date,
+      subject: email.subject,
+      body: [email.text, ...attachmentLines].filter(Boolean).join('\n\n'),
+      direction: MessageDirection.Inbound
+    };
+  });
+
+  const title = thread[0]?.subject.replace(/^((Re|Fwd?|Fw)\s*:\s*)+/i, '').trim() || 'Email Conversation';
+
+  return {
+    title,
+    participants,
+    participantEmails,
+    messages,
+    lastDate: messages.length > 0 ? messages[messages.length - 1].sentAt : new Date()
+  };
+};
+
+export interface EmailArchiveResult {
+  threads: ParsedConversation[];
+  // Messages without a usable Date header. They are left out rather than
+  // stamped with the import time, and surfaced so the user can check them.
+  undated: ParsedEmail[];
+}
+
+/**
+ * Parses a single .eml message or an .mbox archive into one conversation per thread,
+ * most recently active thread first.
+ */
+export const parseEmailArchive = (raw: string): EmailArchiveResult => {
+  const rawMessages = isMboxContent(raw) ? splitMbox(raw) : [raw];
+  const emails = rawMessages.map(parseEmlMessage);
+
+  // Undated messages still take part in threading so they can link their neighbours
+  const threads = threadEmails(emails)
+    .map(thread => threadToConversation(thread.filter((e): e is DatedEmail => e.date !== null)))
+    .filter(c => c.messages.length > 0)
+    .sort((a, b) => b.lastDate.getTime() - a.lastDate.getTime());
+
+  return { threads, undated: emails.filter(e => e.date === null) };
+};
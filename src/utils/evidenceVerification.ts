@@ -0,0 +1,169 @@
+import { ConversationAnalysisResult, FaithfulnessReport } from '../types/analysisTypes';
+import { normalizeTextForMatching } from './textMatching';
+
+/**
+ * Checks the model's quoted evidence against the stored messages. Quotes that
+ * cannot be found are marked unverified and their findings downgraded, and
+ * message IDs from outside the conversation are removed.
+ */
+
+export interface VerifiableMessage {
+  id: string;
+  senderId?: string;
+  rawText: string;
+}
+
+// Fragments shorter than this match too easily by accident
+const MIN_FRAGMENT_LENGTH = 12;
+
+const DOWNGRADED_SEVERITY: Record<string, 'low' | 'medium'> = {
+  high: 'medium',
+  medium: 'low',
+  low: 'low'
+};
+
+// Punctuation differences ("I said, no" vs "I said no") shouldn't fail a quote
+const comparable = (text: string): string =>
+  normalizeTextForMatching(text)
+    .replace(/[^\p{L}\p{N}' ]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// "See message 3", "[msg:…]" and the like point at a message rather than quote it
+const MESSAGE_REFERENCE = /\b(message|msg)s?\b|\[[^\]]*\]|[0-9a-f]{8}-[0-9a-f]{4}/i;
+
+/**
+ * Splits evidence into the fragments that must appear verbatim. Quoted
+ * passages are checked on their own so surrounding commentary is ignored;
+ * otherwise the whole text is the quote unless it is a message reference.
+ * Ellipses separate fragments.
+ */
+function quoteFragments(evidence: string): string[] {
+  const normalized = normalizeTextForMatching(evidence);
+  const quoted = Array.from(normalized.matchAll(/"([^"]+)"/g)).map(m => m[1]);
+  if (quoted.length === 0 && MESSAGE_REFERENCE.test(normalized)) return [];
+  return (quoted.length > 0 ? quoted : [normalized])
+    .flatMap(q => q.split(/\.{3}/))
+    .map(comparable)
+    .filter(f => f.length >= MIN_FRAGMENT_LENGTH);
+}
+
+type QuoteCheck = 'verified' | 'fabricated' | 'unchecked';
+
+/**
+ * Verifies evidence in place on a sanitized result and returns the run's
+ * faithfulness report. Adds a warning for each fabricated quote.
+ */
+export function verifyAnalysisEvidence(
+  result: ConversationAnalysisResult,
+  messages: VerifiableMessage[],
+  warnings: string[]
+): FaithfulnessReport {
+  const messagesById = new Map(messages.map(m => [m.id, m]));
+  const allTexts = messages.map(m => m.rawText || '');
+  const textsFrom = (personId?: string) => messages.filter(m => m.senderId === personId).map(m => m.rawText || '');
+  let quotesChecked = 0;
+  let quotesVerified = 0;
+  let rejectedMessageIds = 0;
+
+  // Every fragment must appear in one of the texts; references and very short quotes aren't checked
+  const check = (evidence: string | undefined, texts: string[]): QuoteCheck => {
+    const fragments = evidence ? quoteFragments(evidence) : [];
+    if (fragments.length === 0) return 'unchecked';
+    quotesChecked++;
+    const haystacks = texts.map(comparable);
+    if (!fragments.every(f => haystacks.some(h => h.includes(f)))) return 'fabricated';
+    quotesVerified++;
+    return 'verified';
+  };
+
+  const keepKnownIds = (ids: string[] | undefined, context: string): string[] => {
+    const known = (ids || []).filter(id => messagesById.has(id));
+    const rejected = (ids || []).length - known.length;
+    if (rejected > 0) {
+      rejectedMessageIds += rejected;
+      warnings.push(`${context}: removed ${rejected} message ID${rejected === 1 ? '' : 's'} not in this conversation`);
+    }
+    return known;
+  };
+
+  // Flags are checked against the message they annotate
+  result.messageAnnotations = result.messageAnnotations.filter(annotation => {
+    const message = messagesById.get(annotation.messageId);
+    if (!message) {
+      rejectedMessageIds++;
+      warnings.push(`messageAnnotations: skipped annotation for unknown message ${annotation.messageId}`);
+      return false;
+    }
+    annotation.flags = (annotation.flags || []).map(flag => {
+      const outcome = check(flag.evidence, [message.rawText || '']);
+      if (outcome === 'unchecked') return flag;
+      if (outcome === 'verified') return { ...flag, evidenceVerified: true };
+      warnings.push(`Flag "${flag.type}" on message ${annotation.messageId}: quoted evidence not found, severity downgraded`);
+      return { ...flag, evidenceVerified: false, severity: DOWNGRADED_SEVERITY[flag.severity] || 'low' };
+    });
+    return true;
+  });
+
+  // Claims: the cited message, else anything the speaker wrote
+  result.claimsLedger = (result.claimsLedger || []).map(claim => {
+    let messageId = claim.messageId;
+    if (messageId && !messagesById.has(messageId)) {
+      rejectedMessageIds++;
+      warnings.push(`Claim "${claim.claimText}": cited message ${messageId} is not in this conversation`);
+      messageId = undefined;
+    }
+    const texts = messageId
+      ? [messagesById.get(messageId)!.rawText || '']
+      : (claim.speakerPersonId ? textsFrom(claim.speakerPersonId) : allTexts);
+    const outcome = check(claim.evidence, texts);
+    if (outcome === 'unchecked') return { ...claim, messageId };
+    if (outcome === 'verified') return { ...claim, messageId, evidenceVerified: true };
+    warnings.push(`Claim "${claim.claimText}": quoted evidence not found in the speaker's messages`);
+    return {
+      ...claim,
+      messageId,
+      evidenceVerified: false,
+      verificationStatus: claim.verificationStatus === 'supported' ? 'ambiguous' : claim.verificationStatus,
+      notes: [claim.notes, 'Quoted evidence could not be found in the conversation.'].filter(Boolean).join(' ')
+    };
+  });
+
+  // Concerns: each evidence quote against the person's own messages
+  for (const personAnalysis of result.personAnalyses) {
+    const texts = textsFrom(personAnalysis.personId);
+    personAnalysis.concerns = (personAnalysis.concerns || []).map(concern => {
+      const evidence = Array.isArray(concern.evidence) ? concern.evidence : [];
+      const outcomes = evidence.map(e => check(e, texts.length > 0 ? texts : allTexts));
+      if (outcomes.every(o => o === 'unchecked')) return { ...concern, evidence };
+      if (!outcomes.includes('fabricated')) return { ...concern, evidence, evidenceVerified: true };
+      warnings.push(`Concern "${concern.type}" for ${personAnalysis.personId}: quoted evidence not found, severity downgraded`);
+      return {
+        ...concern,
+        evidence,
+        evidenceVerified: false,
+        severity: DOWNGRADED_SEVERITY[concern.severity] || 'low'
+      };
+    });
+  }
+
+  for (const action of result.issueActions) {
+    action.linkedMessageIds = keepKnownIds(action.linkedMessageIds, `Issue "${action.title}"`);
+    if (action.resolution?.messageId) {
+      [action.resolution.messageId] = keepKnownIds([action.resolution.messageId], `Resolution of "${action.title}"`);
+    }
+  }
+  for (const violation of result.agreementViolations) {
+    violation.messageIds = keepKnownIds(violation.messageIds, `Violation of ${violation.agreementItemId}`);
+  }
+  for (const agreement of result.detectedAgreements) {
+    agreement.messageIds = keepKnownIds(agreement.messageIds, `Agreement "${agreement.topic}"`);
+  }
+
+  return {
+    score: quotesChecked > 0 ? quotesVerified / quotesChecked : null,
+    quotesChecked,
+    quotesVerified,
+    rejectedMessageIds
+  };
+}
@@ -0,0 +1,54 @@
+import { ExchangeComplianceStats, ExchangeLog, ExchangeOutcome } from '../types';
+
+/**
+ * Per-parent compliance statistics over logged exchanges. Swaps made by
+ * mutual agreement count as compliant; late and missed exchanges do not.
+ * Dates are inclusive ISO date strings (yyyy-MM-dd).
+ */
+export function computeExchangeCompliance(
+  logs: ExchangeLog[],
+  range: { startDate?: string; endDate?: string } = {}
+): ExchangeComplianceStats[] {
+  const inRange = logs.filter(l => {
+    const day = l.scheduledAt.slice(0, 10);
+    return (!range.startDate || day >= range.startDate) && (!range.endDate || day <= range.endDate);
+  });
+
+  const byPerson = new Map<string, ExchangeLog[]>();
+  for (const log of inRange) {
+    if (!log.responsiblePersonId) continue;
+    byPerson.set(log.responsiblePersonId, [...(byPerson.get(log.responsiblePersonId) || []), log]);
+  }
+
+  return Array.from(byPerson.entries()).map(([personId, personLogs]) => {
+    const count = (outcome: ExchangeOutcome) => personLogs.filter(l => l.outcome === outcome).length;
+    const late = personLogs.filter(l => l.outcome === ExchangeOutcome.Late);
+    const onTime = count(ExchangeOutcome.OnTime);
+    const swapped = count(ExchangeOutcome.Swapped);
+
+    return {
+      personId,
+      total: personLogs.length,
+      onTime,
+      late: late.length,
+      missed: count(ExchangeOutcome.Missed),
+      swapped,
+      averageMinutesLate: late.length > 0
+        ? Math.round(late.reduce((sum, l) => sum + (l.minutesLate || 0), 0) / late.length)
+        : 0,
+      complianceRate: personLogs.length > 0 ? (onTime + swapped) / personLogs.length : 1
+    };
+  }).sort((a, b) => b.total - a.total);
+}
+
+export const EXCHANGE_OUTCOME_LABELS: Record<ExchangeOutcome, string> = {
+  [ExchangeOutcome.OnTime]: 'On time',
+  [ExchangeOutcome.Late]: 'Late',
+  [ExchangeOutcome.Missed]: 'Missed',
+  [ExchangeOutcome.Swapped]: 'Swapped by agreement'
+};
+
+export const describeExchangeLog = (log: ExchangeLog): string =>
+  log.outcome === ExchangeOutcome.Late && log.minutesLate
+    ? `Late by ${log.minutesLate} min`
+    : EXCHANGE_OUTCOME_LABELS[log.outcome];
@@ -0,0 +1,71 @@
+import { ConversationAnalysis, FlagReview } from '../types';
+import { MessageAnnotation } from '../types/analysisTypes';
+
+/**
+ * Overlays reviewer decisions on the flags stored in conversation analyses.
+ * Analyses keep the model's raw output; reviews are matched by message, flag
+ * type and attributed person, so a re-analysis that produces the same flag
+ * inherits the earlier decision.
+ */
+
+export type FlagReviewState = 'pending' | FlagReview['status'];
+
+export type AnalysisFlag = MessageAnnotation['flags'][number];
+
+export interface ReviewedFlag {
+  key: string;
+  conversationId: string;
+  messageId: string;
+  // As produced by the analysis
+  original: AnalysisFlag;
+  // With any reviewer corrections applied
+  flag: AnalysisFlag;
+  state: FlagReviewState;
+  review?: FlagReview;
+}
+
+export const flagReviewKey = (messageId: string, flagType: string, attributedToPersonId: string): string =>
+  `${messageId}|${flagType}|${attributedToPersonId}`;
+
+const applyCorrections = (flag: AnalysisFlag, review?: FlagReview): AnalysisFlag =>
+  review?.status === 'corrected'
+    ? {
+        ...flag,
+        type: review.correctedType || flag.type,
+        severity: review.correctedSeverity || flag.severity,
+        attributedToPersonId: review.correctedPersonId || flag.attributedToPersonId,
+        evidence: review.correctedEvidence || flag.evidence
+      }
+    : flag;
+
+export function reviewFlags(analyses: ConversationAnalysis[], reviews: FlagReview[]): ReviewedFlag[] {
+  const reviewsByKey = new Map(reviews.map(r => [flagReviewKey(r.messageId, r.flagType, r.attributedToPersonId), r]));
+  const seen = new Set<string>();
+  const flags: ReviewedFlag[] = [];
+
+  for (const analysis of analyses) {
+    for (const annotation of (analysis.messageAnnotations || []) as MessageAnnotation[]) {
+      for (const flag of annotation.flags || []) {
+        const key = flagReviewKey(annotation.messageId, flag.type, flag.attributedToPersonId);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const review = reviewsByKey.get(key);
+        flags.push({
+          key,
+          conversationId: analysis.conversationId,
+          messageId: annotation.messageId,
+          original: flag,
+          flag: applyCorrections(flag, review),
+          state: review?.status || 'pending',
+          review
+        });
+      }
+    }
+  }
+
+  return flags;
+}
+
+// Only flags a person has accepted count towards reports and trends
+export const isConfirmedFlag = (flag: ReviewedFlag): boolean =>
+  flag.state === 'confirmed' || flag.state === 'corrected';
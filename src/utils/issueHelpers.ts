@@ -1,3 +1,5 @@
+import { IssueResolution } from '../types';
+
 /**
  * Utility functions for issue title normalization and matching
  */
@@ -22,3 +24,83 @@ export function titlesMatch(a: string, b: string): boolean {
   return normalizeIssueTitle(a).toLowerCase() === 
          normalizeIssueTitle(b).toLowerCase();
 }
+
+/**
+ * A resolution needs a note and the agreement item or message that settled
+ * the issue.
+ */
+export function isCompleteResolution(resolution?: IssueResolution): boolean {
+  return !!resolution?.note?.trim() && !!(resolution.agreementItemId || resolution.messageId);
+}
+
+// Words that say nothing about what an issue is about
+const ISSUE_STOPWORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'for', 'to', 'in', 'on', 'at', 'with', 'about', 'over', 're', 'up', 'from', 'by',
+  'is', 'are', 'was', 'be', 'this', 'that', 'his', 'her', 'their', 'our', 'my',
+  'issue', 'issues', 'dispute', 'disputes', 'disagreement', 'conflict', 'concern', 'concerns', 'problem', 'question',
+  'regarding', 'related', 'ongoing', 'new'
+]);
+
+// Spellings and word forms of the same thing. Only true equivalents belong
+// here: mapping related words together (doctor and dentist, holiday and
+// travel) makes different issues look alike.
+const ISSUE_SYNONYMS: Record<string, string> = {
+  signup: 'enroll', register: 'enroll', registration: 'enroll', enrollment: 'enroll', enrolment: 'enroll', enrolling: 'enroll',
+  handoff: 'exchange', handover: 'exchange',
+  payment: 'pay', payments: 'pay', paying: 'pay',
+  reimbursement: 'reimburse', reimbursements: 'reimburse', reimbursing: 'reimburse',
+  phone: 'call', calls: 'call', calling: 'call'
+};
+
+function issueTokens(text: string): string[] {
+  return normalizeIssueTitle(text || '')
+    .toLowerCase()
+    // "sign-up" and "sign up" both become "signup"
+    .replace(/\b(sign|pick|drop|hand)[\s-]+(up|off|over)\b/g, '$1$2')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 1 && !ISSUE_STOPWORDS.has(word))
+    .map(word => ISSUE_SYNONYMS[word] || (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+// Sørensen–Dice coefficient over distinct tokens
+function dice(a: string[], b: string[]): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (setA.size === 0 || setB.size === 0) return 0;
+  let shared = 0;
+  for (const token of setA) if (setB.has(token)) shared++;
+  return (2 * shared) / (setA.size + setB.size);
+}
+
+/**
+ * Similarity of two issues from 0 to 1, weighted towards the title. Titles
+ * are compared on meaningful words so "Summer Camp Enrollment" and "Summer
+ * camp sign-up dispute" score as the same issue.
+ */
+export function issueSimilarity(
+  a: { title: string; description?: string | null },
+  b: { title: string; description?: string | null }
+): number {
+  const titleScore = dice(issueTokens(a.title), issueTokens(b.title));
+  if (!a.description || !b.description) return titleScore;
+  const fullScore = dice(issueTokens(`${a.title} ${a.description}`), issueTokens(`${b.title} ${b.description}`));
+  return 0.7 * titleScore + 0.3 * fullScore;
+}
+
+// Above this an issue is treated as a near duplicate
+export const SIMILAR_ISSUE_THRESHOLD = 0.6;
+
+/**
+ * Existing issues that look like the same issue as the candidate, most
+ * similar first.
+ */
+export function findSimilarIssues<T extends { title: string; description?: string | null }>(
+  candidate: { title: string; description?: string | null },
+  issues: T[],
+  threshold = SIMILAR_ISSUE_THRESHOLD
+): Array<{ issue: T; similarity: number }> {
+  return issues
+    .map(issue => ({ issue, similarity: issueSimilarity(candidate, issue) }))
+    .filter(match => match.similarity >= threshold)
+    .sort((x, y) => y.similarity - x.similarity);
+}
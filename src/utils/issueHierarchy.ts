@@ -0,0 +1,69 @@
+import { Issue, IssueDependency, IssueStatus } from '../types';
+
+/**
+ * Helpers for the issue hierarchy (parent / sub-issues) and "blocked by"
+ * dependencies between issues.
+ */
+
+export interface IssueTreeNode {
+  issue: Issue;
+  children: IssueTreeNode[];
+}
+
+// Issues whose parent is missing (e.g. not loaded) are treated as top level
+export function buildIssueTree(issues: Issue[]): IssueTreeNode[] {
+  const nodes = new Map(issues.map(issue => [issue.id, { issue, children: [] as IssueTreeNode[] }]));
+  const roots: IssueTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.issue.parentIssueId ? nodes.get(node.issue.parentIssueId) : undefined;
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+  return roots;
+}
+
+export function descendantIds(issueId: string, issues: Issue[]): Set<string> {
+  const found = new Set<string>();
+  const queue = [issueId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const issue of issues) {
+      if (issue.parentIssueId === current && !found.has(issue.id)) {
+        found.add(issue.id);
+        queue.push(issue.id);
+      }
+    }
+  }
+  return found;
+}
+
+// An issue can't sit under itself or one of its own sub-issues
+export const canSetParent = (issueId: string, parentId: string, issues: Issue[]): boolean =>
+  issueId !== parentId && !descendantIds(issueId, issues).has(parentId);
+
+/**
+ * True if making issueId blocked by blockedById would close a loop, i.e.
+ * blockedById already (directly or transitively) waits on issueId.
+ */
+export function wouldCreateDependencyCycle(issueId: string, blockedById: string, dependencies: IssueDependency[]): boolean {
+  if (issueId === blockedById) return true;
+  const visited = new Set<string>();
+  const queue = [blockedById];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === issueId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    queue.push(...dependencies.filter(d => d.issueId === current).map(d => d.blockedByIssueId));
+  }
+  return false;
+}
+
+const isSettled = (issue: Issue) => issue.status === IssueStatus.Resolved || issue.status === IssueStatus.Archived;
+
+// Blocking issues that are still open or being monitored
+export const openBlockers = (issueId: string, dependencies: IssueDependency[], issues: Issue[]): Issue[] =>
+  dependencies
+    .filter(d => d.issueId === issueId)
+    .map(d => issues.find(i => i.id === d.blockedByIssueId))
+    .filter((issue): issue is Issue => !!issue && !isSettled(issue));
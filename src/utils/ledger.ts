@@ -0,0 +1,77 @@
+import { AgreementItem, Reimbursement, ReimbursementStatus } from '../types';
+import { getAgreementCategory } from './agreementCategories';
+
+/**
+ * Expense and child-support ledger calculations. An entry's creditor is
+ * paidByPersonId (who fronted the money or is owed support) and its debtor
+ * is requestedFromPersonId.
+ */
+
+export interface LedgerBalance {
+  personId: string;
+  // Outstanding amounts others owe this person
+  owedTo: number;
+  // Outstanding amounts this person owes others
+  owes: number;
+  // Total this person has paid out (fronted expenses and repayments)
+  totalPaid: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const getAmountOwed = (entry: Reimbursement): number => {
+  if (entry.amountRequested != null) return entry.amountRequested;
+  if (entry.entryType === 'child_support') return entry.amount;
+  return entry.splitPercentage != null ? round2(entry.amount * entry.splitPercentage / 100) : entry.amount;
+};
+
+export const getOutstanding = (entry: Reimbursement): number => {
+  if (entry.status === ReimbursementStatus.Paid || entry.status === ReimbursementStatus.Declined) return 0;
+  return Math.max(0, round2(getAmountOwed(entry) - entry.amountPaid));
+};
+
+export const isOverdue = (entry: Reimbursement, today: string = new Date().toISOString().slice(0, 10)): boolean =>
+  !!entry.dueDate && entry.dueDate < today && getOutstanding(entry) > 0;
+
+export function computeLedgerBalances(entries: Reimbursement[]): LedgerBalance[] {
+  const balances = new Map<string, LedgerBalance>();
+  const get = (personId: string) => {
+    if (!balances.has(personId)) balances.set(personId, { personId, owedTo: 0, owes: 0, totalPaid: 0 });
+    return balances.get(personId)!;
+  };
+
+  for (const entry of entries) {
+    const outstanding = getOutstanding(entry);
+    if (entry.paidByPersonId) {
+      const creditor = get(entry.paidByPersonId);
+      creditor.owedTo = round2(creditor.owedTo + outstanding);
+      if (entry.entryType === 'expense') creditor.totalPaid = round2(creditor.totalPaid + entry.amount);
+    }
+    if (entry.requestedFromPersonId) {
+      const debtor = get(entry.requestedFromPersonId);
+      debtor.owes = round2(debtor.owes + outstanding);
+      debtor.totalPaid = round2(debtor.totalPaid + entry.amountPaid);
+    }
+  }
+
+  return Array.from(balances.values());
+}
+
+/**
+ * Pulls the split percentage out of a financial agreement item,
+ * e.g. "expenses shall be divided 60% Father / 40% Mother" -> [60, 40].
+ */
+export function extractSplitPercentages(item: AgreementItem): number[] {
+  const text = `${item.fullText || ''} ${item.summary || ''}`;
+  if (/\b(equally|50\s*\/\s*50|split evenly|one[- ]half)\b/i.test(text)) return [50];
+  const matches = Array.from(text.matchAll(/(\d{1,3}(?:\.\d+)?)\s*(?:%|percent)/gi))
+    .map(m => parseFloat(m[1]))
+    .filter(n => n > 0 && n <= 100);
+  return Array.from(new Set(matches));
+}
+
+export const getFinancialAgreementItems = (items: AgreementItem[]): AgreementItem[] =>
+  items.filter(i => i.isActive && getAgreementCategory(i) === 'financial');
+
+export const formatCurrency = (amount: number): string =>
+  amount.toLocaleString(undefined, { style: 'currency', currency: 'USD' });
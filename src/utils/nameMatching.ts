@@ -2,17 +2,17 @@
  * Fuzzy Name Matching Utilities
  * 
  * Provides functions to match extracted names against existing people
- * using various strategies including exact match, partial match, and 
- * Levenshtein distance.
+ * using various strategies including exact match, known aliases, partial
+ * match, and Levenshtein distance.
  */
 
-import { Person } from '../types';
+import { Person, PersonAlias, PersonAliasType } from '../types';
 
 export interface NameMatchResult {
   personId: string;
   personName: string;
   matchScore: number;
-  matchType: 'exact' | 'normalized' | 'partial' | 'fuzzy';
+  matchType: 'exact' | 'alias' | 'normalized' | 'partial' | 'fuzzy';
 }
 
 /**
@@ -22,6 +22,57 @@ function normalizeName(name: string): string {
   return name.toLowerCase().trim().replace(/\s+/g, ' ');
 }
 
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Phone numbers compare on their last ten digits so a country code doesn't matter
+const phoneDigits = (value: string): string => value.replace(/\D/g, '').slice(-10);
+
+const looksLikePhone = (value: string): boolean => /^[+\d\s().-]+$/.test(value.trim()) && phoneDigits(value).length >= 7;
+
+/**
+ * Which kind of alias a raw value from an import is: an email address, a
+ * phone number, or otherwise a name (fallbackType).
+ */
+export function inferAliasType(value: string, fallbackType: PersonAliasType = 'name'): PersonAliasType {
+  if (EMAIL_PATTERN.test(value.trim())) return 'email';
+  if (looksLikePhone(value)) return 'phone';
+  return fallbackType;
+}
+
+/**
+ * Look a value up among people's email addresses, phone numbers and saved
+ * aliases. Returns null when nothing matches or the value is ambiguous
+ * (it belongs to more than one person).
+ */
+export function findAliasMatch(
+  value: string,
+  existingPeople: Person[],
+  aliases: PersonAlias[] = []
+): NameMatchResult | null {
+  if (!value) return null;
+  const kind = inferAliasType(value);
+  const matchingIds = new Set<string>();
+
+  if (kind === 'email') {
+    const email = value.trim().toLowerCase();
+    existingPeople.filter(p => p.email?.trim().toLowerCase() === email).forEach(p => matchingIds.add(p.id));
+    aliases.filter(a => a.aliasType === 'email' && a.alias.trim().toLowerCase() === email).forEach(a => matchingIds.add(a.personId));
+  } else if (kind === 'phone') {
+    const digits = phoneDigits(value);
+    existingPeople.filter(p => p.phone && phoneDigits(p.phone) === digits).forEach(p => matchingIds.add(p.id));
+    aliases.filter(a => a.aliasType === 'phone' && phoneDigits(a.alias) === digits).forEach(a => matchingIds.add(a.personId));
+  } else {
+    const name = normalizeName(value);
+    aliases
+      .filter(a => a.aliasType !== 'email' && a.aliasType !== 'phone' && normalizeName(a.alias) === name)
+      .forEach(a => matchingIds.add(a.personId));
+  }
+
+  if (matchingIds.size !== 1) return null;
+  const person = existingPeople.find(p => matchingIds.has(p.id));
+  return person ? { personId: person.id, personName: person.fullName, matchScore: 1, matchType: 'alias' } : null;
+}
+
 /**
  * Extract first and last name parts from a full name
  */
@@ -83,12 +134,14 @@ function nameSimilarity(name1: string, name2: string): number {
 
 /**
  * Find the best matching existing person for an extracted name
- * Returns null if no good match found
+ * Returns null if no good match found. A saved alias counts as a match
+ * unless another person has the name as their full name.
  */
 export function findBestMatch(
   extractedName: string,
   existingPeople: Person[],
-  threshold: number = 0.6
+  threshold: number = 0.6,
+  aliases: PersonAlias[] = []
 ): NameMatchResult | null {
   if (!extractedName || existingPeople.length === 0) {
     return null;
@@ -96,6 +149,11 @@ export function findBestMatch(
 
   const normalizedExtracted = normalizeName(extractedName);
   const extractedParts = getNameParts(extractedName);
+
+  if (!existingPeople.some(p => normalizeName(p.fullName) === normalizedExtracted)) {
+    const aliasMatch = findAliasMatch(extractedName, existingPeople, aliases);
+    if (aliasMatch) return aliasMatch;
+  }
   
   let bestMatch: NameMatchResult | null = null;
 
@@ -232,12 +290,13 @@ export function findAllMatches(
 export function autoMatchPeople(
   extractedNames: string[],
   existingPeople: Person[],
-  highConfidenceThreshold: number = 0.8
+  highConfidenceThreshold: number = 0.8,
+  aliases: PersonAlias[] = []
 ): Map<number, NameMatchResult> {
   const matches = new Map<number, NameMatchResult>();
   
   for (let i = 0; i < extractedNames.length; i++) {
-    const match = findBestMatch(extractedNames[i], existingPeople, highConfidenceThreshold);
+    const match = findBestMatch(extractedNames[i], existingPeople, highConfidenceThreshold, aliases);
     if (match) {
       matches.set(i, match);
     }
@@ -0,0 +1,132 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { AgreementItem, DerivedDeadline, Event, Message, Obligation, ObligationStatus } from '../types';
+import { ClaimEntry } from '../types/analysisTypes';
+import { normalizeTextForMatching } from './textMatching';
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  fourteen: 14, fifteen: 15, twenty: 20, thirty: 30, forty: 40, 'forty-five': 45, sixty: 60, ninety: 90
+};
+
+const UNIT_DAYS: Record<string, number> = { hour: 1 / 24, day: 1, week: 7, month: 30 };
+
+const AMOUNT = `\\b(\\d+|${Object.keys(NUMBER_WORDS).join('|')})(?:\\s*\\(\\d+\\))?`;
+const UNIT = '(hours?|days?|weeks?|months?)';
+const NOTICE_PATTERNS = [
+  // "30 days' advance written notice"
+  new RegExp(`${AMOUNT}[\\s-]*${UNIT}['’]?\\s+(?:of\\s+)?(?:(?:advance|advanced|prior|written)\\s+)*notice`, 'i'),
+  // "notice of at least 14 days"
+  new RegExp(`notice\\s+(?:of\\s+)?(?:at\\s+least\\s+|no\\s+less\\s+than\\s+|not\\s+less\\s+than\\s+)?${AMOUNT}[\\s-]*${UNIT}`, 'i')
+];
+
+// Words too generic to tie an agreement topic to a planned event
+const TOPIC_STOPWORDS = new Set([
+  'notice', 'notification', 'requirement', 'requirements', 'advance', 'prior', 'written', 'parent', 'parents',
+  'child', 'children', 'with', 'from', 'that', 'this', 'shall', 'other', 'party', 'parties', 'policy', 'rules'
+]);
+
+/**
+ * Returns the notice period an agreement item requires, in whole days,
+ * e.g. "30 days notice for out-of-state travel" -> 30. Null if none.
+ */
+export function parseNoticeDays(item: AgreementItem): number | null {
+  const text = `${item.fullText || ''} ${item.summary || ''}`;
+  for (const pattern of NOTICE_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const amount = /^\d+$/.test(match[1]) ? parseInt(match[1], 10) : NUMBER_WORDS[match[1].toLowerCase()];
+    const unit = match[2].toLowerCase().replace(/s$/, '');
+    if (amount && UNIT_DAYS[unit]) return Math.ceil(amount * UNIT_DAYS[unit]);
+  }
+  return null;
+}
+
+const topicKeywords = (item: AgreementItem): string[] =>
+  normalizeTextForMatching(item.topic)
+    .split(/[^a-z]+/)
+    .filter(w => w.length >= 4 && !TOPIC_STOPWORDS.has(w));
+
+export function eventMatchesTopic(item: AgreementItem, event: Event): boolean {
+  const eventText = normalizeTextForMatching(`${event.title} ${event.description || ''}`);
+  // Compare on a short stem so "travel" matches "traveling" and "vacation" matches "vacations"
+  return topicKeywords(item).some(word => eventText.includes(word.slice(0, 6)));
+}
+
+/**
+ * Deadlines by which notice must be given for upcoming events covered by an
+ * agreement item with a notice requirement. Deadlines that are already
+ * tracked as obligations are omitted.
+ */
+export function deriveNoticeDeadlines(
+  items: AgreementItem[],
+  events: Event[],
+  tracked: Obligation[],
+  today: string = format(new Date(), 'yyyy-MM-dd')
+): DerivedDeadline[] {
+  const trackedKeys = new Set(tracked.filter(o => o.agreementItemId && o.eventId).map(o => `${o.agreementItemId}:${o.eventId}`));
+  const upcoming = events.filter(e => e.date.slice(0, 10) >= today);
+  const deadlines: DerivedDeadline[] = [];
+
+  for (const item of items) {
+    if (!item.isActive) continue;
+    const noticeDays = parseNoticeDays(item);
+    if (noticeDays == null) continue;
+
+    for (const event of upcoming) {
+      if (trackedKeys.has(`${item.id}:${event.id}`) || !eventMatchesTopic(item, event)) continue;
+      const eventDate = event.date.slice(0, 10);
+      deadlines.push({
+        key: `${item.id}:${event.id}`,
+        title: `Give notice for ${event.title}`,
+        description: `${item.itemRef ? `${item.itemRef} ` : ''}${item.topic} requires ${noticeDays} days notice`,
+        dueDate: format(addDays(parseISO(eventDate), -noticeDays), 'yyyy-MM-dd'),
+        noticeDays,
+        agreementItemId: item.id,
+        eventId: event.id,
+        eventDate
+      });
+    }
+  }
+
+  return deadlines.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
+
+/**
+ * Turns the commitment claims of an analysis into obligation drafts. The
+ * source message is the one the model cited, falling back to the message
+ * from the speaker that contains the quoted evidence.
+ */
+export function commitmentsFromClaims(
+  claims: ClaimEntry[],
+  messages: Array<Pick<Message, 'id' | 'senderId' | 'rawText'>>
+): Array<{ title: string; ownerPersonId?: string; dueDate?: string; sourceMessageId?: string; description?: string }> {
+  return claims
+    .filter(c => c.category === 'commitment' && c.claimText)
+    .map(c => {
+      let sourceMessageId = messages.find(m => m.id === c.messageId)?.id;
+      if (!sourceMessageId && c.evidence) {
+        const evidence = normalizeTextForMatching(c.evidence).replace(/^"|"$/g, '');
+        sourceMessageId = messages.find(m =>
+          m.senderId === c.speakerPersonId && normalizeTextForMatching(m.rawText).includes(evidence)
+        )?.id;
+      }
+      return {
+        title: c.claimText,
+        ownerPersonId: c.speakerPersonId || undefined,
+        dueDate: c.dueDate && /^\d{4}-\d{2}-\d{2}$/.test(c.dueDate) ? c.dueDate : undefined,
+        sourceMessageId,
+        description: c.notes || undefined
+      };
+    });
+}
+
+export const isObligationOverdue = (o: Obligation, today: string = format(new Date(), 'yyyy-MM-dd')): boolean =>
+  o.status === ObligationStatus.Open && !!o.dueDate && o.dueDate < today;
+
+export const isObligationUpcoming = (
+  o: Pick<Obligation, 'status' | 'dueDate'>,
+  withinDays = 14,
+  today: string = format(new Date(), 'yyyy-MM-dd')
+): boolean =>
+  o.status === ObligationStatus.Open && !!o.dueDate && o.dueDate >= today &&
+  o.dueDate <= format(addDays(parseISO(today), withinDays), 'yyyy-MM-dd');
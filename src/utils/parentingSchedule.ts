@@ -0,0 +1,320 @@
+import {
+  addDays, differenceInCalendarDays, endOfMonth, endOfWeek, format, parseISO,
+  startOfMonth, startOfWeek, subDays
+} from 'date-fns';
+import {
+  AgreementItem, CustodyResolution, CustodyRotationPattern, ParentingSchedule, Person, Role
+} from '../types';
+import { getAgreementCategory } from './agreementCategories';
+
+/**
+ * Parenting-time schedule helpers: rotation templates, named holidays,
+ * custody resolution for a date and heuristic extraction of structured
+ * schedules from free-text agreement items.
+ */
+
+export type ParentingScheduleDraft = Omit<ParentingSchedule, 'id' | 'createdAt'>;
+
+type Slot = 'A' | 'B';
+
+const repeat = (slot: Slot, days: number): Slot[] => Array(days).fill(slot);
+
+// Cycles start on a Monday; parent A holds the first slot
+export const ROTATION_PATTERNS: Record<Exclude<CustodyRotationPattern, 'custom'>, { label: string; slots: Slot[] }> = {
+  alternating_weeks: { label: 'Alternating weeks (7-7)', slots: [...repeat('A', 7), ...repeat('B', 7)] },
+  alternating_weekends: { label: 'Alternating weekends', slots: [...repeat('A', 4), ...repeat('B', 3), ...repeat('A', 7)] },
+  '2-2-3': { label: '2-2-3', slots: [...repeat('A', 2), ...repeat('B', 2), ...repeat('A', 3), ...repeat('B', 2), ...repeat('A', 2), ...repeat('B', 3)] },
+  '2-2-5-5': { label: '2-2-5-5', slots: [...repeat('A', 2), ...repeat('B', 2), ...repeat('A', 5), ...repeat('B', 5)] },
+  '3-4-4-3': { label: '3-4-4-3', slots: [...repeat('A', 3), ...repeat('B', 4), ...repeat('A', 4), ...repeat('B', 3)] }
+};
+
+export function buildRotationCycle(pattern: CustodyRotationPattern, parentAId: string, parentBId: string): string[] {
+  if (pattern === 'custom') return [];
+  return ROTATION_PATTERNS[pattern].slots.map(slot => slot === 'A' ? parentAId : parentBId);
+}
+
+// --- Named holidays ---
+
+const nthWeekdayOfMonth = (year: number, month: number, weekday: number, n: number): Date => {
+  const first = new Date(year, month, 1);
+  const offset = (weekday - first.getDay() + 7) % 7;
+  return new Date(year, month, 1 + offset + (n - 1) * 7);
+};
+
+const lastWeekdayOfMonth = (year: number, month: number, weekday: number): Date => {
+  const last = new Date(year, month + 1, 0);
+  return new Date(year, month, last.getDate() - ((last.getDay() - weekday + 7) % 7));
+};
+
+// Anonymous Gregorian algorithm
+const easterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31) - 1;
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month, day);
+};
+
+export const NAMED_HOLIDAYS: Record<string, { label: string; pattern: RegExp; date: (year: number) => Date }> = {
+  new_years_day: { label: "New Year's Day", pattern: /new year'?s day/i, date: y => new Date(y, 0, 1) },
+  easter: { label: 'Easter', pattern: /\beaster\b/i, date: easterSunday },
+  mothers_day: { label: "Mother's Day", pattern: /mother'?s day/i, date: y => nthWeekdayOfMonth(y, 4, 0, 2) },
+  memorial_day: { label: 'Memorial Day', pattern: /memorial day/i, date: y => lastWeekdayOfMonth(y, 4, 1) },
+  fathers_day: { label: "Father's Day", pattern: /father'?s day/i, date: y => nthWeekdayOfMonth(y, 5, 0, 3) },
+  independence_day: { label: 'Independence Day', pattern: /independence day|fourth of july|july 4(th)?\b/i, date: y => new Date(y, 6, 4) },
+  labor_day: { label: 'Labor Day', pattern: /labou?r day/i, date: y => nthWeekdayOfMonth(y, 8, 1, 1) },
+  halloween: { label: 'Halloween', pattern: /halloween/i, date: y => new Date(y, 9, 31) },
+  thanksgiving: { label: 'Thanksgiving', pattern: /thanksgiving/i, date: y => nthWeekdayOfMonth(y, 10, 4, 4) },
+  christmas_eve: { label: 'Christmas Eve', pattern: /christmas eve/i, date: y => new Date(y, 11, 24) },
+  christmas_day: { label: 'Christmas Day', pattern: /christmas day/i, date: y => new Date(y, 11, 25) }
+};
+
+const toKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const inWindow = (key: string, start?: string, end?: string) =>
+  (!start || start <= key) && (!end || key <= end);
+
+function holidayCoversDate(schedule: ParentingSchedule, date: Date): boolean {
+  const key = toKey(date);
+  const year = date.getFullYear();
+
+  if (schedule.yearParity && (year % 2 === 1 ? 'odd' : 'even') !== schedule.yearParity) return false;
+
+  if (schedule.holidayKey && NAMED_HOLIDAYS[schedule.holidayKey]) {
+    return toKey(NAMED_HOLIDAYS[schedule.holidayKey].date(year)) === key;
+  }
+
+  if (!schedule.startDate) return false;
+  const end = schedule.endDate || schedule.startDate;
+
+  if (schedule.recurrence === 'once') return inWindow(key, schedule.startDate, end);
+
+  // Yearly: compare month-day, allowing ranges that wrap over New Year
+  const md = key.slice(5);
+  const startMd = schedule.startDate.slice(5);
+  const endMd = end.slice(5);
+  return startMd <= endMd ? md >= startMd && md <= endMd : md >= startMd || md <= endMd;
+}
+
+function resolveCustodian(date: Date, schedules: ParentingSchedule[]): CustodyResolution {
+  const key = toKey(date);
+
+  // Later entries win when holidays overlap
+  const holiday = schedules
+    .filter(s => s.scheduleType === 'holiday' && s.custodianPersonId && holidayCoversDate(s, date))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  if (holiday) {
+    return {
+      date: key,
+      custodianPersonId: holiday.custodianPersonId,
+      source: 'holiday',
+      scheduleId: holiday.id,
+      agreementItemId: holiday.agreementItemId,
+      holidayLabel: holiday.label
+    };
+  }
+
+  // The most recently started rotation in its window applies
+  const rotation = schedules
+    .filter(s => s.scheduleType === 'rotation' && s.anchorDate && s.cycle && s.cycle.length > 0
+      && inWindow(key, s.startDate || s.anchorDate, s.endDate))
+    .sort((a, b) => (b.startDate || b.anchorDate!).localeCompare(a.startDate || a.anchorDate!))[0];
+  if (rotation) {
+    const cycle = rotation.cycle!;
+    const offset = differenceInCalendarDays(date, parseISO(rotation.anchorDate!));
+    return {
+      date: key,
+      custodianPersonId: cycle[((offset % cycle.length) + cycle.length) % cycle.length],
+      source: 'rotation',
+      scheduleId: rotation.id,
+      agreementItemId: rotation.agreementItemId
+    };
+  }
+
+  return { date: key, source: 'none' };
+}
+
+function findExchange(date: Date, schedules: ParentingSchedule[]): ParentingSchedule | undefined {
+  const key = toKey(date);
+  const candidates = schedules.filter(s => s.scheduleType === 'exchange' && inWindow(key, s.startDate, s.endDate));
+  return candidates.find(s => s.exchangeDays?.includes(date.getDay()))
+    || candidates.find(s => !s.exchangeDays || s.exchangeDays.length === 0);
+}
+
+/**
+ * Answers "who should have the children on this date". Holidays take
+ * precedence over rotations; an exchange is attached when custody changes
+ * hands from the previous day.
+ */
+export function resolveCustody(date: Date, schedules: ParentingSchedule[]): CustodyResolution {
+  const today = resolveCustodian(date, schedules);
+  const previous = resolveCustodian(subDays(date, 1), schedules);
+
+  if (today.custodianPersonId && previous.custodianPersonId && today.custodianPersonId !== previous.custodianPersonId) {
+    const exchange = findExchange(date, schedules);
+    today.exchange = {
+      fromPersonId: previous.custodianPersonId,
+      toPersonId: today.custodianPersonId,
+      time: exchange?.exchangeTime,
+      location: exchange?.exchangeLocation
+    };
+  }
+
+  return today;
+}
+
+// Full weeks covering the month, Sunday first
+export function buildMonthCalendar(month: Date, schedules: ParentingSchedule[]): CustodyResolution[] {
+  const start = startOfWeek(startOfMonth(month));
+  const days = differenceInCalendarDays(endOfWeek(endOfMonth(month)), start) + 1;
+  return Array.from({ length: days }, (_, i) => resolveCustody(addDays(start, i), schedules));
+}
+
+// --- Extraction from agreement text ---
+
+const SCHEDULE_CATEGORIES = ['parenting_time', 'holiday_schedule', 'exchange'] as const;
+export type ScheduleCategory = typeof SCHEDULE_CATEGORIES[number];
+
+export function getScheduleCategory(item: AgreementItem): ScheduleCategory | null {
+  return getAgreementCategory(item, SCHEDULE_CATEGORIES) as ScheduleCategory | null;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const splitSentences = (text: string) => text.split(/(?<=[.;])\s+|\n+/).map(s => s.trim()).filter(Boolean);
+
+const parseTime = (text: string): string | undefined => {
+  const match = text.match(/\b(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)/i);
+  if (match) {
+    let hours = parseInt(match[1], 10) % 12;
+    if (match[3].toLowerCase().startsWith('p')) hours += 12;
+    return `${String(hours).padStart(2, '0')}:${match[2] || '00'}`;
+  }
+  if (/\bnoon\b/i.test(text)) return '12:00';
+  return undefined;
+};
+
+const parseLocation = (text: string): string | undefined => {
+  const common = text.match(/\bat\s+(?:the\s+)?((?:child(?:ren)?'s\s+)?(?:school|daycare|curbside))/i);
+  if (common) return common[1];
+  const named = text.match(/\bat\s+(?:the\s+)?([A-Z][A-Za-z0-9'&.-]*(?:\s+(?:of\s+)?[A-Z][A-Za-z0-9'&.-]*)*)/);
+  return named && !/^\d/.test(named[1]) ? named[1].replace(/[.,;]+$/, '') : undefined;
+};
+
+const parseStartDate = (text: string): string | undefined => {
+  const match = text.match(/(?:beginning|starting|commencing|effective)\s+(?:on\s+)?([A-Z][a-z]+\.?\s+\d{1,2},?\s+\d{4}|\d{1,2}\/\d{1,2}\/\d{4})/);
+  if (!match) return undefined;
+  const date = new Date(match[1]);
+  return isNaN(date.getTime()) ? undefined : toKey(date);
+};
+
+const detectRotationPattern = (text: string): CustodyRotationPattern | null => {
+  if (/\b2[- ]2[- ]5[- ]5\b/.test(text)) return '2-2-5-5';
+  if (/\b3[- ]4[- ]4[- ]3\b/.test(text)) return '3-4-4-3';
+  if (/\b2[- ]2[- ]3\b/.test(text)) return '2-2-3';
+  if (/alternat\w*\s+weekends?|every other weekend/i.test(text)) return 'alternating_weekends';
+  if (/alternat\w*\s+weeks?\b|week[- ]on[,/ ]+week[- ]off|every other week\b|7[- ]on[,/ ]+7[- ]off/i.test(text)) return 'alternating_weeks';
+  return null;
+};
+
+// Parents in order of first mention, then any not mentioned
+const orderParentsByMention = (text: string, parents: Person[]): Person[] => {
+  const lower = text.toLowerCase();
+  const position = (p: Person) => {
+    const indices = [p.fullName, p.fullName.split(' ')[0]]
+      .map(name => lower.indexOf(name.toLowerCase()))
+      .filter(i => i >= 0);
+    return indices.length > 0 ? Math.min(...indices) : Infinity;
+  };
+  return [...parents].sort((a, b) => position(a) - position(b));
+};
+
+const firstMentioned = (text: string, parents: Person[]): Person | undefined => {
+  const ordered = orderParentsByMention(text, parents);
+  const lower = text.toLowerCase();
+  return ordered.find(p => lower.includes(p.fullName.split(' ')[0].toLowerCase()));
+};
+
+export const getScheduleParents = (people: Person[]): Person[] =>
+  people.filter(p => p.role === Role.Me || p.role === Role.Parent);
+
+/**
+ * Heuristic extraction of rotation, holiday and exchange schedules from an
+ * agreement item. Results are drafts for the user to review before saving.
+ */
+export function extractSchedulesFromAgreementItem(
+  item: AgreementItem,
+  people: Person[],
+  referenceDate: Date = new Date()
+): ParentingScheduleDraft[] {
+  const text = item.fullText || item.summary || '';
+  const parents = getScheduleParents(people);
+  const drafts: ParentingScheduleDraft[] = [];
+  const startDate = parseStartDate(text);
+
+  const pattern = detectRotationPattern(text);
+  if (pattern) {
+    const [parentA, parentB] = orderParentsByMention(text, parents);
+    const anchor = toKey(startOfWeek(startDate ? parseISO(startDate) : referenceDate, { weekStartsOn: 1 }));
+    drafts.push({
+      agreementItemId: item.id,
+      scheduleType: 'rotation',
+      label: `${ROTATION_PATTERNS[pattern as Exclude<CustodyRotationPattern, 'custom'>].label} rotation`,
+      pattern,
+      anchorDate: anchor,
+      cycle: parentA && parentB ? buildRotationCycle(pattern, parentA.id, parentB.id) : [],
+      startDate: startDate || anchor,
+      recurrence: 'once',
+      notes: item.itemRef
+    });
+  }
+
+  for (const sentence of splitSentences(text)) {
+    for (const [key, holiday] of Object.entries(NAMED_HOLIDAYS)) {
+      if (!holiday.pattern.test(sentence) || drafts.some(d => d.holidayKey === key)) continue;
+      const odd = /\bodd(?:[- ]numbered)?\s+years?\b/i.test(sentence);
+      const even = /\beven(?:[- ]numbered)?\s+years?\b/i.test(sentence);
+      drafts.push({
+        agreementItemId: item.id,
+        scheduleType: 'holiday',
+        label: holiday.label,
+        holidayKey: key,
+        recurrence: 'yearly',
+        yearParity: odd && !even ? 'odd' : even && !odd ? 'even' : undefined,
+        custodianPersonId: firstMentioned(sentence, parents)?.id,
+        notes: sentence.length > 200 ? `${sentence.slice(0, 200)}...` : sentence
+      });
+    }
+
+    if (/exchange|pick[- ]?up|drop[- ]?off|transfer|handover/i.test(sentence)) {
+      const time = parseTime(sentence);
+      const location = parseLocation(sentence);
+      if (!time && !location) continue;
+      const days = WEEKDAYS
+        .map((day, index) => new RegExp(`\\b${day}s?\\b`, 'i').test(sentence) ? index : -1)
+        .filter(index => index >= 0);
+      drafts.push({
+        agreementItemId: item.id,
+        scheduleType: 'exchange',
+        label: days.length > 0 ? `Exchange (${days.map(d => WEEKDAYS[d].charAt(0).toUpperCase() + WEEKDAYS[d].slice(1, 3)).join(', ')})` : 'Exchange',
+        recurrence: 'once',
+        startDate,
+        exchangeDays: days.length > 0 ? days : undefined,
+        exchangeTime: time,
+        exchangeLocation: location
+      });
+    }
+  }
+
+  return drafts;
+}
@@ -14,6 +14,34 @@ export interface ParsedConversation {
   participants: Set<string>;
   messages: ParsedMessage[];
   lastDate: Date;
+  // Participant name -> email address, when the source carries real addresses
+  participantEmails?: Record<string, string>;
+}
+
+export type OFWReportType = 'messages' | 'calendar' | 'expenses' | 'journal';
+
+export interface ParsedCalendarEntry {
+  kind: 'event' | 'trade';
+  title: string;
+  start: Date;
+  end?: Date;
+  parentName?: string;
+  location?: string;
+  status?: string;
+  notes?: string;
+}
+
+export interface ParsedExpense {
+  title: string;
+  category?: string;
+  expenseDate: Date;
+  amount: number;
+  amountRequested?: number;
+  paidByName?: string;
+  requestedFromName?: string;
+  status: string;
+  dueDate?: Date;
+  notes?: string;
 }
 
 const cleanOFWNoise = (text: string): string => {
@@ -33,6 +61,9 @@ const cleanOFWNoise = (text: string): string => {
     if (l.includes('Page ') && l.includes(' of ')) return false;
     if (l.includes('Message Report') && (l.length < 20 || l.includes('Page'))) return false;
     if (l.match(/^Message \d+ of \d+$/)) return false;
+    if (l.match(/^(Calendar|Expense Log|Journal) Report$/)) return false;
+    if (l.match(/^(Event|Expense|Entry) \d+ of \d+$/)) return false;
+    if (l.match(/^--- Page \d+ ---$/)) return false;
     return true;
   });
   return cleanedLines.join('\n');
@@ -196,6 +227,203 @@ export const parseOFWExport = (rawText: string): ParsedConversation => {
   };
 };
 
+// --- OFW Calendar / Expense / Journal Reports ---
+// These reports are label-driven ("Start: ...", "Amount: ..."). Values are read up to
+// the next known label rather than end-of-line, so text extracted from PDFs (where line
+// breaks are lost) parses the same way as copied text.
+
+const parseOFWDate = (value?: string): Date | undefined => {
+  if (!value) return undefined;
+  const match = value.match(/(\d{1,2}\/\d{1,2}\/\d{4})(?:\s+(?:at\s+)?(\d{1,2}:\d{2}\s*[AP]M))?/i);
+  if (!match) return undefined;
+  const parsed = new Date(match[2] ? `${match[1]} ${match[2]}` : match[1]);
+  return isNaN(parsed.getTime()) ? undefined : parsed;
+};
+
+const parseAmount = (value?: string): number | undefined => {
+  if (!value) return undefined;
+  const match = value.replace(/,/g, '').match(/-?\$?\s*(\d+(?:\.\d{1,2})?)/);
+  return match ? parseFloat(match[1]) : undefined;
+};
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Splits a report into entry blocks, each starting at one of the given start labels.
+ */
+const splitReportBlocks = (text: string, startLabels: string[]): string[] => {
+  const startRegex = new RegExp(`(?:^|\\s)(?=(?:${startLabels.map(escapeRegex).join('|')}):)`, 'gm');
+  const indices: number[] = [];
+  let match;
+  while ((match = startRegex.exec(text)) !== null) {
+    indices.push(match.index);
+    if (match[0].length === 0) startRegex.lastIndex++;
+  }
+  return indices.map((start, i) => text.substring(start, indices[i + 1] ?? text.length).trim());
+};
+
+/**
+ * Reads `Label: value` pairs from a block. Labels are matched longest-first so that
+ * "Amount Requested" is not mistaken for "Amount".
+ */
+const readLabeledFields = (block: string, labels: string[]): Record<string, string> => {
+  const sorted = [...labels].sort((a, b) => b.length - a.length);
+  const labelRegex = new RegExp(`(?:^|\\s)(${sorted.map(escapeRegex).join('|')}):`, 'g');
+  const hits: Array<{ label: string; valueStart: number; labelStart: number }> = [];
+  let match;
+  while ((match = labelRegex.exec(block)) !== null) {
+    hits.push({ label: match[1], labelStart: match.index, valueStart: match.index + match[0].length });
+  }
+
+  const fields: Record<string, string> = {};
+  hits.forEach((hit, i) => {
+    const end = hits[i + 1]?.labelStart ?? block.length;
+    if (!(hit.label in fields)) {
+      fields[hit.label] = block.substring(hit.valueStart, end).trim();
+    }
+  });
+  return fields;
+};
+
+const CALENDAR_LABELS = [
+  'Event', 'Trade Request', 'Start', 'End', 'Parent', 'Location', 'Status',
+  'Notes', 'Requested By', 'Original Dates', 'Proposed Dates', 'Requested', 'Responded'
+];
+
+export const parseOFWCalendarReport = (rawText: string): ParsedCalendarEntry[] => {
+  const cleanText = cleanOFWNoise(rawText);
+  const entries: ParsedCalendarEntry[] = [];
+
+  splitReportBlocks(cleanText, ['Event', 'Trade Request']).forEach(block => {
+    const fields = readLabeledFields(block, CALENDAR_LABELS);
+
+    if ('Trade Request' in fields) {
+      const requestedAt = parseOFWDate(fields['Requested']) || parseOFWDate(fields['Proposed Dates']);
+      if (!requestedAt) return;
+      const details = [
+        fields['Original Dates'] && `Original: ${fields['Original Dates']}`,
+        fields['Proposed Dates'] && `Proposed: ${fields['Proposed Dates']}`,
+        fields['Responded'] && `Responded: ${fields['Responded']}`,
+        fields['Notes']
+      ].filter(Boolean).join('\n');
+
+      entries.push({
+        kind: 'trade',
+        title: fields['Trade Request'] || 'Parenting time trade',
+        start: requestedAt,
+        end: parseOFWDate(fields['Proposed Dates']?.split(/\s+-\s+|\s+to\s+/)[1]),
+        parentName: fields['Requested By'],
+        status: fields['Status'],
+        notes: details || undefined
+      });
+      return;
+    }
+
+    const start = parseOFWDate(fields['Start']);
+    if (!fields['Event'] || !start) return;
+
+    entries.push({
+      kind: 'event',
+      title: fields['Event'],
+      start,
+      end: parseOFWDate(fields['End']),
+      parentName: fields['Parent'],
+      location: fields['Location'],
+      status: fields['Status'],
+      notes: fields['Notes']
+    });
+  });
+
+  return entries.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+const EXPENSE_LABELS = [
+  'Expense', 'Date', 'Category', 'Amount', 'Amount Requested', 'Paid By',
+  'Requested From', 'Status', 'Due Date', 'Notes', 'Split'
+];
+
+export const parseOFWExpenseReport = (rawText: string): ParsedExpense[] => {
+  const cleanText = cleanOFWNoise(rawText);
+  const expenses: ParsedExpense[] = [];
+
+  splitReportBlocks(cleanText, ['Expense']).forEach(block => {
+    const fields = readLabeledFields(block, EXPENSE_LABELS);
+    const expenseDate = parseOFWDate(fields['Date']);
+    const amount = parseAmount(fields['Amount']);
+    if (!fields['Expense'] || !expenseDate || amount === undefined) return;
+
+    const notes = [fields['Split'] && `Split: ${fields['Split']}`, fields['Notes']].filter(Boolean).join('\n');
+
+    expenses.push({
+      title: fields['Expense'],
+      category: fields['Category'],
+      expenseDate,
+      amount,
+      amountRequested: parseAmount(fields['Amount Requested']),
+      paidByName: fields['Paid By'],
+      requestedFromName: fields['Requested From'],
+      status: fields['Status'] || 'Pending',
+      dueDate: parseOFWDate(fields['Due Date']),
+      notes: notes || undefined
+    });
+  });
+
+  return expenses.sort((a, b) => a.expenseDate.getTime() - b.expenseDate.getTime());
+};
+
+const JOURNAL_LABELS = ['Created', 'Author', 'Shared With', 'Title', 'Entry'];
+
+/**
+ * Journal entries are the user's own notes, so every entry becomes an internal-note
+ * message authored by the journal owner.
+ */
+export const parseOFWJournalReport = (rawText: string): ParsedConversation => {
+  const cleanText = cleanOFWNoise(rawText);
+  const messages: ParsedMessage[] = [];
+  const participants = new Set<string>();
+
+  splitReportBlocks(cleanText, ['Created']).forEach(block => {
+    const fields = readLabeledFields(block, JOURNAL_LABELS);
+    const sentAt = parseOFWDate(fields['Created']);
+    if (!sentAt) return;
+
+    const author = fields['Author'] || 'Unknown';
+    let body = fields['Entry'];
+    let subject = fields['Title'] || 'Journal Entry';
+    if (!body && fields['Title']) {
+      // No explicit "Entry:" label - title is the first line, the rest is the body
+      const [firstLine, ...rest] = fields['Title'].split('\n');
+      if (rest.length > 0) {
+        subject = firstLine.trim();
+        body = rest.join('\n').trim();
+      } else {
+        subject = 'Journal Entry';
+        body = fields['Title'];
+      }
+    }
+    if (!body) return;
+
+    participants.add(author);
+    messages.push({
+      senderName: author,
+      receiverName: fields['Shared With'] || 'Unknown',
+      sentAt,
+      subject,
+      body: subject && subject !== 'Journal Entry' ? `${subject}\n\n${body}` : body,
+      direction: MessageDirection.Internal
+    });
+  });
+
+  const sorted = messages.sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime());
+
+  return {
+    title: 'OFW Journal',
+    participants,
+    messages: sorted,
+    lastDate: sorted.length > 0 ? sorted[sorted.length - 1].sentAt : new Date()
+  };
+};
+
 export const parseGenericText = (rawText: string): ParsedConversation => {
   const lines = rawText.split('\n');
   const preview = lines[0] ? lines[0].substring(0, 50) : 'Imported Text';
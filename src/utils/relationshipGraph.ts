@@ -0,0 +1,96 @@
+import { Person, PersonRelationship, Role } from '../types';
+
+/**
+ * Layout and overlay data for the family relationship graph: people are
+ * placed in genogram-style generations, and pairs of people are weighted by
+ * messages exchanged or open issues they share.
+ */
+
+export interface GraphNode {
+  person: Person;
+  x: number;
+  y: number;
+}
+
+export interface PairWeight {
+  personIds: [string, string];
+  count: number;
+}
+
+// Adults on top, children below them, professionals and others at the bottom
+const GENERATION: Record<Role, number> = {
+  [Role.Me]: 0,
+  [Role.Parent]: 0,
+  [Role.StepParent]: 0,
+  [Role.Child]: 1,
+  [Role.Clinician]: 2,
+  [Role.Legal]: 2,
+  [Role.Other]: 2
+};
+
+const ROLE_ORDER: Role[] = [Role.Me, Role.Parent, Role.StepParent, Role.Child, Role.Clinician, Role.Legal, Role.Other];
+
+export const pairKey = (a: string, b: string): string => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+/**
+ * Places each generation on its own row, spread evenly across the width.
+ * Within the top row, the user's partners and co-parents sit next to them.
+ */
+export function layoutGenerations(
+  people: Person[],
+  relationships: PersonRelationship[],
+  width: number,
+  rowHeight: number
+): GraphNode[] {
+  const me = people.find(p => p.role === Role.Me);
+  const linkedToMe = new Set(
+    relationships
+      .filter(r => me && (r.personId === me.id || r.relatedPersonId === me.id))
+      .map(r => (r.personId === me?.id ? r.relatedPersonId : r.personId))
+  );
+
+  const rows = new Map<number, Person[]>();
+  for (const person of people) {
+    const generation = GENERATION[person.role] ?? 2;
+    rows.set(generation, [...(rows.get(generation) || []), person]);
+  }
+
+  const nodes: GraphNode[] = [];
+  Array.from(rows.keys()).sort((a, b) => a - b).forEach((generation, rowIndex) => {
+    const row = rows.get(generation)!.sort((a, b) =>
+      ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role) ||
+      Number(linkedToMe.has(b.id)) - Number(linkedToMe.has(a.id)) ||
+      a.fullName.localeCompare(b.fullName)
+    );
+    const spacing = width / (row.length + 1);
+    row.forEach((person, i) => {
+      nodes.push({ person, x: spacing * (i + 1), y: rowHeight * (rowIndex + 0.5) });
+    });
+  });
+  return nodes;
+}
+
+const toPairWeights = (counts: Map<string, number>): PairWeight[] =>
+  Array.from(counts.entries())
+    .map(([key, count]) => ({ personIds: key.split(':') as [string, string], count }))
+    .sort((a, b) => b.count - a.count);
+
+// Every pair of people linked to the same open issue shares that issue
+export function countSharedIssues(links: Array<{ issueId: string; personId: string }>, openIssueIds: Set<string>): PairWeight[] {
+  const peopleByIssue = new Map<string, Set<string>>();
+  for (const link of links) {
+    if (!openIssueIds.has(link.issueId)) continue;
+    peopleByIssue.set(link.issueId, (peopleByIssue.get(link.issueId) || new Set()).add(link.personId));
+  }
+  const counts = new Map<string, number>();
+  for (const personIds of peopleByIssue.values()) {
+    const ids = Array.from(personIds);
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const key = pairKey(ids[i], ids[j]);
+        counts.set(key, (counts.get(key) || 0) + 1);
+      }
+    }
+  }
+  return toPairWeights(counts);
+}
@@ -0,0 +1,340 @@
+/**
+ * Deterministic parsers for phone message exports:
+ * - WhatsApp "Export chat" .txt (iOS and Android layouts)
+ * - iMazing / iExplorer CSV exports of iMessage/SMS threads
+ * - Android "SMS Backup & Restore" XML
+ *
+ * These avoid the AI parse for formats that are already structured.
+ */
+
+import { MessageDirection } from '../types';
+import type { ParsedConversation, ParsedMessage } from './parsers';
+
+// Sender name used for the device owner's outgoing messages. The import wizard maps
+// this to the person with Role.Me.
+export const SELF_SENDER_NAME = 'Me';
+
+export type SMSExportFormat = 'whatsapp' | 'csv' | 'android_xml';
+
+const buildConversation = (title: string, messages: ParsedMessage[]): ParsedConversation => {
+  const sorted = messages.sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime());
+  const participants = new Set<string>();
+  sorted.forEach(m => {
+    participants.add(m.senderName);
+    if (m.receiverName !== 'Unknown') participants.add(m.receiverName);
+  });
+
+  return {
+    title,
+    participants,
+    messages: sorted,
+    lastDate: sorted.length > 0 ? sorted[sorted.length - 1].sentAt : new Date()
+  };
+};
+
+const attachmentPlaceholder = (name?: string) => name ? `[Attachment: ${name}]` : '[Attachment]';
+
+/**
+ * Guesses which phone export format the text is in. Returns null for unknown formats.
+ */
+export function detectSMSExportFormat(rawText: string): SMSExportFormat | null {
+  const head = rawText.trimStart().substring(0, 2000);
+  if (head.startsWith('<?xml') || /<smses[\s>]/.test(head)) return 'android_xml';
+  if (WHATSAPP_IOS_LINE.test(head) || WHATSAPP_ANDROID_LINE.test(head)) return 'whatsapp';
+
+  const firstLine = head.split(/\r?\n/)[0].toLowerCase();
+  if (firstLine.includes(',') && /(text|message|body)/.test(firstLine) && /date/.test(firstLine)) return 'csv';
+  return null;
+}
+
+export interface SMSExportResult {
+  threads: ParsedConversation[];
+  // Drafts and messages that never went out (outbox, failed, queued). They are
+  // not part of the exchange, so they are left out and only counted.
+  unsent: number;
+}
+
+/**
+ * Parses a phone export into its conversations. WhatsApp and CSV exports hold a
+ * single chat; an Android backup yields one conversation per thread.
+ */
+export function parseSMSExport(rawText: string): SMSExportResult | null {
+  switch (detectSMSExportFormat(rawText)) {
+    case 'whatsapp': return { threads: [parseWhatsAppExport(rawText)], unsent: 0 };
+    case 'csv': return { threads: [parseMessageCSV(rawText)], unsent: 0 };
+    case 'android_xml': return parseAndroidSMSBackup(rawText);
+    default: return null;
+  }
+}
+
+// --- WhatsApp ---
+
+// iOS:     [1/5/24, 3:04:12 PM] Jane Doe: message
+// Android: 1/5/24, 15:04 - Jane Doe: message
+const WHATSAPP_IOS_LINE = /^\u200E?\[(\d{1,2}[./]\d{1,2}[./]\d{2,4}),?\s+(\d{1,2}:\d{2}(?::\d{2})?(?:\s*[AaPp]\.?\s?[Mm]\.?)?)\]\s+([^:]+?):\s?([\s\S]*)$/m;
+const WHATSAPP_ANDROID_LINE = /^\u200E?(\d{1,2}[./]\d{1,2}[./]\d{2,4}),?\s+(\d{1,2}:\d{2}(?::\d{2})?(?:\s*[AaPp]\.?\s?[Mm]\.?)?)\s+-\s+([^:]+?):\s?([\s\S]*)$/m;
+const WHATSAPP_SYSTEM_LINE = /^\u200E?\[?\d{1,2}[./]\d{1,2}[./]\d{2,4},?\s+\d{1,2}:\d{2}/;
+
+const parseWhatsAppDate = (datePart: string, timePart: string, dayFirst: boolean): Date => {
+  const [a, b, c] = datePart.split(/[./]/).map(n => parseInt(n, 10));
+  const [month, day] = dayFirst ? [b, a] : [a, b];
+  const year = c < 100 ? 2000 + c : c;
+
+  const timeMatch = timePart.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp])?/);
+  let hours = timeMatch ? parseInt(timeMatch[1], 10) : 0;
+  const minutes = timeMatch ? parseInt(timeMatch[2], 10) : 0;
+  const seconds = timeMatch?.[3] ? parseInt(timeMatch[3], 10) : 0;
+  const meridiem = timeMatch?.[4]?.toLowerCase();
+  if (meridiem === 'p' && hours < 12) hours += 12;
+  if (meridiem === 'a' && hours === 12) hours = 0;
+
+  return new Date(year, month - 1, day, hours, minutes, seconds);
+};
+
+const cleanWhatsAppBody = (body: string): string => body
+  .replace(/\u200E/g, '')
+  .replace(/<attached:\s*([^>]+)>/gi, (_, name) => attachmentPlaceholder(name.trim()))
+  .replace(/^(.+?\.\w{2,4}) \(file attached\)$/gm, (_, name) => attachmentPlaceholder(name.trim()))
+  .replace(/<Media omitted>/gi, attachmentPlaceholder())
+  .replace(/^(image|video|audio|sticker|GIF|document) omitted$/gim, (_, kind) => `[Attachment: ${kind.toLowerCase()}]`)
+  .trim();
+
+export function parseWhatsAppExport(rawText: string): ParsedConversation {
+  const lines = rawText.replace(/\r\n/g, '\n').split('\n');
+  const lineRegex = lines.some(l => WHATSAPP_IOS_LINE.test(l)) ? WHATSAPP_IOS_LINE : WHATSAPP_ANDROID_LINE;
+
+  // Day-first locales are detected by any date whose first component exceeds 12
+  const dayFirst = lines.some(l => {
+    const m = l.match(lineRegex);
+    return m ? parseInt(m[1].split(/[./]/)[0], 10) > 12 : false;
+  });
+
+  const raw: Array<{ sender: string; sentAt: Date; bodyLines: string[] }> = [];
+  let current: (typeof raw)[number] | null = null;
+
+  for (const line of lines) {
+    const match = line.match(lineRegex);
+    if (match) {
+      current = {
+        sender: match[3].replace(/\u200E/g, '').trim(),
+        sentAt: parseWhatsAppDate(match[1], match[2], dayFirst),
+        bodyLines: [match[4]]
+      };
+      raw.push(current);
+    } else if (WHATSAPP_SYSTEM_LINE.test(line)) {
+      // System notices ("Messages are end-to-end encrypted", "X changed the group name")
+      current = null;
+    } else if (current) {
+      current.bodyLines.push(line);
+    }
+  }
+
+  const senders = Array.from(new Set(raw.map(r => r.sender)));
+  const messages: ParsedMessage[] = raw
+    .map(r => ({
+      senderName: r.sender,
+      // One-on-one chats have a single counterpart; group chats do not
+      receiverName: senders.length === 2 ? senders.find(s => s !== r.sender)! : 'Unknown',
+      sentAt: r.sentAt,
+      subject: 'WhatsApp',
+      body: cleanWhatsAppBody(r.bodyLines.join('\n')),
+      direction: MessageDirection.Inbound
+    }))
+    .filter(m => m.body);
+
+  return buildConversation(`WhatsApp: ${senders.join(', ') || 'Chat'}`, messages);
+}
+
+// --- iMazing / iExplorer CSV ---
+
+/**
+ * RFC 4180 CSV parsing (quoted fields, escaped quotes, embedded newlines).
+ */
+const parseCSVRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(f => f.trim()));
+};
+
+const findColumn = (headers: string[], candidates: string[]): number =>
+  headers.findIndex(h => candidates.includes(h.trim().toLowerCase()));
+
+export function parseMessageCSV(rawText: string): ParsedConversation {
+  const [headerRow, ...rows] = parseCSVRows(rawText.replace(/^\uFEFF/, ''));
+  const headers = headerRow || [];
+
+  const col = {
+    chat: findColumn(headers, ['chat session', 'conversation', 'chat', 'contact']),
+    date: findColumn(headers, ['message date', 'date', 'sent date', 'timestamp']),
+    time: findColumn(headers, ['time']),
+    type: findColumn(headers, ['type', 'direction']),
+    senderName: findColumn(headers, ['sender name', 'sender', 'from', 'name']),
+    senderId: findColumn(headers, ['sender id', 'sender address', 'phone', 'address']),
+    text: findColumn(headers, ['text', 'message', 'body', 'content']),
+    attachment: findColumn(headers, ['attachment', 'attachments', 'attachment name'])
+  };
+
+  if (col.date < 0 || col.text < 0) {
+    throw new Error('CSV is missing a date or message text column');
+  }
+
+  const get = (row: string[], idx: number) => idx >= 0 ? (row[idx] || '').trim() : '';
+  const chatName = rows.map(r => get(r, col.chat)).find(Boolean);
+
+  const messages: ParsedMessage[] = [];
+  for (const row of rows) {
+    const dateStr = [get(row, col.date), get(row, col.time)].filter(Boolean).join(' ');
+    const sentAt = new Date(dateStr);
+    if (isNaN(sentAt.getTime())) continue;
+
+    const type = get(row, col.type).toLowerCase();
+    const isOutgoing = type.startsWith('out') || type === 'sent';
+    // Notification rows ("Notification", "Group event") carry no message content
+    if (type && !isOutgoing && !type.startsWith('in') && type !== 'received') continue;
+
+    const counterpart = get(row, col.senderName) || get(row, col.senderId) || chatName || 'Unknown';
+    const attachment = get(row, col.attachment);
+    const body = [get(row, col.text), attachment && attachmentPlaceholder(attachment)].filter(Boolean).join('\n');
+    if (!body) continue;
+
+    messages.push({
+      senderName: isOutgoing ? SELF_SENDER_NAME : counterpart,
+      receiverName: isOutgoing ? (chatName || counterpart) : SELF_SENDER_NAME,
+      sentAt,
+      subject: 'Text Messages',
+      body,
+      direction: isOutgoing ? MessageDirection.Outbound : MessageDirection.Inbound
+    });
+  }
+
+  return buildConversation(chatName ? `Texts with ${chatName}` : 'Text Messages', messages);
+}
+
+// --- Android SMS Backup & Restore XML ---
+
+// SMS "type" and MMS "msg_box": 1 = received, 2 = sent, 3 = draft, 4 = outbox,
+// 5 = failed, 6 = queued. Only received and sent messages were exchanged.
+const ANDROID_RECEIVED = '1';
+const ANDROID_SENT = '2';
+
+export function parseAndroidSMSBackup(rawText: string): SMSExportResult {
+  const doc = new DOMParser().parseFromString(rawText, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Could not read SMS backup XML');
+  }
+
+  const contactName = (el: Element) => {
+    const name = el.getAttribute('contact_name');
+    return name && name !== '(Unknown)' ? name : el.getAttribute('address') || 'Unknown';
+  };
+
+  // A backup holds every thread on the phone; keep them apart so unrelated
+  // contacts are not interleaved into one conversation
+  const threads = new Map<string, { contact: string; messages: ParsedMessage[] }>();
+  let unsent = 0;
+  const addToThread = (el: Element, message: ParsedMessage, contact: string) => {
+    const key = el.getAttribute('thread_id') || normalizeAddress(el.getAttribute('address')) || contact;
+    const thread = threads.get(key) || { contact, messages: [] };
+    thread.messages.push(message);
+    threads.set(key, thread);
+  };
+
+  Array.from(doc.getElementsByTagName('sms')).forEach(sms => {
+    const sentAt = new Date(parseInt(sms.getAttribute('date') || '', 10));
+    const body = sms.getAttribute('body') || '';
+    if (isNaN(sentAt.getTime()) || !body) return;
+
+    const box = sms.getAttribute('type');
+    if (box !== ANDROID_RECEIVED && box !== ANDROID_SENT) {
+      unsent++;
+      return;
+    }
+    const isOutgoing = box === ANDROID_SENT;
+    const contact = contactName(sms);
+    addToThread(sms, {
+      senderName: isOutgoing ? SELF_SENDER_NAME : contact,
+      receiverName: isOutgoing ? contact : SELF_SENDER_NAME,
+      sentAt,
+      subject: 'Text Messages',
+      body,
+      direction: isOutgoing ? MessageDirection.Outbound : MessageDirection.Inbound
+    }, contact);
+  });
+
+  Array.from(doc.getElementsByTagName('mms')).forEach(mms => {
+    const sentAt = new Date(parseInt(mms.getAttribute('date') || '', 10));
+    if (isNaN(sentAt.getTime())) return;
+
+    const parts = Array.from(mms.getElementsByTagName('part'));
+    const body = parts
+      .map(part => {
+        const contentType = part.getAttribute('ct') || '';
+        if (contentType === 'application/smil') return '';
+        if (contentType === 'text/plain') return part.getAttribute('text') || '';
+        return attachmentPlaceholder(part.getAttribute('name') || part.getAttribute('cl') || contentType);
+      })
+      .filter(Boolean)
+      .join('\n');
+    if (!body) return;
+
+    const box = mms.getAttribute('msg_box');
+    if (box !== ANDROID_RECEIVED && box !== ANDROID_SENT) {
+      unsent++;
+      return;
+    }
+    const isOutgoing = box === ANDROID_SENT;
+    const contact = contactName(mms);
+    addToThread(mms, {
+      senderName: isOutgoing ? SELF_SENDER_NAME : contact,
+      receiverName: isOutgoing ? contact : SELF_SENDER_NAME,
+      sentAt,
+      subject: 'Text Messages',
+      body,
+      direction: isOutgoing ? MessageDirection.Outbound : MessageDirection.Inbound
+    }, contact);
+  });
+
+  return {
+    threads: Array.from(threads.values())
+      .map(t => buildConversation(`Texts with ${t.contact}`, t.messages))
+      .sort((a, b) => b.lastDate.getTime() - a.lastDate.getTime()),
+    unsent
+  };
+}
+
+// Phone numbers appear with and without country code and punctuation
+const normalizeAddress = (address: string | null): string =>
+  (address || '').replace(/[^\d+~]/g, '').replace(/^\+?1(?=\d{10}$)/, '');
@@ -0,0 +1,199 @@
+import { ChatMessage, ChatRequest, LLMError, LLMProvider } from './types.ts';
+
+const ANTHROPIC_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+// The Messages API requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 8192;
+
+const JSON_INSTRUCTION = '\n\nRespond with a single JSON object only. Do not wrap it in code fences or add any prose.';
+
+function toAnthropicContent(content: any): any {
+  if (typeof content === 'string' || !Array.isArray(content)) return content ?? '';
+  return content.map((part: any) => {
+    if (part.type !== 'image_url') return { type: 'text', text: part.text ?? '' };
+    const url: string = part.image_url?.url || '';
+    const dataUrl = url.match(/^data:([^;]+);base64,(.*)$/);
+    return dataUrl
+      ? { type: 'image', source: { type: 'base64', media_type: dataUrl[1], data: dataUrl[2] } }
+      : { type: 'image', source: { type: 'url', url } };
+  });
+}
+
+const asBlocks = (content: any): any[] =>
+  typeof content === 'string' ? (content ? [{ type: 'text', text: content }] : []) : content;
+
+/**
+ * Converts OpenAI-style messages to Anthropic's format: system prompts move to
+ * a top-level field, tool calls and results become content blocks, and
+ * consecutive turns from the same role are merged since roles must alternate.
+ */
+function toAnthropicMessages(messages: ChatMessage[]): { system: string; messages: any[] } {
+  const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  const converted: any[] = [];
+
+  for (const m of messages) {
+    if (m.role === 'system') continue;
+
+    let role: 'user' | 'assistant' = m.role === 'assistant' ? 'assistant' : 'user';
+    let blocks: any[];
+    if (m.role === 'tool') {
+      blocks = [{ type: 'tool_result', tool_use_id: m.tool_call_id, content: String(m.content ?? '') }];
+    } else if (m.role === 'assistant' && m.tool_calls?.length) {
+      blocks = [
+        ...asBlocks(m.content || ''),
+        ...m.tool_calls.map(c => {
+          let input = {};
+          try {
+            input = JSON.parse(c.function.arguments || '{}');
+          } catch {
+            // Malformed arguments from an earlier turn; send an empty input
+          }
+          return { type: 'tool_use', id: c.id, name: c.function.name, input };
+        })
+      ];
+      role = 'assistant';
+    } else {
+      blocks = asBlocks(toAnthropicContent(m.content));
+    }
+
+    const previous = converted[converted.length - 1];
+    if (previous?.role === role) {
+      previous.content.push(...blocks);
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  }
+
+  return { system, messages: converted };
+}
+
+// Models sometimes fence JSON despite instructions
+function extractJsonObject(text: string): string {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text;
+}
+
+/**
+ * Re-emits Anthropic stream events as OpenAI chunk events so clients only
+ * ever parse one format.
+ */
+function toOpenAIStream(body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  // Anthropic block index -> OpenAI tool call index
+  const toolIndexByBlock = new Map<number, number>();
+  let buffer = '';
+
+  const emitDelta = (controller: TransformStreamDefaultController<Uint8Array>, delta: unknown) =>
+    controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ index: 0, delta }] })}\n\n`));
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+        if (!line.startsWith('data: ')) continue;
+
+        let event: any;
+        try {
+          event = JSON.parse(line.slice(6));
+        } catch {
+          continue;
+        }
+
+        if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+          const toolIndex = toolIndexByBlock.size;
+          toolIndexByBlock.set(event.index, toolIndex);
+          emitDelta(controller, {
+            tool_calls: [{ index: toolIndex, id: event.content_block.id, type: 'function', function: { name: event.content_block.name, arguments: '' } }]
+          });
+        } else if (event.type === 'content_block_delta') {
+          if (event.delta?.type === 'text_delta') {
+            emitDelta(controller, { content: event.delta.text });
+          } else if (event.delta?.type === 'input_json_delta') {
+            emitDelta(controller, {
+              tool_calls: [{ index: toolIndexByBlock.get(event.index) ?? 0, function: { arguments: event.delta.partial_json } }]
+            });
+          }
+        } else if (event.type === 'error') {
+          console.error('Anthropic stream error:', event.error);
+          emitDelta(controller, { content: `\n\n[Error: ${event.error?.message || 'stream failed'}]` });
+        }
+      }
+    },
+    flush(controller) {
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+    }
+  }));
+}
+
+export function createAnthropicProvider(apiKey?: string): LLMProvider {
+  const post = async (model: string, request: ChatRequest, stream: boolean): Promise<Response> => {
+    if (!apiKey) throw new LLMError('ANTHROPIC_API_KEY not configured');
+
+    const { system, messages } = toAnthropicMessages(request.messages);
+    const response = await fetch(ANTHROPIC_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION
+      },
+      body: JSON.stringify({
+        model,
+        system: request.json ? system + JSON_INSTRUCTION : system,
+        messages,
+        max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.tools?.length ? {
+          tools: request.tools.map((t: any) => ({
+            name: t.function.name,
+            description: t.function.description,
+            input_schema: t.function.parameters
+          }))
+        } : {}),
+        ...(stream ? { stream: true } : {})
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`anthropic error: ${response.status} - ${errorText}`);
+      let message = `anthropic API error: ${response.status}`;
+      try {
+        message = JSON.parse(errorText).error?.message || message;
+      } catch {
+        // Keep default error message
+      }
+      throw new LLMError(message, response.status, errorText);
+    }
+    return response;
+  };
+
+  return {
+    id: 'anthropic',
+
+    async complete(_scope, model, request) {
+      const data = await (await post(model, request, false)).json();
+      const text = (data.content || [])
+        .filter((b: any) => b.type === 'text')
+        .map((b: any) => b.text)
+        .join('');
+      if (!text) throw new LLMError('No content in AI response');
+      return request.json ? extractJsonObject(text) : text;
+    },
+
+    async stream(_scope, model, request) {
+      const response = await post(model, request, true);
+      if (!response.body) throw new LLMError('No body in streaming response');
+      return toOpenAIStream(response.body);
+    },
+
+    embed() {
+      return Promise.reject(new LLMError('Anthropic does not provide an embeddings API; set LLM_PROVIDER_EMBEDDINGS to another provider', 400));
+    }
+  };
+}
@@ -0,0 +1,269 @@
+import { ChatRequest, LLMProvider } from './types.ts';
+
+/**
+ * Deterministic offline provider for demos and tests. Responses are derived
+ * only from the prompt, so the same input always produces the same output
+ * and the import-and-analyse flow runs end to end without any model or key.
+ */
+
+const UUID = '[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}';
+
+interface PromptPerson {
+  name: string;
+  id: string;
+}
+
+interface PromptMessage {
+  id: string;
+  sentAt: string;
+  sender: string;
+  receiver: string;
+}
+
+const promptText = (request: ChatRequest): string =>
+  request.messages
+    .map(m => typeof m.content === 'string'
+      ? m.content
+      : Array.isArray(m.content) ? m.content.map((p: any) => p.text || '').join('\n') : '')
+    .join('\n\n');
+
+const lastUserText = (request: ChatRequest): string => {
+  const last = [...request.messages].reverse().find(m => m.role === 'user');
+  if (!last) return '';
+  return typeof last.content === 'string'
+    ? last.content
+    : (last.content || []).map((p: any) => p.text || '').join('\n');
+};
+
+// "- Name → uuid" lines from the analysis prompts' person ID reference
+function parsePeople(text: string): PromptPerson[] {
+  const seen = new Map<string, PromptPerson>();
+  for (const match of text.matchAll(new RegExp(`^- (.+?) → (${UUID})$`, 'gm'))) {
+    seen.set(match[2], { name: match[1], id: match[2] });
+  }
+  return Array.from(seen.values());
+}
+
+// "[uuid] sentAt - Sender → Receiver:" headers from the analysis prompts
+function parseMessages(text: string): PromptMessage[] {
+  const seen = new Map<string, PromptMessage>();
+  for (const match of text.matchAll(new RegExp(`^\\[(${UUID})\\] (\\S+) - (.+?) → (.+?):$`, 'gm'))) {
+    seen.set(match[1], { id: match[1], sentAt: match[2], sender: match[3], receiver: match[4] });
+  }
+  return Array.from(seen.values());
+}
+
+function conversationMap(text: string) {
+  const people = parsePeople(text);
+  const messages = parseMessages(text);
+  const range = messages.length > 0
+    ? ` from ${messages[0].sentAt.slice(0, 10)} to ${messages[messages.length - 1].sentAt.slice(0, 10)}`
+    : '';
+  return {
+    summary: `Offline fixture analysis of ${messages.length} message${messages.length === 1 ? '' : 's'} between ${people.map(p => p.name).join(', ') || 'the participants'}${range}. Generated without a language model for demo and test runs.`,
+    overallTone: 'neutral',
+    keyTopics: [],
+    keyAsks: [],
+    decisionsOrCommitments: []
+  };
+}
+
+function personAnalyses(text: string) {
+  return parsePeople(text).map(p => ({
+    personId: p.id,
+    behavioralAssessment: {
+      summary: `Offline fixture profile for ${p.name}. No behavioral assessment was generated.`,
+      cooperationLevel: 'moderate',
+      flexibilityLevel: 'moderate',
+      responsivenessLevel: 'moderate',
+      accountabilityLevel: 'moderate',
+      boundaryRespect: 'appropriate'
+    },
+    notablePatterns: { positive: [], concerning: [] },
+    interactionRecommendations: [],
+    concerns: []
+  }));
+}
+
+function conversationState(text: string) {
+  const messages = parseMessages(text);
+  const last = messages[messages.length - 1];
+  return {
+    status: 'open',
+    pendingResponderName: last && last.receiver !== 'Unknown' ? last.receiver : null,
+    reasoning: 'Fixture default: the last message is treated as awaiting a reply.',
+    pendingActionSummary: null
+  };
+}
+
+// Minimal "Sender: text" transcript parser for chat file imports
+function parseTranscript(text: string) {
+  const body = text.replace(/^Extract conversation data from this text:\s*/, '');
+  const messages: Array<{ sender: string; timestamp: string; text: string }> = [];
+  const base = Date.parse('2024-01-01T09:00:00.000Z');
+
+  for (const line of body.split('\n')) {
+    const match = line.match(/^(?:\[(.+?)\]\s*)?([^:\n]{1,40}):\s+(.+)$/);
+    if (match) {
+      const parsedDate = match[1] ? Date.parse(match[1]) : NaN;
+      messages.push({
+        sender: match[2].trim(),
+        timestamp: new Date(isNaN(parsedDate) ? base + messages.length * 60000 : parsedDate).toISOString(),
+        text: match[3].trim()
+      });
+    } else if (line.trim() && messages.length > 0) {
+      messages[messages.length - 1].text += `\n${line.trim()}`;
+    }
+  }
+
+  const participants = Array.from(new Set(messages.map(m => m.sender)));
+  return {
+    title: `Imported conversation (${participants.join(', ') || 'unknown participants'})`,
+    sourceType: 'Manual Note',
+    participants,
+    messages,
+    startDate: messages[0]?.timestamp || new Date(base).toISOString()
+  };
+}
+
+function extractEntities(text: string) {
+  let payload: any = {};
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    // Not the expected JSON envelope; nothing to match
+  }
+  const message = String(payload.userMessage || '').toLowerCase();
+  const mentioned = (payload.availablePeople || []).filter((p: any) => {
+    const name = String(p.fullName || p.name || '').toLowerCase();
+    return name && (message.includes(name) || message.includes(name.split(' ')[0]));
+  });
+  return {
+    mentionedPeopleIds: mentioned.map((p: any) => p.id),
+    topicKeywords: [],
+    needsRules: true,
+    needsConversations: true,
+    reasoning: 'Fixture: matched people by name and loaded all context types'
+  };
+}
+
+function chatReply(text: string): string {
+  const firstCitation = text.match(new RegExp(`\\[\\[(?:msg|item|clause):${UUID}\\]\\]`));
+  return `**Offline mode.** No language model is connected, so this is a fixed demo reply.` +
+    (firstCitation ? ` The most relevant record retrieved for your question is ${firstCitation[0]}.` : ' No case records were retrieved for your question.');
+}
+
+function fixtureResponse(scope: string, request: ChatRequest): unknown {
+  const text = promptText(request);
+  switch (scope) {
+    case 'pipeline.conversation_map': return conversationMap(text);
+    case 'pipeline.conversation_map.merge': {
+      const windows = text.match(/^#### Window /gm)?.length || 0;
+      return {
+        summary: `Offline fixture analysis of a long conversation, processed in ${windows} overlapping windows. Generated without a language model for demo and test runs.`,
+        overallTone: 'neutral'
+      };
+    }
+    case 'pipeline.claims_verification': return { claimsLedger: [] };
+    case 'pipeline.issue_linking':
+    case 'pipeline.issue_detection': return { issueActions: [] };
+    case 'pipeline.agreement_checks': return { agreementViolations: [], detectedAgreements: [] };
+    case 'pipeline.person_analysis': return { personAnalyses: personAnalyses(text) };
+    case 'pipeline.message_annotation': return { messageAnnotations: [] };
+    case 'pipeline.synthesis': return {
+      conversationState: conversationState(text),
+      alternativeInterpretations: [],
+      missingContext: [],
+      topicCategorySlugs: ['communication']
+    };
+    case 'import': {
+      const map = conversationMap(text);
+      return {
+        conversationAnalysis: { summary: map.summary, overallTone: map.overallTone, keyTopics: map.keyTopics },
+        claimsLedger: [],
+        conversationState: conversationState(text),
+        alternativeInterpretations: [],
+        missingContext: [],
+        topicCategorySlugs: ['communication'],
+        issueActions: [],
+        agreementViolations: [],
+        detectedAgreements: [],
+        personAnalyses: personAnalyses(text),
+        messageAnnotations: []
+      };
+    }
+    case 'chat.extract-entities': return extractEntities(lastUserText(request));
+    case 'chat.parse-file': return parseTranscript(lastUserText(request));
+    case 'chat.analyze-person': return {
+      assessment: 'Offline fixture assessment. No analysis was generated.',
+      patterns: [],
+      concerns: [],
+      strategies: [],
+      monitoringPriorities: []
+    };
+    case 'clarify-person': return {
+      complete: true,
+      enrichedContext: text.match(/^- Initial Description: (.*)$/m)?.[1] || 'Added in offline mode.',
+      suggestedRelationships: []
+    };
+    case 'amend-summary':
+      // Mirrors the "unsupported amendment" path: the summary is returned unchanged
+      return text.match(/CURRENT SUMMARY:\n([\s\S]*?)\n\nUSER'S AMENDMENT REQUEST:/)?.[1] || '';
+    case 'parse-legal-document': return {
+      metadata: { suggestedTitle: text.match(/^(?:Document|File): (.+)$/m)?.[1] || 'Untitled Document', documentType: 'other' },
+      extractedPeople: [],
+      operationalAgreements: [],
+      partyNameMap: {}
+    };
+    case 'chat': return chatReply(text);
+    default: return request.json ? {} : 'Offline fixture response.';
+  }
+}
+
+// Hashed bag-of-words so texts sharing words still land near each other
+function embedText(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const token of text.toLowerCase().match(/[a-z0-9']{2,}/g) || []) {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < token.length; i++) {
+      hash ^= token.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    vector[(hash >>> 0) % dimensions] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+}
+
+export function createFixtureProvider(embeddingDimensions: number): LLMProvider {
+  const complete = (scope: string, request: ChatRequest): string => {
+    const response = fixtureResponse(scope, request);
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  };
+
+  return {
+    id: 'fixture',
+
+    complete(scope, _model, request) {
+      return Promise.resolve(complete(scope, request));
+    },
+
+    stream(scope, _model, request) {
+      const encoder = new TextEncoder();
+      const words = complete(scope, request).split(/(?<= )/);
+      return Promise.resolve(new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const word of words) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: word } }] })}\n\n`));
+          }
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+        }
+      }));
+    },
+
+    embed(_model, inputs) {
+      return Promise.resolve(inputs.map(text => embedText(text, embeddingDimensions)));
+    }
+  };
+}
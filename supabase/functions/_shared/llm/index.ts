@@ -0,0 +1,142 @@
+import { createAnthropicProvider } from './anthropic.ts';
+import { createFixtureProvider } from './fixture.ts';
+import { createOpenAICompatibleProvider } from './openai-compatible.ts';
+import { ChatRequest, LLMError, LLMProvider, ProviderId } from './types.ts';
+
+export { LLMError } from './types.ts';
+export type { ChatMessage, ChatRequest, ProviderId } from './types.ts';
+
+/**
+ * Shared LLM access for all edge functions.
+ *
+ * Each call site names a scope, e.g. `chat`, `import` or
+ * `pipeline.claims_verification`. The provider and model for a scope are read
+ * from the environment, most specific first:
+ *
+ *   LLM_PROVIDER_PIPELINE_CLAIMS_VERIFICATION -> LLM_PROVIDER_PIPELINE -> LLM_PROVIDER
+ *   LLM_MODEL_PIPELINE_CLAIMS_VERIFICATION    -> LLM_MODEL_PIPELINE    -> call site default
+ *
+ * Providers: openrouter (default), openai, anthropic, local (any OpenAI-compatible
+ * server such as Ollama or llama.cpp, at LOCAL_LLM_BASE_URL) and fixture
+ * (deterministic offline responses, no key needed).
+ */
+
+// Must match the vector(1536) column in case_embeddings
+export const EMBEDDING_DIMENSIONS = 1536;
+
+const PROVIDER_IDS: ProviderId[] = ['openrouter', 'openai', 'anthropic', 'local', 'fixture'];
+
+const providers = new Map<ProviderId, LLMProvider>();
+
+function getProvider(id: ProviderId): LLMProvider {
+  let provider = providers.get(id);
+  if (provider) return provider;
+
+  switch (id) {
+    case 'openrouter':
+      provider = createOpenAICompatibleProvider({
+        id,
+        baseUrl: 'https://openrouter.ai/api/v1',
+        apiKey: Deno.env.get('OPENROUTER_API_KEY'),
+        requiresKey: true,
+        headers: { 'HTTP-Referer': 'https://lovable.dev', 'X-Title': 'CoParent Intel' }
+      });
+      break;
+    case 'openai':
+      provider = createOpenAICompatibleProvider({
+        id,
+        baseUrl: Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1',
+        apiKey: Deno.env.get('OPENAI_API_KEY'),
+        requiresKey: true
+      });
+      break;
+    case 'local':
+      provider = createOpenAICompatibleProvider({
+        id,
+        // Ollama's OpenAI-compatible endpoint as seen from the edge runtime container
+        baseUrl: Deno.env.get('LOCAL_LLM_BASE_URL') || 'http://host.docker.internal:11434/v1',
+        apiKey: Deno.env.get('LOCAL_LLM_API_KEY'),
+        requiresKey: false
+      });
+      break;
+    case 'anthropic':
+      provider = createAnthropicProvider(Deno.env.get('ANTHROPIC_API_KEY'));
+      break;
+    case 'fixture':
+      provider = createFixtureProvider(EMBEDDING_DIMENSIONS);
+      break;
+  }
+  providers.set(id, provider);
+  return provider;
+}
+
+// Most specific scoped variable first, e.g. X_PIPELINE_SYNTHESIS, X_PIPELINE, X
+function readScopedEnv(prefix: string, scope: string): string | undefined {
+  const parts = scope.toUpperCase().split('.').map(p => p.replace(/[^A-Z0-9]+/g, '_'));
+  for (let i = parts.length; i > 0; i--) {
+    const value = Deno.env.get(`${prefix}_${parts.slice(0, i).join('_')}`);
+    if (value) return value;
+  }
+  return Deno.env.get(prefix) || undefined;
+}
+
+/**
+ * Call site defaults are OpenRouter slugs ("openai/gpt-4o"). Translate them for
+ * providers that use bare model names, falling back to a per-provider default
+ * when the slug belongs to another vendor.
+ */
+function resolveDefaultModel(provider: ProviderId, slug: string, scope: string): string {
+  const [vendor, name] = slug.includes('/') ? slug.split('/', 2) : ['', slug];
+  switch (provider) {
+    case 'openrouter':
+      return slug;
+    case 'openai':
+      return !vendor || vendor === 'openai' ? name : (Deno.env.get('OPENAI_DEFAULT_MODEL') || 'gpt-4o');
+    case 'anthropic':
+      return vendor === 'anthropic' ? name : (Deno.env.get('ANTHROPIC_DEFAULT_MODEL') || 'claude-3-5-sonnet-latest');
+    case 'local':
+      return scope === 'embeddings'
+        ? (Deno.env.get('LOCAL_EMBEDDING_MODEL') || 'nomic-embed-text')
+        : (Deno.env.get('LOCAL_LLM_MODEL') || 'llama3.1');
+    case 'fixture':
+      return 'fixture';
+  }
+}
+
+export interface LLMClient {
+  provider: ProviderId;
+  model: string;
+  complete(request: ChatRequest): Promise<string>;
+  stream(request: ChatRequest): Promise<ReadableStream<Uint8Array>>;
+  embed(inputs: string[]): Promise<number[][]>;
+}
+
+/**
+ * Returns the client configured for a scope. `defaultModel` is used unless an
+ * LLM_MODEL_* variable overrides it.
+ */
+export function getLLM(scope: string, defaultModel: string): LLMClient {
+  const configured = (readScopedEnv('LLM_PROVIDER', scope) || 'openrouter').toLowerCase();
+  if (!PROVIDER_IDS.includes(configured as ProviderId)) {
+    throw new LLMError(`Unknown LLM provider "${configured}" for ${scope}`);
+  }
+  const providerId = configured as ProviderId;
+  const provider = getProvider(providerId);
+  const model = readScopedEnv('LLM_MODEL', scope) || resolveDefaultModel(providerId, defaultModel, scope);
+
+  return {
+    provider: providerId,
+    model,
+    complete: (request) => provider.complete(scope, model, request),
+    stream: (request) => provider.stream(scope, model, request),
+    embed: (inputs) => provider.embed(model, inputs)
+  };
+}
+
+/**
+ * Parses a JSON completion, tolerating markdown code fences.
+ */
+export function parseJsonContent(content: string): any {
+  const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse(jsonMatch ? jsonMatch[1].trim() : content);
+}
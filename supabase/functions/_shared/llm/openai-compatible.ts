@@ -0,0 +1,82 @@
+import { ChatRequest, LLMError, LLMProvider, ProviderId } from './types.ts';
+
+interface OpenAICompatibleConfig {
+  id: ProviderId;
+  baseUrl: string;
+  apiKey?: string;
+  // Local servers usually run without a key
+  requiresKey: boolean;
+  headers?: Record<string, string>;
+}
+
+/**
+ * OpenRouter, OpenAI and local servers (Ollama, llama.cpp, vLLM) all speak the
+ * OpenAI chat completions protocol and differ only in URL, key and headers.
+ */
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const post = async (path: string, body: unknown): Promise<Response> => {
+    if (config.requiresKey && !config.apiKey) {
+      throw new LLMError(`${config.id} API key not configured`);
+    }
+
+    const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+        ...config.headers
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${config.id} error: ${response.status} - ${errorText}`);
+      let message = `${config.id} API error: ${response.status}`;
+      try {
+        message = JSON.parse(errorText).error?.message || message;
+      } catch {
+        // Keep default error message
+      }
+      throw new LLMError(message, response.status, errorText);
+    }
+    return response;
+  };
+
+  const buildBody = (model: string, request: ChatRequest) => ({
+    model,
+    messages: request.messages,
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+    ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+    ...(request.tools?.length ? { tools: request.tools } : {})
+  });
+
+  return {
+    id: config.id,
+
+    async complete(_scope, model, request) {
+      const response = await post('/chat/completions', buildBody(model, request));
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) throw new LLMError('No content in AI response');
+      return content;
+    },
+
+    async stream(_scope, model, request) {
+      const response = await post('/chat/completions', { ...buildBody(model, request), stream: true });
+      if (!response.body) throw new LLMError('No body in streaming response');
+      return response.body;
+    },
+
+    async embed(model, inputs) {
+      const response = await post('/embeddings', { model, input: inputs });
+      const result = await response.json();
+      const data: Array<{ index: number; embedding: number[] }> = result.data || [];
+      if (data.length !== inputs.length) {
+        throw new LLMError(`Expected ${inputs.length} embeddings, received ${data.length}`);
+      }
+      return data.sort((a, b) => a.index - b.index).map(d => d.embedding);
+    }
+  };
+}
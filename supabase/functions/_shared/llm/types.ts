@@ -0,0 +1,40 @@
+export type ProviderId = 'openrouter' | 'openai' | 'anthropic' | 'local' | 'fixture';
+
+// OpenAI chat message shape; every provider accepts and emits this format
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  // string, or OpenAI content parts ({ type: 'text' } / { type: 'image_url' })
+  content: any;
+  tool_calls?: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+  tool_call_id?: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a single JSON object response
+  json?: boolean;
+  // OpenAI function tool definitions
+  tools?: unknown[];
+}
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  // Returns the assistant message text
+  complete(scope: string, model: string, request: ChatRequest): Promise<string>;
+  // Returns an SSE stream of OpenAI-style `chat.completion.chunk` events
+  stream(scope: string, model: string, request: ChatRequest): Promise<ReadableStream<Uint8Array>>;
+  embed(model: string, inputs: string[]): Promise<number[][]>;
+}
+
+/**
+ * Provider failure carrying the upstream HTTP status so callers can keep
+ * returning 429s for rate limits.
+ */
+export class LLMError extends Error {
+  constructor(message: string, readonly status = 500, readonly detail?: string) {
+    super(message);
+    this.name = 'LLMError';
+  }
+}
@@ -1,11 +1,14 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { getLLM } from "../_shared/llm/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const OPENROUTER_API_KEY = Deno.env.get('OPENROUTER_API_KEY');
+const MODEL = 'google/gemini-2.5-flash';
+// Stored with the amended analysis version
+const PROMPT_VERSION = 'amend-2026-01';
 
 interface AmendRequest {
   currentSummary: string;
@@ -46,11 +49,6 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    if (!OPENROUTER_API_KEY) {
-      console.error('OPENROUTER_API_KEY not configured');
-      throw new Error('API key not configured');
-    }
-
     const body: AmendRequest = await req.json();
     const { currentSummary, userGuidance, conversationMessages } = body;
 
@@ -80,34 +78,15 @@ ${messagesContext}
 
 Based on the above, return the appropriate summary (amended if supported by evidence, or original if not).`;
 
-    // Call OpenRouter API
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://lovable.dev',
-        'X-Title': 'Co-Parenting Assistant'
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: SYSTEM_PROMPT },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.3,
-        max_tokens: 2000
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenRouter API error:', response.status, errorText);
-      throw new Error(`OpenRouter API error: ${response.status}`);
-    }
-
-    const result = await response.json();
-    const amendedSummary = result.choices?.[0]?.message?.content?.trim();
+    const llm = getLLM('amend-summary', MODEL);
+    const amendedSummary = (await llm.complete({
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: userPrompt }
+      ],
+      temperature: 0.3,
+      maxTokens: 2000
+    })).trim();
 
     if (!amendedSummary) {
       console.error('No content in response');
@@ -116,9 +95,8 @@ Based on the above, return the appropriate summary (amended if supported by evid
 
     console.log(`Amendment complete. Summary length: ${amendedSummary.length} chars`);
 
-    // Return just the summary text as a string
     return new Response(
-      JSON.stringify(amendedSummary),
+      JSON.stringify({ summary: amendedSummary, model: llm.model, promptVersion: PROMPT_VERSION }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
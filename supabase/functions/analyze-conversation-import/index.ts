@@ -1,13 +1,15 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getLLM, LLMError } from "../_shared/llm/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const OPENROUTER_API_KEY = Deno.env.get('OPENROUTER_API_KEY');
 const MODEL = 'openai/gpt-4o';
+// Stored with each analysis version; bump when the prompt changes meaningfully
+const PROMPT_VERSION = 'import-2026-01';
 
 const SYSTEM_PROMPT = `You are a Family Conflict Case Documentation Analyst. Your job is to produce objective, evidence-cited documentation of written communications between family members/stakeholders in conflict.
 
@@ -77,9 +79,10 @@ For each claim include:
 - claimText
 - speaker / personId
 - category (professional_guidance | agreement | factual | accusation | commitment | process)
-- evidence (quote/message reference)
+- evidence (exact quote from the message, in double quotes; quotes are checked against the stored messages)
 - verificationStatus: Supported | Contradicted | Ambiguous
 - brief notes explaining the status
+- for commitments: the messageId it was made in and its dueDate (YYYY-MM-DD, or null if no deadline was given)
 
 **Rule:** Any time you use "misrepresenting guidance" or "agreement violation," you must have a corresponding claim entry showing how it is Supported/Contradicted.
 
@@ -271,9 +274,11 @@ You MUST respond with valid JSON matching this exact structure:
       "claimText": "string - the claim made",
       "speakerPersonId": "string - who made the claim",
       "category": "professional_guidance" | "agreement" | "factual" | "accusation" | "commitment" | "process",
-      "evidence": "string - quote or message reference",
+      "evidence": "string - exact quote from the message, in double quotes",
       "verificationStatus": "supported" | "contradicted" | "ambiguous",
-      "notes": "string - brief explanation of verification status"
+      "notes": "string - brief explanation of verification status",
+      "messageId": "string - commitments only: message ID the commitment was made in",
+      "dueDate": "string | null - commitments only: deadline as YYYY-MM-DD resolved relative to the message date"
     }
   ],
   "alternativeInterpretations": [
@@ -358,7 +363,7 @@ You MUST respond with valid JSON matching this exact structure:
         {
           "type": "string - e.g., 'accountability_avoidance', 'stonewalling'",
           "description": "string",
-          "evidence": ["array of specific quotes or references"],
+          "evidence": ["array of exact quotes from this person's messages, in double quotes"],
           "severity": "low" | "medium" | "high"
         }
       ]
@@ -373,7 +378,7 @@ You MUST respond with valid JSON matching this exact structure:
           "description": "string - what specifically happened",
           "attributedToPersonId": "string - REQUIRED: ID of person who exhibited this behavior",
           "severity": "low" | "medium" | "high",
-          "evidence": "string - brief quote or reference",
+          "evidence": "string - exact quote from this message, in double quotes",
           "impact": "string - how it affects resolution/cooperation"
         }
       ]
@@ -428,45 +433,27 @@ serve(async (req) => {
       userGuidance
     });
 
-    console.log('Calling OpenRouter for conversation analysis...');
+    const llm = getLLM('import', MODEL);
+    console.log(`Calling ${llm.provider} (${llm.model}) for conversation analysis...`);
 
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://lovable.dev',
-      },
-      body: JSON.stringify({
-        model: MODEL,
+    let content: string;
+    try {
+      content = await llm.complete({
         messages: [
           { role: 'system', content: SYSTEM_PROMPT },
           { role: 'user', content: userPrompt }
         ],
         temperature: 0.3,
-        response_format: { type: 'json_object' }
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenRouter error:', response.status, errorText);
-      
-      if (response.status === 429) {
+        json: true
+      });
+    } catch (error) {
+      if (error instanceof LLMError && error.status === 429) {
         return new Response(
           JSON.stringify({ error: 'Rate limit exceeded. Please try again in a moment.' }),
           { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
-      
-      throw new Error(`OpenRouter API error: ${response.status}`);
-    }
-
-    const aiResponse = await response.json();
-    const content = aiResponse.choices?.[0]?.message?.content;
-
-    if (!content) {
-      throw new Error('No content in AI response');
+      throw error;
     }
 
     console.log('AI analysis complete, parsing response...');
@@ -513,6 +500,12 @@ serve(async (req) => {
       }
     }
 
+    analysisResult.analysisMeta = {
+      model: llm.model,
+      promptVersion: PROMPT_VERSION,
+      userGuidance: userGuidance || undefined
+    };
+
     console.log(`Analysis complete: ${analysisResult.issueActions?.length || 0} issues, ${analysisResult.personAnalyses?.length || 0} person analyses, ${analysisResult.claimsLedger?.length || 0} claims, ${analysisResult.detectedAgreements?.length || 0} detected agreements`);
 
     return new Response(
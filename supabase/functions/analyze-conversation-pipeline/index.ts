@@ -1,13 +1,17 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getLLM } from "../_shared/llm/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const OPENROUTER_API_KEY = Deno.env.get('OPENROUTER_API_KEY');
+// Default model; each stage can be overridden with LLM_PROVIDER_PIPELINE_<STAGE> / LLM_MODEL_PIPELINE_<STAGE>
 const MODEL = 'openai/gpt-4o';
+// Stored with each analysis version; bump when stage prompts change meaningfully
+const PROMPT_VERSION = 'pipeline-2026-01';
 
 const STAGES = [
   { id: 'conversation_map', name: 'Mapping Conversation' },
@@ -20,6 +24,17 @@ const STAGES = [
   { id: 'synthesis', name: 'Synthesizing Results' }
 ];
 
+// Long conversations are analysed map-reduce style: these stages run once per
+// overlapping window of messages and their outputs are merged, while the other
+// stages see the whole conversation with long messages truncated.
+const CHUNKED_STAGES = ['conversation_map', 'claims_verification', 'message_annotation'];
+const CHUNK_THRESHOLD_MESSAGES = 120;
+const CHUNK_THRESHOLD_CHARS = 120000;
+const WINDOW_SIZE = 80;
+const WINDOW_MAX_CHARS = 60000;
+const WINDOW_OVERLAP = 10;
+const CONDENSED_MESSAGE_CHARS = 300;
+
 // Base system prompt for all stages
 const BASE_SYSTEM = `You are a Family Conflict Case Documentation Analyst. Your job is to produce objective, evidence-cited documentation of written communications between family members/stakeholders in conflict.
 
@@ -40,11 +55,138 @@ For any material conclusion, you must provide:
 
 Always respond with valid JSON.`;
 
+// Supabase's background task API; work registered here outlives the response
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+// Background work is cut off at the runtime's wall-clock limit, so a job hands
+// itself to a fresh invocation before starting a stage past this point
+const HANDOFF_AFTER_MS = 100_000;
+
+/**
+ * Two modes:
+ * - Interactive: the request body is the analysis payload and progress is
+ *   streamed back as SSE events.
+ * - Job: `{ action: 'drain' }` works through the caller's queued
+ *   analysis_runs in the background, persisting each stage; `{ action:
+ *   'continue', runId }` is the internal hand-off between invocations and
+ *   is only accepted with the service-role key.
+ */
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let payload: any;
+  try {
+    payload = await req.json();
+  } catch {
+    return new Response(
+      JSON.stringify({ error: 'Invalid JSON body' }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  if (payload?.action === 'drain' || payload?.action === 'continue') {
+    return await startJobWorker(req, payload);
+  }
+  return streamPipeline(payload);
+});
+
+interface StageProgress {
+  stage: string;
+  stageName: string;
+  stageNumber: number;
+  totalStages: number;
+  chunkNumber?: number;
+  totalChunks?: number;
+}
+
+interface PipelineHooks {
+  onStageStart: (progress: StageProgress) => void | Promise<void>;
+  onChunkStart: (progress: StageProgress) => void | Promise<void>;
+  onStageComplete: (stageId: string, output: unknown, duration: number) => void | Promise<void>;
+  // Checked before each stage; 'yield' pauses so another invocation can continue
+  beforeStage?: () => Promise<'continue' | 'yield' | 'stop'>;
+}
+
+class StageError extends Error {
+  constructor(public stageId: string, cause: unknown) {
+    super(cause instanceof Error ? cause.message : 'Stage failed');
+  }
+}
+
+/**
+ * Runs the stages from startIndex onward, writing each output into `outputs`.
+ * Returns how the run ended; stage failures throw a StageError.
+ */
+async function runStages(
+  payload: any,
+  outputs: Record<string, unknown>,
+  startIndex: number,
+  hooks: PipelineHooks
+): Promise<'completed' | 'yield' | 'stop'> {
+  const {
+    conversationId,
+    messages,
+    participants,
+    agreementItems,
+    existingIssues,
+    exchangeLogs,
+    communicationMetrics,
+    mePersonId,
+    userGuidance
+  } = payload;
+
+  // Build shared context
+  const context = buildContext(conversationId, messages, participants, agreementItems, existingIssues, mePersonId, userGuidance, exchangeLogs, communicationMetrics);
+
+  const windows = planWindows(messages);
+  const chunked = windows.length > 1;
+  const stageContext = chunked ? withMessages(context, messages, true) : context;
+  if (chunked) {
+    console.log(`Long conversation: analysing in ${windows.length} windows`);
+  }
+
+  for (let i = startIndex; i < STAGES.length; i++) {
+    const stage = STAGES[i];
+    const chunkedStage = chunked && CHUNKED_STAGES.includes(stage.id);
+    const progress: StageProgress = {
+      stage: stage.id,
+      stageName: stage.name,
+      stageNumber: i + 1,
+      totalStages: STAGES.length
+    };
+
+    const next = hooks.beforeStage ? await hooks.beforeStage() : 'continue';
+    if (next !== 'continue') return next;
+
+    await hooks.onStageStart(chunkedStage ? { ...progress, chunkNumber: 0, totalChunks: windows.length } : progress);
+
+    const startTime = Date.now();
+
+    try {
+      const result = chunkedStage
+        ? await executeChunkedStage(stage.id, context, windows, outputs, (chunkNumber) =>
+            hooks.onChunkStart({ ...progress, chunkNumber, totalChunks: windows.length }))
+        : await executeStage(stage.id, stageContext, outputs);
+      outputs[stage.id] = result;
+    } catch (stageError) {
+      console.error(`Stage ${stage.id} failed:`, stageError);
+      throw new StageError(stage.id, stageError);
+    }
+
+    console.log(`Stage ${stage.id} complete in ${Date.now() - startTime}ms`);
+    await hooks.onStageComplete(stage.id, outputs[stage.id], Date.now() - startTime);
+  }
+
+  return 'completed';
+}
+
+function streamPipeline(payload: any): Response {
   const encoder = new TextEncoder();
   
   const stream = new ReadableStream({
@@ -57,20 +199,10 @@ serve(async (req) => {
         }
       };
 
-      try {
-        const payload = await req.json();
-        const {
-          conversationId,
-          messages,
-          participants,
-          agreementItems,
-          existingIssues,
-          mePersonId,
-          userGuidance,
-          resumeFromStage,
-          priorOutputs
-        } = payload;
+      const { conversationId, messages, resumeFromStage, priorOutputs } = payload || {};
+      const outputs: Record<string, unknown> = priorOutputs || {};
 
+      try {
         console.log(`Pipeline analysis for ${conversationId} with ${messages?.length || 0} messages`);
 
         if (!messages || messages.length === 0) {
@@ -79,57 +211,19 @@ serve(async (req) => {
           return;
         }
 
-        // Build shared context
-        const context = buildContext(conversationId, messages, participants, agreementItems, existingIssues, mePersonId, userGuidance);
-        
         // Determine starting point
         const startIndex = resumeFromStage 
           ? STAGES.findIndex(s => s.id === resumeFromStage)
           : 0;
-        
-        const outputs: Record<string, unknown> = priorOutputs || {};
 
-        for (let i = startIndex; i < STAGES.length; i++) {
-          const stage = STAGES[i];
-          
-          send({ 
-            type: 'stage_start', 
-            stage: stage.id, 
-            stageName: stage.name,
-            stageNumber: i + 1, 
-            totalStages: STAGES.length 
-          });
-
-          const startTime = Date.now();
-          
-          try {
-            const result = await executeStage(stage.id, context, outputs);
-            outputs[stage.id] = result;
-            
-            console.log(`Stage ${stage.id} complete in ${Date.now() - startTime}ms`);
-            
-            send({ 
-              type: 'stage_complete', 
-              stage: stage.id, 
-              duration: Date.now() - startTime 
-            });
-            
-          } catch (stageError) {
-            console.error(`Stage ${stage.id} failed:`, stageError);
-            send({ 
-              type: 'stage_error', 
-              stage: stage.id, 
-              message: stageError instanceof Error ? stageError.message : 'Stage failed',
-              completedStages: STAGES.slice(0, i).map(s => s.id),
-              partialOutputs: outputs  // Include partial outputs for recovery
-            });
-            controller.close();
-            return;
-          }
-        }
+        await runStages(payload, outputs, startIndex, {
+          onStageStart: (progress) => send({ type: 'stage_start', ...progress }),
+          onChunkStart: (progress) => send({ type: 'chunk_start', ...progress }),
+          onStageComplete: (stageId, _output, duration) => send({ type: 'stage_complete', stage: stageId, duration })
+        });
 
         // Combine all outputs into final result
-        const finalResult = assembleResult(outputs);
+        const finalResult = assembleResult(outputs, payload);
         
         console.log(`Pipeline complete: ${finalResult.issueActions?.length || 0} issues, ${finalResult.personAnalyses?.length || 0} person analyses`);
         
@@ -137,8 +231,18 @@ serve(async (req) => {
         controller.close();
 
       } catch (error) {
-        console.error('Pipeline error:', error);
-        send({ type: 'error', message: error instanceof Error ? error.message : 'Pipeline failed' });
+        if (error instanceof StageError) {
+          send({ 
+            type: 'stage_error', 
+            stage: error.stageId, 
+            message: error.message,
+            completedStages: STAGES.slice(0, STAGES.findIndex(s => s.id === error.stageId)).map(s => s.id),
+            partialOutputs: outputs  // Include partial outputs for recovery
+          });
+        } else {
+          console.error('Pipeline error:', error);
+          send({ type: 'error', message: error instanceof Error ? error.message : 'Pipeline failed' });
+        }
         controller.close();
       }
     }
@@ -152,7 +256,222 @@ serve(async (req) => {
       'Connection': 'keep-alive'
     }
   });
-});
+}
+
+// The worker lost its claim: the run was cancelled, or failed as stale and re-queued
+class RunReleasedError extends Error {
+  constructor(runId: string) {
+    super(`Analysis run ${runId} is no longer held by this worker`);
+  }
+}
+
+async function startJobWorker(req: Request, payload: any): Promise<Response> {
+  const unauthorized = (error: string) => new Response(
+    JSON.stringify({ error }),
+    { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) return unauthorized('Missing authorization');
+
+  // A long queue outlives the caller's access token, so the worker runs with
+  // the service role and scopes every query to the user explicitly
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false }
+  });
+
+  // Hand-offs between invocations carry a run id and the service-role key, and
+  // the user is the owner of that run; anything else must come from a signed-in user
+  let userId: string | undefined;
+  if (SUPABASE_SERVICE_ROLE_KEY && authHeader === `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+    userId = await getRunOwner(supabase, payload.runId);
+  } else if (payload.action === 'drain') {
+    const caller = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: authHeader } }
+    });
+    const { data } = await caller.auth.getUser();
+    userId = data?.user?.id;
+  }
+  if (!userId) return unauthorized('Invalid authorization');
+
+  const continueRun = payload.action === 'continue'
+    ? { runId: payload.runId, workerToken: payload.workerToken }
+    : undefined;
+
+  EdgeRuntime.waitUntil(
+    processQueue(supabase, userId, continueRun)
+      .catch(error => console.error('Analysis worker error:', error))
+  );
+
+  return new Response(
+    JSON.stringify({ accepted: true }),
+    { status: 202, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+async function processQueue(
+  supabase: any,
+  userId: string,
+  continueRun?: { runId: string; workerToken: string }
+): Promise<void> {
+  const startedAt = Date.now();
+  const pastBudget = () => Date.now() - startedAt > HANDOFF_AFTER_MS;
+
+  let run = continueRun
+    ? await loadRunningRun(supabase, userId, continueRun.runId, continueRun.workerToken)
+    : await claimNextRun(supabase, userId);
+  while (run) {
+    const outcome = await executeRun(supabase, userId, run, pastBudget);
+    if (outcome === 'yield') {
+      await handOff({ action: 'continue', runId: run.id, workerToken: run.worker_token });
+      return;
+    }
+    if (pastBudget()) {
+      await handOff({ action: 'drain', runId: run.id });
+      return;
+    }
+    run = await claimNextRun(supabase, userId);
+  }
+}
+
+async function getRunOwner(supabase: any, runId: string | undefined): Promise<string | undefined> {
+  if (!runId) return undefined;
+  const { data, error } = await supabase
+    .from('analysis_runs')
+    .select('user_id')
+    .eq('id', runId)
+    .maybeSingle();
+  if (error) {
+    console.error('Failed to load analysis run owner:', error);
+    return undefined;
+  }
+  return data?.user_id;
+}
+
+async function claimNextRun(supabase: any, userId: string): Promise<any | null> {
+  const { data, error } = await supabase.rpc('claim_next_analysis_run', { p_user_id: userId });
+  if (error) {
+    console.error('Failed to claim analysis run:', error);
+    return null;
+  }
+  return data?.[0] || null;
+}
+
+async function loadRunningRun(supabase: any, userId: string, runId: string, workerToken: string): Promise<any | null> {
+  if (!runId || !workerToken) return null;
+  const { data } = await supabase
+    .from('analysis_runs')
+    .select('*')
+    .eq('id', runId)
+    .eq('user_id', userId)
+    .eq('status', 'running')
+    .eq('worker_token', workerToken)
+    .maybeSingle();
+  return data;
+}
+
+async function handOff(body: Record<string, unknown>): Promise<void> {
+  try {
+    await fetch(`${SUPABASE_URL}/functions/v1/analyze-conversation-pipeline`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+        'apikey': SUPABASE_ANON_KEY,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    });
+  } catch (error) {
+    // The run stays running and is failed as stale by the next client that checks
+    console.error('Failed to hand off analysis run:', error);
+  }
+}
+
+/**
+ * Runs one queued job from its first incomplete stage, persisting progress,
+ * each stage output and the final result on the analysis_runs row.
+ */
+async function executeRun(supabase: any, userId: string, run: any, pastBudget: () => boolean): Promise<'done' | 'yield'> {
+  // Writes only while this worker still holds the run, so a cancelled run is
+  // not overwritten and a re-queued run is never written by two workers
+  const update = async (fields: Record<string, unknown>) => {
+    const { data, error } = await supabase
+      .from('analysis_runs')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', run.id)
+      .eq('user_id', userId)
+      .eq('status', 'running')
+      .eq('worker_token', run.worker_token)
+      .select('id');
+    if (error) throw error;
+    if (!data?.length) throw new RunReleasedError(run.id);
+  };
+  const fail = (fields: Record<string, unknown>) =>
+    update({ status: 'failed', current_stage: null, progress: null, ...fields })
+      .catch(error => console.error(`Failed to record failure of analysis run ${run.id}:`, error));
+
+  const payload = run.request_payload;
+  if (!payload?.messages?.length) {
+    await fail({ error_message: 'No messages provided for analysis' });
+    return 'done';
+  }
+
+  const outputs: Record<string, unknown> = { ...(run.stage_outputs || {}) };
+  const completedStages: string[] = [...(run.completed_stages || [])];
+  const startIndex = STAGES.findIndex(s => !completedStages.includes(s.id));
+
+  console.log(`Analysis run ${run.id} for ${payload.conversationId}, starting at ${STAGES[startIndex]?.id || 'assembly'}`);
+
+  try {
+    const outcome = startIndex === -1 ? 'completed' : await runStages(payload, outputs, startIndex, {
+      onStageStart: (progress) => update({ current_stage: progress.stage, progress }),
+      // Not awaited by the chunk loop; a lost claim is caught before the next stage
+      onChunkStart: (progress) => update({ progress }).catch(error => console.warn(error.message)),
+      onStageComplete: async (stageId) => {
+        completedStages.push(stageId);
+        await update({
+          current_stage: null,
+          completed_stages: completedStages,
+          stage_outputs: outputs
+        });
+      },
+      beforeStage: async () => {
+        // Cancelled (or resumed elsewhere) from a client since the last stage
+        const { data } = await supabase
+          .from('analysis_runs')
+          .select('status, worker_token')
+          .eq('id', run.id)
+          .eq('user_id', userId)
+          .single();
+        if (data?.status !== 'running' || data?.worker_token !== run.worker_token) return 'stop';
+        return pastBudget() ? 'yield' : 'continue';
+      }
+    });
+    if (outcome === 'yield') return 'yield';
+    if (outcome === 'stop') return 'done';
+
+    const result = assembleResult(outputs, payload);
+    await update({
+      status: 'completed',
+      current_stage: null,
+      progress: null,
+      result,
+      completed_at: new Date().toISOString()
+    });
+    console.log(`Analysis run ${run.id} complete: ${result.issueActions?.length || 0} issues`);
+  } catch (error) {
+    if (error instanceof RunReleasedError) {
+      console.log(error.message);
+      return 'done';
+    }
+    console.error(`Analysis run ${run.id} failed:`, error);
+    await fail({
+      error_message: error instanceof Error ? error.message : 'Pipeline failed',
+      error_stage: error instanceof StageError ? error.stageId : null
+    });
+  }
+  return 'done';
+}
 
 interface AnalysisContext {
   conversationId: string;
@@ -167,6 +486,16 @@ interface AnalysisContext {
   messageContext: string;
   agreementContext: string;
   issueContext: string;
+  exchangeLogContext: string;
+  metricsContext: string;
+  // Message bodies are truncated; full text was analysed window by window
+  isCondensed?: boolean;
+}
+
+interface MessageWindow {
+  messages: any[];
+  // Index of the window's first message in the full conversation
+  start: number;
 }
 
 function buildContext(
@@ -176,7 +505,9 @@ function buildContext(
   agreementItems: any[],
   existingIssues: any[],
   mePersonId: string,
-  userGuidance?: string
+  userGuidance?: string,
+  exchangeLogs?: any[],
+  communicationMetrics?: any[]
 ): AnalysisContext {
   const idReference = participants.map(p => `- ${p.fullName} → ${p.id}`).join('\n');
 
@@ -185,11 +516,7 @@ function buildContext(
     return `- ${p.fullName} (Role: ${p.role}${isMe ? ' - THIS IS THE USER' : ''})${p.roleContext ? ` - Context: ${p.roleContext}` : ''}`;
   }).join('\n');
 
-  const messageContext = messages.map(m => {
-    const sender = participants.find((p: any) => p.id === m.senderId);
-    const receiver = participants.find((p: any) => p.id === m.receiverId);
-    return `[${m.id}] ${m.sentAt} - ${sender?.fullName || 'Unknown'} → ${receiver?.fullName || 'Unknown'}:\n${m.rawText}`;
-  }).join('\n\n');
+  const messageContext = formatMessages(messages, participants);
 
   let agreementContext = 'No formal agreements on file.';
   if (agreementItems && agreementItems.length > 0) {
@@ -205,6 +532,32 @@ function buildContext(
     ).join('\n\n');
   }
 
+  let exchangeLogContext = 'No parenting-time exchanges logged for this period.';
+  if (exchangeLogs && exchangeLogs.length > 0) {
+    exchangeLogContext = exchangeLogs.map(l => {
+      const responsible = participants.find((p: any) => p.id === l.responsiblePersonId);
+      const outcome = l.outcome === 'late' && l.minutesLate ? `late by ${l.minutesLate} minutes` : l.outcome;
+      return `- [${l.id}] ${l.scheduledAt} - ${outcome}${responsible ? ` (counted against ${responsible.fullName})` : ''}` +
+        `${l.agreementItemId ? ` - agreement ${l.agreementItemId}` : ''}${l.notes ? ` - ${l.notes}` : ''}` +
+        `${l.messageIds?.length ? ` - linked messages: ${l.messageIds.join(', ')}` : ''}`;
+    }).join('\n');
+  }
+
+  let metricsContext = 'No computed metrics available.';
+  if (communicationMetrics && communicationMetrics.length > 0) {
+    metricsContext = communicationMetrics.map(m => {
+      const name = participants.find((p: any) => p.id === m.personId)?.fullName || 'Unknown';
+      const replies = m.replies > 0
+        ? `${m.replies} replies, median reply ${formatMinutes(m.medianReplyMinutes)}, 90th percentile ${formatMinutes(m.p90ReplyMinutes)}, slowest ${formatMinutes(m.maxReplyMinutes)}`
+        : 'no replies to messages addressed to them';
+      const questions = m.questionsReceived > 0
+        ? `${m.questionsReceived} questions received, ${m.unansweredQuestionMessageIds.length} never answered${m.unansweredQuestionMessageIds.length ? ` (${m.unansweredQuestionMessageIds.join(', ')})` : ''}`
+        : 'no questions received';
+      return `- ${name}: ${m.messagesSent} messages (avg ${m.averageLength} chars); ${replies}; ${questions}; ` +
+        `${Math.round(m.lateNightShare * 100)}% sent 22:00-06:00${m.leftLastMessageUnanswered ? '; left the last message unanswered' : ''}`;
+    }).join('\n');
+  }
+
   return {
     conversationId,
     messages,
@@ -217,10 +570,209 @@ function buildContext(
     participantContext,
     messageContext,
     agreementContext,
-    issueContext
+    issueContext,
+    exchangeLogContext,
+    metricsContext
+  };
+}
+
+function formatMinutes(minutes: number | null): string {
+  if (minutes === null || minutes === undefined) return 'n/a';
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 6) / 10}h`;
+  return `${Math.round(minutes / 144) / 10}d`;
+}
+
+function formatMessages(messages: any[], participants: any[], maxChars?: number): string {
+  return messages.map(m => {
+    const sender = participants.find((p: any) => p.id === m.senderId);
+    const receiver = participants.find((p: any) => p.id === m.receiverId);
+    const text = maxChars && m.rawText?.length > maxChars
+      ? `${m.rawText.substring(0, maxChars)}... [truncated]`
+      : m.rawText;
+    return `[${m.id}] ${m.sentAt} - ${sender?.fullName || 'Unknown'} → ${receiver?.fullName || 'Unknown'}:\n${text}`;
+  }).join('\n\n');
+}
+
+function withMessages(context: AnalysisContext, messages: any[], condensed = false): AnalysisContext {
+  return {
+    ...context,
+    messages,
+    messageContext: formatMessages(messages, context.participants, condensed ? CONDENSED_MESSAGE_CHARS : undefined),
+    isCondensed: condensed
+  };
+}
+
+/**
+ * Splits long conversations into overlapping windows so consecutive windows
+ * share some context. Short conversations come back as a single window.
+ */
+function planWindows(messages: any[]): MessageWindow[] {
+  const totalChars = messages.reduce((sum, m) => sum + (m.rawText?.length || 0), 0);
+  if (messages.length <= CHUNK_THRESHOLD_MESSAGES && totalChars <= CHUNK_THRESHOLD_CHARS) {
+    return [{ messages, start: 0 }];
+  }
+
+  const windows: MessageWindow[] = [];
+  let start = 0;
+  while (start < messages.length) {
+    let end = start;
+    let chars = 0;
+    while (end < messages.length && end - start < WINDOW_SIZE) {
+      const length = messages[end].rawText?.length || 0;
+      if (end > start && chars + length > WINDOW_MAX_CHARS) break;
+      chars += length;
+      end++;
+    }
+    windows.push({ messages: messages.slice(start, end), start });
+    if (end >= messages.length) break;
+    start = Math.max(end - WINDOW_OVERLAP, start + 1);
+  }
+  return windows;
+}
+
+async function executeChunkedStage(
+  stageId: string,
+  context: AnalysisContext,
+  windows: MessageWindow[],
+  priorOutputs: Record<string, unknown>,
+  onChunkStart: (chunkNumber: number) => void
+): Promise<unknown> {
+  const windowOutputs: any[] = [];
+  for (let i = 0; i < windows.length; i++) {
+    onChunkStart(i + 1);
+    const startTime = Date.now();
+    windowOutputs.push(await executeStage(stageId, withMessages(context, windows[i].messages), priorOutputs));
+    console.log(`Stage ${stageId} window ${i + 1}/${windows.length} complete in ${Date.now() - startTime}ms`);
+  }
+
+  switch (stageId) {
+    case 'conversation_map':
+      return mergeConversationMaps(windowOutputs, windows, context);
+    case 'claims_verification':
+      return { claimsLedger: mergeClaims(windowOutputs.map(o => o?.claimsLedger || [])) };
+    case 'message_annotation':
+      return { messageAnnotations: mergeAnnotations(windowOutputs.map(o => o?.messageAnnotations || []), windows) };
+    default:
+      throw new Error(`Stage ${stageId} cannot be chunked`);
+  }
+}
+
+const normalizeText = (text: string | undefined): string =>
+  (text || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+function uniqueStrings(lists: string[][]): string[] {
+  const seen = new Map<string, string>();
+  for (const item of lists.flat()) {
+    const key = normalizeText(item);
+    if (key && !seen.has(key)) seen.set(key, item);
+  }
+  return Array.from(seen.values());
+}
+
+/**
+ * Reduces per-window maps into one: list fields are unioned, while the
+ * summary and tone are rewritten by the model from the window summaries.
+ */
+async function mergeConversationMaps(
+  maps: any[],
+  windows: MessageWindow[],
+  context: AnalysisContext
+): Promise<unknown> {
+  const windowDigest = maps.map((map, i) => {
+    const window = windows[i];
+    const first = window.messages[0];
+    const last = window.messages[window.messages.length - 1];
+    return `#### Window ${i + 1} of ${maps.length} (messages ${window.start + 1}-${window.start + window.messages.length}, ${first?.sentAt} to ${last?.sentAt}, tone: ${map?.overallTone || 'unknown'})
+${map?.summary || 'No summary'}
+Key asks: ${(map?.keyAsks || []).join('; ') || 'None'}
+Decisions: ${(map?.decisionsOrCommitments || []).join('; ') || 'None'}`;
+  }).join('\n\n');
+
+  const content = await getLLM('pipeline.conversation_map.merge', MODEL).complete({
+    messages: [
+      {
+        role: 'system',
+        content: BASE_SYSTEM + `\n\nYour task is to combine summaries of consecutive, slightly overlapping sections of one long conversation into a single conversation map. Do not repeat events that appear in two windows.`
+      },
+      {
+        role: 'user',
+        content: `### Participants:
+${context.participantContext}
+
+### Window Summaries (chronological):
+${windowDigest}
+
+Return JSON:
+{
+  "summary": "2-3 paragraph professional case synopsis of the whole conversation covering: core topics, what each party is seeking, key interaction behaviors with attribution, how the conversation developed over time, resolution status",
+  "overallTone": "cooperative" | "neutral" | "tense" | "contentious" | "hostile"
+}`
+      }
+    ],
+    temperature: 0.3,
+    json: true
+  });
+  const merged = JSON.parse(content);
+
+  return {
+    summary: merged.summary || maps.map(m => m?.summary).filter(Boolean).join('\n\n'),
+    overallTone: merged.overallTone || maps[maps.length - 1]?.overallTone || 'neutral',
+    keyTopics: uniqueStrings(maps.map(m => m?.keyTopics || [])),
+    keyAsks: uniqueStrings(maps.map(m => m?.keyAsks || [])),
+    decisionsOrCommitments: uniqueStrings(maps.map(m => m?.decisionsOrCommitments || []))
   };
 }
 
+// Overlapping windows report the same claim twice, usually reworded; keep the first and
+// fill gaps from later copies. The source message identifies a claim better than its
+// wording, so text only decides when no message was cited.
+function mergeClaims(ledgers: any[][]): any[] {
+  const byKey = new Map<string, any>();
+  for (const claim of ledgers.flat()) {
+    const key = claim.messageId
+      ? `msg|${claim.messageId}|${claim.speakerPersonId}|${claim.category}`
+      : `text|${claim.speakerPersonId}|${normalizeText(claim.claimText)}`;
+    const existing = byKey.get(key);
+    if (!existing) {
+      byKey.set(key, { ...claim });
+    } else {
+      existing.messageId ||= claim.messageId;
+      existing.dueDate ||= claim.dueDate;
+    }
+  }
+  return Array.from(byKey.values());
+}
+
+// Drops annotations for messages outside their window and merges flags raised twice in overlaps
+function mergeAnnotations(annotationLists: any[][], windows: MessageWindow[]): any[] {
+  const byMessage = new Map<string, any>();
+  annotationLists.forEach((annotations, i) => {
+    const windowIds = new Set(windows[i].messages.map(m => m.id));
+    for (const annotation of annotations) {
+      if (!windowIds.has(annotation.messageId)) continue;
+      const existing = byMessage.get(annotation.messageId);
+      if (!existing) {
+        byMessage.set(annotation.messageId, { ...annotation, flags: [...(annotation.flags || [])] });
+        continue;
+      }
+      for (const flag of annotation.flags || []) {
+        const duplicate = existing.flags.some((f: any) =>
+          f.type === flag.type && f.attributedToPersonId === flag.attributedToPersonId);
+        if (!duplicate) existing.flags.push(flag);
+      }
+    }
+  });
+
+  // Keep conversation order so message IDs line up with the original list
+  const order = new Map<string, number>();
+  windows.forEach(w => w.messages.forEach((m, i) => {
+    if (!order.has(m.id)) order.set(m.id, w.start + i);
+  }));
+  return Array.from(byMessage.values())
+    .sort((a, b) => (order.get(a.messageId) ?? 0) - (order.get(b.messageId) ?? 0));
+}
+
 async function executeStage(
   stageId: string, 
   context: AnalysisContext,
@@ -228,37 +780,15 @@ async function executeStage(
 ): Promise<unknown> {
   const { systemPrompt, userPrompt } = getStagePrompts(stageId, context, priorOutputs);
 
-  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-      'Content-Type': 'application/json',
-      'HTTP-Referer': 'https://lovable.dev',
-    },
-    body: JSON.stringify({
-      model: MODEL,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      temperature: 0.3,
-      response_format: { type: 'json_object' }
-    })
+  const content = await getLLM(`pipeline.${stageId}`, MODEL).complete({
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ],
+    temperature: 0.3,
+    json: true
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`OpenRouter error for ${stageId}:`, response.status, errorText);
-    throw new Error(`AI call failed: ${response.status}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content;
-  
-  if (!content) {
-    throw new Error('No content in AI response');
-  }
-
   return JSON.parse(content);
 }
 
@@ -274,7 +804,7 @@ ${context.idReference}
 ### Participants:
 ${context.participantContext}
 
-### Messages:
+### Messages${context.isCondensed ? ' (long messages truncated)' : ''}:
 ${context.messageContext}
 `;
 
@@ -307,10 +837,14 @@ For each claim include:
 - claimText: the actual claim made
 - speakerPersonId: UUID of who made it
 - category: professional_guidance | agreement | factual | accusation | commitment | process
-- evidence: quote or message reference
+- evidence: exact quote from the message, in double quotes (quotes are checked against the stored messages)
 - verificationStatus: supported | contradicted | ambiguous
 - notes: brief explanation of verification status
 
+For every commitment (a promise by the speaker to do something, e.g. "I'll send the school form by Friday") also include:
+- messageId: UUID of the message the commitment was made in
+- dueDate: the deadline as YYYY-MM-DD, resolved relative to that message's date, or null if no deadline was given
+
 Return JSON:
 {
   "claimsLedger": [
@@ -320,7 +854,9 @@ Return JSON:
       "category": "string",
       "evidence": "string",
       "verificationStatus": "string",
-      "notes": "string"
+      "notes": "string",
+      "messageId": "UUID (commitments only)",
+      "dueDate": "YYYY-MM-DD | null (commitments only)"
     }
   ]
 }`
@@ -342,6 +878,8 @@ For EACH existing issue, determine if this conversation is relevant. A conversat
 
 Most conversations relate to 2-5 existing issues. Err on the side of linking.
 
+Only set status to "resolved" when a message in this conversation clearly settles the issue (an explicit agreement, a completed action). Then include "resolution" with a short note and that message's ID; omit "resolution" otherwise.
+
 Return JSON:
 {
   "issueActions": [
@@ -351,8 +889,9 @@ Return JSON:
       "title": "issue title",
       "description": "updated description if needed",
       "priority": "low" | "medium" | "high",
-      "status": "open" | "monitoring",
+      "status": "open" | "monitoring" | "resolved",
       "linkedMessageIds": ["relevant message IDs"],
+      "resolution": { "note": "how the issue was settled", "messageId": "ID of the message that settled it" },
       "personContributions": [
         {
           "personId": "UUID",
@@ -418,8 +957,12 @@ Return JSON:
 ### Active Agreements:
 ${context.agreementContext}
 
+### Logged Parenting-Time Exchanges (user-recorded outcomes):
+${context.exchangeLogContext}
+
 1. Check if any messages conflict with active agreements.
-2. Identify if participants reached any NEW mutual agreements (requires clear mutual consent, not just proposals).
+2. Where a logged exchange was late, missed, or otherwise deviated from a parenting-time agreement and relates to this conversation, cite it as evidence in exchangeLogIds. Exchanges swapped by agreement are not violations.
+3. Identify if participants reached any NEW mutual agreements (requires clear mutual consent, not just proposals).
 
 Return JSON:
 {
@@ -429,6 +972,7 @@ Return JSON:
       "violationType": "direct" | "potential" | "pattern",
       "description": "what was violated and how",
       "messageIds": ["relevant message IDs"],
+      "exchangeLogIds": ["exchange log IDs cited as evidence, or empty"],
       "severity": "minor" | "moderate" | "severe"
     }
   ],
@@ -459,7 +1003,10 @@ ${(priorOutputs.conversation_map as any)?.summary || 'Not available'}
 ### Claims Ledger:
 ${JSON.stringify((priorOutputs.claims_verification as any)?.claimsLedger || [], null, 2)}
 
-For EACH participant, provide a behavioral profile.
+### Computed Communication Metrics (from timestamps and text, not model output):
+${context.metricsContext}
+
+For EACH participant, provide a behavioral profile. Base responsivenessLevel on the computed metrics rather than impressions.
 
 Return JSON:
 {
@@ -483,7 +1030,7 @@ Return JSON:
         {
           "type": "accountability_avoidance | stonewalling | etc",
           "description": "what happened",
-          "evidence": ["specific quotes or references"],
+          "evidence": ["exact quotes from this person's messages, in double quotes"],
           "severity": "low" | "medium" | "high"
         }
       ]
@@ -506,7 +1053,10 @@ Flag types (use most precise):
 ### Claims Ledger:
 ${JSON.stringify((priorOutputs.claims_verification as any)?.claimsLedger || [], null, 2)}
 
-Flag messages with noteworthy behaviors. Attribute each flag to the person who exhibited the behavior.
+### Computed Communication Metrics (from timestamps and text, not model output):
+${context.metricsContext}
+
+Flag messages with noteworthy behaviors. Only flag communication_stonewalling or selective_response where the computed metrics or the messages themselves show questions going unanswered. Attribute each flag to the person who exhibited the behavior.
 
 Return JSON:
 {
@@ -519,7 +1069,7 @@ Return JSON:
           "description": "what specifically happened",
           "attributedToPersonId": "UUID of person who did this",
           "severity": "low" | "medium" | "high",
-          "evidence": "brief quote or reference",
+          "evidence": "exact quote from this message, in double quotes",
           "impact": "how it affects resolution/cooperation"
         }
       ]
@@ -574,7 +1124,7 @@ Return JSON:
   }
 }
 
-function assembleResult(outputs: Record<string, unknown>): any {
+function assembleResult(outputs: Record<string, unknown>, payload: any): any {
   const conversationMap = outputs.conversation_map as any || {};
   const claimsVerification = outputs.claims_verification as any || {};
   const issueLinking = outputs.issue_linking as any || {};
@@ -585,10 +1135,10 @@ function assembleResult(outputs: Record<string, unknown>): any {
   const synthesis = outputs.synthesis as any || {};
 
   // Combine issue actions from linking and detection
-  const allIssueActions = [
+  const allIssueActions = dedupeIssueActions([
     ...(issueLinking.issueActions || []),
     ...(issueDetection.issueActions || [])
-  ];
+  ]);
 
   // Ensure backward compatibility: populate involvedPersonIds from personContributions
   for (const issue of allIssueActions) {
@@ -614,6 +1164,44 @@ function assembleResult(outputs: Record<string, unknown>): any {
     agreementViolations: agreementChecks.agreementViolations || [],
     detectedAgreements: agreementChecks.detectedAgreements || [],
     personAnalyses: personAnalysis.personAnalyses || [],
-    messageAnnotations: messageAnnotation.messageAnnotations || []
+    messageAnnotations: messageAnnotation.messageAnnotations || [],
+    analysisMeta: {
+      model: pipelineModels(),
+      promptVersion: PROMPT_VERSION,
+      userGuidance: payload.userGuidance || undefined
+    }
   };
 }
+
+// Distinct models across stages, since each stage's model can be overridden
+function pipelineModels(): string {
+  return Array.from(new Set(STAGES.map(s => getLLM(`pipeline.${s.id}`, MODEL).model))).join(', ');
+}
+
+/**
+ * Collapses repeated actions for the same issue (updates by issueId, creates
+ * by title), unioning their linked messages and person contributions.
+ */
+function dedupeIssueActions(actions: any[]): any[] {
+  const byKey = new Map<string, any>();
+  for (const action of actions) {
+    const key = action.action === 'update' && action.issueId
+      ? `update:${action.issueId}`
+      : `create:${normalizeText(action.title)}`;
+    const existing = byKey.get(key);
+    if (!existing) {
+      byKey.set(key, { ...action });
+      continue;
+    }
+    existing.linkedMessageIds = Array.from(new Set([
+      ...(existing.linkedMessageIds || []),
+      ...(action.linkedMessageIds || [])
+    ]));
+    const contributorIds = new Set((existing.personContributions || []).map((c: any) => c.personId));
+    existing.personContributions = [
+      ...(existing.personContributions || []),
+      ...(action.personContributions || []).filter((c: any) => !contributorIds.has(c.personId))
+    ];
+  }
+  return Array.from(byKey.values());
+}
@@ -1,15 +1,135 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getLLM, LLMError, parseJsonContent } from "../_shared/llm/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const OPENROUTER_API_KEY = Deno.env.get('OPENROUTER_API_KEY');
-const OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions';
 const DEFAULT_MODEL = 'openai/gpt-4.1';
 
+// Shared by both chat prompts; the client renders these markers as links to the source
+const CITATION_INSTRUCTIONS = `CITE EVERY FACTUAL STATEMENT about the case with the source marker shown next to it in the case data, copied exactly, e.g. "She refused the swap [[msg:<id>]]". Use [[msg:<id>]] for messages, [[item:<id>]] for agreement items and [[clause:<id>]] for court order clauses. Place markers at the end of the sentence they support. Never invent or alter an id. If a statement has no source in the case data, say plainly that it is not supported by the records rather than citing.`;
+
+// Tools offered to the model in chat. The client executes them: search and
+// issue lookups run immediately, every write is shown to the user as a
+// confirmation card and only applied once approved.
+const ASSISTANT_TOOLS = [
+  {
+    type: 'function',
+    function: {
+      name: 'search_messages',
+      description: 'Full-text search across all imported messages. Returns matching excerpts with their citation markers.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Keywords or phrase to search for' },
+          limit: { type: 'integer', description: 'Maximum results (default 10, max 25)' }
+        },
+        required: ['query']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_issue_details',
+      description: 'Fetch a tracked issue with the people involved and the agreement items and court clauses linked to it.',
+      parameters: {
+        type: 'object',
+        properties: {
+          issueId: { type: 'string', description: 'Issue id, if known' },
+          title: { type: 'string', description: 'Issue title or part of it, used when the id is unknown' }
+        }
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'create_event',
+      description: 'Propose adding a dated event to the case timeline.',
+      parameters: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          date: { type: 'string', description: 'YYYY-MM-DD' },
+          description: { type: 'string' }
+        },
+        required: ['title', 'date', 'description']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'open_issue',
+      description: 'Propose opening a new tracked issue.',
+      parameters: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          description: { type: 'string' },
+          priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+          personIds: { type: 'array', items: { type: 'string' }, description: 'Ids from the people directory' }
+        },
+        required: ['title', 'description', 'priority']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'add_profile_note',
+      description: "Propose adding a note to a person's profile.",
+      parameters: {
+        type: 'object',
+        properties: {
+          personId: { type: 'string', description: 'Id from the people directory' },
+          type: { type: 'string', enum: ['observation', 'strategy', 'pattern'] },
+          content: { type: 'string' }
+        },
+        required: ['personId', 'type', 'content']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'record_agreement_item',
+      description: 'Propose recording an agreement the parents reached, optionally linked to the conversation and message where it was made.',
+      parameters: {
+        type: 'object',
+        properties: {
+          topic: { type: 'string' },
+          fullText: { type: 'string', description: 'The agreed terms' },
+          summary: { type: 'string' },
+          sourceConversationId: { type: 'string' },
+          sourceMessageId: { type: 'string' }
+        },
+        required: ['topic', 'fullText']
+      }
+    }
+  }
+];
+
+/**
+ * Tool usage rules plus the ids the model needs for tool arguments
+ */
+function buildToolGuidance(peopleList: any[]): string {
+  const directory = (peopleList || []).map((p: any) => `- ${p.name} (${p.role}): ${p.id}`).join('\n');
+  return `
+
+## TOOLS
+- Use search_messages and get_issue_details when the case data above does not answer the question.
+- create_event, open_issue, add_profile_note and record_agreement_item only PROPOSE a change. The user approves or rejects each one in the app. Never say a change has been made; say it is ready for their review.
+- Only propose changes the user asked for or clearly agreed to.
+
+## PEOPLE DIRECTORY (ids for tool arguments)
+${directory || '- No people on file'}`;
+}
+
 // System prompts for different operations
 const SYSTEM_PROMPTS = {
   chat: `You are a strategic advisor for high-conflict co-parenting situations. You provide:
@@ -19,7 +139,9 @@ const SYSTEM_PROMPTS = {
 - Draft communications that are court-ready, using BIFF principles (Brief, Informative, Friendly, Firm)
 - Direct, honest assessments without excessive hedging
 
-When analyzing, cite specific evidence. When drafting, remove emotion and focus on facts.`,
+When analyzing, cite specific evidence. When drafting, remove emotion and focus on facts.
+
+No case records were loaded for this question. ${CITATION_INSTRUCTIONS}`,
 
   parseFile: `You are a data extraction specialist. Extract conversation data from the provided image or text.
 
@@ -107,6 +229,7 @@ function buildContextualSystemPrompt(context: any): string {
 3. Identify manipulation tactics, JADE violations, baiting attempts
 4. Draft communications that remove emotion and focus on verifiable facts
 5. If asked about someone not in the data, say so clearly
+6. ${CITATION_INSTRUCTIONS}
 
 ---`);
 
@@ -139,7 +262,7 @@ ${noteText}`);
   if (context.issues?.length > 0) {
     sections.push(`\n## TRACKED ISSUES INVOLVING THESE PEOPLE\n`);
     for (const issue of context.issues) {
-      sections.push(`### ${issue.title} [${issue.status} / ${issue.priority}]
+      sections.push(`### ${issue.title} [${issue.status} / ${issue.priority}] (id: ${issue.id})
 ${issue.description}
 Last Updated: ${issue.updatedAt}`);
     }
@@ -150,39 +273,42 @@ Last Updated: ${issue.updatedAt}`);
     sections.push(`\n## APPLICABLE RULES & AGREEMENTS\n`);
     for (const rule of context.rules) {
       const text = rule.summary || (rule.fullText?.substring(0, 300) + '...');
-      sections.push(`- **[${rule.topic}]** ${text}`);
+      sections.push(`- **[${rule.topic}]**${rule.itemRef ? ` ${rule.itemRef}:` : ''} ${text} [[item:${rule.id}]]`);
     }
   }
 
-  // RECENT MESSAGES section
-  if (context.messages?.length > 0) {
-    sections.push(`\n## RECENT COMMUNICATIONS\n`);
-    // Group by conversation
-    const grouped: Record<string, any[]> = {};
-    for (const m of context.messages) {
-      if (!grouped[m.conversationId]) grouped[m.conversationId] = [];
-      grouped[m.conversationId].push(m);
-    }
-    
-    for (const [convId, msgs] of Object.entries(grouped)) {
-      const conv = context.conversations?.find((c: any) => c.id === convId);
-      sections.push(`### ${conv?.title || 'Conversation'} (${conv?.sourceType || 'Unknown source'})`);
-      for (const msg of (msgs as any[]).slice(-15)) {
-        const sender = context.people?.find((p: any) => p.id === msg.senderId);
-        const truncatedText = msg.rawText?.length > 250 
-          ? msg.rawText.substring(0, 250) + '...' 
-          : msg.rawText;
-        sections.push(`[${msg.sentAt}] ${sender?.fullName || 'Unknown'}: "${truncatedText}"`);
-      }
+  // COURT ORDER CLAUSES section
+  if (context.clauses?.length > 0) {
+    sections.push(`\n## COURT ORDER CLAUSES\n`);
+    for (const clause of context.clauses) {
+      const text = clause.summary || (clause.fullText?.substring(0, 300) + '...');
+      sections.push(`- **${clause.clauseRef} [${clause.topic}]** ${text} [[clause:${clause.id}]]`);
     }
   }
 
-  // CONVERSATION ANALYSES section
-  if (context.conversationAnalyses?.length > 0) {
-    sections.push(`\n## PRIOR CONVERSATION ANALYSES\n`);
-    for (const analysis of context.conversationAnalyses) {
-      const summary = analysis.summary?.substring(0, 200) || 'No summary';
-      sections.push(`- **Tone: ${analysis.overallTone}** - ${summary}`);
+  // RETRIEVED PASSAGES section
+  if (context.retrievedPassages?.length > 0) {
+    sections.push(`\n## RELEVANT CASE EXCERPTS\n`);
+    sections.push(`Retrieved by relevance to the question from the entire case history, so they may be old. Shown oldest first.`);
+    // Analyses and profile notes are context only; only primary sources get a marker
+    const citationPrefixes: Record<string, string> = { message: 'msg', agreement_item: 'item' };
+    const sourceLabels: Record<string, string> = {
+      message: 'Message',
+      analysis: 'Analysis',
+      agreement_item: 'Agreement',
+      profile_note: 'Profile note'
+    };
+    const passages = [...context.retrievedPassages].sort((a: any, b: any) =>
+      (a.occurredAt || '').localeCompare(b.occurredAt || '')
+    );
+    for (const p of passages) {
+      const conv = context.conversations?.find((c: any) => c.id === p.conversationId);
+      const date = p.occurredAt ? p.occurredAt.substring(0, 10) : 'undated';
+      const truncatedText = p.content?.length > 600
+        ? p.content.substring(0, 600) + '...'
+        : p.content;
+      const marker = citationPrefixes[p.sourceType] ? ` [[${citationPrefixes[p.sourceType]}:${p.sourceId}]]` : '';
+      sections.push(`[${date}] (${sourceLabels[p.sourceType] || p.sourceType}${conv ? `, ${conv.title}` : ''}) ${truncatedText}${marker}`);
     }
   }
 
@@ -196,14 +322,6 @@ serve(async (req) => {
   }
 
   try {
-    if (!OPENROUTER_API_KEY) {
-      console.error('OPENROUTER_API_KEY is not configured');
-      return new Response(
-        JSON.stringify({ error: 'OpenRouter API key not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     const { operation, messages, fileData, personData, model, peopleList, context } = await req.json();
     const selectedModel = model || DEFAULT_MODEL;
 
@@ -221,6 +339,7 @@ serve(async (req) => {
         } else {
           systemPrompt = SYSTEM_PROMPTS.chat;
         }
+        systemPrompt += buildToolGuidance(peopleList);
         stream = true;
         break;
 
@@ -301,67 +420,45 @@ serve(async (req) => {
       );
     }
 
-    const requestBody: any = {
-      model: selectedModel,
+    // Scopes: chat, chat.extract-entities, chat.parse-file, chat.analyze-person
+    const llm = getLLM(operation === 'chat' ? 'chat' : `chat.${operation}`, selectedModel);
+    const chatRequest = {
       messages: apiMessages,
+      tools: operation === 'chat' ? ASSISTANT_TOOLS : undefined
     };
 
-    if (stream) {
-      requestBody.stream = true;
-    }
+    console.log(`Calling ${llm.provider} (${llm.model}) with ${apiMessages.length} messages, estimated ${totalTokens} tokens`);
 
-    console.log(`Calling OpenRouter with ${apiMessages.length} messages, estimated ${totalTokens} tokens`);
-
-    const response = await fetch(OPENROUTER_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://lovable.dev',
-        'X-Title': 'CoParent Intel'
-      },
-      body: JSON.stringify(requestBody)
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`OpenRouter error: ${response.status} - ${errorText}`);
-      
-      if (response.status === 429) {
+    let content: string;
+    try {
+      // For streaming responses, pass through the stream
+      if (stream) {
+        const body = await llm.stream(chatRequest);
+        return new Response(body, {
+          headers: { ...corsHeaders, 'Content-Type': 'text/event-stream' }
+        });
+      }
+      content = await llm.complete(chatRequest);
+    } catch (error) {
+      if (!(error instanceof LLMError)) throw error;
+
+      if (error.status === 429) {
         return new Response(
           JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
           { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
-      
+
       return new Response(
-        JSON.stringify({ error: `OpenRouter API error: ${response.status}` }),
-        { status: response.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // For streaming responses, pass through the stream
-    if (stream && response.body) {
-      return new Response(response.body, {
-        headers: { ...corsHeaders, 'Content-Type': 'text/event-stream' }
-      });
-    }
-
-    // For non-streaming, parse and return JSON
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-
-    if (!content) {
-      throw new Error('No content in OpenRouter response');
-    }
-
     // Try to parse as JSON for structured responses
     let result;
     try {
-      // Extract JSON from markdown code blocks if present
-      const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-      const jsonStr = jsonMatch ? jsonMatch[1].trim() : content;
-      result = JSON.parse(jsonStr);
+      result = parseJsonContent(content);
     } catch {
       // Return raw content if not JSON
       result = { content };
@@ -1,13 +1,12 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getLLM, LLMError, parseJsonContent } from "../_shared/llm/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const OPENROUTER_API_KEY = Deno.env.get('OPENROUTER_API_KEY');
-const OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions';
 const MODEL = 'openai/gpt-4o';
 
 const SYSTEM_PROMPT = `You are an assistant helping a user organize people in a high-conflict co-parenting situation. Your job is to fully understand who each person is and how they relate to others in the family system.
@@ -97,14 +96,6 @@ serve(async (req) => {
   }
 
   try {
-    if (!OPENROUTER_API_KEY) {
-      console.error('OPENROUTER_API_KEY is not configured');
-      return new Response(
-        JSON.stringify({ error: 'OpenRouter API key not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     const { role, fullName, description, existingPeople, conversationHistory } = await req.json();
 
     console.log(`Clarifying person: ${fullName} (${role}), history length: ${conversationHistory?.length || 0}`);
@@ -131,54 +122,29 @@ ${existingPeople?.length > 0
       userPrompt += `\n\nAnalyze this person. If the description is clear enough (e.g., "Bryce's OT" with Bryce in the system), you may mark complete immediately. Otherwise, ask your first clarifying question.`;
     }
 
-    const response = await fetch(OPENROUTER_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://lovable.dev',
-        'X-Title': 'CoParent Intel'
-      },
-      body: JSON.stringify({
-        model: MODEL,
+    let content: string;
+    try {
+      content = await getLLM('clarify-person', MODEL).complete({
         messages: [
           { role: 'system', content: SYSTEM_PROMPT },
           { role: 'user', content: userPrompt }
         ],
-        response_format: { type: 'json_object' }
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`OpenRouter error: ${response.status} - ${errorText}`);
-      
-      if (response.status === 429) {
+        json: true
+      });
+    } catch (error) {
+      if (error instanceof LLMError && error.status === 429) {
         return new Response(
           JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
           { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
-      
-      return new Response(
-        JSON.stringify({ error: `API error: ${response.status}` }),
-        { status: response.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-
-    if (!content) {
-      throw new Error('No content in response');
+      throw error;
     }
 
     // Parse JSON from response
     let result;
     try {
-      const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-      const jsonStr = jsonMatch ? jsonMatch[1].trim() : content;
-      result = JSON.parse(jsonStr);
+      result = parseJsonContent(content);
     } catch (parseError) {
       console.error('Failed to parse AI response:', content);
       // Return a safe default - ask a generic question
@@ -0,0 +1,80 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { EMBEDDING_DIMENSIONS, getLLM, LLMClient } from "../_shared/llm/index.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Default for hosted providers; LLM_PROVIDER_EMBEDDINGS / LLM_MODEL_EMBEDDINGS override it
+const EMBEDDING_MODEL = 'openai/text-embedding-3-small';
+const BATCH_SIZE = 64;
+const MAX_INPUTS = 512;
+// text-embedding-3-small accepts ~8k tokens; trim long passages well under that
+const MAX_INPUT_CHARS = 24000;
+
+interface EmbeddingsRequest {
+  inputs: string[];
+}
+
+async function embedBatch(llm: LLMClient, inputs: string[]): Promise<number[][]> {
+  const vectors = await llm.embed(inputs);
+  return vectors.map(vector => {
+    if (vector.length > EMBEDDING_DIMENSIONS) {
+      throw new Error(`${llm.model} returns ${vector.length}-dimension embeddings; at most ${EMBEDDING_DIMENSIONS} are supported`);
+    }
+    // Smaller local models (e.g. 768 dimensions) are zero-padded to fit the
+    // column; padding leaves cosine similarity unchanged
+    return vector.length < EMBEDDING_DIMENSIONS
+      ? [...vector, ...new Array(EMBEDDING_DIMENSIONS - vector.length).fill(0)]
+      : vector;
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { inputs }: EmbeddingsRequest = await req.json();
+
+    if (!Array.isArray(inputs) || inputs.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'inputs must be a non-empty array of strings' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    if (inputs.length > MAX_INPUTS) {
+      return new Response(
+        JSON.stringify({ error: `At most ${MAX_INPUTS} inputs per request` }),
+        { status: 413, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const cleaned = inputs.map(text => (text || '').slice(0, MAX_INPUT_CHARS) || ' ');
+    const llm = getLLM('embeddings', EMBEDDING_MODEL);
+    const embeddings: number[][] = [];
+    for (let i = 0; i < cleaned.length; i += BATCH_SIZE) {
+      embeddings.push(...await embedBatch(llm, cleaned.slice(i, i + BATCH_SIZE)));
+    }
+
+    console.log(`Embedded ${embeddings.length} inputs with ${llm.provider}/${llm.model}`);
+
+    // Vectors from different models are not comparable; callers store this with
+    // each vector and only match query vectors against the same model
+    return new Response(
+      JSON.stringify({ embeddings, model: llm.model, embeddingModel: `${llm.provider}/${llm.model}` }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: unknown) {
+    console.error('Error in generate-embeddings:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -1,13 +1,12 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getLLM, LLMError, parseJsonContent } from "../_shared/llm/index.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const OPENROUTER_API_KEY = Deno.env.get('OPENROUTER_API_KEY');
-const OPENROUTER_URL = 'https://openrouter.ai/api/v1/chat/completions';
 const MODEL = 'openai/gpt-4o';
 
 // Build the system prompt dynamically based on existing people
@@ -289,75 +288,42 @@ ${documentContent}`
       throw new Error('Invalid request: no content provided');
     }
 
-    console.log('Calling OpenRouter API for document analysis...');
+    const llm = getLLM('parse-legal-document', MODEL);
+    console.log(`Calling ${llm.provider} (${llm.model}) for document analysis...`);
 
-    const response = await fetch(OPENROUTER_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://lovable.dev',
-        'X-Title': 'Co-Parenting Assistant'
-      },
-      body: JSON.stringify({
-        model: MODEL,
+    let content: string;
+    try {
+      content = await llm.complete({
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userContent }
         ],
         temperature: 0.1,
-        max_tokens: 16000
-      })
-    });
+        maxTokens: 16000
+      });
+    } catch (error) {
+      if (!(error instanceof LLMError)) throw error;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('OpenRouter API error:', response.status, errorText);
-      
-      if (response.status === 429) {
+      if (error.status === 429) {
         return new Response(
           JSON.stringify({ error: 'Rate limit exceeded. Please try again in a moment.' }),
           { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
-      
-      // Parse error for more helpful message
-      let errorMessage = `API error: ${response.status}`;
-      try {
-        const errorJson = JSON.parse(errorText);
-        if (errorJson.error?.message) {
-          if (errorJson.error.message.includes('context length')) {
-            errorMessage = 'Document is too large to process. Please try a shorter document or contact support.';
-          } else {
-            errorMessage = errorJson.error.message;
-          }
-        }
-      } catch {
-        // Keep default error message
-      }
-      
-      throw new Error(errorMessage);
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
 
-    if (!content) {
-      throw new Error('No content in API response');
+      // Replace the raw provider message with a more helpful one
+      if (error.message.includes('context length')) {
+        throw new Error('Document is too large to process. Please try a shorter document or contact support.');
+      }
+      throw error;
     }
 
     console.log('Received response, parsing JSON...');
 
-    // Extract JSON from response (handle markdown code blocks)
-    let jsonStr = content;
-    const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (jsonMatch) {
-      jsonStr = jsonMatch[1].trim();
-    }
-
     let result;
     try {
-      result = JSON.parse(jsonStr);
+      // Handles markdown code blocks around the JSON
+      result = parseJsonContent(content);
     } catch (parseError) {
       console.error('JSON parse error:', parseError);
       console.error('Raw content:', content.substring(0, 500));
@@ -0,0 +1,26 @@
+-- Create issue_exhibits table so evidence packet exhibit numbers stay stable across exports
+CREATE TABLE public.issue_exhibits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  issue_id uuid NOT NULL REFERENCES public.issues(id) ON DELETE CASCADE,
+  message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  exhibit_number integer NOT NULL,
+  content_sha256 text NOT NULL,
+  user_id uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(issue_id, message_id),
+  UNIQUE(issue_id, exhibit_number)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.issue_exhibits ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policy
+CREATE POLICY "Users can manage their own issue exhibits"
+  ON public.issue_exhibits FOR ALL
+  USING (auth.uid() = user_id);
+
+-- Create indexes for efficient querying
+CREATE INDEX idx_issue_exhibits_issue ON public.issue_exhibits(issue_id);
+
+COMMENT ON COLUMN public.issue_exhibits.exhibit_number IS 'Assigned once on first export; never renumbered when new evidence is linked';
+COMMENT ON COLUMN public.issue_exhibits.content_sha256 IS 'SHA-256 of the message raw_text at the time the exhibit number was assigned';
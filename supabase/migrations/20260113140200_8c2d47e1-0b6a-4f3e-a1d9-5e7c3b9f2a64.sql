@@ -0,0 +1,33 @@
+-- Create reimbursements table for expense requests imported from OFW Expense Log reports
+CREATE TABLE public.reimbursements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  title text NOT NULL,
+  category text,
+  expense_date date NOT NULL,
+  amount numeric(12, 2) NOT NULL,
+  amount_requested numeric(12, 2),
+  paid_by_person_id uuid REFERENCES public.people(id) ON DELETE SET NULL,
+  requested_from_person_id uuid REFERENCES public.people(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'partially_paid', 'paid', 'declined', 'disputed')),
+  due_date date,
+  notes text,
+  source_type text NOT NULL DEFAULT 'OFW',
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.reimbursements ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policy
+CREATE POLICY "Users can manage their own reimbursements"
+  ON public.reimbursements FOR ALL
+  USING (auth.uid() = user_id);
+
+-- Create indexes for efficient querying
+CREATE INDEX idx_reimbursements_expense_date ON public.reimbursements(expense_date);
+CREATE INDEX idx_reimbursements_status ON public.reimbursements(status);
+
+COMMENT ON COLUMN public.reimbursements.amount IS 'Total expense amount paid';
+COMMENT ON COLUMN public.reimbursements.amount_requested IS 'Portion requested from the other parent (e.g. 50% split)';
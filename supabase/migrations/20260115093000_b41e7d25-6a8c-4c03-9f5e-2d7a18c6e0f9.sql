@@ -0,0 +1,43 @@
+-- Structured parenting-time schedules materialised from agreement items
+CREATE TABLE public.parenting_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  agreement_item_id uuid REFERENCES public.agreement_items(id) ON DELETE CASCADE,
+  schedule_type text NOT NULL CHECK (schedule_type IN ('rotation', 'holiday', 'exchange')),
+  label text NOT NULL,
+  -- Rotation fields
+  pattern text CHECK (pattern IN ('alternating_weeks', 'alternating_weekends', '2-2-3', '2-2-5-5', '3-4-4-3', 'custom')),
+  anchor_date date,
+  cycle jsonb,
+  -- Effective window (rotation/exchange) or holiday dates
+  start_date date,
+  end_date date,
+  -- Holiday fields
+  holiday_key text,
+  recurrence text NOT NULL DEFAULT 'once' CHECK (recurrence IN ('once', 'yearly')),
+  year_parity text CHECK (year_parity IN ('odd', 'even')),
+  custodian_person_id uuid REFERENCES public.people(id) ON DELETE SET NULL,
+  -- Exchange fields
+  exchange_days jsonb,
+  exchange_time text,
+  exchange_location text,
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.parenting_schedules ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policy
+CREATE POLICY "Users can manage their own parenting schedules"
+  ON public.parenting_schedules FOR ALL
+  USING (auth.uid() = user_id);
+
+-- Create indexes for efficient querying
+CREATE INDEX idx_parenting_schedules_agreement_item ON public.parenting_schedules(agreement_item_id);
+CREATE INDEX idx_parenting_schedules_type ON public.parenting_schedules(schedule_type);
+
+COMMENT ON COLUMN public.parenting_schedules.cycle IS 'Array of person ids, one per day of the rotation starting at anchor_date';
+COMMENT ON COLUMN public.parenting_schedules.holiday_key IS 'Named holiday whose date is computed per year (e.g. thanksgiving); null when start/end dates are explicit';
+COMMENT ON COLUMN public.parenting_schedules.year_parity IS 'Holiday applies only in odd or even years; null for every year';
+COMMENT ON COLUMN public.parenting_schedules.exchange_days IS 'Days of week (0 = Sunday) the exchange applies to; null for any handover day';
@@ -0,0 +1,49 @@
+-- Log of what actually happened at each parenting-time exchange
+CREATE TABLE public.exchange_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  scheduled_at timestamptz NOT NULL,
+  actual_at timestamptz,
+  outcome text NOT NULL CHECK (outcome IN ('on_time', 'late', 'missed', 'swapped')),
+  minutes_late integer CHECK (minutes_late IS NULL OR minutes_late >= 0),
+  responsible_person_id uuid REFERENCES public.people(id) ON DELETE SET NULL,
+  from_person_id uuid REFERENCES public.people(id) ON DELETE SET NULL,
+  to_person_id uuid REFERENCES public.people(id) ON DELETE SET NULL,
+  agreement_item_id uuid REFERENCES public.agreement_items(id) ON DELETE SET NULL,
+  schedule_id uuid REFERENCES public.parenting_schedules(id) ON DELETE SET NULL,
+  location text,
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Links from a logged exchange to supporting messages and issues
+CREATE TABLE public.exchange_log_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  exchange_log_id uuid NOT NULL REFERENCES public.exchange_logs(id) ON DELETE CASCADE,
+  target_type text NOT NULL CHECK (target_type IN ('message', 'issue')),
+  target_id uuid NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (exchange_log_id, target_type, target_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.exchange_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.exchange_log_links ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can manage their own exchange logs"
+  ON public.exchange_logs FOR ALL
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own exchange log links"
+  ON public.exchange_log_links FOR ALL
+  USING (auth.uid() = user_id);
+
+-- Create indexes for efficient querying
+CREATE INDEX idx_exchange_logs_scheduled_at ON public.exchange_logs(scheduled_at);
+CREATE INDEX idx_exchange_logs_responsible_person ON public.exchange_logs(responsible_person_id);
+CREATE INDEX idx_exchange_log_links_target ON public.exchange_log_links(target_type, target_id);
+
+COMMENT ON COLUMN public.exchange_logs.outcome IS 'on_time, late (see minutes_late), missed, or swapped by mutual agreement';
+COMMENT ON COLUMN public.exchange_logs.responsible_person_id IS 'Parent whose compliance this entry is counted against';
@@ -0,0 +1,45 @@
+-- Extend reimbursements into a shared expense and child-support ledger
+ALTER TABLE public.reimbursements
+  ADD COLUMN entry_type text NOT NULL DEFAULT 'expense' CHECK (entry_type IN ('expense', 'child_support')),
+  ADD COLUMN split_percentage numeric(5, 2) CHECK (split_percentage IS NULL OR (split_percentage >= 0 AND split_percentage <= 100)),
+  ADD COLUMN agreement_item_id uuid REFERENCES public.agreement_items(id) ON DELETE SET NULL,
+  ADD COLUMN receipt_path text,
+  ADD COLUMN requested_at date,
+  ADD COLUMN paid_at date,
+  ADD COLUMN amount_paid numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN source_message_id uuid REFERENCES public.messages(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_reimbursements_due_date ON public.reimbursements(due_date);
+CREATE INDEX idx_reimbursements_source_message ON public.reimbursements(source_message_id);
+
+COMMENT ON COLUMN public.reimbursements.split_percentage IS 'Share of the amount owed by requested_from_person_id, usually taken from the financial agreement item';
+COMMENT ON COLUMN public.reimbursements.receipt_path IS 'Path of the receipt in the receipts storage bucket';
+COMMENT ON COLUMN public.reimbursements.source_message_id IS 'Message in which the reimbursement was requested';
+
+-- Storage bucket for receipts
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('receipts', 'receipts', false);
+
+CREATE POLICY "Users can upload their own receipts"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'receipts'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can view their own receipts"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'receipts'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Users can delete their own receipts"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'receipts'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
@@ -0,0 +1,36 @@
+-- Tracked obligations: commitments made in messages and deadlines derived from agreement notice periods
+CREATE TABLE public.obligations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  title text NOT NULL,
+  description text,
+  owner_person_id uuid REFERENCES public.people(id) ON DELETE SET NULL,
+  due_date date,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'fulfilled', 'missed', 'waived')),
+  source_type text NOT NULL DEFAULT 'manual' CHECK (source_type IN ('commitment', 'agreement_notice', 'manual')),
+  source_conversation_id uuid REFERENCES public.conversations(id) ON DELETE CASCADE,
+  source_message_id uuid REFERENCES public.messages(id) ON DELETE SET NULL,
+  agreement_item_id uuid REFERENCES public.agreement_items(id) ON DELETE SET NULL,
+  event_id uuid REFERENCES public.events(id) ON DELETE CASCADE,
+  claim_key text,
+  fulfilled_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, source_conversation_id, claim_key)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.obligations ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can manage their own obligations"
+  ON public.obligations FOR ALL
+  USING (auth.uid() = user_id);
+
+-- Create indexes for efficient querying
+CREATE INDEX idx_obligations_due_date ON public.obligations(due_date);
+CREATE INDEX idx_obligations_status ON public.obligations(status);
+CREATE INDEX idx_obligations_owner_person ON public.obligations(owner_person_id);
+
+COMMENT ON COLUMN public.obligations.claim_key IS 'Normalized commitment text; keeps re-analysis of a conversation from duplicating obligations';
+COMMENT ON COLUMN public.obligations.event_id IS 'Planned event that triggered an agreement notice deadline';
@@ -0,0 +1,69 @@
+-- Embeddings index for assistant retrieval over messages, analysis summaries,
+-- agreement items and profile notes
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE public.case_embeddings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  source_type text NOT NULL CHECK (source_type IN ('message', 'analysis', 'agreement_item', 'profile_note')),
+  source_id uuid NOT NULL,
+  conversation_id uuid REFERENCES public.conversations(id) ON DELETE CASCADE,
+  person_id uuid REFERENCES public.people(id) ON DELETE SET NULL,
+  content text NOT NULL,
+  content_hash text NOT NULL,
+  embedding extensions.vector(1536) NOT NULL,
+  occurred_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, source_type, source_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.case_embeddings ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can manage their own case embeddings"
+  ON public.case_embeddings FOR ALL
+  USING (auth.uid() = user_id);
+
+-- Create indexes for efficient querying
+CREATE INDEX idx_case_embeddings_embedding ON public.case_embeddings
+  USING hnsw (embedding extensions.vector_cosine_ops);
+CREATE INDEX idx_case_embeddings_source ON public.case_embeddings(source_type, source_id);
+
+COMMENT ON COLUMN public.case_embeddings.content IS 'Exact text that was embedded, returned as the retrieved passage';
+COMMENT ON COLUMN public.case_embeddings.content_hash IS 'Hash of content; rows are only re-embedded when it changes';
+
+-- Nearest passages to a query embedding. Runs with the caller's privileges so
+-- RLS limits matches to the current user's case file.
+CREATE OR REPLACE FUNCTION match_case_embeddings(
+  p_query_embedding extensions.vector(1536),
+  p_match_count int DEFAULT 30,
+  p_source_types text[] DEFAULT NULL
+)
+RETURNS TABLE(
+  source_type text,
+  source_id uuid,
+  conversation_id uuid,
+  person_id uuid,
+  content text,
+  occurred_at timestamptz,
+  similarity double precision
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    ce.source_type,
+    ce.source_id,
+    ce.conversation_id,
+    ce.person_id,
+    ce.content,
+    ce.occurred_at,
+    1 - (ce.embedding <=> p_query_embedding) AS similarity
+  FROM case_embeddings ce
+  WHERE p_source_types IS NULL OR ce.source_type = ANY(p_source_types)
+  ORDER BY ce.embedding <=> p_query_embedding
+  LIMIT p_match_count;
+$$;
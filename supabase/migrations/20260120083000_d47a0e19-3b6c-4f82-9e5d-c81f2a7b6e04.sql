@@ -0,0 +1,5 @@
+-- Inline citations resolved from assistant answers
+ALTER TABLE public.assistant_messages
+  ADD COLUMN IF NOT EXISTS citations jsonb;
+
+COMMENT ON COLUMN public.assistant_messages.citations IS 'Sources cited inline in an assistant answer ([{targetType, targetId, parentId, label, detail}]). NULL when the message was not checked for citations; an empty array marks an unsupported answer.';
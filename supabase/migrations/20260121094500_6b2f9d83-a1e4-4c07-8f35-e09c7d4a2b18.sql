@@ -0,0 +1,5 @@
+-- Write actions proposed by the assistant through tool calls
+ALTER TABLE public.assistant_messages
+  ADD COLUMN IF NOT EXISTS proposed_actions jsonb;
+
+COMMENT ON COLUMN public.assistant_messages.proposed_actions IS 'Tool calls proposed by the assistant ([{id, tool, args, status, resultId, resultPath, error}]). Nothing is written until the user approves an action in the chat.';
@@ -0,0 +1,42 @@
+-- Server-side analysis jobs: the pipeline edge function claims queued runs,
+-- persists each stage output itself and stores the assembled result, so a run
+-- survives the browser tab that started it
+ALTER TABLE public.analysis_runs
+  ADD COLUMN IF NOT EXISTS request_payload jsonb,
+  ADD COLUMN IF NOT EXISTS progress jsonb,
+  ADD COLUMN IF NOT EXISTS result jsonb,
+  ADD COLUMN IF NOT EXISTS applied_at timestamptz,
+  ADD COLUMN IF NOT EXISTS queued_at timestamptz DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+COMMENT ON COLUMN public.analysis_runs.request_payload IS 'Pipeline input (messages, participants, agreements, issues) captured when the run was queued';
+COMMENT ON COLUMN public.analysis_runs.progress IS 'Current stage and window for pollers: {stage, stageName, stageNumber, totalStages, chunkNumber?, totalChunks?}';
+COMMENT ON COLUMN public.analysis_runs.result IS 'Assembled pipeline result, set when status becomes completed';
+COMMENT ON COLUMN public.analysis_runs.applied_at IS 'When a client wrote the result into the case file; null while it is still to be applied';
+COMMENT ON COLUMN public.analysis_runs.updated_at IS 'Heartbeat from the worker; running rows that stop updating are treated as dead';
+
+CREATE INDEX IF NOT EXISTS idx_analysis_runs_queue
+  ON public.analysis_runs(user_id, queued_at)
+  WHERE status = 'pending';
+
+-- Lets any signed-in device follow a run as it progresses
+ALTER PUBLICATION supabase_realtime ADD TABLE public.analysis_runs;
+
+-- Atomically moves the caller's oldest queued run to running. SKIP LOCKED keeps
+-- concurrent workers from claiming the same run.
+CREATE OR REPLACE FUNCTION claim_next_analysis_run()
+RETURNS SETOF analysis_runs
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE analysis_runs
+  SET status = 'running', started_at = now(), updated_at = now(), error_message = NULL, error_stage = NULL
+  WHERE id = (
+    SELECT id FROM analysis_runs
+    WHERE user_id = auth.uid() AND status = 'pending'
+    ORDER BY queued_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
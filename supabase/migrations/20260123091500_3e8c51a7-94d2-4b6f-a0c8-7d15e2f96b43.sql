@@ -0,0 +1,45 @@
+-- Every saved analysis of a conversation, so re-runs and amendments can be
+-- compared. conversation_analyses keeps holding the current version.
+CREATE TABLE public.conversation_analysis_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  source text NOT NULL DEFAULT 'analysis' CHECK (source IN ('analysis', 'amendment', 'backfill')),
+  model text,
+  prompt_version text,
+  user_guidance text,
+  summary text NOT NULL,
+  overall_tone text,
+  key_topics jsonb DEFAULT '[]'::jsonb,
+  topic_category_slugs jsonb DEFAULT '[]'::jsonb,
+  agreement_violations jsonb DEFAULT '[]'::jsonb,
+  message_annotations jsonb DEFAULT '[]'::jsonb,
+  issue_actions jsonb DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.conversation_analysis_versions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can manage their own analysis versions"
+  ON public.conversation_analysis_versions FOR ALL
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_conversation_analysis_versions_conversation
+  ON public.conversation_analysis_versions(conversation_id, created_at);
+
+COMMENT ON COLUMN public.conversation_analysis_versions.source IS 'analysis = full pipeline or import run, amendment = summary amended from user guidance, backfill = copied from conversation_analyses when history was introduced';
+COMMENT ON COLUMN public.conversation_analysis_versions.model IS 'Model(s) that produced this version as reported by the edge function; null when unknown';
+COMMENT ON COLUMN public.conversation_analysis_versions.prompt_version IS 'Prompt set identifier reported by the edge function, e.g. pipeline-2026-01';
+COMMENT ON COLUMN public.conversation_analysis_versions.issue_actions IS 'Issue create/update actions the run proposed ([{action, issueId?, title, ...}])';
+
+-- Existing analyses become the first version of their history
+INSERT INTO public.conversation_analysis_versions (
+  user_id, conversation_id, source, summary, overall_tone, key_topics,
+  topic_category_slugs, agreement_violations, message_annotations, user_guidance, created_at
+)
+SELECT
+  user_id, conversation_id, 'backfill', summary, overall_tone, key_topics,
+  topic_category_slugs, agreement_violations, message_annotations, user_guidance, created_at
+FROM public.conversation_analyses;
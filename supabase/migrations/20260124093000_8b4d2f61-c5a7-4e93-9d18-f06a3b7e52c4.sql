@@ -0,0 +1,34 @@
+-- Human review of AI message flags. A review is keyed by the flag it answers
+-- (message, flag type, attributed person), so the same flag produced by a
+-- later re-analysis picks up the earlier decision instead of reappearing.
+CREATE TABLE public.message_flag_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  flag_type text NOT NULL,
+  attributed_to_person_id uuid NOT NULL,
+  status text NOT NULL CHECK (status IN ('confirmed', 'corrected', 'dismissed')),
+  corrected_type text,
+  corrected_severity text CHECK (corrected_severity IN ('low', 'medium', 'high')),
+  corrected_person_id uuid REFERENCES public.people(id) ON DELETE SET NULL,
+  corrected_evidence text,
+  reason text,
+  reviewed_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, message_id, flag_type, attributed_to_person_id),
+  CHECK (status <> 'dismissed' OR coalesce(btrim(reason), '') <> '')
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.message_flag_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can manage their own flag reviews"
+  ON public.message_flag_reviews FOR ALL
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_message_flag_reviews_conversation ON public.message_flag_reviews(conversation_id);
+
+COMMENT ON COLUMN public.message_flag_reviews.flag_type IS 'Flag type as produced by the analysis; part of the key, so corrections go in corrected_type';
+COMMENT ON COLUMN public.message_flag_reviews.attributed_to_person_id IS 'Person the analysis attributed the flag to; part of the key, so corrections go in corrected_person_id';
+COMMENT ON COLUMN public.message_flag_reviews.status IS 'confirmed = accepted as is, corrected = accepted with the corrected_* overrides, dismissed = rejected (reason required). Only confirmed and corrected flags feed reports and trends.';
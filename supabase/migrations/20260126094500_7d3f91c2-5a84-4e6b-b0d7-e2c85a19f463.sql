@@ -0,0 +1,144 @@
+-- Issue history: one row per change to an issue, with who or what made it
+-- and the old and new values. Marking an issue resolved also records the
+-- resolution note and the agreement item or message that resolved it.
+CREATE TABLE public.issue_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  issue_id uuid NOT NULL REFERENCES public.issues(id) ON DELETE CASCADE,
+  changed_by text NOT NULL CHECK (changed_by IN ('user', 'issue_linking', 'issue_detection', 'assistant')),
+  changes jsonb NOT NULL,
+  conversation_id uuid REFERENCES public.conversations(id) ON DELETE SET NULL,
+  resolution_note text,
+  resolving_agreement_item_id uuid REFERENCES public.agreement_items(id) ON DELETE SET NULL,
+  resolving_message_id uuid REFERENCES public.messages(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (changes->'status'->>'to' IS DISTINCT FROM 'resolved' OR coalesce(btrim(resolution_note), '') <> '')
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.issue_history ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can manage their own issue history"
+  ON public.issue_history FOR ALL
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_issue_history_issue ON public.issue_history(issue_id, created_at);
+
+COMMENT ON COLUMN public.issue_history.changed_by IS 'user = edited in the app, issue_linking / issue_detection = the analysis pipeline stage that proposed it, assistant = an approved assistant action';
+COMMENT ON COLUMN public.issue_history.changes IS 'Changed fields as {field: {from, to}}; a creation entry has from = null for every field';
+COMMENT ON COLUMN public.issue_history.conversation_id IS 'Conversation whose analysis made the change, if any';
+COMMENT ON COLUMN public.issue_history.resolution_note IS 'Required when the change sets status to resolved';
+
+-- Merging issues now carries the merged issue's history over to the survivor
+CREATE OR REPLACE FUNCTION merge_issues(p_source_id uuid, p_target_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_source issues%ROWTYPE;
+  v_next_exhibit integer;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge an issue into itself';
+  END IF;
+
+  SELECT * INTO v_source FROM issues WHERE id = p_source_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % not found', p_source_id;
+  END IF;
+  PERFORM 1 FROM issues WHERE id = p_target_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % not found', p_target_id;
+  END IF;
+
+  INSERT INTO message_issues (message_id, issue_id)
+  SELECT mi.message_id, p_target_id FROM message_issues mi
+  WHERE mi.issue_id = p_source_id
+    AND NOT EXISTS (SELECT 1 FROM message_issues t WHERE t.issue_id = p_target_id AND t.message_id = mi.message_id);
+  DELETE FROM message_issues WHERE issue_id = p_source_id;
+
+  INSERT INTO event_issues (event_id, issue_id)
+  SELECT ei.event_id, p_target_id FROM event_issues ei
+  WHERE ei.issue_id = p_source_id
+    AND NOT EXISTS (SELECT 1 FROM event_issues t WHERE t.issue_id = p_target_id AND t.event_id = ei.event_id);
+  DELETE FROM event_issues WHERE issue_id = p_source_id;
+
+  INSERT INTO issue_people (issue_id, person_id, involvement_type, contribution_type, contribution_description, contribution_valence, user_id)
+  SELECT p_target_id, ip.person_id, ip.involvement_type, ip.contribution_type, ip.contribution_description, ip.contribution_valence, ip.user_id
+  FROM issue_people ip
+  WHERE ip.issue_id = p_source_id
+    AND NOT EXISTS (SELECT 1 FROM issue_people t WHERE t.issue_id = p_target_id AND t.person_id = ip.person_id);
+  DELETE FROM issue_people WHERE issue_id = p_source_id;
+
+  INSERT INTO conversation_issue_links (conversation_id, issue_id, user_id, link_reason, created_at)
+  SELECT cil.conversation_id, p_target_id, cil.user_id, cil.link_reason, cil.created_at
+  FROM conversation_issue_links cil
+  WHERE cil.issue_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM conversation_issue_links t
+      WHERE t.issue_id = p_target_id AND t.conversation_id = cil.conversation_id AND t.user_id = cil.user_id
+    );
+  DELETE FROM conversation_issue_links WHERE issue_id = p_source_id;
+
+  -- Rule links
+  UPDATE legal_clause_links l SET target_id = p_target_id
+  WHERE l.target_type = 'issue' AND l.target_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM legal_clause_links t
+      WHERE t.target_type = 'issue' AND t.target_id = p_target_id AND t.legal_clause_id = l.legal_clause_id
+    );
+  DELETE FROM legal_clause_links WHERE target_type = 'issue' AND target_id = p_source_id;
+
+  UPDATE agreement_item_links l SET target_id = p_target_id
+  WHERE l.target_type = 'issue' AND l.target_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM agreement_item_links t
+      WHERE t.target_type = 'issue' AND t.target_id = p_target_id AND t.agreement_item_id = l.agreement_item_id
+    );
+  DELETE FROM agreement_item_links WHERE target_type = 'issue' AND target_id = p_source_id;
+
+  UPDATE exchange_log_links l SET target_id = p_target_id
+  WHERE l.target_type = 'issue' AND l.target_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM exchange_log_links t
+      WHERE t.target_type = 'issue' AND t.target_id = p_target_id AND t.exchange_log_id = l.exchange_log_id
+    );
+  DELETE FROM exchange_log_links WHERE target_type = 'issue' AND target_id = p_source_id;
+
+  -- Exhibits keep their content hash but are numbered after the target's own
+  SELECT coalesce(max(exhibit_number), 0) INTO v_next_exhibit FROM issue_exhibits WHERE issue_id = p_target_id;
+  UPDATE issue_exhibits e SET issue_id = p_target_id, exhibit_number = v_next_exhibit + renumbered.position
+  FROM (
+    SELECT s.id, row_number() OVER (ORDER BY s.exhibit_number) AS position
+    FROM issue_exhibits s
+    WHERE s.issue_id = p_source_id
+      AND NOT EXISTS (SELECT 1 FROM issue_exhibits t WHERE t.issue_id = p_target_id AND t.message_id = s.message_id)
+  ) renumbered
+  WHERE e.id = renumbered.id;
+  DELETE FROM issue_exhibits WHERE issue_id = p_source_id;
+
+  UPDATE profile_notes SET issue_id = p_target_id WHERE issue_id = p_source_id;
+  UPDATE issue_history SET issue_id = p_target_id WHERE issue_id = p_source_id;
+  UPDATE assistant_messages SET linked_target_id = p_target_id
+  WHERE linked_target_type = 'issue' AND linked_target_id = p_source_id;
+
+  -- Keep the merged issue's description on the survivor
+  IF coalesce(btrim(v_source.description), '') <> '' THEN
+    UPDATE issues
+    SET description = concat_ws(E'\n\n', nullif(btrim(description), ''), format('Merged from "%s": %s', v_source.title, v_source.description)),
+        updated_at = now()
+    WHERE id = p_target_id;
+  END IF;
+
+  -- Earlier merges into the source now point at the target
+  UPDATE issue_redirects SET to_issue_id = p_target_id WHERE to_issue_id = p_source_id;
+  INSERT INTO issue_redirects (from_issue_id, to_issue_id, merged_title, user_id)
+  VALUES (p_source_id, p_target_id, v_source.title, v_source.user_id);
+
+  DELETE FROM issues WHERE id = p_source_id;
+
+  RETURN p_target_id;
+END;
+$$;
@@ -0,0 +1,199 @@
+-- Issue hierarchy and dependencies. An issue can sit under a parent issue
+-- ("Holiday schedule 2026" > "Thanksgiving exchange") and can be blocked by
+-- other issues. Neither touches message_issues or issue_people.
+ALTER TABLE public.issues
+  ADD COLUMN IF NOT EXISTS parent_issue_id uuid REFERENCES public.issues(id) ON DELETE SET NULL,
+  ADD CONSTRAINT issues_parent_not_self CHECK (parent_issue_id IS DISTINCT FROM id);
+
+CREATE INDEX IF NOT EXISTS idx_issues_parent ON public.issues(parent_issue_id);
+
+COMMENT ON COLUMN public.issues.parent_issue_id IS 'Parent issue in the hierarchy; null for top-level issues';
+
+-- Rejects a parent that is the issue itself or one of its descendants
+CREATE OR REPLACE FUNCTION prevent_issue_parent_cycle()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_issue_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_issue_id FROM issues WHERE id = NEW.parent_issue_id
+      UNION
+      SELECT i.id, i.parent_issue_id FROM issues i JOIN ancestors a ON i.id = a.parent_issue_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'An issue cannot be placed under one of its own sub-issues';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER issues_prevent_parent_cycle
+  BEFORE INSERT OR UPDATE OF parent_issue_id ON public.issues
+  FOR EACH ROW EXECUTE FUNCTION prevent_issue_parent_cycle();
+
+-- issue_id cannot progress until blocked_by_issue_id is resolved
+CREATE TABLE public.issue_dependencies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  issue_id uuid NOT NULL REFERENCES public.issues(id) ON DELETE CASCADE,
+  blocked_by_issue_id uuid NOT NULL REFERENCES public.issues(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (issue_id, blocked_by_issue_id),
+  CHECK (issue_id <> blocked_by_issue_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.issue_dependencies ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can manage their own issue dependencies"
+  ON public.issue_dependencies FOR ALL
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_issue_dependencies_issue ON public.issue_dependencies(issue_id);
+CREATE INDEX idx_issue_dependencies_blocked_by ON public.issue_dependencies(blocked_by_issue_id);
+
+COMMENT ON COLUMN public.issue_dependencies.blocked_by_issue_id IS 'Issue that has to be resolved before issue_id can be';
+
+-- Merging issues now also carries over sub-issues, the parent and dependencies
+CREATE OR REPLACE FUNCTION merge_issues(p_source_id uuid, p_target_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_source issues%ROWTYPE;
+  v_next_exhibit integer;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge an issue into itself';
+  END IF;
+
+  SELECT * INTO v_source FROM issues WHERE id = p_source_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % not found', p_source_id;
+  END IF;
+  PERFORM 1 FROM issues WHERE id = p_target_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % not found', p_target_id;
+  END IF;
+
+  INSERT INTO message_issues (message_id, issue_id)
+  SELECT mi.message_id, p_target_id FROM message_issues mi
+  WHERE mi.issue_id = p_source_id
+    AND NOT EXISTS (SELECT 1 FROM message_issues t WHERE t.issue_id = p_target_id AND t.message_id = mi.message_id);
+  DELETE FROM message_issues WHERE issue_id = p_source_id;
+
+  INSERT INTO event_issues (event_id, issue_id)
+  SELECT ei.event_id, p_target_id FROM event_issues ei
+  WHERE ei.issue_id = p_source_id
+    AND NOT EXISTS (SELECT 1 FROM event_issues t WHERE t.issue_id = p_target_id AND t.event_id = ei.event_id);
+  DELETE FROM event_issues WHERE issue_id = p_source_id;
+
+  INSERT INTO issue_people (issue_id, person_id, involvement_type, contribution_type, contribution_description, contribution_valence, user_id)
+  SELECT p_target_id, ip.person_id, ip.involvement_type, ip.contribution_type, ip.contribution_description, ip.contribution_valence, ip.user_id
+  FROM issue_people ip
+  WHERE ip.issue_id = p_source_id
+    AND NOT EXISTS (SELECT 1 FROM issue_people t WHERE t.issue_id = p_target_id AND t.person_id = ip.person_id);
+  DELETE FROM issue_people WHERE issue_id = p_source_id;
+
+  INSERT INTO conversation_issue_links (conversation_id, issue_id, user_id, link_reason, created_at)
+  SELECT cil.conversation_id, p_target_id, cil.user_id, cil.link_reason, cil.created_at
+  FROM conversation_issue_links cil
+  WHERE cil.issue_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM conversation_issue_links t
+      WHERE t.issue_id = p_target_id AND t.conversation_id = cil.conversation_id AND t.user_id = cil.user_id
+    );
+  DELETE FROM conversation_issue_links WHERE issue_id = p_source_id;
+
+  -- Rule links
+  UPDATE legal_clause_links l SET target_id = p_target_id
+  WHERE l.target_type = 'issue' AND l.target_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM legal_clause_links t
+      WHERE t.target_type = 'issue' AND t.target_id = p_target_id AND t.legal_clause_id = l.legal_clause_id
+    );
+  DELETE FROM legal_clause_links WHERE target_type = 'issue' AND target_id = p_source_id;
+
+  UPDATE agreement_item_links l SET target_id = p_target_id
+  WHERE l.target_type = 'issue' AND l.target_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM agreement_item_links t
+      WHERE t.target_type = 'issue' AND t.target_id = p_target_id AND t.agreement_item_id = l.agreement_item_id
+    );
+  DELETE FROM agreement_item_links WHERE target_type = 'issue' AND target_id = p_source_id;
+
+  UPDATE exchange_log_links l SET target_id = p_target_id
+  WHERE l.target_type = 'issue' AND l.target_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM exchange_log_links t
+      WHERE t.target_type = 'issue' AND t.target_id = p_target_id AND t.exchange_log_id = l.exchange_log_id
+    );
+  DELETE FROM exchange_log_links WHERE target_type = 'issue' AND target_id = p_source_id;
+
+  -- Exhibits keep their content hash but are numbered after the target's own
+  SELECT coalesce(max(exhibit_number), 0) INTO v_next_exhibit FROM issue_exhibits WHERE issue_id = p_target_id;
+  UPDATE issue_exhibits e SET issue_id = p_target_id, exhibit_number = v_next_exhibit + renumbered.position
+  FROM (
+    SELECT s.id, row_number() OVER (ORDER BY s.exhibit_number) AS position
+    FROM issue_exhibits s
+    WHERE s.issue_id = p_source_id
+      AND NOT EXISTS (SELECT 1 FROM issue_exhibits t WHERE t.issue_id = p_target_id AND t.message_id = s.message_id)
+  ) renumbered
+  WHERE e.id = renumbered.id;
+  DELETE FROM issue_exhibits WHERE issue_id = p_source_id;
+
+  UPDATE profile_notes SET issue_id = p_target_id WHERE issue_id = p_source_id;
+  UPDATE issue_history SET issue_id = p_target_id WHERE issue_id = p_source_id;
+
+  -- Hierarchy: the source's children move under the target. A child that is
+  -- the target or one of its ancestors takes the source's place instead, so
+  -- no cycle is formed.
+  UPDATE issues SET parent_issue_id = CASE
+    WHEN id IN (
+      WITH RECURSIVE ancestors AS (
+        SELECT i.id, i.parent_issue_id FROM issues i WHERE i.id = p_target_id
+        UNION
+        SELECT i.id, i.parent_issue_id FROM issues i JOIN ancestors a ON i.id = a.parent_issue_id
+      )
+      SELECT ancestors.id FROM ancestors
+    ) THEN v_source.parent_issue_id
+    ELSE p_target_id
+  END
+  WHERE parent_issue_id = p_source_id;
+
+  -- Dependencies, dropping any that would make the target block itself
+  INSERT INTO issue_dependencies (issue_id, blocked_by_issue_id, user_id)
+  SELECT p_target_id, d.blocked_by_issue_id, d.user_id FROM issue_dependencies d
+  WHERE d.issue_id = p_source_id AND d.blocked_by_issue_id <> p_target_id
+  ON CONFLICT (issue_id, blocked_by_issue_id) DO NOTHING;
+  INSERT INTO issue_dependencies (issue_id, blocked_by_issue_id, user_id)
+  SELECT d.issue_id, p_target_id, d.user_id FROM issue_dependencies d
+  WHERE d.blocked_by_issue_id = p_source_id AND d.issue_id <> p_target_id
+  ON CONFLICT (issue_id, blocked_by_issue_id) DO NOTHING;
+  DELETE FROM issue_dependencies WHERE issue_id = p_source_id OR blocked_by_issue_id = p_source_id;
+  UPDATE assistant_messages SET linked_target_id = p_target_id
+  WHERE linked_target_type = 'issue' AND linked_target_id = p_source_id;
+
+  -- Keep the merged issue's description on the survivor
+  IF coalesce(btrim(v_source.description), '') <> '' THEN
+    UPDATE issues
+    SET description = concat_ws(E'\n\n', nullif(btrim(description), ''), format('Merged from "%s": %s', v_source.title, v_source.description)),
+        updated_at = now()
+    WHERE id = p_target_id;
+  END IF;
+
+  -- Earlier merges into the source now point at the target
+  UPDATE issue_redirects SET to_issue_id = p_target_id WHERE to_issue_id = p_source_id;
+  INSERT INTO issue_redirects (from_issue_id, to_issue_id, merged_title, user_id)
+  VALUES (p_source_id, p_target_id, v_source.title, v_source.user_id);
+
+  DELETE FROM issues WHERE id = p_source_id;
+
+  RETURN p_target_id;
+END;
+$$;
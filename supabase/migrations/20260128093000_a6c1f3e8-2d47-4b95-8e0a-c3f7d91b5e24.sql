@@ -0,0 +1,137 @@
+-- Person aliases: other names, nicknames, email addresses, phone numbers and
+-- OFW display names a person appears under. Imports consult them so the same
+-- person is recognised however a source writes them.
+CREATE TABLE public.person_aliases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid DEFAULT auth.uid(),
+  person_id uuid NOT NULL REFERENCES public.people(id) ON DELETE CASCADE,
+  alias_type text NOT NULL CHECK (alias_type IN ('name', 'nickname', 'email', 'phone', 'ofw_name')),
+  alias text NOT NULL CHECK (btrim(alias) <> ''),
+  normalized_alias text GENERATED ALWAYS AS (
+    CASE WHEN alias_type = 'phone' THEN regexp_replace(alias, '\D', '', 'g')
+         ELSE lower(regexp_replace(btrim(alias), '\s+', ' ', 'g'))
+    END
+  ) STORED,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (person_id, alias_type, normalized_alias)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.person_aliases ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can manage their own person aliases"
+  ON public.person_aliases FOR ALL
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_person_aliases_lookup ON public.person_aliases(user_id, alias_type, normalized_alias);
+
+COMMENT ON COLUMN public.person_aliases.alias_type IS 'name = another spelling of the full name, ofw_name = display name in OurFamilyWizard reports';
+COMMENT ON COLUMN public.person_aliases.normalized_alias IS 'Lowercased with whitespace collapsed; digits only for phone numbers';
+
+-- Moves everything that refers to p_source_id onto p_target_id, keeps the
+-- source's name, email and phone as aliases of the target, then deletes the
+-- source. Runs with the caller's rights, so RLS limits it to their own people.
+CREATE OR REPLACE FUNCTION merge_people(p_source_id uuid, p_target_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_source people%ROWTYPE;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge a person into themselves';
+  END IF;
+
+  SELECT * INTO v_source FROM people WHERE id = p_source_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Person % not found', p_source_id;
+  END IF;
+  PERFORM 1 FROM people WHERE id = p_target_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Person % not found', p_target_id;
+  END IF;
+
+  UPDATE messages SET sender_id = p_target_id WHERE sender_id = p_source_id;
+  UPDATE messages SET receiver_id = p_target_id WHERE receiver_id = p_source_id;
+
+  INSERT INTO conversation_participants (conversation_id, person_id)
+  SELECT cp.conversation_id, p_target_id FROM conversation_participants cp
+  WHERE cp.person_id = p_source_id
+    AND NOT EXISTS (SELECT 1 FROM conversation_participants t WHERE t.person_id = p_target_id AND t.conversation_id = cp.conversation_id);
+  DELETE FROM conversation_participants WHERE person_id = p_source_id;
+
+  -- Relationships between the two people would become self references and
+  -- are dropped, as are ones the target already has
+  DELETE FROM person_relationships
+  WHERE (person_id = p_source_id AND related_person_id = p_target_id)
+     OR (person_id = p_target_id AND related_person_id = p_source_id);
+  UPDATE person_relationships r SET person_id = p_target_id
+  WHERE r.person_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM person_relationships t
+      WHERE t.person_id = p_target_id AND t.related_person_id = r.related_person_id AND t.relationship_type = r.relationship_type
+    );
+  UPDATE person_relationships r SET related_person_id = p_target_id
+  WHERE r.related_person_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM person_relationships t
+      WHERE t.related_person_id = p_target_id AND t.person_id = r.person_id AND t.relationship_type = r.relationship_type
+    );
+  DELETE FROM person_relationships WHERE person_id = p_source_id OR related_person_id = p_source_id;
+
+  UPDATE issue_people ip SET person_id = p_target_id
+  WHERE ip.person_id = p_source_id
+    AND NOT EXISTS (SELECT 1 FROM issue_people t WHERE t.person_id = p_target_id AND t.issue_id = ip.issue_id);
+  DELETE FROM issue_people WHERE person_id = p_source_id;
+
+  INSERT INTO agreement_parties (agreement_id, person_id, user_id)
+  SELECT ap.agreement_id, p_target_id, ap.user_id FROM agreement_parties ap
+  WHERE ap.person_id = p_source_id
+    AND NOT EXISTS (SELECT 1 FROM agreement_parties t WHERE t.person_id = p_target_id AND t.agreement_id = ap.agreement_id);
+  DELETE FROM agreement_parties WHERE person_id = p_source_id;
+
+  UPDATE profile_notes SET person_id = p_target_id WHERE person_id = p_source_id;
+
+  -- A flag review the target already has for the same flag takes precedence
+  UPDATE message_flag_reviews r SET attributed_to_person_id = p_target_id
+  WHERE r.attributed_to_person_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM message_flag_reviews t
+      WHERE t.user_id = r.user_id AND t.message_id = r.message_id AND t.flag_type = r.flag_type AND t.attributed_to_person_id = p_target_id
+    );
+  DELETE FROM message_flag_reviews WHERE attributed_to_person_id = p_source_id;
+  UPDATE message_flag_reviews SET corrected_person_id = p_target_id WHERE corrected_person_id = p_source_id;
+
+  UPDATE reimbursements SET paid_by_person_id = p_target_id WHERE paid_by_person_id = p_source_id;
+  UPDATE reimbursements SET requested_from_person_id = p_target_id WHERE requested_from_person_id = p_source_id;
+  UPDATE parenting_schedules SET custodian_person_id = p_target_id WHERE custodian_person_id = p_source_id;
+  UPDATE exchange_logs SET responsible_person_id = p_target_id WHERE responsible_person_id = p_source_id;
+  UPDATE exchange_logs SET from_person_id = p_target_id WHERE from_person_id = p_source_id;
+  UPDATE exchange_logs SET to_person_id = p_target_id WHERE to_person_id = p_source_id;
+  UPDATE obligations SET owner_person_id = p_target_id WHERE owner_person_id = p_source_id;
+  UPDATE case_embeddings SET person_id = p_target_id WHERE person_id = p_source_id;
+
+  -- The duplicate's aliases, name, email and phone all identify the survivor from now on
+  INSERT INTO person_aliases (person_id, alias_type, alias, user_id)
+  SELECT p_target_id, a.alias_type, a.alias, a.user_id FROM person_aliases a WHERE a.person_id = p_source_id
+  UNION ALL
+  SELECT p_target_id, 'name', v_source.full_name, v_source.user_id WHERE coalesce(btrim(v_source.full_name), '') <> ''
+  UNION ALL
+  SELECT p_target_id, 'email', v_source.email, v_source.user_id WHERE coalesce(btrim(v_source.email), '') <> ''
+  UNION ALL
+  SELECT p_target_id, 'phone', v_source.phone, v_source.user_id WHERE coalesce(btrim(v_source.phone), '') <> ''
+  ON CONFLICT (person_id, alias_type, normalized_alias) DO NOTHING;
+
+  -- Fill contact details the survivor is missing
+  UPDATE people
+  SET email = coalesce(nullif(btrim(email), ''), v_source.email),
+      phone = coalesce(nullif(btrim(phone), ''), v_source.phone)
+  WHERE id = p_target_id;
+
+  DELETE FROM people WHERE id = p_source_id;
+
+  RETURN p_target_id;
+END;
+$$;
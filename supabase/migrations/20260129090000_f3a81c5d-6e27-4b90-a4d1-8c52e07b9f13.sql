@@ -0,0 +1,244 @@
+-- Case-file search without stored tsvector columns. The generated search_vector
+-- columns came back in every select('*'); expression indexes give the same
+-- lookups without widening the rows. The topic filter now maps agreement items
+-- and legal clauses onto topic category slugs instead of comparing them with
+-- their free-text topics.
+
+DROP INDEX IF EXISTS idx_messages_search;
+DROP INDEX IF EXISTS idx_issues_search;
+DROP INDEX IF EXISTS idx_agreement_items_search;
+DROP INDEX IF EXISTS idx_legal_clauses_search;
+DROP INDEX IF EXISTS idx_profile_notes_search;
+DROP INDEX IF EXISTS idx_conversation_analyses_search;
+
+ALTER TABLE messages DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE issues DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE agreement_items DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE legal_clauses DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE profile_notes DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE conversation_analyses DROP COLUMN IF EXISTS search_vector;
+
+-- search_case_file repeats these expressions verbatim so the planner uses the indexes
+CREATE INDEX idx_messages_search ON messages USING GIN (
+  to_tsvector('english', coalesce(raw_text, ''))
+);
+CREATE INDEX idx_issues_search ON issues USING GIN (
+  (setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+   setweight(to_tsvector('english', coalesce(description, '')), 'B'))
+);
+CREATE INDEX idx_agreement_items_search ON agreement_items USING GIN (
+  (setweight(to_tsvector('english', coalesce(topic, '')), 'A') ||
+   setweight(to_tsvector('english', coalesce(summary, '')), 'B') ||
+   setweight(to_tsvector('english', coalesce(full_text, '')), 'C'))
+);
+CREATE INDEX idx_legal_clauses_search ON legal_clauses USING GIN (
+  (setweight(to_tsvector('english', coalesce(clause_ref, '') || ' ' || coalesce(topic, '')), 'A') ||
+   setweight(to_tsvector('english', coalesce(summary, '')), 'B') ||
+   setweight(to_tsvector('english', coalesce(full_text, '')), 'C'))
+);
+CREATE INDEX idx_profile_notes_search ON profile_notes USING GIN (
+  to_tsvector('english', coalesce(content, ''))
+);
+CREATE INDEX idx_conversation_analyses_search ON conversation_analyses USING GIN (
+  to_tsvector('english', coalesce(summary, ''))
+);
+
+-- Topic category of a rule. Mirrors getAgreementCategory (src/utils/agreementCategories.ts):
+-- document-extracted items carry the slug in their ref ("parenting_time-3"),
+-- everything else falls back to keywords in the topic and summary.
+CREATE OR REPLACE FUNCTION rule_topic_category(p_ref text, p_topic text, p_summary text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (SELECT tc.slug FROM topic_categories tc
+     WHERE p_ref LIKE tc.slug || '-%'
+     ORDER BY length(tc.slug) DESC
+     LIMIT 1),
+    (SELECT CASE
+       WHEN t ~ 'child support|expense|reimburse|payment|cost|financial|fees?\y|insurance premium' THEN 'financial'
+       WHEN t ~ 'holiday|christmas|thanksgiving|easter|spring break|winter break|summer vacation' THEN 'holiday_schedule'
+       WHEN t ~ 'exchange|pick[- ]?up|drop[- ]?off|transfer|handover' THEN 'exchange'
+       WHEN t ~ 'parenting time|custody|visitation|weekend|rotation|schedule' THEN 'parenting_time'
+     END
+     FROM (SELECT lower(coalesce(p_topic, '') || ' ' || coalesce(p_summary, '')) AS t) s)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION search_case_file(
+  p_query text,
+  p_person_id uuid DEFAULT NULL,
+  p_start_date timestamptz DEFAULT NULL,
+  p_end_date timestamptz DEFAULT NULL,
+  p_source_type text DEFAULT NULL,
+  p_topic_slug text DEFAULT NULL,
+  p_result_types text[] DEFAULT NULL,
+  p_limit int DEFAULT 50
+)
+RETURNS TABLE(
+  result_type text,
+  result_id uuid,
+  title text,
+  snippet text,
+  occurred_at timestamptz,
+  conversation_id uuid,
+  person_id uuid,
+  parent_id uuid,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', p_query) AS query
+  ),
+  topic_conversations AS (
+    SELECT ca.conversation_id
+    FROM conversation_analyses ca
+    WHERE p_topic_slug IS NOT NULL AND ca.topic_category_slugs ? p_topic_slug
+  ),
+  results AS (
+    -- Messages
+    SELECT
+      'message'::text AS result_type,
+      m.id AS result_id,
+      c.title AS title,
+      ts_headline('english', coalesce(m.raw_text, ''), q.query,
+        'StartSel=[[, StopSel=]], MaxFragments=2, MaxWords=25, MinWords=8') AS snippet,
+      m.sent_at AS occurred_at,
+      m.conversation_id,
+      m.sender_id AS person_id,
+      NULL::uuid AS parent_id,
+      ts_rank(to_tsvector('english', coalesce(m.raw_text, '')), q.query) AS rank
+    FROM messages m
+    CROSS JOIN q
+    LEFT JOIN conversations c ON c.id = m.conversation_id
+    WHERE to_tsvector('english', coalesce(m.raw_text, '')) @@ q.query
+      AND (p_person_id IS NULL OR m.sender_id = p_person_id OR m.receiver_id = p_person_id)
+      AND (p_start_date IS NULL OR m.sent_at >= p_start_date)
+      AND (p_end_date IS NULL OR m.sent_at <= p_end_date)
+      AND (p_source_type IS NULL OR c.source_type = p_source_type)
+      AND (p_topic_slug IS NULL OR m.conversation_id IN (SELECT conversation_id FROM topic_conversations))
+
+    UNION ALL
+
+    -- Analysis summaries
+    SELECT
+      'analysis', ca.id, c.title,
+      ts_headline('english', ca.summary, q.query,
+        'StartSel=[[, StopSel=]], MaxFragments=2, MaxWords=25, MinWords=8'),
+      ca.created_at, ca.conversation_id, NULL::uuid, NULL::uuid,
+      ts_rank(to_tsvector('english', coalesce(ca.summary, '')), q.query)
+    FROM conversation_analyses ca
+    CROSS JOIN q
+    LEFT JOIN conversations c ON c.id = ca.conversation_id
+    WHERE to_tsvector('english', coalesce(ca.summary, '')) @@ q.query
+      AND (p_person_id IS NULL OR EXISTS (
+        SELECT 1 FROM conversation_participants cp
+        WHERE cp.conversation_id = ca.conversation_id AND cp.person_id = p_person_id
+      ))
+      AND (p_start_date IS NULL OR c.ended_at >= p_start_date)
+      AND (p_end_date IS NULL OR c.started_at <= p_end_date)
+      AND (p_source_type IS NULL OR c.source_type = p_source_type)
+      AND (p_topic_slug IS NULL OR ca.topic_category_slugs ? p_topic_slug)
+
+    UNION ALL
+
+    -- Issues
+    SELECT
+      'issue', i.id, i.title,
+      ts_headline('english', coalesce(i.title, '') || ' — ' || coalesce(i.description, ''), q.query,
+        'StartSel=[[, StopSel=]], MaxFragments=2, MaxWords=25, MinWords=8'),
+      i.updated_at, NULL::uuid, NULL::uuid, NULL::uuid,
+      ts_rank(
+        setweight(to_tsvector('english', coalesce(i.title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(i.description, '')), 'B'),
+        q.query)
+    FROM issues i
+    CROSS JOIN q
+    WHERE (setweight(to_tsvector('english', coalesce(i.title, '')), 'A') ||
+           setweight(to_tsvector('english', coalesce(i.description, '')), 'B')) @@ q.query
+      AND p_source_type IS NULL
+      AND (p_person_id IS NULL OR EXISTS (
+        SELECT 1 FROM issue_people ip WHERE ip.issue_id = i.id AND ip.person_id = p_person_id
+      ))
+      AND (p_start_date IS NULL OR i.updated_at >= p_start_date)
+      AND (p_end_date IS NULL OR i.updated_at <= p_end_date)
+      AND (p_topic_slug IS NULL OR EXISTS (
+        SELECT 1 FROM conversation_issue_links cil
+        WHERE cil.issue_id = i.id AND cil.conversation_id IN (SELECT conversation_id FROM topic_conversations)
+      ))
+
+    UNION ALL
+
+    -- Profile notes
+    SELECT
+      'profile_note', pn.id, coalesce(p.full_name, 'Profile note'),
+      ts_headline('english', coalesce(pn.content, ''), q.query,
+        'StartSel=[[, StopSel=]], MaxFragments=2, MaxWords=25, MinWords=8'),
+      pn.created_at, pn.source_conversation_id, pn.person_id, NULL::uuid,
+      ts_rank(to_tsvector('english', coalesce(pn.content, '')), q.query)
+    FROM profile_notes pn
+    CROSS JOIN q
+    LEFT JOIN people p ON p.id = pn.person_id
+    WHERE to_tsvector('english', coalesce(pn.content, '')) @@ q.query
+      AND p_source_type IS NULL
+      AND (p_person_id IS NULL OR pn.person_id = p_person_id)
+      AND (p_start_date IS NULL OR pn.created_at >= p_start_date)
+      AND (p_end_date IS NULL OR pn.created_at <= p_end_date)
+      AND (p_topic_slug IS NULL OR pn.source_conversation_id IN (SELECT conversation_id FROM topic_conversations))
+
+    UNION ALL
+
+    -- Agreement items
+    SELECT
+      'agreement_item', ai.id, coalesce(ai.item_ref || ' — ', '') || ai.topic,
+      ts_headline('english', ai.full_text, q.query,
+        'StartSel=[[, StopSel=]], MaxFragments=2, MaxWords=25, MinWords=8'),
+      ai.created_at, ai.source_conversation_id, NULL::uuid, ai.agreement_id,
+      ts_rank(
+        setweight(to_tsvector('english', coalesce(ai.topic, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(ai.summary, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(ai.full_text, '')), 'C'),
+        q.query)
+    FROM agreement_items ai
+    CROSS JOIN q
+    WHERE (setweight(to_tsvector('english', coalesce(ai.topic, '')), 'A') ||
+           setweight(to_tsvector('english', coalesce(ai.summary, '')), 'B') ||
+           setweight(to_tsvector('english', coalesce(ai.full_text, '')), 'C')) @@ q.query
+      AND p_person_id IS NULL
+      AND p_source_type IS NULL
+      AND (p_topic_slug IS NULL OR rule_topic_category(ai.item_ref, ai.topic, ai.summary) = p_topic_slug)
+
+    UNION ALL
+
+    -- Legal clauses
+    SELECT
+      'legal_clause', lc.id, lc.clause_ref || ' — ' || lc.topic,
+      ts_headline('english', lc.full_text, q.query,
+        'StartSel=[[, StopSel=]], MaxFragments=2, MaxWords=25, MinWords=8'),
+      lc.created_at, NULL::uuid, NULL::uuid, lc.legal_document_id,
+      ts_rank(
+        setweight(to_tsvector('english', coalesce(lc.clause_ref, '') || ' ' || coalesce(lc.topic, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(lc.summary, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(lc.full_text, '')), 'C'),
+        q.query)
+    FROM legal_clauses lc
+    CROSS JOIN q
+    WHERE (setweight(to_tsvector('english', coalesce(lc.clause_ref, '') || ' ' || coalesce(lc.topic, '')), 'A') ||
+           setweight(to_tsvector('english', coalesce(lc.summary, '')), 'B') ||
+           setweight(to_tsvector('english', coalesce(lc.full_text, '')), 'C')) @@ q.query
+      AND p_person_id IS NULL
+      AND p_source_type IS NULL
+      -- Clause refs are section numbers, so only the keyword fallback applies
+      AND (p_topic_slug IS NULL OR rule_topic_category(NULL, lc.topic, lc.summary) = p_topic_slug)
+  )
+  SELECT r.*
+  FROM results r
+  WHERE p_result_types IS NULL OR r.result_type = ANY(p_result_types)
+  ORDER BY r.rank DESC, r.occurred_at DESC NULLS LAST
+  LIMIT p_limit;
+$$;
@@ -0,0 +1,12 @@
+-- Re-uploading a receipt to the same path overwrites it, which needs UPDATE
+CREATE POLICY "Users can update their own receipts"
+ON storage.objects
+FOR UPDATE
+USING (
+  bucket_id = 'receipts'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+)
+WITH CHECK (
+  bucket_id = 'receipts'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
@@ -0,0 +1,21 @@
+-- Commitment obligations are keyed by source message, owner and due date
+-- instead of the model's wording of the title. Re-key existing rows so the next
+-- re-analysis recognises them; where duplicates already exist only the oldest
+-- takes the new key.
+WITH keyed AS (
+  SELECT
+    id,
+    source_message_id::text || '|' || coalesce(owner_person_id::text, '') || '|' || coalesce(due_date::text, '') AS new_key,
+    row_number() OVER (
+      PARTITION BY user_id, source_conversation_id, source_message_id, owner_person_id, due_date
+      ORDER BY created_at
+    ) AS rn
+  FROM public.obligations
+  WHERE source_type = 'commitment' AND source_message_id IS NOT NULL
+)
+UPDATE public.obligations o
+SET claim_key = k.new_key
+FROM keyed k
+WHERE o.id = k.id AND k.rn = 1;
+
+COMMENT ON COLUMN public.obligations.claim_key IS 'Source message, owner and due date of a commitment (normalized text when there is no source message); keeps re-analysis of a conversation from duplicating obligations';
@@ -0,0 +1,37 @@
+-- Keep the embeddings index from citing deleted records. case_embeddings.source_id
+-- points at several tables, so a trigger on each removes the row a deleted
+-- record was indexed under.
+CREATE OR REPLACE FUNCTION delete_case_embedding_for_source()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM case_embeddings
+  WHERE source_type = TG_ARGV[0] AND source_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER messages_delete_case_embedding
+  AFTER DELETE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION delete_case_embedding_for_source('message');
+
+CREATE TRIGGER conversation_analyses_delete_case_embedding
+  AFTER DELETE ON public.conversation_analyses
+  FOR EACH ROW EXECUTE FUNCTION delete_case_embedding_for_source('analysis');
+
+CREATE TRIGGER agreement_items_delete_case_embedding
+  AFTER DELETE ON public.agreement_items
+  FOR EACH ROW EXECUTE FUNCTION delete_case_embedding_for_source('agreement_item');
+
+CREATE TRIGGER profile_notes_delete_case_embedding
+  AFTER DELETE ON public.profile_notes
+  FOR EACH ROW EXECUTE FUNCTION delete_case_embedding_for_source('profile_note');
+
+-- Remove rows already orphaned before the triggers existed
+DELETE FROM public.case_embeddings ce
+WHERE (ce.source_type = 'message' AND NOT EXISTS (SELECT 1 FROM public.messages m WHERE m.id = ce.source_id))
+   OR (ce.source_type = 'analysis' AND NOT EXISTS (SELECT 1 FROM public.conversation_analyses ca WHERE ca.id = ce.source_id))
+   OR (ce.source_type = 'agreement_item' AND NOT EXISTS (SELECT 1 FROM public.agreement_items ai WHERE ai.id = ce.source_id))
+   OR (ce.source_type = 'profile_note' AND NOT EXISTS (SELECT 1 FROM public.profile_notes pn WHERE pn.id = ce.source_id));
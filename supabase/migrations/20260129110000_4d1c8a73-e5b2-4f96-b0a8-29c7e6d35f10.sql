@@ -0,0 +1,44 @@
+-- Vectors from different embedding models (or providers) share the column but
+-- are not comparable. Record which model produced each row so the client
+-- re-embeds stale rows and queries only match rows from the query's model.
+ALTER TABLE public.case_embeddings ADD COLUMN embedding_model text;
+
+COMMENT ON COLUMN public.case_embeddings.embedding_model IS 'provider/model that produced the embedding; rows from another model are re-embedded';
+
+DROP FUNCTION IF EXISTS match_case_embeddings(extensions.vector, int, text[]);
+
+-- Nearest passages to a query embedding from the same model. Runs with the
+-- caller's privileges so RLS limits matches to the current user's case file.
+CREATE OR REPLACE FUNCTION match_case_embeddings(
+  p_query_embedding extensions.vector(1536),
+  p_embedding_model text,
+  p_match_count int DEFAULT 30,
+  p_source_types text[] DEFAULT NULL
+)
+RETURNS TABLE(
+  source_type text,
+  source_id uuid,
+  conversation_id uuid,
+  person_id uuid,
+  content text,
+  occurred_at timestamptz,
+  similarity double precision
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    ce.source_type,
+    ce.source_id,
+    ce.conversation_id,
+    ce.person_id,
+    ce.content,
+    ce.occurred_at,
+    1 - (ce.embedding <=> p_query_embedding) AS similarity
+  FROM case_embeddings ce
+  WHERE ce.embedding_model = p_embedding_model
+    AND (p_source_types IS NULL OR ce.source_type = ANY(p_source_types))
+  ORDER BY ce.embedding <=> p_query_embedding
+  LIMIT p_match_count;
+$$;
@@ -0,0 +1,54 @@
+-- Analysis job ownership.
+-- worker_token: set each time a worker claims a run. The worker only writes
+--   while the token still matches, so a run that was cancelled, or failed as
+--   stale and re-queued, is never overwritten by the worker that lost it.
+-- applying_until: short lease while a client writes a completed result into
+--   the case file. applied_at is only set once that has succeeded, so a failed
+--   apply is retried instead of lost.
+ALTER TABLE public.analysis_runs
+  ADD COLUMN IF NOT EXISTS worker_token uuid,
+  ADD COLUMN IF NOT EXISTS applying_until timestamptz;
+
+COMMENT ON COLUMN public.analysis_runs.worker_token IS 'Identifies the worker currently holding a running run; reset on every claim';
+COMMENT ON COLUMN public.analysis_runs.applying_until IS 'Lease held by the client applying the result; expired leases can be taken over';
+COMMENT ON COLUMN public.analysis_runs.applied_at IS 'When a client finished writing the result into the case file; null while it is still to be applied';
+
+-- The worker runs with the service role, so the user is passed in. Signed-in
+-- callers stay limited to their own runs by RLS.
+DROP FUNCTION IF EXISTS claim_next_analysis_run();
+
+CREATE OR REPLACE FUNCTION claim_next_analysis_run(p_user_id uuid DEFAULT NULL)
+RETURNS SETOF analysis_runs
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE analysis_runs
+  SET status = 'running', started_at = now(), updated_at = now(), error_message = NULL, error_stage = NULL,
+      worker_token = gen_random_uuid()
+  WHERE id = (
+    SELECT id FROM analysis_runs
+    WHERE user_id = coalesce(p_user_id, auth.uid()) AND status = 'pending'
+    ORDER BY queued_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+-- Takes the apply lease on a completed, unapplied run. Only one client wins.
+CREATE OR REPLACE FUNCTION claim_analysis_run_apply(p_run_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SET search_path = public
+AS $$
+  WITH claimed AS (
+    UPDATE analysis_runs
+    SET applying_until = now() + interval '10 minutes'
+    WHERE id = p_run_id
+      AND status = 'completed'
+      AND applied_at IS NULL
+      AND (applying_until IS NULL OR applying_until < now())
+    RETURNING id
+  )
+  SELECT EXISTS (SELECT 1 FROM claimed);
+$$;
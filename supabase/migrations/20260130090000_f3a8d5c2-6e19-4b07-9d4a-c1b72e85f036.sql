@@ -0,0 +1,10 @@
+-- How much of an analysis' quoted evidence was found in the stored messages,
+-- so a reader can see at a glance how far the summary can be trusted
+ALTER TABLE public.conversation_analyses
+  ADD COLUMN IF NOT EXISTS faithfulness jsonb;
+
+ALTER TABLE public.conversation_analysis_versions
+  ADD COLUMN IF NOT EXISTS faithfulness jsonb;
+
+COMMENT ON COLUMN public.conversation_analyses.faithfulness IS 'Evidence check of the current analysis ({score, quotesChecked, quotesVerified, rejectedMessageIds}); null when not checked';
+COMMENT ON COLUMN public.conversation_analysis_versions.faithfulness IS 'Evidence check of this version ({score, quotesChecked, quotesVerified, rejectedMessageIds}); null when not checked';
@@ -0,0 +1,28 @@
+-- Near-duplicate issues found when the pipeline creates an issue. Titles
+-- that merely look alike are not merged automatically; the new issue is
+-- created and the likely duplicate recorded here for the user to merge or
+-- dismiss.
+CREATE TABLE public.issue_duplicate_suggestions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  issue_id uuid NOT NULL REFERENCES public.issues(id) ON DELETE CASCADE,
+  suggested_issue_id uuid NOT NULL REFERENCES public.issues(id) ON DELETE CASCADE,
+  similarity real NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dismissed')),
+  user_id uuid DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (issue_id, suggested_issue_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.issue_duplicate_suggestions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can manage their own issue duplicate suggestions"
+  ON public.issue_duplicate_suggestions FOR ALL
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_issue_duplicate_suggestions_suggested ON public.issue_duplicate_suggestions(suggested_issue_id);
+
+COMMENT ON COLUMN public.issue_duplicate_suggestions.issue_id IS 'The newly created issue that may duplicate an existing one';
+COMMENT ON COLUMN public.issue_duplicate_suggestions.suggested_issue_id IS 'The existing issue it resembles; confirming merges issue_id into it';
+COMMENT ON COLUMN public.issue_duplicate_suggestions.status IS 'pending = awaiting the user, dismissed = user said they are different issues. Confirmed suggestions disappear with the merged issue';
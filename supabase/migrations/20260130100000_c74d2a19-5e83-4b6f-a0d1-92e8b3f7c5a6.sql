@@ -0,0 +1,285 @@
+-- Issue changes and their history rows are written in one transaction, so a
+-- change can no longer be saved without the history entry that explains it.
+
+-- {field: {from, to}} for the tracked fields that differ between two issue rows
+CREATE OR REPLACE FUNCTION issue_changes(p_old jsonb, p_new jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(jsonb_object_agg(f.field, jsonb_build_object('from', p_old->>f.field, 'to', p_new->>f.field)), '{}'::jsonb)
+  FROM unnest(ARRAY['title', 'description', 'status', 'priority']) AS f(field)
+  WHERE (p_old->>f.field) IS DISTINCT FROM (p_new->>f.field);
+$$;
+
+-- Records one history row; resolution details are only stored when the
+-- change resolves the issue. The table's check constraint rejects a
+-- resolution without a note.
+CREATE OR REPLACE FUNCTION record_issue_history(
+  p_issue_id uuid,
+  p_changes jsonb,
+  p_changed_by text,
+  p_conversation_id uuid,
+  p_resolution_note text,
+  p_resolving_agreement_item_id uuid,
+  p_resolving_message_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_resolves boolean := p_changes->'status'->>'to' = 'resolved';
+BEGIN
+  INSERT INTO issue_history (
+    issue_id, changed_by, changes, conversation_id,
+    resolution_note, resolving_agreement_item_id, resolving_message_id
+  )
+  VALUES (
+    p_issue_id, p_changed_by, p_changes, p_conversation_id,
+    CASE WHEN v_resolves THEN nullif(btrim(p_resolution_note), '') END,
+    CASE WHEN v_resolves THEN p_resolving_agreement_item_id END,
+    CASE WHEN v_resolves THEN p_resolving_message_id END
+  );
+END;
+$$;
+
+-- Creates an issue from {title, description, status, priority} and its
+-- creation history entry. Fields left out keep the column defaults. Raises
+-- unique_violation (23505) when an issue with the same title already exists.
+CREATE OR REPLACE FUNCTION create_issue(
+  p_fields jsonb,
+  p_changed_by text,
+  p_conversation_id uuid DEFAULT NULL,
+  p_resolution_note text DEFAULT NULL,
+  p_resolving_agreement_item_id uuid DEFAULT NULL,
+  p_resolving_message_id uuid DEFAULT NULL
+)
+RETURNS issues
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_issue issues%ROWTYPE;
+BEGIN
+  INSERT INTO issues (title, description)
+  VALUES (p_fields->>'title', p_fields->>'description')
+  RETURNING * INTO v_issue;
+
+  -- status and priority are only overridden when given
+  v_issue := jsonb_populate_record(v_issue, jsonb_strip_nulls(jsonb_build_object(
+    'status', p_fields->'status',
+    'priority', p_fields->'priority'
+  )));
+  UPDATE issues SET status = v_issue.status, priority = v_issue.priority
+  WHERE id = v_issue.id
+  RETURNING * INTO v_issue;
+
+  PERFORM record_issue_history(
+    v_issue.id,
+    issue_changes('{}'::jsonb, jsonb_strip_nulls(to_jsonb(v_issue))),
+    p_changed_by, p_conversation_id,
+    p_resolution_note, p_resolving_agreement_item_id, p_resolving_message_id
+  );
+
+  RETURN v_issue;
+END;
+$$;
+
+-- Applies {title, description, status, priority} updates to an issue and
+-- records what actually changed. Returns the changes; nothing is written when
+-- there are none. Runs with the caller's rights, so RLS limits it to their
+-- own issues.
+CREATE OR REPLACE FUNCTION update_issue(
+  p_issue_id uuid,
+  p_updates jsonb,
+  p_changed_by text,
+  p_conversation_id uuid DEFAULT NULL,
+  p_resolution_note text DEFAULT NULL,
+  p_resolving_agreement_item_id uuid DEFAULT NULL,
+  p_resolving_message_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_old issues%ROWTYPE;
+  v_new issues%ROWTYPE;
+  v_changes jsonb;
+BEGIN
+  SELECT * INTO v_old FROM issues WHERE id = p_issue_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue not found';
+  END IF;
+
+  v_new := jsonb_populate_record(v_old, (
+    SELECT coalesce(jsonb_object_agg(key, value), '{}'::jsonb)
+    FROM jsonb_each(p_updates)
+    WHERE key IN ('title', 'description', 'status', 'priority')
+  ));
+  v_changes := issue_changes(to_jsonb(v_old), to_jsonb(v_new));
+  IF v_changes = '{}'::jsonb THEN
+    RETURN v_changes;
+  END IF;
+
+  UPDATE issues
+  SET title = v_new.title,
+      description = v_new.description,
+      status = v_new.status,
+      priority = v_new.priority,
+      updated_at = now()
+  WHERE id = p_issue_id;
+
+  PERFORM record_issue_history(
+    p_issue_id, v_changes, p_changed_by, p_conversation_id,
+    p_resolution_note, p_resolving_agreement_item_id, p_resolving_message_id
+  );
+
+  RETURN v_changes;
+END;
+$$;
+
+-- Merging now records the description it appends to the surviving issue
+CREATE OR REPLACE FUNCTION merge_issues(p_source_id uuid, p_target_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_source issues%ROWTYPE;
+  v_next_exhibit integer;
+  v_target_description text;
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge an issue into itself';
+  END IF;
+
+  SELECT * INTO v_source FROM issues WHERE id = p_source_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % not found', p_source_id;
+  END IF;
+  PERFORM 1 FROM issues WHERE id = p_target_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % not found', p_target_id;
+  END IF;
+
+  INSERT INTO message_issues (message_id, issue_id)
+  SELECT mi.message_id, p_target_id FROM message_issues mi
+  WHERE mi.issue_id = p_source_id
+    AND NOT EXISTS (SELECT 1 FROM message_issues t WHERE t.issue_id = p_target_id AND t.message_id = mi.message_id);
+  DELETE FROM message_issues WHERE issue_id = p_source_id;
+
+  INSERT INTO event_issues (event_id, issue_id)
+  SELECT ei.event_id, p_target_id FROM event_issues ei
+  WHERE ei.issue_id = p_source_id
+    AND NOT EXISTS (SELECT 1 FROM event_issues t WHERE t.issue_id = p_target_id AND t.event_id = ei.event_id);
+  DELETE FROM event_issues WHERE issue_id = p_source_id;
+
+  INSERT INTO issue_people (issue_id, person_id, involvement_type, contribution_type, contribution_description, contribution_valence, user_id)
+  SELECT p_target_id, ip.person_id, ip.involvement_type, ip.contribution_type, ip.contribution_description, ip.contribution_valence, ip.user_id
+  FROM issue_people ip
+  WHERE ip.issue_id = p_source_id
+    AND NOT EXISTS (SELECT 1 FROM issue_people t WHERE t.issue_id = p_target_id AND t.person_id = ip.person_id);
+  DELETE FROM issue_people WHERE issue_id = p_source_id;
+
+  INSERT INTO conversation_issue_links (conversation_id, issue_id, user_id, link_reason, created_at)
+  SELECT cil.conversation_id, p_target_id, cil.user_id, cil.link_reason, cil.created_at
+  FROM conversation_issue_links cil
+  WHERE cil.issue_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM conversation_issue_links t
+      WHERE t.issue_id = p_target_id AND t.conversation_id = cil.conversation_id AND t.user_id = cil.user_id
+    );
+  DELETE FROM conversation_issue_links WHERE issue_id = p_source_id;
+
+  -- Rule links
+  UPDATE legal_clause_links l SET target_id = p_target_id
+  WHERE l.target_type = 'issue' AND l.target_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM legal_clause_links t
+      WHERE t.target_type = 'issue' AND t.target_id = p_target_id AND t.legal_clause_id = l.legal_clause_id
+    );
+  DELETE FROM legal_clause_links WHERE target_type = 'issue' AND target_id = p_source_id;
+
+  UPDATE agreement_item_links l SET target_id = p_target_id
+  WHERE l.target_type = 'issue' AND l.target_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM agreement_item_links t
+      WHERE t.target_type = 'issue' AND t.target_id = p_target_id AND t.agreement_item_id = l.agreement_item_id
+    );
+  DELETE FROM agreement_item_links WHERE target_type = 'issue' AND target_id = p_source_id;
+
+  UPDATE exchange_log_links l SET target_id = p_target_id
+  WHERE l.target_type = 'issue' AND l.target_id = p_source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM exchange_log_links t
+      WHERE t.target_type = 'issue' AND t.target_id = p_target_id AND t.exchange_log_id = l.exchange_log_id
+    );
+  DELETE FROM exchange_log_links WHERE target_type = 'issue' AND target_id = p_source_id;
+
+  -- Exhibits keep their content hash but are numbered after the target's own
+  SELECT coalesce(max(exhibit_number), 0) INTO v_next_exhibit FROM issue_exhibits WHERE issue_id = p_target_id;
+  UPDATE issue_exhibits e SET issue_id = p_target_id, exhibit_number = v_next_exhibit + renumbered.position
+  FROM (
+    SELECT s.id, row_number() OVER (ORDER BY s.exhibit_number) AS position
+    FROM issue_exhibits s
+    WHERE s.issue_id = p_source_id
+      AND NOT EXISTS (SELECT 1 FROM issue_exhibits t WHERE t.issue_id = p_target_id AND t.message_id = s.message_id)
+  ) renumbered
+  WHERE e.id = renumbered.id;
+  DELETE FROM issue_exhibits WHERE issue_id = p_source_id;
+
+  UPDATE profile_notes SET issue_id = p_target_id WHERE issue_id = p_source_id;
+  UPDATE issue_history SET issue_id = p_target_id WHERE issue_id = p_source_id;
+
+  -- Hierarchy: the source's children move under the target. A child that is
+  -- the target or one of its ancestors takes the source's place instead, so
+  -- no cycle is formed.
+  UPDATE issues SET parent_issue_id = CASE
+    WHEN id IN (
+      WITH RECURSIVE ancestors AS (
+        SELECT i.id, i.parent_issue_id FROM issues i WHERE i.id = p_target_id
+        UNION
+        SELECT i.id, i.parent_issue_id FROM issues i JOIN ancestors a ON i.id = a.parent_issue_id
+      )
+      SELECT ancestors.id FROM ancestors
+    ) THEN v_source.parent_issue_id
+    ELSE p_target_id
+  END
+  WHERE parent_issue_id = p_source_id;
+
+  -- Dependencies, dropping any that would make the target block itself
+  INSERT INTO issue_dependencies (issue_id, blocked_by_issue_id, user_id)
+  SELECT p_target_id, d.blocked_by_issue_id, d.user_id FROM issue_dependencies d
+  WHERE d.issue_id = p_source_id AND d.blocked_by_issue_id <> p_target_id
+  ON CONFLICT (issue_id, blocked_by_issue_id) DO NOTHING;
+  INSERT INTO issue_dependencies (issue_id, blocked_by_issue_id, user_id)
+  SELECT d.issue_id, p_target_id, d.user_id FROM issue_dependencies d
+  WHERE d.blocked_by_issue_id = p_source_id AND d.issue_id <> p_target_id
+  ON CONFLICT (issue_id, blocked_by_issue_id) DO NOTHING;
+  DELETE FROM issue_dependencies WHERE issue_id = p_source_id OR blocked_by_issue_id = p_source_id;
+  UPDATE assistant_messages SET linked_target_id = p_target_id
+  WHERE linked_target_type = 'issue' AND linked_target_id = p_source_id;
+
+  -- Keep the merged issue's description on the survivor, with a history entry
+  IF coalesce(btrim(v_source.description), '') <> '' THEN
+    SELECT description INTO v_target_description FROM issues WHERE id = p_target_id;
+    PERFORM update_issue(
+      p_target_id,
+      jsonb_build_object('description', concat_ws(E'\n\n', nullif(btrim(v_target_description), ''),
+        format('Merged from "%s": %s', v_source.title, v_source.description))),
+      'user'
+    );
+  END IF;
+
+  -- Earlier merges into the source now point at the target
+  UPDATE issue_redirects SET to_issue_id = p_target_id WHERE to_issue_id = p_source_id;
+  INSERT INTO issue_redirects (from_issue_id, to_issue_id, merged_title, user_id)
+  VALUES (p_source_id, p_target_id, v_source.title, v_source.user_id);
+
+  DELETE FROM issues WHERE id = p_source_id;
+
+  RETURN p_target_id;
+END;
+$$;
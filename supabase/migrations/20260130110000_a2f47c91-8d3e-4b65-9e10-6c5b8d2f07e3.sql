@@ -0,0 +1,16 @@
+-- Messages exchanged between each pair of people, counted in either
+-- direction, for the relationship graph. Counted in the database so the
+-- client no longer reads every message. Runs with the caller's rights, so RLS
+-- limits it to their own messages.
+CREATE OR REPLACE FUNCTION count_message_pairs()
+RETURNS TABLE(person_a uuid, person_b uuid, message_count bigint)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT least(sender_id, receiver_id), greatest(sender_id, receiver_id), count(*)
+  FROM messages
+  WHERE sender_id IS NOT NULL AND receiver_id IS NOT NULL AND sender_id <> receiver_id
+  GROUP BY 1, 2
+  ORDER BY 3 DESC;
+$$;
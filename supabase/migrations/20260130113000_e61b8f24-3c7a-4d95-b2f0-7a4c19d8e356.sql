@@ -0,0 +1,38 @@
+-- Exhibit numbers are assigned in the database. Two packet builds for the
+-- same issue used to compute the next number on the client and collide on
+-- UNIQUE(issue_id, exhibit_number); the issue row lock now serialises them.
+-- p_exhibits: [{message_id, content_sha256}] in packet order. Messages that
+-- already have a number keep it; new ones are numbered after the highest.
+-- Repeat calls assign nothing new, so the result can be read in pages.
+-- Runs with the caller's rights, so RLS limits it to their own issues.
+CREATE OR REPLACE FUNCTION assign_issue_exhibits(p_issue_id uuid, p_exhibits jsonb)
+RETURNS TABLE(message_id uuid, exhibit_number integer, content_sha256 text)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_next integer;
+BEGIN
+  PERFORM 1 FROM issues WHERE id = p_issue_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % not found', p_issue_id;
+  END IF;
+
+  SELECT coalesce(max(e.exhibit_number), 0) INTO v_next FROM issue_exhibits e WHERE e.issue_id = p_issue_id;
+
+  INSERT INTO issue_exhibits (issue_id, message_id, exhibit_number, content_sha256)
+  SELECT p_issue_id, n.message_id, v_next + row_number() OVER (ORDER BY n.position), n.content_sha256
+  FROM (
+    SELECT (x.value->>'message_id')::uuid AS message_id, x.value->>'content_sha256' AS content_sha256, x.position
+    FROM jsonb_array_elements(p_exhibits) WITH ORDINALITY AS x(value, position)
+  ) n
+  WHERE NOT EXISTS (SELECT 1 FROM issue_exhibits e WHERE e.issue_id = p_issue_id AND e.message_id = n.message_id);
+
+  RETURN QUERY
+  SELECT e.message_id, e.exhibit_number, e.content_sha256
+  FROM issue_exhibits e
+  WHERE e.issue_id = p_issue_id
+    AND e.message_id IN (SELECT (x->>'message_id')::uuid FROM jsonb_array_elements(p_exhibits) x)
+  ORDER BY e.exhibit_number;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Progress of applying a run's result. Each section of the case file
+-- (analysis, issues, people, obligations, index) is recorded once written, so
+-- an apply that failed partway resumes with the remaining sections instead of
+-- writing the finished ones a second time.
+ALTER TABLE public.analysis_runs
+  ADD COLUMN IF NOT EXISTS applied_sections text[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.analysis_runs.applied_sections IS 'Sections of the result already written into the case file; skipped when the apply is retried';